@@ -0,0 +1,226 @@
+/**
+ * Draggy Notes service worker: caches the app shell for offline startup and flushes
+ * the sync queue with Background Sync once connectivity returns.
+ *
+ * While a page is open the leader tab is asked to sync, so notes go through the
+ * regular sync (including conflict handling). With no page open, the batch requests
+ * prepared by the page (the "outbox") are sent from here and the responses are
+ * stored for the page to apply. See src/services/sync/background-sync-service.ts;
+ * the names below mirror BACKGROUND_SYNC in src/constants/ui-constants.ts.
+ */
+
+const CACHE_PREFIX = 'draggy-notes-shell-';
+const CACHE_NAME = `${CACHE_PREFIX}v1`;
+const SHELL_URL = '/index.html';
+const SYNC_TAG = 'draggy-notes-queue';
+const DATABASE_NAME = 'draggy-notes-background-sync';
+const STORE_NAME = 'records';
+const OUTBOX_KEY = 'outbox';
+const RESULTS_KEY = 'results';
+/** How long an open page gets to answer a flush request (milliseconds) */
+const CLIENT_REPLY_TIMEOUT = 15000;
+const UNAUTHORIZED = 401;
+const CLIENT_ID_HEADER = 'X-Client-Id';
+
+// ===== APP SHELL =====
+
+// Cache index.html and the scripts and styles it references
+const precacheShell = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  const response = await fetch(SHELL_URL, { cache: 'no-cache' });
+  if (!response.ok) return;
+
+  const html = await response.clone().text();
+  await cache.put(SHELL_URL, response);
+
+  const assets = [...html.matchAll(/(?:src|href)="(\/[^"]+)"/g)]
+    .map(match => match[1])
+    .filter(path => path !== SHELL_URL);
+  await Promise.all(assets.map(path => cache.add(path).catch(error => console.warn(`Failed to cache ${path}:`, error))));
+};
+
+// Pages: network first, so deployments show up, with the cached shell when offline
+const handleNavigation = async request => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.put(SHELL_URL, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(SHELL_URL);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Built assets have hashed names and never change, so the cache wins
+const handleAsset = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok && response.type === 'basic') {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.startsWith('/assets/') || url.pathname === '/favicon.ico') {
+    event.respondWith(handleAsset(request));
+  }
+});
+
+// ===== BACKGROUND SYNC =====
+
+const requestToPromise = request => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionToPromise = transaction => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+const openDatabase = () => {
+  const request = indexedDB.open(DATABASE_NAME, 1);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME);
+    }
+  };
+  return requestToPromise(request);
+};
+
+const getRecord = (db, key) =>
+  requestToPromise(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key));
+
+// Save the responses so far and what is left of the outbox in one step
+const saveProgress = (db, results, outbox) => {
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  store.put(results, RESULTS_KEY);
+  if (outbox.requests.length > 0) {
+    store.put(outbox, OUTBOX_KEY);
+  } else {
+    store.delete(OUTBOX_KEY);
+  }
+  return transactionToPromise(transaction);
+};
+
+// Ask the open pages to sync; resolves with the leader's answer, or null on timeout
+const askClientsToFlush = clients => new Promise(resolve => {
+  const timer = setTimeout(() => resolve(null), CLIENT_REPLY_TIMEOUT);
+
+  clients.forEach(client => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = event => {
+      clearTimeout(timer);
+      resolve(event.data);
+    };
+    client.postMessage({ type: 'flushQueue' }, [channel.port2]);
+  });
+});
+
+// Send the outbox requests in order. A network failure keeps the rest for the next attempt.
+const sendOutbox = async () => {
+  const db = await openDatabase();
+  const outbox = await getRecord(db, OUTBOX_KEY);
+  if (!outbox || outbox.requests.length === 0) return false;
+
+  const stored = await getRecord(db, RESULTS_KEY);
+  const results = stored && stored.userId === outbox.userId ? stored : { userId: outbox.userId, responses: [] };
+  const remaining = { ...outbox, requests: [...outbox.requests] };
+
+  while (remaining.requests.length > 0) {
+    const request = remaining.requests[0];
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${outbox.token}`,
+        [CLIENT_ID_HEADER]: outbox.clientId,
+      },
+      body: request.body,
+    });
+
+    // The session expired - report it, but keep the outbox until the page has a new token
+    if (response.status === UNAUTHORIZED) {
+      console.warn('Background sync stopped: authentication failed');
+      results.responses.push({
+        action: request.action,
+        noteUuids: request.noteUuids,
+        operationIds: request.operationIds,
+        status: response.status,
+        result: null,
+      });
+      await saveProgress(db, results, remaining);
+      break;
+    }
+
+    const body = await response.json().catch(() => null);
+    results.responses.push({
+      action: request.action,
+      noteUuids: request.noteUuids,
+      operationIds: request.operationIds,
+      status: response.status,
+      result: response.ok && body && body.data ? body.data : null,
+    });
+    remaining.requests.shift();
+    await saveProgress(db, results, remaining);
+  }
+
+  return results.responses.length > 0;
+};
+
+const flushQueue = async () => {
+  const clients = await self.clients.matchAll({ type: 'window' });
+
+  if (clients.length > 0) {
+    const reply = await askClientsToFlush(clients);
+    if (reply && reply.type === 'queueFlushed') {
+      // Rejecting makes the browser try again later
+      if (reply.remaining > 0) throw new Error(`${reply.remaining} notes are still queued`);
+      return;
+    }
+  }
+
+  const hasResults = await sendOutbox();
+  if (hasResults) {
+    const openClients = await self.clients.matchAll({ type: 'window' });
+    openClients.forEach(client => client.postMessage({ type: 'backgroundSyncCompleted' }));
+  }
+};
+
+self.addEventListener('sync', event => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(flushQueue());
+  }
+});
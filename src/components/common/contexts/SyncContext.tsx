@@ -17,6 +17,10 @@ export const SyncProvider: React.FC<SyncProviderProps> = ({ children }) => {
 
   // Initialize sync system when app starts
   useEffect(() => {
+    // Coordinate with other open tabs before starting background sync
+    NotesSyncService.initializeTabSync();
+    NotesSyncService.initializeBackgroundSync();
+
     if (isAuthenticated) {
       NotesSyncService.handleUserLogin();
     }
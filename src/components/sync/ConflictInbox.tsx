@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from 'react';
+import { X, GitBranch, Copy, Check } from 'lucide-react';
+import { Note } from '@/domains/note';
+import { ConflictResolution, ConflictResolutionChoice, NoteConflict, NoteFieldConflict } from '@/types/sync.types';
+import { NoteMergeEngine } from '@/services/sync/merge-engine';
+import { formatDateDisplay } from '@/helpers/date-helper';
+import { describeRecurrence } from '@/helpers/recurrence-helper';
+import { CONFLICT, Z_INDEX } from '@/constants/ui-constants';
+import { toast } from '@/hooks/use-toast';
+
+interface ConflictInboxProps {
+  isOpen: boolean;
+  conflicts: NoteConflict[];
+  isResolving: boolean;
+  onClose: () => void;
+  onResolve: (conflict: NoteConflict, resolution: ConflictResolution) => Promise<boolean>;
+  onKeepBoth: (conflict: NoteConflict) => Promise<boolean>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  content: 'Content',
+  date: 'Date',
+  color: 'Color',
+  position: 'Position',
+  isPinned: 'Pinned',
+  isDisplayed: 'Displayed',
+  isTaskMode: 'Task mode',
+  isDeleted: 'Deleted',
+  recurrence: 'Repeat',
+  occurrenceCompletions: 'Completed occurrences',
+  width: 'Width',
+  height: 'Height',
+  frameUuid: 'Frame',
+  tags: 'Tags',
+};
+
+const truncate = (value: string): string =>
+  value.length > CONFLICT.MAX_VALUE_PREVIEW_LENGTH
+    ? `${value.slice(0, CONFLICT.MAX_VALUE_PREVIEW_LENGTH)}…`
+    : value;
+
+/**
+ * Render one side of a conflicting field as readable text
+ */
+const describeFieldValue = (note: Note, fieldConflict: NoteFieldConflict): string => {
+  switch (fieldConflict.field) {
+    case 'task': {
+      const task = (note.noteTasks || []).find(t => t.uuid === fieldConflict.taskUuid);
+      return task ? `${task.completed ? '☑' : '☐'} ${truncate(task.text)}` : '(task deleted)';
+    }
+    case 'date':
+      return formatDateDisplay(new Date(note.date));
+    case 'position':
+      return `x: ${Math.round(note.position.x)}, y: ${Math.round(note.position.y)}`;
+    case 'tags':
+      return (note.tags || []).map(tag => `#${tag.name}`).join(' ') || '(no tags)';
+    case 'recurrence':
+      return note.recurrence ? describeRecurrence(note.recurrence) : 'Does not repeat';
+    case 'occurrenceCompletions': {
+      const dates = Object.keys(note.occurrenceCompletions || {}).sort();
+      return dates.length > 0 ? `Tasks completed on ${dates.join(', ')}` : '(none)';
+    }
+    case 'width':
+    case 'height': {
+      const size = note[fieldConflict.field];
+      return size ? `${Math.round(size)}px` : 'Default size';
+    }
+    case 'frameUuid':
+      return note.frameUuid ? 'In a frame' : 'Not in a frame';
+    case 'isPinned':
+    case 'isDisplayed':
+    case 'isTaskMode':
+    case 'isDeleted':
+      return note[fieldConflict.field] ? 'Yes' : 'No';
+    default:
+      return truncate(String(note[fieldConflict.field] ?? '')) || '(empty)';
+  }
+};
+
+const getFieldLabel = (fieldConflict: NoteFieldConflict): string =>
+  fieldConflict.field === 'task' ? 'Task' : FIELD_LABELS[fieldConflict.field];
+
+export const ConflictInbox: React.FC<ConflictInboxProps> = ({
+  isOpen,
+  conflicts,
+  isResolving,
+  onClose,
+  onResolve,
+  onKeepBoth,
+}) => {
+  const [selectedUuid, setSelectedUuid] = useState<string | null>(null);
+  const [resolution, setResolution] = useState<ConflictResolution>({});
+
+  const selectedConflict = conflicts.find(conflict => conflict.noteUuid === selectedUuid) || conflicts[0] || null;
+
+  // Reset field choices when switching to another conflict
+  useEffect(() => {
+    setResolution({});
+  }, [selectedConflict?.noteUuid]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+    }
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const handleChoice = (fieldConflict: NoteFieldConflict, choice: ConflictResolutionChoice) => {
+    setResolution(prev => ({ ...prev, [NoteMergeEngine.getConflictKey(fieldConflict)]: choice }));
+  };
+
+  const handleApply = async () => {
+    if (!selectedConflict) return;
+    const resolved = await onResolve(selectedConflict, resolution);
+    toast({
+      title: resolved ? 'Conflict resolved' : 'Failed to resolve conflict',
+      description: resolved ? `"${selectedConflict.server.title}" will sync to all devices.` : 'Please try again.',
+      variant: resolved ? 'default' : 'destructive',
+    });
+  };
+
+  const handleKeepBoth = async () => {
+    if (!selectedConflict) return;
+    const resolved = await onKeepBoth(selectedConflict);
+    toast({
+      title: resolved ? 'Kept both versions' : 'Failed to keep both versions',
+      description: resolved ? 'Your local version was saved as a new note.' : 'Please try again.',
+      variant: resolved ? 'default' : 'destructive',
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center" style={{ zIndex: Z_INDEX.NOTE_DETAIL_MODAL }}>
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[90vw] max-w-4xl h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-2">
+            <GitBranch className="h-5 w-5 text-orange-500" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Sync conflicts ({conflicts.length})
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {conflicts.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-gray-500 dark:text-gray-400">
+            No conflicts - all notes merged cleanly.
+          </div>
+        ) : (
+          <div className="flex flex-1 overflow-hidden">
+            {/* Conflict list */}
+            <div className="w-64 border-r border-gray-200 dark:border-gray-700 overflow-y-auto">
+              {conflicts.map(conflict => (
+                <button
+                  key={conflict.noteUuid}
+                  onClick={() => setSelectedUuid(conflict.noteUuid)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 dark:border-gray-700 transition-colors ${
+                    selectedConflict?.noteUuid === conflict.noteUuid
+                      ? 'bg-blue-50 dark:bg-blue-900/30'
+                      : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: conflict.server.color }} />
+                    <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {conflict.server.title || 'Untitled'}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {conflict.fields.length} field{conflict.fields.length !== 1 ? 's' : ''} · {formatDateDisplay(new Date(conflict.detectedAt))}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Side-by-side field comparison */}
+            {selectedConflict && (
+              <div className="flex-1 flex flex-col overflow-hidden">
+                <div className="grid grid-cols-[8rem_1fr_1fr] gap-3 px-6 py-3 text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <span>Field</span>
+                  <span>This device</span>
+                  <span>Server</span>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-6 py-3 space-y-3">
+                  {selectedConflict.fields.map(fieldConflict => {
+                    const key = NoteMergeEngine.getConflictKey(fieldConflict);
+                    const choice = resolution[key] || 'server';
+
+                    return (
+                      <div key={key} className="grid grid-cols-[8rem_1fr_1fr] gap-3 items-stretch">
+                        <span className="text-sm font-medium text-gray-700 dark:text-gray-200 pt-2">
+                          {getFieldLabel(fieldConflict)}
+                        </span>
+                        {(['local', 'server'] as const).map(side => (
+                          <button
+                            key={side}
+                            onClick={() => handleChoice(fieldConflict, side)}
+                            className={`text-left text-sm p-2 rounded border whitespace-pre-wrap break-words transition-colors ${
+                              choice === side
+                                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-gray-900 dark:text-white'
+                                : 'border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-gray-400'
+                            }`}
+                          >
+                            {fieldConflict.field === 'color' && (
+                              <span
+                                className="inline-block w-3 h-3 rounded-full mr-2 align-middle"
+                                style={{ backgroundColor: selectedConflict[side].color }}
+                              />
+                            )}
+                            {describeFieldValue(selectedConflict[side], fieldConflict)}
+                          </button>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {/* Actions */}
+                <div className="flex justify-end gap-3 px-6 py-4 border-t border-gray-200 dark:border-gray-700">
+                  <button
+                    onClick={handleKeepBoth}
+                    disabled={isResolving}
+                    className="flex items-center gap-2 px-4 py-2 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+                    title="Keep the server version and save this device's version as a new note"
+                  >
+                    <Copy size={16} />
+                    Keep both
+                  </button>
+                  <button
+                    onClick={handleApply}
+                    disabled={isResolving}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {isResolving ? (
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                    ) : (
+                      <Check size={16} />
+                    )}
+                    Apply choices
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { X, Ban, RotateCcw, Trash2 } from 'lucide-react';
+import { DeadLetterItem } from '@/types/sync.types';
+import { NotesStorage } from '@/helpers/notes-storage';
+import { formatDateDisplay } from '@/helpers/date-helper';
+import { Z_INDEX } from '@/constants/ui-constants';
+
+interface DeadLetterPanelProps {
+  isOpen: boolean;
+  items: DeadLetterItem[];
+  onClose: () => void;
+  onRetry: (noteUuid: string) => void;
+  onDiscard: (noteUuid: string) => void;
+}
+
+const ACTION_LABELS: Record<DeadLetterItem['action'], string> = {
+  create: 'Create',
+  update: 'Update',
+  delete: 'Delete',
+};
+
+/**
+ * Lists the changes the server rejected, with the reason, so the user can send them
+ * again or stop trying. Discarded changes stay on this device.
+ */
+export const DeadLetterPanel: React.FC<DeadLetterPanelProps> = ({
+  isOpen,
+  items,
+  onClose,
+  onRetry,
+  onDiscard,
+}) => {
+  const [titles, setTitles] = useState<Record<string, string>>({});
+
+  // Look up note titles; purged notes only have their UUID
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let isCancelled = false;
+    Promise.all(items.map(async item => [item.noteUuid, (await NotesStorage.getNote(item.noteUuid))?.title || ''] as const))
+      .then(entries => {
+        if (!isCancelled) setTitles(Object.fromEntries(entries));
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [isOpen, items]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+    }
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center" style={{ zIndex: Z_INDEX.NOTE_DETAIL_MODAL }}>
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[90vw] max-w-lg max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-2">
+            <Ban className="h-5 w-5 text-red-500" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Not synced ({items.length})
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {items.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center p-8 text-gray-500 dark:text-gray-400">
+            The server accepted all changes.
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto">
+            <p className="px-6 pt-4 text-sm text-gray-600 dark:text-gray-300">
+              The server rejected these changes, so they are not sent again automatically.
+              They stay saved on this device.
+            </p>
+            {items.map(item => (
+              <div key={item.noteUuid} className="flex items-start gap-3 px-6 py-3 border-b border-gray-100 dark:border-gray-700">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                    {titles[item.noteUuid] || 'Untitled'}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                    {ACTION_LABELS[item.action]} · {formatDateDisplay(new Date(item.failedAt))}
+                    {item.errorStatus !== undefined && ` · HTTP ${item.errorStatus}`}
+                  </div>
+                  <div className="text-xs text-red-600 dark:text-red-400 mt-1 break-words">{item.reason}</div>
+                </div>
+                <button
+                  onClick={() => onRetry(item.noteUuid)}
+                  className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+                  title="Send again"
+                >
+                  <RotateCcw size={16} />
+                </button>
+                <button
+                  onClick={() => onDiscard(item.noteUuid)}
+                  className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+                  title="Stop trying to sync this change"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
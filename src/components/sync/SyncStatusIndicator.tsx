@@ -1,6 +1,10 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useSyncStatus } from '@/hooks/use-sync-status';
+import { useSyncConflicts } from '@/hooks/use-sync-conflicts';
 import { SYNC } from '@/constants/ui-constants';
+import { DeadLetterItem } from '@/types/sync.types';
+import { ConflictInbox } from './ConflictInbox';
+import { DeadLetterPanel } from './DeadLetterPanel';
 import { 
   WifiOff, 
   RefreshCw, 
@@ -8,7 +12,10 @@ import {
   AlertTriangle,
   CheckCircle,
   XCircle,
-  CloudOff
+  CloudOff,
+  GitBranch,
+  Ban,
+  LogIn
 } from 'lucide-react';
 
 interface SyncStatusIndicatorProps {
@@ -24,8 +31,22 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
     syncStatus, 
     triggerSync, 
     retryFailedItems, 
-    clearSyncErrors 
+    clearSyncErrors,
+    getDeadLetterItems,
+    retryDeadLetterItem,
+    discardDeadLetterItem
   } = useSyncStatus();
+  const { conflicts, isResolving, resolveConflict, keepBothVersions } = useSyncConflicts();
+  const [showConflictInbox, setShowConflictInbox] = useState(false);
+  const [showDeadLetters, setShowDeadLetters] = useState(false);
+  const [deadLetterItems, setDeadLetterItems] = useState<DeadLetterItem[]>([]);
+
+  // Refresh the rejected changes while they are shown
+  useEffect(() => {
+    if (showDeadLetters) {
+      setDeadLetterItems(getDeadLetterItems());
+    }
+  }, [showDeadLetters, syncStatus.deadLetterCount, getDeadLetterItems]);
 
   const getSyncStatusIcon = () => {
     if (!syncStatus.isAuthenticated) {
@@ -43,6 +64,14 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
         </div>
       );
     }
+
+    if (syncStatus.isQueuePaused) {
+      return (
+        <div title="Sign in again to sync">
+          <LogIn className="h-4 w-4 text-orange-500" />
+        </div>
+      );
+    }
     
     if (syncStatus.isSyncing) {
       return (
@@ -83,6 +112,10 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
     if (!syncStatus.isOnline) {
       return 'Offline - Changes saved locally';
     }
+
+    if (syncStatus.isQueuePaused) {
+      return 'Session expired - Sign in again to sync';
+    }
     
     if (syncStatus.isSyncing) {
       return 'Syncing...';
@@ -174,6 +207,30 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
           </button>
         )}
 
+        {/* Rejected Changes Button */}
+        {syncStatus.deadLetterCount > SYNC.DEFAULT_QUEUE_STATS.EMPTY_COUNT && (
+          <button
+            onClick={() => setShowDeadLetters(true)}
+            className="flex items-center gap-1 p-1 rounded hover:bg-gray-100 text-red-600"
+            title={`${syncStatus.deadLetterCount} change${syncStatus.deadLetterCount !== 1 ? 's' : ''} rejected by the server`}
+          >
+            <Ban className="h-3 w-3" />
+            <span className="text-xs font-medium">{syncStatus.deadLetterCount}</span>
+          </button>
+        )}
+
+        {/* Conflict Inbox Button */}
+        {conflicts.length > SYNC.DEFAULT_QUEUE_STATS.EMPTY_COUNT && (
+          <button
+            onClick={() => setShowConflictInbox(true)}
+            className="flex items-center gap-1 p-1 rounded hover:bg-gray-100 text-orange-600"
+            title={`${conflicts.length} note${conflicts.length !== 1 ? 's' : ''} with sync conflicts`}
+          >
+            <GitBranch className="h-3 w-3" />
+            <span className="text-xs font-medium">{conflicts.length}</span>
+          </button>
+        )}
+
         {/* Clear Errors Button */}
         {syncStatus.syncErrors.length > SYNC.DEFAULT_QUEUE_STATS.EMPTY_COUNT && (
           <button
@@ -196,9 +253,9 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
       {/* Sync Timer Status */}
       {showDetails && syncStatus.isAuthenticated && (
         <div className="flex items-center space-x-1">
-          <div className={`w-2 h-2 rounded-full ${syncStatus.isTimerActive ? 'bg-green-500' : 'bg-gray-300'}`} />
+          <div className={`w-2 h-2 rounded-full ${syncStatus.isTimerActive || !syncStatus.isLeaderTab ? 'bg-green-500' : 'bg-gray-300'}`} />
           <span className="text-xs text-gray-500">
-            Auto-sync {syncStatus.isTimerActive ? 'on' : 'off'}
+            {syncStatus.isLeaderTab ? `Auto-sync ${syncStatus.isTimerActive ? 'on' : 'off'}` : 'Auto-sync in another tab'}
           </span>
         </div>
       )}
@@ -224,6 +281,25 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
           ))}
         </div>
       )}
+
+      {/* Conflict Inbox */}
+      <ConflictInbox
+        isOpen={showConflictInbox}
+        conflicts={conflicts}
+        isResolving={isResolving}
+        onClose={() => setShowConflictInbox(false)}
+        onResolve={resolveConflict}
+        onKeepBoth={keepBothVersions}
+      />
+
+      {/* Rejected Changes */}
+      <DeadLetterPanel
+        isOpen={showDeadLetters}
+        items={deadLetterItems}
+        onClose={() => setShowDeadLetters(false)}
+        onRetry={retryDeadLetterItem}
+        onDiscard={discardDeadLetterItem}
+      />
     </div>
   );
 };
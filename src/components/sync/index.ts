@@ -1 +1,3 @@
 export { SyncStatusIndicator } from './SyncStatusIndicator';
+export { ConflictInbox } from './ConflictInbox';
+export { DeadLetterPanel } from './DeadLetterPanel';
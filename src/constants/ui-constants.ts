@@ -7,14 +7,18 @@
 
 // ===== NOTE CARD DIMENSIONS =====
 export const NOTE_CARD = {
+  /** Width of note cards that were never resized */
+  DEFAULT_WIDTH: 350,
   /** Minimum width for note cards */
-  MIN_WIDTH: 350,
+  MIN_WIDTH: 240,
   /** Minimum height for note cards */
   MIN_HEIGHT: 200,
   /** Maximum width for note cards */
-  MAX_WIDTH: 350,
+  MAX_WIDTH: 900,
   /** Maximum height for note cards (when not editing) */
   MAX_HEIGHT: 600,
+  /** Maximum height a note card can be resized to */
+  MAX_RESIZED_HEIGHT: 1200,
   /** Padding inside note cards (p-4 = 16px on each side) */
   PADDING: 16,
   /** Total horizontal padding (left + right) */
@@ -29,10 +33,6 @@ export const LAYOUT = {
   SIDEBAR_WIDTH: 280,
   /** Extra padding around notes in canvas */
   CANVAS_PADDING: 100,
-  /** Default canvas width when no notes */
-  DEFAULT_CANVAS_WIDTH: '80vw',
-  /** Default canvas height when no notes */
-  DEFAULT_CANVAS_HEIGHT: '100vh',
   /** Context menu minimum width */
   CONTEXT_MENU_MIN_WIDTH: 180,
 } as const;
@@ -51,18 +51,6 @@ export const DRAG = {
 export const TEXT = {
   /** Maximum title length before truncation */
   MAX_TITLE_LENGTH: 50,
-  /** Average characters per line in note content */
-  AVG_CHARS_PER_LINE: 40,
-  /** Average characters per line for truncation calculation */
-  AVG_CHARS_PER_LINE_TRUNCATION: 15,
-  /** Fallback character limit for note content */
-  FALLBACK_CHAR_LIMIT: 1000,
-  /** Minimum character limit */
-  MIN_CHAR_LIMIT: 100,
-  /** Average character width in pixels */
-  AVG_CHAR_WIDTH: 8,
-  /** Line height in pixels */
-  LINE_HEIGHT: 21,
   /** Maximum lines for task text display */
   MAX_TASK_LINES: 3,
   /** Line height for task text (in em) */
@@ -93,6 +81,8 @@ export const ANIMATION = {
 export const Z_INDEX = {
   /** Base z-index for notes */
   NOTE_BASE: 1,
+  /** Z-index for canvas controls (zoom buttons, minimap) */
+  CANVAS_CONTROLS: 20,
   /** Z-index for sidebar */
   SIDEBAR: 40,
   /** Z-index for note detail modal */
@@ -119,6 +109,16 @@ export const TASK_MODE = {
   INPUT_LINE_HEIGHT_PX: 16,
   /** Maximum task text length for tooltip */
   MAX_TASK_TEXT_LENGTH: 100,
+  /** Indentation per subtask level in pixels */
+  SUBTASK_INDENT_PX: 16,
+  /** Maximum nesting depth (0 = top level) */
+  MAX_SUBTASK_DEPTH: 3,
+  /** Flag colors per task priority */
+  PRIORITY_COLORS: {
+    high: '#ef4444',
+    medium: '#f59e0b',
+    low: '#3b82f6',
+  },
 } as const;
 
 // ===== VISUAL EFFECTS =====
@@ -172,6 +172,163 @@ export const GRID = {
   DOT_SIZE: 1,
   /** Canvas grid spacing */
   GRID_SIZE: 40,
+  /** Screen distance (in pixels) within which a dragged note lines up with a neighbour's edge or center */
+  GUIDE_SNAP_DISTANCE: 6,
+} as const;
+
+// ===== CANVAS VIEWPORT =====
+export const VIEWPORT = {
+  /** Default zoom level */
+  DEFAULT_ZOOM: 1,
+  /** Minimum zoom level */
+  MIN_ZOOM: 0.1,
+  /** Maximum zoom level */
+  MAX_ZOOM: 3,
+  /** Zoom multiplier for zoom in/out buttons */
+  ZOOM_STEP: 1.2,
+  /** Zoom change per wheel delta pixel (ctrl + wheel and trackpad pinch) */
+  WHEEL_ZOOM_SENSITIVITY: 0.002,
+  /** Maximum zoom level used by zoom-to-fit */
+  FIT_MAX_ZOOM: 1,
+  /** Minimap width in pixels */
+  MINIMAP_WIDTH: 200,
+  /** Minimap height in pixels */
+  MINIMAP_HEIGHT: 140,
+  /** Padding inside the minimap in pixels */
+  MINIMAP_PADDING: 8,
+} as const;
+
+// ===== SELECTION AND GROUP ACTIONS =====
+export const SELECTION = {
+  /** Pointer movement (in pixels) below which a canvas mouse press counts as a click */
+  CLICK_TOLERANCE: 3,
+  /** Colors offered by the group recolor action */
+  COLOR_PRESETS: ['#fde68a', '#fecaca', '#fed7aa', '#bbf7d0', '#bfdbfe', '#ddd6fe', '#fbcfe8', '#e5e7eb'],
+} as const;
+
+// ===== CONNECTORS =====
+export const CONNECTOR = {
+  /** Line color of connectors without a color of their own */
+  DEFAULT_COLOR: '#64748b',
+  /** Line colors offered in the connector editor */
+  COLOR_PRESETS: ['#64748b', '#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6'],
+  /** Line width in canvas units */
+  STROKE_WIDTH: 2,
+  /** Width of the invisible line that picks up clicks, in canvas units */
+  HIT_WIDTH: 14,
+  /** Length of arrowheads in canvas units */
+  ARROW_SIZE: 12,
+  /** Dash pattern of each line style */
+  DASH_ARRAYS: { solid: 'none', dashed: '8 6', dotted: '2 5' },
+  /** Maximum characters in a connector label */
+  MAX_LABEL_LENGTH: 80,
+} as const;
+
+// ===== FRAMES =====
+export const FRAME = {
+  /** Name given to new frames */
+  DEFAULT_NAME: 'New frame',
+  /** Size of a new empty frame in canvas pixels */
+  DEFAULT_WIDTH: 640,
+  DEFAULT_HEIGHT: 420,
+  /** Smallest size a frame can be resized to */
+  MIN_WIDTH: 240,
+  MIN_HEIGHT: 160,
+  /** Largest size a frame can be resized to */
+  MAX_WIDTH: 4000,
+  MAX_HEIGHT: 3000,
+  /** Height of the header, the only part shown while collapsed */
+  HEADER_HEIGHT: 40,
+  /** Space kept around the notes a frame is created from */
+  PADDING: 32,
+  /** Frame colors offered in the header */
+  COLOR_PRESETS: ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#64748b'],
+  /** Maximum characters in a frame name */
+  MAX_NAME_LENGTH: 60,
+} as const;
+
+// ===== AUTO LAYOUT =====
+export const AUTO_LAYOUT = {
+  /** Space between note cards placed by a layout command, in canvas pixels */
+  GAP: 24,
+  /** Space between the clusters of the cluster commands */
+  CLUSTER_GAP: 96,
+  /** Width to height ratio the grid and pack commands aim for */
+  TARGET_ASPECT_RATIO: 1.6,
+  /** How long notes glide to their new places (in milliseconds) */
+  ANIMATION_DURATION: 500,
+} as const;
+
+// ===== UNDO / REDO HISTORY =====
+export const HISTORY = {
+  /** Maximum undo steps kept per canvas date */
+  MAX_ENTRIES: 100,
+} as const;
+
+// ===== TRASH =====
+export const TRASH = {
+  /** Days a deleted note stays in the trash before it is purged automatically */
+  DEFAULT_AUTO_PURGE_DAYS: 30,
+  /** Auto-purge choices offered in the trash panel (0 = never) */
+  AUTO_PURGE_OPTIONS: [0, 7, 14, 30, 60, 90],
+  /** Milliseconds per day, used to compute the auto-purge cutoff */
+  MS_PER_DAY: 86400000,
+  /** Maximum characters of note content shown in a trash entry */
+  PREVIEW_LENGTH: 120,
+} as const;
+
+// ===== SEARCH =====
+export const SEARCH = {
+  /** Relevance weight of a match in the note title */
+  TITLE_WEIGHT: 3,
+  /** Relevance weight of a match in a tag name */
+  TAG_WEIGHT: 2,
+  /** Relevance weight of a match in the note content */
+  CONTENT_WEIGHT: 1,
+  /** Relevance weight of a match in a task */
+  TASK_WEIGHT: 1,
+  /** Score multiplier for words that only match by prefix (search-as-you-type) */
+  PREFIX_MATCH_FACTOR: 0.5,
+  /** Score added for each quoted phrase found in the note */
+  PHRASE_BONUS: 2,
+  /** Characters shown before the first match in a snippet */
+  SNIPPET_CONTEXT: 40,
+  /** Maximum snippet length in characters */
+  SNIPPET_LENGTH: 140,
+  /** Recent notes shown when the query is empty */
+  RECENT_NOTES_LIMIT: 10,
+  /** Delay before asking the server when the local index finds nothing (ms) */
+  SERVER_SEARCH_DEBOUNCE: 400,
+} as const;
+
+// ===== DUE DATES AND REMINDERS =====
+export const REMINDERS = {
+  /** How often due reminders are checked (ms) */
+  CHECK_INTERVAL: 30000,
+  /** Reminders missed for longer than this, e.g. while the app was closed, are not delivered (ms) */
+  MAX_LATE_DELIVERY: 86400000,
+  /** Days ahead covered by the upcoming list in the calendar sidebar */
+  UPCOMING_DAYS: 7,
+  /** Maximum entries shown in the upcoming list */
+  UPCOMING_LIMIT: 8,
+  /** Reminder choices in minutes before the due time (0 = at the due time) */
+  OFFSET_OPTIONS: [0, 5, 15, 30, 60, 1440],
+  /** Reminder used when a due date is first set */
+  DEFAULT_OFFSET: 15,
+} as const;
+
+// ===== EXPORT AND IMPORT =====
+export const EXPORT = {
+  /** Version written to JSON archives; the importer accepts this version and older */
+  ARCHIVE_VERSION: 1,
+  /** Prefix of exported file names */
+  FILENAME_PREFIX: 'draggy-notes',
+  /** Maximum characters of a note title used in Markdown file names */
+  MAX_FILENAME_TITLE_LENGTH: 40,
+  /** Largest archive accepted by the importer (bytes) */
+  MAX_IMPORT_SIZE: 20 * 1024 * 1024,
+  /** Validation problems listed in the import error message */
+  MAX_REPORTED_ERRORS: 5,
 } as const;
 
 // ===== CONTENT LIMITS =====
@@ -216,10 +373,23 @@ export const SYNC = {
   /** Auto-sync interval in milliseconds (5 minutes) */
   // AUTO_SYNC_INTERVAL: 5 * 60 * 1000,
   AUTO_SYNC_INTERVAL: 1 * 10 * 1000,
-  /** Maximum retry count before moving to retry queue */
-  MAX_RETRY_COUNT: 3,
+  /** Maximum transient failures before moving to retry queue */
+  MAX_RETRY_COUNT: 5,
   /** Delay before retrying failed items (24 hours) */
   RETRY_DELAY: 24 * 60 * 60 * 1000,
+  /** Exponential backoff after transient failures */
+  BACKOFF: {
+    /** Delay after the first failure (milliseconds) */
+    BASE_DELAY: 15 * 1000,
+    /** Longest delay between attempts (10 minutes) */
+    MAX_DELAY: 10 * 60 * 1000,
+    /** Share of the delay that is randomized, so clients don't retry in step */
+    JITTER: 0.5,
+  },
+  /** Client error statuses that are still worth retrying (timeout, too early, rate limited) */
+  TRANSIENT_STATUS_CODES: [408, 425, 429],
+  /** Changes requested per page during delta sync */
+  DELTA_PAGE_SIZE: 200,
   /** Maximum number of recent sync errors to keep */
   MAX_RECENT_ERRORS: 10,
   /** Maximum number of errors to show in details */
@@ -266,16 +436,75 @@ export const SYNC = {
   },
 } as const;
 
+// ===== CONFLICT RESOLUTION =====
+export const CONFLICT = {
+  /** Offset of the duplicated note when keeping both versions (in pixels) */
+  DUPLICATE_OFFSET: 40,
+  /** Maximum characters of a field value shown in the conflict inbox */
+  MAX_VALUE_PREVIEW_LENGTH: 300,
+} as const;
+
+// ===== CROSS-TAB SYNC =====
+export const TABS = {
+  /** BroadcastChannel shared by all tabs of the app */
+  CHANNEL_NAME: 'draggy-notes-tabs',
+  /** Web Lock held by the leader tab for as long as it is open */
+  LEADER_LOCK_NAME: 'draggy-notes-leader',
+  /** localStorage key used to pass messages when BroadcastChannel is unavailable */
+  MESSAGE_STORAGE_KEY: 'draggy-notes-tab-message',
+  /** Delay for batching note change notifications (milliseconds) */
+  CHANGE_BATCH_DELAY: 100,
+} as const;
+
+// ===== BACKGROUND SYNC =====
+// public/sw.js cannot import these; keep its copies in step
+export const BACKGROUND_SYNC = {
+  /** Service worker script, served from the site root */
+  SERVICE_WORKER_URL: '/sw.js',
+  /** Background Sync tag used to flush the sync queue */
+  SYNC_TAG: 'draggy-notes-queue',
+  /** IndexedDB database shared with the service worker */
+  DATABASE_NAME: 'draggy-notes-background-sync',
+  /** Object store holding the outbox and results records */
+  STORE_NAME: 'records',
+  /** Key of the batch requests prepared for the service worker */
+  OUTBOX_KEY: 'outbox',
+  /** Key of the responses received by the service worker */
+  RESULTS_KEY: 'results',
+} as const;
+
+// ===== SHARED CANVASES =====
+export const COLLABORATION = {
+  /** Minimum time between cursor updates sent to the hub (milliseconds) */
+  CURSOR_THROTTLE: 50,
+  /** Minimum time between drag preview updates sent to the hub (milliseconds) */
+  DRAG_PREVIEW_THROTTLE: 50,
+  /** Remote cursors that have not moved for this long are hidden (milliseconds) */
+  CURSOR_IDLE_TIMEOUT: 10 * 1000,
+  /** Viewer avatars shown before the rest are summed up as +N */
+  MAX_VISIBLE_AVATARS: 4,
+  /** Colors of remote cursors and lock highlights, picked per client */
+  VIEWER_COLORS: ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316'],
+} as const;
+
 // ===== API CONSTANTS =====
 export const API = {
   /** HTTP Status Codes */
   STATUS_CODES: {
     /** Success - No Content */
     NO_CONTENT: 204,
+    /** Client Error - Bad Request (lowest client error status) */
+    BAD_REQUEST: 400,
     /** Client Error - Unauthorized */
     UNAUTHORIZED: 401,
+    /** Client Error - Forbidden (e.g. a viewer editing a shared canvas) */
+    FORBIDDEN: 403,
     /** Client Error - Not Found */
     NOT_FOUND: 404,
+    /** Client Error - Conflict (shared note changed since the version edited) */
+    CONFLICT: 409,
+    /** Client Error - Gone (sync cursor older than the server's change history) */
+    GONE: 410,
     /** Server Error - Internal Server Error */
     INTERNAL_SERVER_ERROR: 500,
   },
@@ -291,6 +520,8 @@ export const API = {
     /** Index of payload section in JWT token (split by '.') */
     PAYLOAD_INDEX: 1,
   },
+  /** Header carrying the client id, echoed back in real-time events */
+  CLIENT_ID_HEADER: 'X-Client-Id',
 } as const;
 
 // ===== QUEUE CONSTANTS =====
@@ -0,0 +1,29 @@
+import { BaseEntity } from './base-entity';
+
+export type ConnectorLineStyle = 'solid' | 'dashed' | 'dotted';
+
+// Where arrowheads are drawn: none (plain line), at the target note, or at both notes
+export type ConnectorArrowHead = 'none' | 'end' | 'both';
+
+/**
+ * A line or arrow drawn between two notes on the canvas
+ */
+export interface Connector extends BaseEntity {
+  uuid: string;
+  fromNoteUuid: string;
+  toNoteUuid: string;
+  label?: string | null;
+  lineStyle: ConnectorLineStyle;
+  arrowHead: ConnectorArrowHead;
+  color?: string | null; // Line color (null = default)
+  userId: number;
+  isDeleted: boolean;
+  deletedAt?: Date | null;
+  deletedWithNote?: boolean; // Removed because one of its notes was deleted, so it comes back with it (local only)
+
+  // sync properties
+  syncVersion: number;
+  localVersion: number;
+  lastSyncedAt: Date;
+  clientUpdatedAt?: Date;
+}
@@ -0,0 +1,27 @@
+import { BaseEntity } from './base-entity';
+
+/**
+ * A named, coloured region of a date canvas that groups the notes dropped into it
+ */
+export interface Frame extends BaseEntity {
+  uuid: string;
+  name: string;
+  color: string;
+  date: Date; // Canvas date the frame is on
+  position: {
+    x: number;
+    y: number;
+  };
+  width: number; // Size in canvas pixels
+  height: number;
+  isCollapsed: boolean; // Only the header is shown and its notes are hidden
+  userId: number;
+  isDeleted: boolean;
+  deletedAt?: Date | null;
+
+  // sync properties
+  syncVersion: number;
+  localVersion: number;
+  lastSyncedAt: Date;
+  clientUpdatedAt?: Date;
+}
@@ -1,6 +1,9 @@
 export * from './base-entity';
 export * from './user';
 export * from './note';
+export * from './connector';
+export * from './frame';
+export * from './recurrence';
 export * from './noteTask';
 export * from './tag';
 export * from './client-device-info';
@@ -1,6 +1,7 @@
 import { BaseEntity } from './base-entity';
 import { NoteTask } from "./noteTask";
 import { Tag } from "./tag";
+import { RecurrenceRule } from './recurrence';
 
 export interface Note extends BaseEntity {
   uuid: string;
@@ -19,6 +20,15 @@ export interface Note extends BaseEntity {
   userId: number;
   tags?: Tag[] | null;
   isDeleted: boolean;
+  deletedAt?: Date | null; // When the note was moved to the trash (local only)
+  recurrence?: RecurrenceRule | null; // Repeats the note from `date` on
+  occurrenceCompletions?: Record<string, string[]> | null; // Completed task UUIDs per occurrence date (YYYY-MM-DD)
+  occurrenceDate?: Date | null; // Set on materialized occurrences of a recurring note, never stored
+  dueDate?: Date | null; // Optional due date-time, independent of the canvas `date`
+  reminderMinutes?: number | null; // Remind this many minutes before dueDate (null = no reminder)
+  width?: number | null; // Card width set by resizing, in canvas pixels (null = default width)
+  height?: number | null; // Card height set by resizing, in canvas pixels (null = fit the content)
+  frameUuid?: string | null; // Frame the note was dropped into (null = not in a frame)
 
   // sync properties
   syncVersion: number;
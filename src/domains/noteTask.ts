@@ -1,8 +1,16 @@
 import { BaseEntity } from './base-entity';
 
+export type TaskPriority = 'low' | 'medium' | 'high';
+
 export interface NoteTask extends BaseEntity {
     uuid: string;
     text: string;
     completed: boolean;
     noteId: number;
+    dueDate?: Date | null; // Optional due date-time
+    reminderMinutes?: number | null; // Remind this many minutes before dueDate (null = no reminder)
+    order?: number; // Position in the note's task list (depth-first, parents before their subtasks)
+    parentUuid?: string | null; // Parent task for subtasks (null = top level)
+    priority?: TaskPriority | null;
+    assignee?: string | null;
 }
\ No newline at end of file
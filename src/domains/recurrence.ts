@@ -0,0 +1,16 @@
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * Repeat rule of a recurring note, modeled on iCalendar RRULE
+ * (FREQ, INTERVAL, BYDAY, BYMONTHDAY, UNTIL, COUNT plus EXDATE).
+ * The note's `date` is the first occurrence. Dates are YYYY-MM-DD keys.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Repeat every N days/weeks/months/years
+  byWeekday?: number[] | null; // 0 = Sunday ... 6 = Saturday
+  byMonthDay?: number | null; // Day of the month, negative counts from the end (-1 = last day)
+  until?: string | null; // Last possible occurrence date
+  count?: number | null; // Maximum number of occurrences
+  exceptions?: string[] | null; // Skipped occurrence dates
+}
@@ -1,13 +1,21 @@
 import { useState, useMemo } from 'react';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { ChevronLeft, ChevronRight, AlarmClock } from 'lucide-react';
 import { Note } from '@/domains/note';
+import { DueItem } from '@/types/reminder.types';
 import { formatDateKey, generateCalendarDays } from '@/helpers/date-helper';
 import { getDateColor, goToPreviousMonth, goToNextMonth } from '@/helpers/calendar-helper';
+import { occursOn } from '@/helpers/recurrence-helper';
+import { formatDueDate, getUpcomingDueItems, isPastDue } from '@/helpers/due-date-helper';
+import { REMINDERS } from '@/constants/ui-constants';
 
 interface CalendarSidebarProps {
   allNotes: Note[];
   selectedDate: Date;
   onDateSelect: (date: Date) => void;
+  /** Called when an entry of the upcoming list is clicked */
+  onOpenDueItem?: (item: DueItem) => void;
+  /** Current time for the upcoming list and overdue highlighting */
+  now?: Date;
 }
 
 interface DayInfo {
@@ -19,17 +27,17 @@ interface DayInfo {
   isCurrentMonth: boolean;
 }
 
-export const CalendarSidebar = ({ allNotes, selectedDate, onDateSelect }: CalendarSidebarProps) => {
+export const CalendarSidebar = ({ allNotes, selectedDate, onDateSelect, onOpenDueItem, now }: CalendarSidebarProps) => {
   const [currentMonth, setCurrentMonth] = useState(new Date(selectedDate.getFullYear(), selectedDate.getMonth(), 1));
   const [hoveredDay, setHoveredDay] = useState<DayInfo | null>(null);
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
 
-  // Get notes grouped by date (excluding deleted notes)
+  // Get notes grouped by date (excluding deleted and recurring notes)
   const notesByDate = useMemo(() => {
     const groups: Record<string, Note[]> = {};
     allNotes.forEach(note => {
       // Skip deleted notes
-      if (note.isDeleted) return;
+      if (note.isDeleted || note.recurrence) return;
       
       const dateKey = formatDateKey(note.date);
       if (!groups[dateKey]) {
@@ -40,13 +48,26 @@ export const CalendarSidebar = ({ allNotes, selectedDate, onDateSelect }: Calend
     return groups;
   }, [allNotes]);
 
+  // Recurring notes count on every date they occur
+  const recurringNotes = useMemo(() => {
+    return allNotes.filter(note => !note.isDeleted && note.recurrence);
+  }, [allNotes]);
+
+  // Overdue items and items due in the next days
+  const upcomingItems = useMemo(() => {
+    return getUpcomingDueItems(allNotes, REMINDERS.UPCOMING_DAYS, now);
+  }, [allNotes, now]);
+
   // Generate calendar days
   const calendarDays = useMemo(() => {
     const baseDays = generateCalendarDays(currentMonth, selectedDate);
     
     return baseDays.map(day => {
       const dateKey = formatDateKey(day.date);
-      const dayNotes = notesByDate[dateKey] || [];
+      const dayNotes = [
+        ...(notesByDate[dateKey] || []),
+        ...recurringNotes.filter(note => occursOn(note, day.date))
+      ];
       
       return {
         ...day,
@@ -54,7 +75,7 @@ export const CalendarSidebar = ({ allNotes, selectedDate, onDateSelect }: Calend
         notes: dayNotes
       } as DayInfo;
     });
-  }, [currentMonth, notesByDate, selectedDate]);
+  }, [currentMonth, notesByDate, recurringNotes, selectedDate]);
 
   const handlePreviousMonth = () => {
     setCurrentMonth(goToPreviousMonth(currentMonth));
@@ -142,6 +163,45 @@ export const CalendarSidebar = ({ allNotes, selectedDate, onDateSelect }: Calend
         ))}
       </div>
 
+      {/* Upcoming due dates */}
+      <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+        <h4 className="flex items-center gap-1 mb-2 text-xs font-semibold text-gray-600 dark:text-gray-300">
+          <AlarmClock size={12} />
+          Upcoming
+        </h4>
+        {upcomingItems.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400 italic">
+            Nothing due in the next {REMINDERS.UPCOMING_DAYS} days
+          </p>
+        ) : (
+          <div className="space-y-0.5">
+            {upcomingItems.slice(0, REMINDERS.UPCOMING_LIMIT).map(item => {
+              const isOverdue = isPastDue(item.dueDate, item.completed, now);
+              return (
+                <button
+                  key={item.key}
+                  onClick={() => onOpenDueItem?.(item)}
+                  className="w-full flex items-center justify-between gap-2 px-1 py-0.5 text-xs text-left rounded hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors cursor-pointer"
+                  title={item.taskUuid ? `${item.title} (${item.noteTitle})` : item.title}
+                >
+                  <span className="truncate text-gray-800 dark:text-gray-200">
+                    {item.taskUuid && '☐ '}{item.title}
+                  </span>
+                  <span className={`flex-shrink-0 ${isOverdue ? 'text-red-600 dark:text-red-400 font-medium' : 'text-gray-500 dark:text-gray-400'}`}>
+                    {formatDueDate(item.dueDate, now)}
+                  </span>
+                </button>
+              );
+            })}
+            {upcomingItems.length > REMINDERS.UPCOMING_LIMIT && (
+              <div className="px-1 text-xs text-gray-400">
+                ... and {upcomingItems.length - REMINDERS.UPCOMING_LIMIT} more
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Tooltip */}
       {hoveredDay && (
         <div
@@ -158,7 +218,7 @@ export const CalendarSidebar = ({ allNotes, selectedDate, onDateSelect }: Calend
           <div className="space-y-1 max-h-32 overflow-y-auto">
             {hoveredDay.notes.slice(0, 5).map(note => (
               <div key={note.uuid} className="text-xs text-gray-200 truncate">
-                • {note.title}
+                • {note.title}{note.recurrence && ' ↻'}
               </div>
             ))}
             {hoveredDay.notes.length > 5 && (
@@ -0,0 +1,163 @@
+import React, { useRef, useState, useEffect, useCallback } from 'react';
+import { ZoomIn, ZoomOut, Maximize, Magnet } from 'lucide-react';
+import { Note } from '@/domains/note';
+import { CanvasBounds, getNoteSize, getNotesBounds, unionBounds } from '@/helpers/viewport-helper';
+import { LAYOUT, VIEWPORT, Z_INDEX } from '@/constants/ui-constants';
+
+interface CanvasMinimapProps {
+  notes: Note[];
+  visibleBounds: CanvasBounds;
+  zoom: number;
+  onNavigate: (point: { x: number; y: number }) => void;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onResetZoom: () => void;
+  onZoomToFit: () => void;
+  isSnapEnabled: boolean;
+  onToggleSnap: () => void;
+}
+
+export const CanvasMinimap: React.FC<CanvasMinimapProps> = ({
+  notes,
+  visibleBounds,
+  zoom,
+  onNavigate,
+  onZoomIn,
+  onZoomOut,
+  onResetZoom,
+  onZoomToFit,
+  isSnapEnabled,
+  onToggleSnap,
+}) => {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const [isNavigating, setIsNavigating] = useState(false);
+
+  // The minimap shows every note plus the visible area, whichever is larger
+  const notesBounds = getNotesBounds(notes);
+  const world = notesBounds ? unionBounds(notesBounds, visibleBounds) : visibleBounds;
+
+  const innerWidth = VIEWPORT.MINIMAP_WIDTH - VIEWPORT.MINIMAP_PADDING * 2;
+  const innerHeight = VIEWPORT.MINIMAP_HEIGHT - VIEWPORT.MINIMAP_PADDING * 2;
+  const scale = Math.min(innerWidth / Math.max(1, world.width), innerHeight / Math.max(1, world.height));
+  const offsetX = VIEWPORT.MINIMAP_PADDING + (innerWidth - world.width * scale) / 2;
+  const offsetY = VIEWPORT.MINIMAP_PADDING + (innerHeight - world.height * scale) / 2;
+
+  const toMinimapRect = (bounds: CanvasBounds) => ({
+    left: offsetX + (bounds.x - world.x) * scale,
+    top: offsetY + (bounds.y - world.y) * scale,
+    width: bounds.width * scale,
+    height: bounds.height * scale,
+  });
+
+  // Center the canvas on the clicked minimap point
+  const navigateTo = useCallback((clientX: number, clientY: number) => {
+    const rect = mapRef.current?.getBoundingClientRect();
+    if (!rect) return;
+
+    onNavigate({
+      x: world.x + (clientX - rect.left - offsetX) / scale,
+      y: world.y + (clientY - rect.top - offsetY) / scale,
+    });
+  }, [onNavigate, world.x, world.y, offsetX, offsetY, scale]);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsNavigating(true);
+    navigateTo(e.clientX, e.clientY);
+  };
+
+  useEffect(() => {
+    if (!isNavigating) return;
+
+    const handleMouseMove = (e: MouseEvent) => navigateTo(e.clientX, e.clientY);
+    const handleMouseUp = () => setIsNavigating(false);
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isNavigating, navigateTo]);
+
+  const viewportRect = toMinimapRect(visibleBounds);
+
+  return (
+    <div
+      className="fixed bottom-8 ml-8 flex flex-col gap-2 bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-2"
+      style={{ left: LAYOUT.SIDEBAR_WIDTH, zIndex: Z_INDEX.CANVAS_CONTROLS }}
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      {/* Minimap */}
+      <div
+        ref={mapRef}
+        className="relative overflow-hidden rounded bg-gray-50 dark:bg-gray-900 cursor-pointer"
+        style={{ width: VIEWPORT.MINIMAP_WIDTH, height: VIEWPORT.MINIMAP_HEIGHT }}
+        onMouseDown={handleMouseDown}
+        title="Click or drag to navigate"
+      >
+        {notes.map(note => {
+          const size = getNoteSize(note.uuid);
+          const rect = toMinimapRect({ x: note.position.x, y: note.position.y, ...size });
+          return (
+            <div
+              key={note.uuid}
+              className="absolute rounded-sm border border-black/10"
+              style={{ ...rect, backgroundColor: note.color }}
+            />
+          );
+        })}
+        <div
+          className="absolute border-2 border-blue-500 bg-blue-500/10 rounded-sm pointer-events-none"
+          style={viewportRect}
+        />
+      </div>
+
+      {/* Zoom controls */}
+      <div className="flex items-center justify-between text-gray-700 dark:text-gray-300">
+        <button
+          onClick={onZoomOut}
+          disabled={zoom <= VIEWPORT.MIN_ZOOM}
+          className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          title="Zoom out"
+        >
+          <ZoomOut size={16} />
+        </button>
+        <button
+          onClick={onResetZoom}
+          className="px-2 py-1 rounded text-xs font-medium tabular-nums hover:bg-gray-100 dark:hover:bg-gray-700"
+          title="Reset zoom to 100%"
+        >
+          {Math.round(zoom * 100)}%
+        </button>
+        <button
+          onClick={onZoomIn}
+          disabled={zoom >= VIEWPORT.MAX_ZOOM}
+          className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          title="Zoom in"
+        >
+          <ZoomIn size={16} />
+        </button>
+        <button
+          onClick={onZoomToFit}
+          className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+          title="Zoom to fit all notes"
+        >
+          <Maximize size={16} />
+        </button>
+        <button
+          onClick={onToggleSnap}
+          className={`p-1 rounded ${
+            isSnapEnabled
+              ? 'bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300'
+              : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+          }`}
+          title={isSnapEnabled ? 'Snap to grid: on' : 'Snap to grid: off'}
+        >
+          <Magnet size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { CanvasViewer } from '@/types/collaboration.types';
+import { getInitials, getViewerColor } from '@/helpers/collaboration-helper';
+import { SessionManager } from '@/helpers/session-manager';
+import { COLLABORATION } from '@/constants/ui-constants';
+
+interface CanvasPresenceProps {
+  viewers: CanvasViewer[];
+}
+
+const ROLE_LABELS: Record<CanvasViewer['role'], string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+/**
+ * Avatars of the teammates viewing the shared canvas, ringed in their cursor color
+ */
+export const CanvasPresence: React.FC<CanvasPresenceProps> = ({ viewers }) => {
+  const clientId = SessionManager.getClientId();
+  const others = viewers.filter(viewer => viewer.clientId !== clientId);
+  if (others.length === 0) return null;
+
+  const visible = others.slice(0, COLLABORATION.MAX_VISIBLE_AVATARS);
+  const hidden = others.slice(COLLABORATION.MAX_VISIBLE_AVATARS);
+
+  return (
+    <div className="flex items-center -space-x-2 px-2 py-1 bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+      {visible.map(viewer => (
+        <div
+          key={viewer.clientId}
+          className="h-8 w-8 rounded-full border-2 bg-gray-200 dark:bg-gray-600 flex items-center justify-center overflow-hidden text-xs font-semibold text-gray-700 dark:text-gray-100"
+          style={{ borderColor: getViewerColor(viewer.clientId) }}
+          title={`${viewer.displayName} · ${ROLE_LABELS[viewer.role]}`}
+        >
+          {viewer.photoUrl ? (
+            <img src={viewer.photoUrl} alt={viewer.displayName} className="h-full w-full object-cover" referrerPolicy="no-referrer" />
+          ) : (
+            getInitials(viewer.displayName)
+          )}
+        </div>
+      ))}
+      {hidden.length > 0 && (
+        <div
+          className="h-8 w-8 rounded-full border-2 border-white dark:border-gray-800 bg-gray-300 dark:bg-gray-700 flex items-center justify-center text-xs font-semibold text-gray-700 dark:text-gray-200"
+          title={hidden.map(viewer => viewer.displayName).join(', ')}
+        >
+          +{hidden.length}
+        </div>
+      )}
+    </div>
+  );
+};
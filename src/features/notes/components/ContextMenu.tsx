@@ -1,5 +1,5 @@
 import React, { useEffect, useRef } from 'react';
-import { ChevronRightIcon, ChevronLeftIcon, Eye } from 'lucide-react';
+import { ChevronRightIcon, ChevronLeftIcon, Eye, CalendarX } from 'lucide-react';
 
 interface ContextMenuProps {
   x: number;
@@ -10,6 +10,8 @@ interface ContextMenuProps {
   onMoveToYesterday: () => void;
   onViewDetail?: () => void;
   showViewDetail?: boolean;
+  /** Shown instead of the move items for occurrences of a recurring note */
+  onSkipOccurrence?: () => void;
 }
 
 export const ContextMenu: React.FC<ContextMenuProps> = ({
@@ -21,6 +23,7 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
   onMoveToYesterday,
   onViewDetail,
   showViewDetail = false,
+  onSkipOccurrence,
 }) => {
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -77,26 +80,41 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
         </button>
       )}
       {showViewDetail && <div className="border-t border-gray-200 dark:border-gray-600 my-1" />}
-      <button
-        onClick={() => {
-          onMoveToTomorrow();
-          onClose();
-        }}
-        className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors flex items-center gap-2"
-      >
-        <ChevronRightIcon size={16} />
-        Move to tomorrow
-      </button>
-      <button
-        onClick={() => {
-          onMoveToYesterday();
-          onClose();
-        }}
-        className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors flex items-center gap-2"
-      >
-        <ChevronLeftIcon size={16} />
-        Move to yesterday
-      </button>
+      {onSkipOccurrence ? (
+        <button
+          onClick={() => {
+            onSkipOccurrence();
+            onClose();
+          }}
+          className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors flex items-center gap-2"
+        >
+          <CalendarX size={16} />
+          Skip this occurrence
+        </button>
+      ) : (
+        <>
+          <button
+            onClick={() => {
+              onMoveToTomorrow();
+              onClose();
+            }}
+            className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors flex items-center gap-2"
+          >
+            <ChevronRightIcon size={16} />
+            Move to tomorrow
+          </button>
+          <button
+            onClick={() => {
+              onMoveToYesterday();
+              onClose();
+            }}
+            className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors flex items-center gap-2"
+          >
+            <ChevronLeftIcon size={16} />
+            Move to yesterday
+          </button>
+        </>
+      )}
     </div>
   );
 };
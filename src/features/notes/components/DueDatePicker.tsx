@@ -0,0 +1,132 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AlarmClock } from 'lucide-react';
+import { cn } from '@/styles/utils';
+import {
+  formatDueDate,
+  formatReminderOffset,
+  isPastDue,
+  requestReminderPermission,
+  toDateTimeInputValue,
+} from '@/helpers/due-date-helper';
+import { REMINDERS } from '@/constants/ui-constants';
+
+interface DueDatePickerProps {
+  dueDate: Date | null | undefined;
+  reminderMinutes: number | null | undefined;
+  onChange: (dueDate: Date | null, reminderMinutes: number | null) => void;
+  /** Whether the item is done, so a past due date is not shown as overdue */
+  completed?: boolean;
+  /** Icon-only trigger when no due date is set (task rows) */
+  compact?: boolean;
+}
+
+export const DueDatePicker: React.FC<DueDatePickerProps> = ({
+  dueDate,
+  reminderMinutes,
+  onChange,
+  completed = false,
+  compact = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const pickerRef = useRef<HTMLDivElement>(null);
+  const isOverdue = isPastDue(dueDate, completed);
+  // Keep offsets set elsewhere (e.g. another client) selectable
+  const offsetOptions: number[] = reminderMinutes != null && !(REMINDERS.OFFSET_OPTIONS as readonly number[]).includes(reminderMinutes)
+    ? [...REMINDERS.OFFSET_OPTIONS, reminderMinutes].sort((a, b) => a - b)
+    : [...REMINDERS.OFFSET_OPTIONS];
+
+  // Close when clicking outside the popover
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleDueDateChange = (value: string) => {
+    if (!value) return;
+    // A new due date gets the default reminder; changing an existing one keeps its reminder
+    const nextReminder = dueDate ? reminderMinutes ?? null : REMINDERS.DEFAULT_OFFSET;
+    if (nextReminder !== null) requestReminderPermission();
+    onChange(new Date(value), nextReminder);
+  };
+
+  const handleReminderChange = (value: string) => {
+    if (!dueDate) return;
+    const minutes = value === '' ? null : Number(value);
+    if (minutes !== null) requestReminderPermission();
+    onChange(dueDate, minutes);
+  };
+
+  const inputClass = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="relative" ref={pickerRef} onMouseDown={(e) => e.stopPropagation()}>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen(!isOpen);
+        }}
+        className={cn(
+          'flex items-center gap-1 rounded transition-colors hover:bg-black/5',
+          compact ? 'text-xs px-1 py-0.5' : 'text-sm px-2 py-1',
+          isOverdue && 'text-red-600 dark:text-red-400 font-medium',
+          compact && !dueDate && 'opacity-50 hover:opacity-100'
+        )}
+        title={dueDate
+          ? `${isOverdue ? 'Overdue' : 'Due'} ${formatDueDate(dueDate)}${reminderMinutes != null ? ` · reminder ${formatReminderOffset(reminderMinutes).toLowerCase()}` : ''}`
+          : 'Set due date'}
+      >
+        <AlarmClock size={compact ? 12 : 16} />
+        {dueDate ? formatDueDate(dueDate) : !compact && <span className="opacity-70">No due date</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-64 bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-4 z-50 space-y-3">
+          <label className="block text-sm">
+            <span className="block mb-1 text-gray-600 dark:text-gray-300">Due</span>
+            <input
+              type="datetime-local"
+              value={dueDate ? toDateTimeInputValue(dueDate) : ''}
+              onChange={(e) => handleDueDateChange(e.target.value)}
+              className={`w-full ${inputClass}`}
+            />
+          </label>
+
+          <label className="block text-sm">
+            <span className="block mb-1 text-gray-600 dark:text-gray-300">Reminder</span>
+            <select
+              value={reminderMinutes ?? ''}
+              onChange={(e) => handleReminderChange(e.target.value)}
+              disabled={!dueDate}
+              className={`w-full ${inputClass} disabled:opacity-50`}
+            >
+              <option value="">No reminder</option>
+              {offsetOptions.map(minutes => (
+                <option key={minutes} value={minutes}>{formatReminderOffset(minutes)}</option>
+              ))}
+            </select>
+          </label>
+
+          {dueDate && (
+            <button
+              onClick={() => {
+                onChange(null, null);
+                setIsOpen(false);
+              }}
+              className="text-sm text-red-600 dark:text-red-400 hover:underline"
+            >
+              Remove due date
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Download, Upload, FileJson, FileText, Table } from 'lucide-react';
+import { NotesExportService } from '@/services/export/notes-export-service';
+import { NotesImportService, ArchiveImportError } from '@/services/export/notes-import-service';
+import { ExportFormat, ExportScope } from '@/types/export.types';
+import { formatDateDisplay, formatDateKey } from '@/helpers/date-helper';
+import { Z_INDEX } from '@/constants/ui-constants';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/styles/utils';
+
+interface ExportImportPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  selectedDate: Date;
+  /** Called after notes were imported, so the canvas can reload them */
+  onImported: () => void;
+}
+
+type ScopeType = ExportScope['type'];
+
+const FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string; description: string; icon: React.ElementType }> = [
+  { value: 'json', label: 'JSON archive', description: 'Everything, can be imported again', icon: FileJson },
+  { value: 'markdown', label: 'Markdown (.zip)', description: 'One file per note', icon: FileText },
+  { value: 'csv', label: 'Tasks (.csv)', description: 'One row per task, for spreadsheets', icon: Table },
+];
+
+// Helper function to parse a YYYY-MM-DD input value as a local date
+const parseDateInput = (value: string): Date | null => {
+  const [year, month, day] = value.split('-').map(Number);
+  return year && month && day ? new Date(year, month - 1, day) : null;
+};
+
+export const ExportImportPanel: React.FC<ExportImportPanelProps> = ({
+  isOpen,
+  onClose,
+  selectedDate,
+  onImported,
+}) => {
+  const [scopeType, setScopeType] = useState<ScopeType>('date');
+  const [rangeFrom, setRangeFrom] = useState(() => formatDateKey(selectedDate));
+  const [rangeTo, setRangeTo] = useState(() => formatDateKey(selectedDate));
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+    } else {
+      setImportError(null);
+    }
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const from = parseDateInput(rangeFrom);
+  const to = parseDateInput(rangeTo);
+  const isRangeValid = !!from && !!to && from <= to;
+
+  const getScope = (): ExportScope | null => {
+    switch (scopeType) {
+      case 'date':
+        return { type: 'date', date: selectedDate };
+      case 'range':
+        return isRangeValid ? { type: 'range', from: from!, to: to! } : null;
+      case 'all':
+        return { type: 'all' };
+    }
+  };
+
+  const handleExport = async () => {
+    const scope = getScope();
+    if (!scope) return;
+
+    setIsExporting(true);
+    try {
+      const file = await NotesExportService.exportNotes(scope, format);
+      if (file.noteCount === 0) {
+        toast({ title: 'Nothing to export', description: 'There are no notes in the chosen period.' });
+        return;
+      }
+      NotesExportService.downloadFile(file);
+      toast({
+        title: 'Export ready',
+        description: `${file.noteCount} note${file.noteCount !== 1 ? 's' : ''} saved to ${file.filename}.`,
+      });
+    } catch (error) {
+      console.error('Failed to export notes:', error);
+      toast({ title: 'Export failed', description: 'Please try again.', variant: 'destructive' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const result = await NotesImportService.importFile(file);
+      onImported();
+      toast({
+        title: 'Import complete',
+        description: `${result.notes.length} note${result.notes.length !== 1 ? 's' : ''} added` +
+          (result.createdTags.length > 0 ? `, new tags: ${result.createdTags.join(', ')}.` : '.'),
+      });
+    } catch (error) {
+      console.error('Failed to import notes:', error);
+      const message = error instanceof ArchiveImportError ? error.message : 'The file could not be read.';
+      setImportError(message);
+      toast({ title: 'Import failed', description: message, variant: 'destructive' });
+    } finally {
+      setIsImporting(false);
+      // Allow choosing the same file again
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const inputClass = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center" style={{ zIndex: Z_INDEX.NOTE_DETAIL_MODAL }}>
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[90vw] max-w-lg max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-2">
+            <Download className="h-5 w-5 text-blue-500" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Export & import</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6 text-gray-900 dark:text-white">
+          {/* Export */}
+          <section className="space-y-3">
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">Export</h3>
+
+            <div className="space-y-2 text-sm">
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={scopeType === 'date'} onChange={() => setScopeType('date')} />
+                Selected date ({formatDateDisplay(selectedDate)})
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={scopeType === 'range'} onChange={() => setScopeType('range')} />
+                Date range
+              </label>
+              {scopeType === 'range' && (
+                <div className="flex items-center gap-2 pl-6">
+                  <input type="date" value={rangeFrom} onChange={(e) => setRangeFrom(e.target.value)} className={inputClass} />
+                  <span className="text-gray-500 dark:text-gray-400">to</span>
+                  <input type="date" value={rangeTo} onChange={(e) => setRangeTo(e.target.value)} className={inputClass} />
+                </div>
+              )}
+              {scopeType === 'range' && !isRangeValid && (
+                <p className="pl-6 text-xs text-red-600 dark:text-red-400">The end date must not be before the start date.</p>
+              )}
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={scopeType === 'all'} onChange={() => setScopeType('all')} />
+                All notes
+              </label>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              {FORMAT_OPTIONS.map(option => {
+                const Icon = option.icon;
+                return (
+                  <button
+                    key={option.value}
+                    onClick={() => setFormat(option.value)}
+                    className={cn(
+                      'flex flex-col items-start gap-1 p-3 rounded-lg border text-left transition-colors',
+                      format === option.value
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                        : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                    )}
+                  >
+                    <Icon size={18} className="text-gray-600 dark:text-gray-300" />
+                    <span className="text-sm font-medium">{option.label}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">{option.description}</span>
+                  </button>
+                );
+              })}
+            </div>
+
+            <button
+              onClick={handleExport}
+              disabled={isExporting || (scopeType === 'range' && !isRangeValid)}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download size={16} />
+              {isExporting ? 'Exporting...' : 'Export'}
+            </button>
+          </section>
+
+          {/* Import */}
+          <section className="space-y-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">Import</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Add the notes from a JSON archive. They are created as new notes, so nothing existing is overwritten.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+              }}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+              className="flex items-center gap-2 px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Upload size={16} />
+              {isImporting ? 'Importing...' : 'Choose archive...'}
+            </button>
+            {importError && (
+              <p className="text-sm text-red-600 dark:text-red-400 break-words">{importError}</p>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, Palette, Trash2 } from 'lucide-react';
+import { Frame } from '@/domains/frame';
+import { useNoteDrag, ScreenToCanvas } from '../hooks/use-note-drag';
+import { useNoteResize, ResizeLimits } from '../hooks/use-note-resize';
+import { FRAME } from '@/constants/ui-constants';
+
+interface FrameCardProps {
+  frame: Frame;
+  /** Number of notes in the frame, shown in the header */
+  noteCount: number;
+  screenToCanvas: ScreenToCanvas;
+  onDrag: (frameUuid: string, position: { x: number; y: number }) => void;
+  onDragEnd: (frameUuid: string, position: { x: number; y: number }) => void;
+  onUpdate: (frame: Frame) => void;
+  onDelete: (frame: Frame) => void;
+}
+
+const FRAME_RESIZE_LIMITS: ResizeLimits = {
+  minWidth: FRAME.MIN_WIDTH,
+  maxWidth: FRAME.MAX_WIDTH,
+  minHeight: FRAME.MIN_HEIGHT,
+  maxHeight: FRAME.MAX_HEIGHT,
+};
+
+const headerButtonClass = 'p-1 rounded text-gray-600 dark:text-gray-300 hover:bg-black/5 dark:hover:bg-white/10';
+
+/**
+ * Named, coloured region drawn under the note cards. Only the header takes the
+ * pointer: it drags the frame with its notes, renames, recolors and collapses it.
+ */
+export const FrameCard: React.FC<FrameCardProps> = ({
+  frame,
+  noteCount,
+  screenToCanvas,
+  onDrag,
+  onDragEnd,
+  onUpdate,
+  onDelete,
+}) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [isEditingName, setIsEditingName] = useState(false);
+  const [name, setName] = useState(frame.name);
+  const [showColors, setShowColors] = useState(false);
+  // Position shown while dragging; the frame is only updated when it is dropped
+  const [dragPosition, setDragPosition] = useState<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    setName(frame.name);
+  }, [frame.name]);
+
+  const { handleMouseDown } = useNoteDrag(
+    (position) => {
+      setDragPosition(position);
+      onDrag(frame.uuid, position);
+    },
+    (position) => {
+      setDragPosition(null);
+      onDragEnd(frame.uuid, position);
+    },
+    isEditingName,
+    screenToCanvas
+  );
+
+  const { isResizing, resizeSize, handleResizeStart } = useNoteResize(
+    (size) => onUpdate({ ...frame, ...size }),
+    frame.isCollapsed,
+    screenToCanvas,
+    FRAME_RESIZE_LIMITS
+  );
+
+  const commitName = () => {
+    setIsEditingName(false);
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== frame.name) {
+      onUpdate({ ...frame, name: trimmed });
+    } else {
+      setName(frame.name);
+    }
+  };
+
+  const position = dragPosition ?? frame.position;
+  const width = resizeSize?.width ?? frame.width;
+  const height = frame.isCollapsed ? FRAME.HEADER_HEIGHT : resizeSize?.height ?? frame.height;
+
+  return (
+    <div
+      ref={frameRef}
+      className={`absolute rounded-xl border-2 pointer-events-none ${isResizing ? '' : 'transition-[height] duration-200'}`}
+      style={{
+        left: position.x,
+        top: position.y,
+        width,
+        height,
+        borderColor: frame.color,
+        // Hex alpha suffix: a light wash of the frame color
+        backgroundColor: `${frame.color}14`,
+        zIndex: 0,
+      }}
+    >
+      <div
+        className="flex items-center gap-1 px-2 rounded-t-[10px] pointer-events-auto cursor-grab active:cursor-grabbing select-none"
+        style={{ height: FRAME.HEADER_HEIGHT - 4, backgroundColor: `${frame.color}33` }}
+        onMouseDown={(e) => {
+          e.stopPropagation();
+          handleMouseDown(e, frameRef);
+        }}
+        onClick={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => {
+          e.stopPropagation();
+          setIsEditingName(true);
+        }}
+      >
+        <button
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={() => onUpdate({ ...frame, isCollapsed: !frame.isCollapsed })}
+          className={headerButtonClass}
+          title={frame.isCollapsed ? 'Expand frame' : 'Collapse frame'}
+        >
+          {frame.isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+        </button>
+
+        {isEditingName ? (
+          <input
+            type="text"
+            value={name}
+            maxLength={FRAME.MAX_NAME_LENGTH}
+            autoFocus
+            onMouseDown={(e) => e.stopPropagation()}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitName();
+              if (e.key === 'Escape') {
+                setName(frame.name);
+                setIsEditingName(false);
+              }
+            }}
+            className="flex-1 min-w-0 px-1 py-0.5 text-sm font-semibold rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        ) : (
+          <span className="flex-1 min-w-0 truncate text-sm font-semibold text-gray-800 dark:text-gray-100" title="Double-click to rename">
+            {frame.name}
+          </span>
+        )}
+
+        <span className="text-xs text-gray-600 dark:text-gray-300">{noteCount}</span>
+
+        <div className="relative">
+          <button
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={() => setShowColors(prev => !prev)}
+            className={headerButtonClass}
+            title="Frame color"
+          >
+            <Palette size={14} />
+          </button>
+          {showColors && (
+            <div
+              className="absolute right-0 top-full mt-1 flex gap-1 p-1.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg"
+              onMouseDown={(e) => e.stopPropagation()}
+            >
+              {FRAME.COLOR_PRESETS.map(color => (
+                <button
+                  key={color}
+                  onClick={() => {
+                    onUpdate({ ...frame, color });
+                    setShowColors(false);
+                  }}
+                  className={`w-5 h-5 rounded-full border hover:scale-110 transition-transform ${
+                    frame.color === color ? 'border-gray-900 dark:border-white' : 'border-black/10'
+                  }`}
+                  style={{ backgroundColor: color }}
+                  title={color}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <button
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={() => onDelete(frame)}
+          className="p-1 rounded text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30"
+          title="Delete frame (its notes stay on the canvas)"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      {!frame.isCollapsed && (
+        <div
+          className="absolute right-0 bottom-0 w-4 h-4 pointer-events-auto cursor-nwse-resize rounded-br-xl"
+          style={{ background: `linear-gradient(135deg, transparent 55%, ${frame.color} 55%)` }}
+          onMouseDown={(e) => handleResizeStart(e, 'corner', frameRef)}
+          onClick={(e) => e.stopPropagation()}
+          title="Drag to resize"
+        />
+      )}
+    </div>
+  );
+};
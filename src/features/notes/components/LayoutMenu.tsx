@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Clock, LayoutDashboard, LayoutGrid, ListChecks, Palette, Shapes, Tags } from 'lucide-react';
+import { LayoutCommand } from '@/helpers/layout-helper';
+
+interface LayoutMenuProps {
+  /** Number of notes the commands move: the selection, or the notes outside frames */
+  noteCount: number;
+  isSelection: boolean;
+  onLayout: (command: LayoutCommand) => void;
+}
+
+const LAYOUT_COMMANDS: { command: LayoutCommand; label: string; icon: React.ElementType }[] = [
+  { command: 'tidy', label: 'Tidy into a grid', icon: LayoutGrid },
+  { command: 'pack', label: 'Pack tightly', icon: Shapes },
+  { command: 'cluster-tag', label: 'Cluster by tag', icon: Tags },
+  { command: 'cluster-color', label: 'Cluster by color', icon: Palette },
+  { command: 'sort-created', label: 'Sort by creation time', icon: Clock },
+  { command: 'sort-progress', label: 'Sort by task progress', icon: ListChecks },
+];
+
+/**
+ * Floating button with the auto-layout commands of the canvas
+ */
+export const LayoutMenu: React.FC<LayoutMenuProps> = ({ noteCount, isSelection, onLayout }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking outside it
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const isDisabled = noteCount < 2;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={isDisabled}
+        className="floating-search-btn text-gray-700 dark:text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        title={isDisabled ? 'Add at least two notes to arrange them' : 'Arrange notes'}
+      >
+        <LayoutDashboard size={24} />
+      </button>
+
+      {isOpen && !isDisabled && (
+        <div className="absolute right-full bottom-0 mr-3 w-56 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+          <div className="px-3 py-1.5 text-xs text-gray-500 dark:text-gray-400">
+            {isSelection ? `Arrange ${noteCount} selected notes` : `Arrange ${noteCount} notes outside frames`}
+          </div>
+          {LAYOUT_COMMANDS.map(({ command, label, icon: Icon }) => (
+            <button
+              key={command}
+              onClick={() => {
+                onLayout(command);
+                setIsOpen(false);
+              }}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <Icon size={16} />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useMemo } from 'react';
+import { MarkdownBlock, MarkdownInline } from '@/types/markdown.types';
+import { parseMarkdown } from '@/helpers/markdown-parser';
+import { highlightCode } from '@/helpers/code-highlighter';
+
+interface MarkdownContentProps {
+  content: string;
+  /** Called with the source line of a task list item when its checkbox is clicked */
+  onToggleCheckbox?: (line: number) => void;
+  className?: string;
+}
+
+const HEADING_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'] as const;
+
+// Helper function to render inline nodes. Text is always rendered as text, never as HTML.
+const renderInlines = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'code':
+        return <code key={index} className="md-inline-code">{node.text}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInlines(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInlines(node.children)}</em>;
+      case 'strike':
+        return <del key={index}>{renderInlines(node.children)}</del>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="md-link"
+            // Follow the link instead of starting to edit the note
+            onClick={(e) => e.stopPropagation()}
+          >
+            {renderInlines(node.children)}
+          </a>
+        );
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+
+// Helper function to render block nodes
+const renderBlocks = (
+  blocks: MarkdownBlock[],
+  onToggleCheckbox?: (line: number) => void
+): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Heading = HEADING_TAGS[block.level - 1];
+        return <Heading key={index} className={`md-heading md-h${block.level}`}>{renderInlines(block.children)}</Heading>;
+      }
+      case 'paragraph':
+        return <p key={index} className="md-paragraph">{renderInlines(block.children)}</p>;
+      case 'code':
+        return (
+          <pre key={index} className="md-code-block" data-language={block.language || undefined}>
+            <code>
+              {highlightCode(block.code, block.language).map((token, tokenIndex) => (
+                <span key={tokenIndex} className={`md-token-${token.type}`}>{token.text}</span>
+              ))}
+            </code>
+          </pre>
+        );
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List
+            key={index}
+            className={block.ordered ? 'md-list md-list-ordered' : 'md-list'}
+            start={block.ordered && block.start !== 1 ? block.start : undefined}
+          >
+            {block.items.map(item => (
+              <li key={item.line} className={item.checked === null ? undefined : 'md-task-item'}>
+                {item.checked !== null && (
+                  <input
+                    type="checkbox"
+                    className="md-task-checkbox"
+                    checked={item.checked}
+                    disabled={!onToggleCheckbox}
+                    onChange={() => onToggleCheckbox?.(item.line)}
+                    onClick={(e) => e.stopPropagation()}
+                    onMouseDown={(e) => e.stopPropagation()}
+                  />
+                )}
+                <span className={item.checked ? 'md-task-done' : undefined}>{renderInlines(item.children)}</span>
+                {item.blocks.length > 0 && renderBlocks(item.blocks, onToggleCheckbox)}
+              </li>
+            ))}
+          </List>
+        );
+      }
+      case 'blockquote':
+        return <blockquote key={index} className="md-blockquote">{renderBlocks(block.blocks, onToggleCheckbox)}</blockquote>;
+      case 'rule':
+        return <hr key={index} className="md-rule" />;
+    }
+  });
+
+/**
+ * Renders note content as Markdown. Content is parsed into a tree and rendered as
+ * React elements (no innerHTML), and only http(s) and mailto links become anchors.
+ */
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  content,
+  onToggleCheckbox,
+  className = '',
+}) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return (
+    <div className={`markdown-content ${className}`}>
+      {renderBlocks(blocks, onToggleCheckbox)}
+    </div>
+  );
+};
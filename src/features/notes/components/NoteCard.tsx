@@ -1,13 +1,20 @@
-import { useRef, useState, useMemo, useEffect, useCallback } from 'react';
+import { useRef, useState, useMemo, useEffect, useLayoutEffect, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { Repeat, AlarmClock, Lock } from 'lucide-react';
 import { cn } from '@/styles/utils';
 import { Note } from '@/domains/note';
 import { Tag } from '@/domains/tag';
-import { useNoteDrag } from '../hooks/use-note-drag';
+import { useNoteDrag, ScreenToCanvas } from '../hooks/use-note-drag';
 import { useNoteEditing } from '../hooks/use-note-editing';
+import { useNoteResize, ResizeHandle } from '../hooks/use-note-resize';
 import { getContrastTextColor } from '@/helpers/color-generator';
 import { formatDateDisplay } from '@/helpers/date-helper';
 import { getTaskProgressDisplay } from '@/helpers/task-manager';
 import { getTaskColors } from '@/helpers/task-colors';
+import { describeRecurrence, skipOccurrence } from '@/helpers/recurrence-helper';
+import { formatDueDate, isNoteCompleted, isNoteOverdue, isPastDue } from '@/helpers/due-date-helper';
+import { getViewerColor } from '@/helpers/collaboration-helper';
+import { CanvasViewer } from '@/types/collaboration.types';
 import { ContextMenu } from './ContextMenu';
 import { NoteDetail } from './NoteDetail';
 import { NoteTitle } from './NoteTitle';
@@ -16,6 +23,8 @@ import { NoteContentMode } from './NoteContentMode';
 import { TEXT, NOTE_CARD, LIMITS } from '@/constants/ui-constants';
 import '../styles/note-card.css';
 
+const RESIZE_HANDLES: ResizeHandle[] = ['right', 'bottom', 'corner'];
+
 interface NoteCardProps {
   note: Note;
   onUpdate: (note: Note) => void;
@@ -26,12 +35,22 @@ interface NoteCardProps {
   onRefreshFromStorage?: (noteUuid: string) => void;
   isSelected?: boolean;
   onClearSelection?: () => void;
+  onToggleSelection?: (noteUuid: string) => void;
   onNoteDetailStateChange?: (noteUuid: string, isOpen: boolean) => void;
   zIndex: number;
   onBringToFront: () => void;
+  screenToCanvas?: ScreenToCanvas;
+  /** Current time for overdue highlighting */
+  now?: Date;
+  /** Shared canvases: the note cannot be edited or moved, e.g. by viewers */
+  isReadOnly?: boolean;
+  /** Shared canvases: the teammate editing the note, who holds its lock */
+  lockedBy?: CanvasViewer | null;
+  /** Shared canvases: called when editing the note starts and ends, to lock it */
+  onEditingChange?: (noteUuid: string, isEditing: boolean) => void;
 }
 
-export const NoteCard = ({ note, onUpdate, onDelete, onDrag, onDragEnd, onMoveToDate, onRefreshFromStorage, isSelected, onClearSelection, onNoteDetailStateChange, zIndex, onBringToFront }: NoteCardProps) => {
+export const NoteCard = ({ note, onUpdate, onDelete, onDrag, onDragEnd, onMoveToDate, onRefreshFromStorage, isSelected, onClearSelection, onToggleSelection, onNoteDetailStateChange, zIndex, onBringToFront, screenToCanvas, now, isReadOnly, lockedBy, onEditingChange }: NoteCardProps) => {
   const cardRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; isOpen: boolean }>({
@@ -40,12 +59,13 @@ export const NoteCard = ({ note, onUpdate, onDelete, onDrag, onDragEnd, onMoveTo
     isOpen: false,
   });
   const [showNoteDetail, setShowNoteDetail] = useState(false);
-  const [displayContent, setDisplayContent] = useState(note.content);
   const [isContentTooLong, setIsContentTooLong] = useState(false);
   const [newTaskText, setNewTaskText] = useState('');
   const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
   const taskTextareaRef = useRef<HTMLTextAreaElement>(null);
   const [selectedTags, setSelectedTags] = useState<Tag[]>([]);
+  // The click that ends a drag must not clear the selection
+  const wasDraggedRef = useRef(false);
   
   const {
     isEditingTitle,
@@ -64,25 +84,70 @@ export const NoteCard = ({ note, onUpdate, onDelete, onDrag, onDragEnd, onMoveTo
     handleTitleKeyDown,
     startEditingTitle,
     startEditingContent,
+    toggleContentCheckbox,
     toggleTaskMode,
     addTask,
     updateTask,
     deleteTask,
     toggleTask,
+    handleIndentTask,
+    handleOutdentTask,
+    handleMoveTask,
     togglePin,
     updateTags
   } = useNoteEditing(note, onUpdate, setSelectedTags);
 
 
+  const isEditing = isEditingTitle || isEditingContent;
+  // A note a teammate is editing cannot be changed here until they are done
+  const isLocked = isReadOnly || !!lockedBy;
+
   const { isDragging, handleMouseDown } = useNoteDrag(
     (position) => onDrag(note.uuid, position),
-    (position) => onDragEnd?.(note.uuid, position),
-    isEditingTitle || isEditingContent
+    (position) => {
+      wasDraggedRef.current = true;
+      onDragEnd?.(note.uuid, position);
+    },
+    isEditing || isLocked,
+    screenToCanvas
+  );
+
+  const { isResizing, resizeSize, handleResizeStart } = useNoteResize(
+    (size) => {
+      wasDraggedRef.current = true;
+      onUpdate({
+        ...note,
+        ...size,
+        updatedAt: new Date(),
+        clientUpdatedAt: new Date() // Track client update for sync
+      });
+    },
+    isEditing || isLocked,
+    screenToCanvas
   );
 
+  // Size while resizing, otherwise the saved size; without a saved height the card fits its content
+  const cardWidth = resizeSize?.width ?? note.width ?? NOTE_CARD.DEFAULT_WIDTH;
+  const cardHeight = resizeSize?.height ?? note.height ?? null;
+
+  // Hold the note's lock on a shared canvas for as long as it is edited
+  useEffect(() => {
+    if (!isEditing || !onEditingChange) return;
+    onEditingChange(note.uuid, true);
+    return () => onEditingChange(note.uuid, false);
+  }, [isEditing, note.uuid, onEditingChange]);
+
   const onMouseDown = (e: React.MouseEvent) => {
     // Bring note to front when clicked
     onBringToFront();
+    wasDraggedRef.current = false;
+    
+    // Shift/ctrl-click adds or removes the note from the selection
+    if ((e.shiftKey || e.ctrlKey || e.metaKey) && onToggleSelection) {
+      e.preventDefault();
+      onToggleSelection(note.uuid);
+      return;
+    }
     
     // Only prevent dragging if clicking on interactive elements or input fields
     const target = e.target as HTMLElement;
@@ -94,7 +159,7 @@ export const NoteCard = ({ note, onUpdate, onDelete, onDrag, onDragEnd, onMoveTo
                                 target.closest('.task-item') ||
                                 target.closest('.task-item-container');
     
-    if (isInteractiveElement || isEditingTitle || isEditingContent) {
+    if (isInteractiveElement || isEditing || isLocked) {
       return;
     }
     
@@ -102,108 +167,38 @@ export const NoteCard = ({ note, onUpdate, onDelete, onDrag, onDragEnd, onMoveTo
   };
 
   const textColor = getContrastTextColor(note.color);
+  const isOverdue = isNoteOverdue(note, now);
   const taskColors = getTaskColors(note.color, textColor);
 
   const MAX_TITLE_LENGTH = TEXT.MAX_TITLE_LENGTH;
 
-  // Calculate effective content length considering line breaks as full lines
-  const calculateEffectiveLength = (text: string) => {
-    const lines = text.split('\n');
-    const avgCharsPerLine = TEXT.AVG_CHARS_PER_LINE; // Average characters per line in the card
-    let effectiveLength = 0;
-    
-    for (const line of lines) {
-      effectiveLength += line.length;
-      if (line !== lines[lines.length - 1]) { // Not the last line
-        effectiveLength += avgCharsPerLine;
-      }
-    }
-    
-    return effectiveLength;
-  };
-
-  // Calculate maximum characters based on current card dimensions
-  const calculateMaxCharacters = () => {
-    if (!contentRef.current) return TEXT.FALLBACK_CHAR_LIMIT; // Fallback limit
-    
-    const cardElement = contentRef.current.closest('.note-card');
-    if (!cardElement) return TEXT.FALLBACK_CHAR_LIMIT;
-    
-    const rect = cardElement.getBoundingClientRect();
-    const cardWidth = rect.width;
-    const cardHeight = NOTE_CARD.MAX_HEIGHT;
-    
-    // Account for padding (p-4 = 16px on each side)
-    const contentWidth = cardWidth - NOTE_CARD.TOTAL_HORIZONTAL_PADDING; // 16px padding on each side
-    const contentHeight = cardHeight - NOTE_CARD.CONTENT_HEIGHT_OFFSET; // Account for title, date, and padding with max fixed height of 600px in css
-    
-    // Estimate characters per line based on card width
-    const avgCharWidth = TEXT.AVG_CHAR_WIDTH; // Average character width in pixels
-    const charsPerLine = Math.floor(contentWidth / avgCharWidth);
-    
-    // Estimate lines based on card height
-    const lineHeight = TEXT.LINE_HEIGHT; // Line height in pixels
-    const maxLines = Math.floor(contentHeight / lineHeight);
-    
-    // Calculate total character capacity
-    const totalCapacity = charsPerLine * maxLines;
-    
-    return Math.max(TEXT.MIN_CHAR_LIMIT, totalCapacity); // Minimum 100 characters
-  };
-
   // Clean content for display
   const cleanContent = useMemo(() => {
     return isEditingContent ? content : note.content;
   }, [note.content, content, isEditingContent]);
 
-  // Dynamic overflow detection based on actual card dimensions and character limits
-  useEffect(() => {
-    if (isEditingContent) {
-      setDisplayContent(content);
-      setIsContentTooLong(false);
-      return;
-    }
-    
-    if (!cleanContent || cleanContent === '') {
-      setDisplayContent('Click to add content...');
+  // Rendered content is clipped to the space the card leaves under the title and date
+  const maxContentHeight = (cardHeight ?? NOTE_CARD.MAX_HEIGHT) - NOTE_CARD.CONTENT_HEIGHT_OFFSET;
+
+  // Overflow detection based on the rendered height of the content, so headings,
+  // code blocks and lists count for the space they actually take
+  useLayoutEffect(() => {
+    const element = contentRef.current;
+    if (isEditingContent || !element) {
       setIsContentTooLong(false);
       return;
     }
-    
-    // Calculate effective length considering line breaks as full line characters
-    const effectiveLength = calculateEffectiveLength(cleanContent);
-    const maxCharacters = calculateMaxCharacters();
-    
-    if (effectiveLength <= maxCharacters) {
-      setDisplayContent(cleanContent);
-      setIsContentTooLong(false);
-    } else {
-      // Find truncation point that keeps effective length under limit
-      let truncateAt = 0;
-      let currentEffectiveLength = 0;
-      const avgCharsPerLine = TEXT.AVG_CHARS_PER_LINE_TRUNCATION; // Average characters per line
-      
-      for (let i = 0; i < cleanContent.length; i++) {
-        const char = cleanContent[i];
-        if (char === '\n') {
-          // Line break adds full line worth of characters
-          currentEffectiveLength += avgCharsPerLine;
-        } else {
-          currentEffectiveLength += 1;
-        }
-        
-        // Reserve 3 characters for "..."
-        if (currentEffectiveLength + 3 > maxCharacters) {
-          break;
-        }
-        truncateAt = i + 1;
-      }
-      
-      const truncatedContent = cleanContent.substring(0, truncateAt) + '...';
-      setDisplayContent(truncatedContent);
-      setIsContentTooLong(true);
-    }
-  }, [cleanContent, isEditingContent, content]);
+
+    const measure = () => setIsContentTooLong(element.scrollHeight > element.clientHeight + 1);
+    measure();
+
+    // Re-measure when the rendered content changes size (wrapping, fonts loading)
+    const renderedContent = element.firstElementChild;
+    if (!renderedContent || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(renderedContent);
+    return () => observer.disconnect();
+  }, [cleanContent, isEditingContent, maxContentHeight]);
 
   // Truncated title for display
   const displayTitle = useMemo(() => {
@@ -241,6 +236,7 @@ export const NoteCard = ({ note, onUpdate, onDelete, onDrag, onDragEnd, onMoveTo
   const handleContextMenu = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
+    if (isLocked) return;
     
     setContextMenu({
       x: e.clientX,
@@ -265,6 +261,15 @@ export const NoteCard = ({ note, onUpdate, onDelete, onDrag, onDragEnd, onMoveTo
     }
   };
 
+  // Hide this date of a recurring note without touching the rest of the series
+  const handleSkipOccurrence = () => {
+    onUpdate({
+      ...skipOccurrence(note),
+      updatedAt: new Date(),
+      clientUpdatedAt: new Date() // Track client update for sync
+    });
+  };
+
   const handleViewDetail = () => {
     onBringToFront();
     setShowNoteDetail(true);
@@ -293,11 +298,13 @@ export const NoteCard = ({ note, onUpdate, onDelete, onDrag, onDragEnd, onMoveTo
   // Custom edit handlers
   const handleStartEditingTitle = () => {
     onBringToFront();
+    if (isLocked) return;
     startEditingTitle();
   };
 
   const handleStartEditingContent = () => {
     onBringToFront();
+    if (isLocked) return;
     startEditingContent();
   };
 
@@ -343,29 +350,39 @@ export const NoteCard = ({ note, onUpdate, onDelete, onDrag, onDragEnd, onMoveTo
 
   return (
     <>
-      <ContextMenu
-        x={contextMenu.x}
-        y={contextMenu.y}
-        isOpen={contextMenu.isOpen}
-        onClose={() => setContextMenu(prev => ({ ...prev, isOpen: false }))}
-        onMoveToTomorrow={handleMoveToTomorrow}
-        onMoveToYesterday={handleMoveToYesterday}
-        onViewDetail={isContentTooLong ? handleViewDetail : undefined}
-        showViewDetail={isContentTooLong}
-      />
+      {/* Overlays are portaled out of the zoomed canvas so fixed positioning stays relative to the window */}
+      {createPortal(
+        <ContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          isOpen={contextMenu.isOpen}
+          onClose={() => setContextMenu(prev => ({ ...prev, isOpen: false }))}
+          onMoveToTomorrow={handleMoveToTomorrow}
+          onMoveToYesterday={handleMoveToYesterday}
+          onSkipOccurrence={note.occurrenceDate ? handleSkipOccurrence : undefined}
+          onViewDetail={isContentTooLong ? handleViewDetail : undefined}
+          showViewDetail={isContentTooLong}
+        />,
+        document.body
+      )}
     <div
       ref={cardRef}
       data-note-uuid={note.uuid}
       className={cn(
         'note-card',
         isDragging && 'dragging',
+        isResizing && 'resizing',
         isSelected && 'selected',
-        (isEditingTitle || isEditingContent) && 'editing'
+        isEditing && 'editing',
+        isLocked && 'read-only'
       )}
       style={{
         position: 'absolute',
         left: note.position.x,
         top: note.position.y,
+        width: cardWidth,
+        // A resized card keeps its height, and grows past it only while being edited
+        ...(cardHeight && (isEditing ? { minHeight: cardHeight } : { height: cardHeight, maxHeight: 'none' })),
         userSelect: isDragging ? 'none' : 'auto',
         backgroundColor: note.color,
         color: textColor,
@@ -377,17 +394,37 @@ export const NoteCard = ({ note, onUpdate, onDelete, onDrag, onDragEnd, onMoveTo
         ...(note.isPinned && !isSelected && {
           boxShadow: '0 0 0 2px rgba(59, 130, 246, 0.3), 0 4px 12px rgba(59, 130, 246, 0.15)',
         }),
+        ...(isOverdue && !isSelected && {
+          boxShadow: '0 0 0 2px rgba(239, 68, 68, 0.7), 0 4px 12px rgba(239, 68, 68, 0.2)',
+        }),
+        // Highlighted in the editing teammate's color
+        ...(lockedBy && {
+          boxShadow: `0 0 0 3px ${getViewerColor(lockedBy.clientId)}`,
+        }),
       }}
       onMouseDown={onMouseDown}
       onContextMenu={handleContextMenu}
       onDoubleClick={(e) => e.stopPropagation()}
       onClick={(e) => {
+        if (wasDraggedRef.current || e.shiftKey || e.ctrlKey || e.metaKey) {
+          wasDraggedRef.current = false;
+          return;
+        }
         if (isSelected && onClearSelection) {
           e.stopPropagation();
           onClearSelection();
         }
       }}
     >
+      {lockedBy && (
+        <div
+          className="absolute -top-6 left-0 flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium text-white whitespace-nowrap"
+          style={{ backgroundColor: getViewerColor(lockedBy.clientId) }}
+        >
+          <Lock size={12} />
+          {lockedBy.displayName} is editing
+        </div>
+      )}
       <div className="w-full h-full flex flex-col p-1">
         {/* Title section */}
         <NoteTitle
@@ -409,7 +446,26 @@ export const NoteCard = ({ note, onUpdate, onDelete, onDrag, onDragEnd, onMoveTo
         
         {/* Date display with task progress */}
         <div className="flex items-center justify-between text-xs opacity-70 mb-2">
-          <span>{formatDateDisplay(note.date)}</span>
+          <span className="flex items-center gap-1">
+            {formatDateDisplay(note.date)}
+            {note.recurrence && (
+              <span title={describeRecurrence(note.recurrence)}>
+                <Repeat size={12} />
+              </span>
+            )}
+            {note.dueDate && (
+              <span
+                className={cn(
+                  'flex items-center gap-0.5 ml-1',
+                  isPastDue(note.dueDate, isNoteCompleted(note), now) && 'text-red-600 dark:text-red-400 font-semibold'
+                )}
+                title="Due date"
+              >
+                <AlarmClock size={12} />
+                {formatDueDate(note.dueDate, now)}
+              </span>
+            )}
+          </span>
           <div className="flex items-center gap-2">
             {note.noteTasks && note.noteTasks.length > 0 && !note.isTaskMode && (
               <span className="task-progress-display">
@@ -446,11 +502,15 @@ export const NoteCard = ({ note, onUpdate, onDelete, onDrag, onDragEnd, onMoveTo
             onDeleteTask={deleteTask}
             onStartEditingTask={setEditingTaskId}
             onTaskEditKeyDown={handleTaskEditKeyDown}
+            onIndentTask={handleIndentTask}
+            onOutdentTask={handleOutdentTask}
+            onMoveTask={handleMoveTask}
+            now={now}
           />
         ) : (
           <NoteContentMode
             content={content}
-            displayContent={displayContent}
+            displayContent={cleanContent}
             isEditingContent={isEditingContent}
             isContentTooLong={isContentTooLong}
             contentRef={contentRef}
@@ -460,21 +520,35 @@ export const NoteCard = ({ note, onUpdate, onDelete, onDrag, onDragEnd, onMoveTo
             onContentKeyDown={handleContentKeyDown}
             onContentPaste={handleContentPaste}
             onStartEditingContent={handleStartEditingContent}
+            onToggleCheckbox={toggleContentCheckbox}
             onAutoResizeTextarea={autoResizeTextarea}
+            maxContentHeight={maxContentHeight}
           />
         )}
       </div>
+
+      {!isEditing && !isLocked && RESIZE_HANDLES.map(handle => (
+        <div
+          key={handle}
+          className={cn('note-resize-handle', handle)}
+          onMouseDown={(e) => handleResizeStart(e, handle, cardRef)}
+          title={handle === 'corner' ? 'Drag to resize' : undefined}
+        />
+      ))}
     </div>
 
     {/* Note Detail Modal */}
-    <NoteDetail
-      note={note}
-      isOpen={showNoteDetail}
-      onClose={handleCloseNoteDetail}
-      onUpdate={onUpdate}
-      onMoveToDate={onMoveToDate}
-      onRefreshFromStorage={onRefreshFromStorage}
-    />
+    {createPortal(
+      <NoteDetail
+        note={note}
+        isOpen={showNoteDetail}
+        onClose={handleCloseNoteDetail}
+        onUpdate={onUpdate}
+        onMoveToDate={onMoveToDate}
+        onRefreshFromStorage={onRefreshFromStorage}
+      />,
+      document.body
+    )}
     </>
   );
 };
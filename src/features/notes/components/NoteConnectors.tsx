@@ -0,0 +1,267 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Connector, ConnectorArrowHead, ConnectorLineStyle } from '@/domains/connector';
+import { Note } from '@/domains/note';
+import { getConnectorLine } from '@/helpers/connector-helper';
+import { getNoteSize } from '@/helpers/viewport-helper';
+import { CONNECTOR, Z_INDEX } from '@/constants/ui-constants';
+
+interface NoteConnectorsProps {
+  connectors: Connector[];
+  /** Notes on the canvas; connectors to notes that are not shown are hidden */
+  notes: Note[];
+  zoom: number;
+  selectedConnectorUuid: string | null;
+  onSelect: (connectorUuid: string | null) => void;
+  onUpdate: (connector: Connector) => void;
+  onDelete: (connector: Connector) => void;
+}
+
+const LINE_STYLES: { value: ConnectorLineStyle; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'dotted', label: 'Dotted' },
+];
+
+const ARROW_HEADS: { value: ConnectorArrowHead; label: string }[] = [
+  { value: 'none', label: 'Line' },
+  { value: 'end', label: 'Arrow' },
+  { value: 'both', label: 'Both ends' },
+];
+
+const optionClass = (isActive: boolean) =>
+  `px-2 py-1 text-xs rounded transition-colors ${
+    isActive
+      ? 'bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300'
+      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+  }`;
+
+/**
+ * Lines and arrows between notes, drawn in canvas coordinates under the note cards.
+ * They follow the notes as they move; a clicked connector shows its editor.
+ */
+export const NoteConnectors: React.FC<NoteConnectorsProps> = ({
+  connectors,
+  notes,
+  zoom,
+  selectedConnectorUuid,
+  onSelect,
+  onUpdate,
+  onDelete,
+}) => {
+  const notesByUuid = new Map(notes.map(note => [note.uuid, note]));
+  const lines = connectors.flatMap(connector => {
+    const fromNote = notesByUuid.get(connector.fromNoteUuid);
+    const toNote = notesByUuid.get(connector.toNoteUuid);
+    if (!fromNote || !toNote) return [];
+
+    const line = getConnectorLine(
+      { ...fromNote.position, ...getNoteSize(fromNote.uuid) },
+      { ...toNote.position, ...getNoteSize(toNote.uuid) }
+    );
+    return line ? [{ connector, line }] : [];
+  });
+
+  const selected = lines.find(({ connector }) => connector.uuid === selectedConnectorUuid);
+
+  if (lines.length === 0) return null;
+
+  return (
+    <>
+      <svg
+        className="absolute left-0 top-0 overflow-visible pointer-events-none"
+        width={1}
+        height={1}
+        style={{ zIndex: 0 }}
+      >
+        <defs>
+          {lines.map(({ connector }) => (
+            <marker
+              key={connector.uuid}
+              id={`connector-arrow-${connector.uuid}`}
+              viewBox="0 0 10 10"
+              refX={9}
+              refY={5}
+              markerWidth={CONNECTOR.ARROW_SIZE}
+              markerHeight={CONNECTOR.ARROW_SIZE}
+              markerUnits="userSpaceOnUse"
+              orient="auto-start-reverse"
+            >
+              <path d="M0,0 L10,5 L0,10 z" fill={connector.color || CONNECTOR.DEFAULT_COLOR} />
+            </marker>
+          ))}
+        </defs>
+
+        {lines.map(({ connector, line }) => {
+          const markerUrl = `url(#connector-arrow-${connector.uuid})`;
+          const isSelected = connector.uuid === selectedConnectorUuid;
+          return (
+            <g key={connector.uuid}>
+              {/* Wide invisible line that picks up clicks */}
+              <line
+                x1={line.start.x}
+                y1={line.start.y}
+                x2={line.end.x}
+                y2={line.end.y}
+                stroke="transparent"
+                strokeWidth={CONNECTOR.HIT_WIDTH}
+                className="cursor-pointer"
+                style={{ pointerEvents: 'stroke' }}
+                onMouseDown={(e) => e.stopPropagation()}
+                onDoubleClick={(e) => e.stopPropagation()}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelect(connector.uuid);
+                }}
+              />
+              <line
+                x1={line.start.x}
+                y1={line.start.y}
+                x2={line.end.x}
+                y2={line.end.y}
+                stroke={connector.color || CONNECTOR.DEFAULT_COLOR}
+                strokeWidth={isSelected ? CONNECTOR.STROKE_WIDTH * 2 : CONNECTOR.STROKE_WIDTH}
+                strokeDasharray={CONNECTOR.DASH_ARRAYS[connector.lineStyle]}
+                strokeLinecap="round"
+                markerEnd={connector.arrowHead !== 'none' ? markerUrl : undefined}
+                markerStart={connector.arrowHead === 'both' ? markerUrl : undefined}
+              />
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Labels at the middle of their lines */}
+      {lines.filter(({ connector }) => connector.label).map(({ connector, line }) => (
+        <div
+          key={connector.uuid}
+          className="absolute -translate-x-1/2 -translate-y-1/2 px-2 py-0.5 text-xs rounded bg-white/90 dark:bg-gray-800/90 text-gray-700 dark:text-gray-200 border border-gray-200 dark:border-gray-700 whitespace-nowrap cursor-pointer"
+          style={{ left: line.mid.x, top: line.mid.y, zIndex: 0 }}
+          onMouseDown={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            onSelect(connector.uuid);
+          }}
+        >
+          {connector.label}
+        </div>
+      ))}
+
+      {selected && (
+        <ConnectorEditor
+          key={selected.connector.uuid}
+          connector={selected.connector}
+          position={selected.line.mid}
+          zoom={zoom}
+          onUpdate={onUpdate}
+          onDelete={(connector) => {
+            onDelete(connector);
+            onSelect(null);
+          }}
+        />
+      )}
+    </>
+  );
+};
+
+interface ConnectorEditorProps {
+  connector: Connector;
+  position: { x: number; y: number };
+  zoom: number;
+  onUpdate: (connector: Connector) => void;
+  onDelete: (connector: Connector) => void;
+}
+
+// Label, style, arrowheads and color of the selected connector, kept at screen size
+const ConnectorEditor: React.FC<ConnectorEditorProps> = ({ connector, position, zoom, onUpdate, onDelete }) => {
+  const [label, setLabel] = useState(connector.label || '');
+
+  useEffect(() => {
+    setLabel(connector.label || '');
+  }, [connector.label]);
+
+  const commitLabel = () => {
+    const trimmed = label.trim();
+    if (trimmed !== (connector.label || '')) {
+      onUpdate({ ...connector, label: trimmed || null });
+    }
+  };
+
+  return (
+    <div
+      className="absolute p-2 space-y-2 w-56 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg"
+      style={{
+        left: position.x,
+        top: position.y,
+        // Below the line's middle, at the same size on screen at any zoom
+        transform: `scale(${1 / zoom}) translate(-50%, ${CONNECTOR.HIT_WIDTH}px)`,
+        transformOrigin: 'top left',
+        zIndex: Z_INDEX.NOTE_DETAIL_MODAL - 1
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      <input
+        type="text"
+        value={label}
+        maxLength={CONNECTOR.MAX_LABEL_LENGTH}
+        onChange={(e) => setLabel(e.target.value)}
+        onBlur={commitLabel}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commitLabel();
+        }}
+        placeholder="Label..."
+        className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      <div className="flex gap-1">
+        {LINE_STYLES.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onUpdate({ ...connector, lineStyle: option.value })}
+            className={optionClass(connector.lineStyle === option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-1">
+        {ARROW_HEADS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onUpdate({ ...connector, arrowHead: option.value })}
+            className={optionClass(connector.arrowHead === option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex gap-1">
+          {CONNECTOR.COLOR_PRESETS.map(color => (
+            <button
+              key={color}
+              onClick={() => onUpdate({ ...connector, color: color === CONNECTOR.DEFAULT_COLOR ? null : color })}
+              className={`w-5 h-5 rounded-full border hover:scale-110 transition-transform ${
+                (connector.color || CONNECTOR.DEFAULT_COLOR) === color ? 'border-gray-900 dark:border-white' : 'border-black/10'
+              }`}
+              style={{ backgroundColor: color }}
+              title={color}
+            />
+          ))}
+        </div>
+        <button
+          onClick={() => onDelete(connector)}
+          className="p-1 rounded text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30"
+          title="Delete connector"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
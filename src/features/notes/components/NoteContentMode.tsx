@@ -1,4 +1,8 @@
-import React from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Eye, Pencil } from 'lucide-react';
+import { MarkdownContent } from './MarkdownContent';
+import { toggleMarkdownCheckbox } from '@/helpers/markdown-parser';
+import { LIMITS } from '@/constants/ui-constants';
 
 interface NoteContentModeProps {
   content: string;
@@ -12,7 +16,10 @@ interface NoteContentModeProps {
   onContentKeyDown: (e: React.KeyboardEvent) => void;
   onContentPaste: (e: React.ClipboardEvent) => void;
   onStartEditingContent: () => void;
+  onToggleCheckbox?: (line: number) => void;
   onAutoResizeTextarea?: () => void;
+  /** Height the rendered content is clipped to (cards only) */
+  maxContentHeight?: number;
   isDetail?: boolean;
   className?: string;
 }
@@ -29,52 +36,161 @@ export const NoteContentMode: React.FC<NoteContentModeProps> = ({
   onContentKeyDown,
   onContentPaste,
   onStartEditingContent,
+  onToggleCheckbox,
   onAutoResizeTextarea,
+  maxContentHeight,
   isDetail = false,
   className = '',
 }) => {
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const editorRef = useRef<HTMLDivElement>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  // Set while switching between write and preview, so losing focus does not end editing
+  const isSwitchingModeRef = useRef(false);
+
+  useEffect(() => {
+    if (!isEditingContent) {
+      setIsPreviewing(false);
+    }
+  }, [isEditingContent]);
+
+  // Move focus into the newly shown pane after switching modes
+  useEffect(() => {
+    if (!isSwitchingModeRef.current) return;
+    isSwitchingModeRef.current = false;
+
+    if (isPreviewing) {
+      previewRef.current?.focus();
+    } else if (textareaRef.current) {
+      textareaRef.current.focus();
+      onAutoResizeTextarea?.();
+    }
+  }, [isPreviewing, textareaRef, onAutoResizeTextarea]);
+
+  const switchMode = (preview: boolean) => {
+    if (preview === isPreviewing) return;
+    isSwitchingModeRef.current = true;
+    setIsPreviewing(preview);
+  };
+
+  // Editing ends when focus leaves the editor (textarea, preview and toggle)
+  const handleEditorBlur = (e: React.FocusEvent) => {
+    if (isSwitchingModeRef.current) return;
+    if (editorRef.current?.contains(e.relatedTarget as Node | null)) return;
+    onContentSubmit();
+  };
+
+  const isPlaceholder = content === 'Click to add content...' || content === 'Double-click to add content...' || content === '';
+
+  const modeButtonClass = (isActive: boolean) =>
+    `flex items-center gap-1 px-2 py-0.5 rounded transition-colors ${isActive ? 'bg-black/10 font-medium' : 'opacity-60 hover:opacity-100'}`;
+
   return (
     <div className={`note-content-mode ${className}`}>
       {isEditingContent ? (
-        <textarea
-          ref={textareaRef}
-          value={content}
-          onChange={(e) => {
-            onContentChange(e.target.value);
-          }}
-          onInput={onAutoResizeTextarea}
-          onBlur={onContentSubmit}
-          onKeyDown={onContentKeyDown}
-          onPaste={onContentPaste}
-          className={isDetail ? 'note-detail-textarea' : 'note-content-textarea'}
-          placeholder={isDetail ? 'Enter note content...' : 'Note content...'}
-          onMouseDown={(e) => e.stopPropagation()}
-          onDoubleClick={(e) => e.stopPropagation()}
-          style={
-            isDetail 
-              ? { minHeight: '24rem' } // 96 * 0.25rem = 24rem
-              : { minHeight: '100px', overflow: 'hidden' }
-          }
-        />
+        <div ref={editorRef} className="flex flex-col h-full" onBlur={handleEditorBlur}>
+          {/* Write / preview toggle */}
+          <div className="flex items-center justify-end gap-1 mb-1 text-xs">
+            <button
+              type="button"
+              className={modeButtonClass(!isPreviewing)}
+              onMouseDown={(e) => {
+                // Keep focus in the editor
+                e.preventDefault();
+                e.stopPropagation();
+              }}
+              onClick={(e) => {
+                e.stopPropagation();
+                switchMode(false);
+              }}
+              title="Edit Markdown"
+            >
+              <Pencil size={12} />
+              Write
+            </button>
+            <button
+              type="button"
+              className={modeButtonClass(isPreviewing)}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+              }}
+              onClick={(e) => {
+                e.stopPropagation();
+                switchMode(true);
+              }}
+              title="Preview rendered Markdown"
+            >
+              <Eye size={12} />
+              Preview
+            </button>
+          </div>
+
+          {isPreviewing ? (
+            <div
+              ref={previewRef}
+              tabIndex={-1}
+              className={isDetail ? 'note-detail-content-view outline-none' : 'note-content-preview outline-none'}
+              onKeyDown={onContentKeyDown}
+              onMouseDown={(e) => e.stopPropagation()}
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                switchMode(false);
+              }}
+              style={isDetail ? undefined : { minHeight: LIMITS.MIN_CONTENT_HEIGHT, maxHeight: LIMITS.MAX_CONTENT_HEIGHT }}
+            >
+              {content.trim() ? (
+                <MarkdownContent
+                  content={content}
+                  onToggleCheckbox={(line) => onContentChange(toggleMarkdownCheckbox(content, line))}
+                />
+              ) : (
+                <span className="text-gray-500 italic">Nothing to preview</span>
+              )}
+            </div>
+          ) : (
+            <textarea
+              ref={textareaRef}
+              value={content}
+              onChange={(e) => {
+                onContentChange(e.target.value);
+              }}
+              onInput={onAutoResizeTextarea}
+              onKeyDown={onContentKeyDown}
+              onPaste={onContentPaste}
+              className={isDetail ? 'note-detail-textarea' : 'note-content-textarea'}
+              placeholder={isDetail ? 'Enter note content... (Markdown supported)' : 'Note content... (Markdown supported)'}
+              onMouseDown={(e) => e.stopPropagation()}
+              onDoubleClick={(e) => e.stopPropagation()}
+              style={
+                isDetail
+                  ? { minHeight: '24rem' } // 96 * 0.25rem = 24rem
+                  : { minHeight: '100px', overflow: 'hidden' }
+              }
+            />
+          )}
+        </div>
       ) : (
-        <div 
-          ref={contentRef}
+        <div
           className={isDetail ? 'note-detail-content-view' : 'note-content-view'}
           onClick={(e) => {
             e.stopPropagation();
             onStartEditingContent();
           }}
         >
-          <span className={
-            content === 'Click to add content...' || content === 'Double-click to add content...' || content === '' 
-              ? 'text-gray-500 italic' 
-              : ''
-          }>
-            {content === '' 
-              ? 'Click to add content...' 
-              : displayContent
-            }
-          </span>
+          {isPlaceholder ? (
+            <span className="text-gray-500 italic">
+              {content === '' ? 'Click to add content...' : displayContent}
+            </span>
+          ) : (
+            <div
+              ref={contentRef}
+              className={isContentTooLong ? 'note-content-clipped' : undefined}
+              style={maxContentHeight ? { maxHeight: maxContentHeight, overflow: 'hidden' } : undefined}
+            >
+              <MarkdownContent content={displayContent} onToggleCheckbox={onToggleCheckbox} />
+            </div>
+          )}
           {!isDetail && isContentTooLong && (
             <div className="mt-1 text-xs opacity-60 italic">
               Right-click → View Detail for full content
@@ -3,14 +3,18 @@ import { X, Edit3, Calendar } from 'lucide-react';
 import { DatePicker } from '@mantine/dates';
 import { Note } from '@/domains/note';
 import { Tag } from '@/domains/tag';
+import { RecurrenceRule } from '@/domains/recurrence';
 import { getContrastTextColor } from '@/helpers/color-generator';
 import { formatDateDisplay } from '@/helpers/date-helper';
 import { getTaskProgressDisplay } from '@/helpers/task-manager';
 import { getTaskColors } from '@/helpers/task-colors';
+import { isNoteCompleted } from '@/helpers/due-date-helper';
 import { useNoteEditing } from '../hooks/use-note-editing';
 import { NoteTitle } from './NoteTitle';
 import { NoteTaskMode } from './NoteTaskMode';
 import { NoteContentMode } from './NoteContentMode';
+import { RecurrencePicker } from './RecurrencePicker';
+import { DueDatePicker } from './DueDatePicker';
 import { ANIMATION } from '@/constants/ui-constants';
 import '../styles/note-card.css';
 
@@ -61,11 +65,15 @@ export const NoteDetail: React.FC<NoteDetailProps> = ({
     handleTitleKeyDown,
     startEditingTitle,
     startEditingContent,
+    toggleContentCheckbox,
     toggleTaskMode,
     addTask,
     updateTask,
     deleteTask,
     toggleTask,
+    handleIndentTask,
+    handleOutdentTask,
+    handleMoveTask,
     updateTags
   } = useNoteEditing(note, onUpdate, setSelectedTags);
 
@@ -93,6 +101,28 @@ export const NoteDetail: React.FC<NoteDetailProps> = ({
     });
   };
 
+  // Handle repeat rule changes; completions only make sense while the note repeats
+  const handleRecurrenceChange = (rule: RecurrenceRule | null) => {
+    onUpdate({
+      ...note,
+      recurrence: rule,
+      occurrenceCompletions: rule ? note.occurrenceCompletions : null,
+      updatedAt: new Date(),
+      clientUpdatedAt: new Date() // Track client update for sync
+    });
+  };
+
+  // Handle due date and reminder changes of the note
+  const handleDueChange = (dueDate: Date | null, reminderMinutes: number | null) => {
+    onUpdate({
+      ...note,
+      dueDate,
+      reminderMinutes,
+      updatedAt: new Date(),
+      clientUpdatedAt: new Date() // Track client update for sync
+    });
+  };
+
   // Use tags from hook for display
   const contentTags = tags.length > 0 ? tags : selectedTags;
 
@@ -308,11 +338,24 @@ export const NoteDetail: React.FC<NoteDetailProps> = ({
             >
               {note.isTaskMode ? '📝' : '📋'}
             </button>
+            <DueDatePicker
+              dueDate={note.dueDate}
+              reminderMinutes={note.reminderMinutes}
+              completed={isNoteCompleted(note)}
+              onChange={handleDueChange}
+            />
+            <RecurrencePicker
+              rule={note.recurrence}
+              startDate={note.date}
+              onChange={handleRecurrenceChange}
+            />
             <Calendar size={20} />
             <div className="relative" ref={datePickerRef}>
               <button
                 onClick={() => setShowDatePicker(!showDatePicker)}
-                className="text-base cursor-pointer hover:bg-black/5 rounded px-2 py-1 -mx-2 -my-1 transition-colors"
+                disabled={!!note.occurrenceDate}
+                className="text-base cursor-pointer hover:bg-black/5 rounded px-2 py-1 -mx-2 -my-1 transition-colors disabled:cursor-default disabled:hover:bg-transparent"
+                title={note.occurrenceDate ? 'Occurrence of a recurring note - open its first date to move the series' : undefined}
               >
                 {formatDateDisplay(selectedDate)}
               </button>
@@ -368,6 +411,11 @@ export const NoteDetail: React.FC<NoteDetailProps> = ({
               onDeleteTask={deleteTask}
               onStartEditingTask={setEditingTaskId}
               onTaskEditKeyDown={(e, taskUuid) => handleTaskEditKeyDown(e, taskUuid, '')}
+              onSetTaskDue={(taskUuid, dueDate, reminderMinutes) => updateTask(taskUuid, { dueDate, reminderMinutes })}
+              onSetTaskMeta={updateTask}
+              onIndentTask={handleIndentTask}
+              onOutdentTask={handleOutdentTask}
+              onMoveTask={handleMoveTask}
               isDetail={true}
             />
           ) : (
@@ -383,6 +431,7 @@ export const NoteDetail: React.FC<NoteDetailProps> = ({
               onContentKeyDown={handleContentKeyDown}
               onContentPaste={handleContentPaste}
               onStartEditingContent={startEditingContent}
+              onToggleCheckbox={toggleContentCheckbox}
               isDetail={true}
               className="h-full"
             />
@@ -1,8 +1,10 @@
-import React from 'react';
-import { Plus, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { Plus, X, AlarmClock, Flag, GripVertical, IndentIncrease, IndentDecrease, AtSign } from 'lucide-react';
 import { cn } from '@/styles/utils';
-import { NoteTask } from '@/domains/noteTask';
-import { getTaskProgress } from '@/helpers/task-manager';
+import { NoteTask, TaskPriority } from '@/domains/noteTask';
+import { getTaskProgress, getSubtaskProgress, sortTasks, TaskDropPlacement } from '@/helpers/task-manager';
+import { formatDueDate, isTaskOverdue } from '@/helpers/due-date-helper';
+import { DueDatePicker } from './DueDatePicker';
 import { TASK_MODE, TEXT } from '@/constants/ui-constants';
 
 interface NoteTaskModeProps {
@@ -29,6 +31,17 @@ interface NoteTaskModeProps {
   onDeleteTask: (taskUuid: string) => void;
   onStartEditingTask: (taskUuid: string) => void;
   onTaskEditKeyDown: (e: React.KeyboardEvent, taskUuid: string) => void;
+  /** When set, each task gets a due date picker; otherwise due dates are only shown */
+  onSetTaskDue?: (taskUuid: string, dueDate: Date | null, reminderMinutes: number | null) => void;
+  /** When set, Tab / Shift+Tab while editing a task nests or un-nests it */
+  onIndentTask?: (taskUuid: string) => void;
+  onOutdentTask?: (taskUuid: string) => void;
+  /** When set, tasks can be reordered by dragging their handle */
+  onMoveTask?: (taskUuid: string, targetUuid: string, placement: TaskDropPlacement) => void;
+  /** When set, each task gets priority and assignee controls */
+  onSetTaskMeta?: (taskUuid: string, updates: Pick<NoteTask, 'priority' | 'assignee'>) => void;
+  /** Current time for overdue highlighting */
+  now?: Date;
   isDetail?: boolean;
   className?: string;
 }
@@ -47,10 +60,57 @@ export const NoteTaskMode: React.FC<NoteTaskModeProps> = ({
   onDeleteTask,
   onStartEditingTask,
   onTaskEditKeyDown,
+  onSetTaskDue,
+  onIndentTask,
+  onOutdentTask,
+  onMoveTask,
+  onSetTaskMeta,
+  now,
   isDetail = false,
   className = '',
 }) => {
+  const [draggedTaskUuid, setDraggedTaskUuid] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ uuid: string; placement: TaskDropPlacement } | null>(null);
   const progress = getTaskProgress(tasks);
+  const orderedTasks = sortTasks(tasks || []);
+
+  // Parents come before their subtasks, so one pass is enough
+  const depths = new Map<string, number>();
+  orderedTasks.forEach(task => {
+    depths.set(task.uuid, task.parentUuid ? (depths.get(task.parentUuid) ?? -1) + 1 : 0);
+  });
+
+  const handleEditKeyDown = (e: React.KeyboardEvent, taskUuid: string) => {
+    if (e.key === 'Tab' && onIndentTask && onOutdentTask) {
+      e.preventDefault();
+      if (e.shiftKey) {
+        onOutdentTask(taskUuid);
+      } else {
+        onIndentTask(taskUuid);
+      }
+      return;
+    }
+    onTaskEditKeyDown(e, taskUuid);
+  };
+
+  const handleDragOver = (e: React.DragEvent, taskUuid: string) => {
+    if (!draggedTaskUuid || draggedTaskUuid === taskUuid) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const placement: TaskDropPlacement = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+    if (dropTarget?.uuid !== taskUuid || dropTarget.placement !== placement) {
+      setDropTarget({ uuid: taskUuid, placement });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (draggedTaskUuid && dropTarget && onMoveTask) {
+      onMoveTask(draggedTaskUuid, dropTarget.uuid, dropTarget.placement);
+    }
+    setDraggedTaskUuid(null);
+    setDropTarget(null);
+  };
 
   return (
     <div 
@@ -98,63 +158,202 @@ export const NoteTaskMode: React.FC<NoteTaskModeProps> = ({
           }
         }}
       >
-        {tasks?.map((task) => (
-          <div key={task.uuid} className="task-item-container">
-            <button
-              className={cn('task-checkbox', task.completed && 'checked')}
-              onClick={(e) => {
-                e.stopPropagation();
-                onToggleTask(task.uuid);
-              }}
-              onMouseDown={(e) => e.stopPropagation()}
-            />
-            
-            <div 
-              className="task-item"
-              onMouseDown={(e) => e.stopPropagation()}
+        {orderedTasks.map((task) => {
+          const depth = depths.get(task.uuid) ?? 0;
+          const subtasks = getSubtaskProgress(orderedTasks, task.uuid);
+
+          return (
+            <div
+              key={task.uuid}
+              className={cn(
+                'task-item-container',
+                draggedTaskUuid === task.uuid && 'dragging',
+                dropTarget?.uuid === task.uuid && `drop-${dropTarget.placement}`
+              )}
+              style={depth > 0 ? { marginLeft: depth * TASK_MODE.SUBTASK_INDENT_PX } : undefined}
+              onDragOver={onMoveTask ? (e) => handleDragOver(e, task.uuid) : undefined}
+              onDragLeave={onMoveTask ? () => setDropTarget(prev => prev?.uuid === task.uuid ? null : prev) : undefined}
+              onDrop={onMoveTask ? handleDrop : undefined}
             >
-              <div className={cn('task-text', task.completed && 'completed')}>
-                {editingTaskId === task.uuid ? (
-                  <textarea
-                    defaultValue={task.text}
-                    onBlur={(e) => onEditTask(task.uuid, e.target.value)}
-                    onKeyDown={(e) => onTaskEditKeyDown(e, task.uuid)}
-                    onMouseDown={(e) => e.stopPropagation()}
-                    autoFocus
-                    rows={1}
-                    onInput={(e) => {
-                      const target = e.target as HTMLTextAreaElement;
-                      target.style.height = 'auto';
-                      target.style.height = Math.min(target.scrollHeight, TASK_MODE.INPUT_LINE_HEIGHT_PX * TASK_MODE.INPUT_MAX_HEIGHT_MULTIPLIER * TASK_MODE.INPUT_MIN_HEIGHT) + 'px';
-                    }}
-                  />
-                ) : (
-                  <div
-                    className="cursor-pointer"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onStartEditingTask(task.uuid);
-                    }}
-                    title={task.text.length > TEXT.MAX_TASK_TEXT_LENGTH ? task.text : undefined}
-                  >
-                    {task.text}
+              <button
+                className={cn('task-checkbox', task.completed && 'checked')}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleTask(task.uuid);
+                }}
+                onMouseDown={(e) => e.stopPropagation()}
+              />
+            
+              <div 
+                className="task-item"
+                onMouseDown={(e) => e.stopPropagation()}
+              >
+                <div className="flex items-start gap-1">
+                  {onMoveTask && (
+                    <span
+                      className="task-drag-handle"
+                      draggable
+                      onDragStart={(e) => {
+                        e.stopPropagation();
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData('text/plain', task.uuid);
+                        setDraggedTaskUuid(task.uuid);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedTaskUuid(null);
+                        setDropTarget(null);
+                      }}
+                      title="Drag to reorder"
+                    >
+                      <GripVertical size={12} />
+                    </span>
+                  )}
+                  <div className={cn('task-text flex-1 min-w-0', task.completed && 'completed')}>
+                    {editingTaskId === task.uuid ? (
+                      <textarea
+                        defaultValue={task.text}
+                        onBlur={(e) => onEditTask(task.uuid, e.target.value)}
+                        onKeyDown={(e) => handleEditKeyDown(e, task.uuid)}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        autoFocus
+                        rows={1}
+                        onInput={(e) => {
+                          const target = e.target as HTMLTextAreaElement;
+                          target.style.height = 'auto';
+                          target.style.height = Math.min(target.scrollHeight, TASK_MODE.INPUT_LINE_HEIGHT_PX * TASK_MODE.INPUT_MAX_HEIGHT_MULTIPLIER * TASK_MODE.INPUT_MIN_HEIGHT) + 'px';
+                        }}
+                      />
+                    ) : (
+                      <div
+                        className="cursor-pointer"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onStartEditingTask(task.uuid);
+                        }}
+                        title={task.text.length > TEXT.MAX_TASK_TEXT_LENGTH ? task.text : undefined}
+                      >
+                        {task.text}
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {/* Subtask count, priority and assignee */}
+                {(subtasks.total > 0 || (!onSetTaskMeta && (task.priority || task.assignee))) && (
+                  <div className="task-meta">
+                    {subtasks.total > 0 && <span>{subtasks.completed}/{subtasks.total} subtasks</span>}
+                    {!onSetTaskMeta && task.priority && (
+                      <span className="flex items-center gap-0.5" title={`${task.priority} priority`}>
+                        <Flag size={10} fill={TASK_MODE.PRIORITY_COLORS[task.priority]} color={TASK_MODE.PRIORITY_COLORS[task.priority]} />
+                        {task.priority}
+                      </span>
+                    )}
+                    {!onSetTaskMeta && task.assignee && (
+                      <span className="flex items-center gap-0.5 truncate" title={`Assigned to ${task.assignee}`}>
+                        <AtSign size={10} />
+                        {task.assignee}
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {onSetTaskDue || onSetTaskMeta ? (
+                  <div className="flex items-center justify-end flex-wrap gap-1 mt-1">
+                    {onSetTaskMeta && (
+                      <>
+                        <select
+                          value={task.priority ?? ''}
+                          onChange={(e) => onSetTaskMeta(task.uuid, {
+                            priority: (e.target.value || null) as TaskPriority | null,
+                            assignee: task.assignee ?? null,
+                          })}
+                          onClick={(e) => e.stopPropagation()}
+                          className="task-meta-input"
+                          style={task.priority ? { color: TASK_MODE.PRIORITY_COLORS[task.priority] } : undefined}
+                          title="Priority"
+                        >
+                          <option value="">No priority</option>
+                          <option value="high">High</option>
+                          <option value="medium">Medium</option>
+                          <option value="low">Low</option>
+                        </select>
+                        <input
+                          key={task.assignee ?? ''}
+                          defaultValue={task.assignee ?? ''}
+                          placeholder="Assignee"
+                          onBlur={(e) => {
+                            const assignee = e.target.value.trim() || null;
+                            if (assignee !== (task.assignee ?? null)) {
+                              onSetTaskMeta(task.uuid, { priority: task.priority ?? null, assignee });
+                            }
+                          }}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                          }}
+                          onClick={(e) => e.stopPropagation()}
+                          className="task-meta-input w-24"
+                          title="Assignee"
+                        />
+                      </>
+                    )}
+                    {onIndentTask && onOutdentTask && (
+                      <>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onOutdentTask(task.uuid);
+                          }}
+                          disabled={depth === 0}
+                          className="p-1 rounded hover:bg-black/5 disabled:opacity-30"
+                          title="Outdent (Shift+Tab)"
+                        >
+                          <IndentDecrease size={12} />
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onIndentTask(task.uuid);
+                          }}
+                          disabled={depth >= TASK_MODE.MAX_SUBTASK_DEPTH}
+                          className="p-1 rounded hover:bg-black/5 disabled:opacity-30"
+                          title="Indent (Tab)"
+                        >
+                          <IndentIncrease size={12} />
+                        </button>
+                      </>
+                    )}
+                    {onSetTaskDue && (
+                      <DueDatePicker
+                        dueDate={task.dueDate}
+                        reminderMinutes={task.reminderMinutes}
+                        completed={task.completed}
+                        onChange={(dueDate, reminderMinutes) => onSetTaskDue(task.uuid, dueDate, reminderMinutes)}
+                        compact
+                      />
+                    )}
+                  </div>
+                ) : task.dueDate && (
+                  <div className={cn('task-due', isTaskOverdue(task, now) && 'overdue')}>
+                    <AlarmClock size={10} />
+                    {formatDueDate(task.dueDate, now)}
                   </div>
                 )}
               </div>
-            </div>
             
-            <button
-              className="task-delete"
-              onClick={(e) => {
-                e.stopPropagation();
-                onDeleteTask(task.uuid);
-              }}
-              onMouseDown={(e) => e.stopPropagation()}
-            >
-              <X size={TASK_MODE.TOGGLE_FONT_SIZE} />
-            </button>
-          </div>
-        ))}
+              <button
+                className="task-delete"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDeleteTask(task.uuid);
+                }}
+                onMouseDown={(e) => e.stopPropagation()}
+                title={subtasks.total > 0 ? 'Delete with subtasks' : undefined}
+              >
+                <X size={TASK_MODE.TOGGLE_FONT_SIZE} />
+              </button>
+            </div>
+          );
+        })}
         
         {/* Add new task */}
         <div 
@@ -1,28 +1,70 @@
 import '../styles/notes-canvas.css';
-import { Plus, Trash2, Search, User, LogIn } from 'lucide-react';
+import { Plus, Trash2, Search, User, LogIn, ArchiveRestore, Download, Share2, ArrowLeft, Eye, WifiOff, Frame as FrameIcon } from 'lucide-react';
 import { NoteCard } from './NoteCard';
 import { SearchSidebar } from './SearchSidebar';
 import { CalendarSidebar } from './CalendarSidebar';
 import { QuickNoteTabs } from './QuickNoteTabs';
 import { ConfirmationDialog } from './ConfirmationDialog';
+import { CanvasMinimap } from './CanvasMinimap';
+import { SelectionToolbar } from './SelectionToolbar';
+import { TrashPanel } from './TrashPanel';
+import { ExportImportPanel } from './ExportImportPanel';
+import { ShareCanvasDialog } from './ShareCanvasDialog';
+import { CanvasPresence } from './CanvasPresence';
+import { RemoteCursors } from './RemoteCursors';
+import { NoteConnectors } from './NoteConnectors';
+import { FrameCard } from './FrameCard';
+import { LayoutMenu } from './LayoutMenu';
 import { LoginModal } from '@/components/auth';
+import { SyncStatusIndicator } from '@/components/sync';
 import { ThemeToggle } from '@/components/common';
 import { useNotes, formatDateKey } from '../hooks/use-notes';
 import { useCanvasDrag } from '../hooks/use-canvas-drag';
+import { useCanvasViewport } from '../hooks/use-canvas-viewport';
+import { useNoteSelection } from '../hooks/use-note-selection';
+import { useMarqueeSelection } from '../hooks/use-marquee-selection';
+import { useReminders } from '../hooks/use-reminders';
+import { useCanvasShares } from '../hooks/use-canvas-shares';
+import { useSharedCanvas } from '../hooks/use-shared-canvas';
+import { useCanvasCollaboration } from '../hooks/use-canvas-collaboration';
+import { useConnectors } from '../hooks/use-connectors';
+import { useFrames } from '../hooks/use-frames';
 import { useAuthContext } from '@/components/common/contexts/AuthContext';
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { NotesStorage } from '@/helpers/notes-storage';
 import { Note } from '@/domains/note';
+import { Frame } from '@/domains/frame';
+import { Tag } from '@/domains/tag';
+import { DueItem } from '@/types/reminder.types';
+import { CanvasShare } from '@/types/collaboration.types';
 import { isSameDay, formatHeaderDate } from '@/helpers/date-helper';
-import { LAYOUT, DRAG, NOTE_CARD, Z_INDEX, ANIMATION } from '@/constants/ui-constants';
+import { getNoteSize, getNotesBounds } from '@/helpers/viewport-helper';
+import { layoutNotes, LayoutCommand } from '@/helpers/layout-helper';
+import { findFrameAt, getFrameNotes, getFramesOfDate, isNoteInCollapsedFrame } from '@/helpers/frame-helper';
+import { canEditShare, describeShareScope, findDateShare, getShareRole } from '@/helpers/collaboration-helper';
+import {
+  AlignmentGuide,
+  AlignMode,
+  DistributeAxis,
+  NoteBounds,
+  alignNotes,
+  distributeNotes,
+  getSnappedPosition
+} from '@/helpers/alignment-helper';
+import { DRAG, GRID, Z_INDEX, ANIMATION, SELECTION, FRAME, AUTO_LAYOUT } from '@/constants/ui-constants';
 import { NotesSyncService } from '@/services/notes-sync-service';
+import { toast } from '@/hooks/use-toast';
 
 export const NotesCanvas = () => {
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [showSearchSidebar, setShowSearchSidebar] = useState(false);
-  const [selectedNoteUuid, setSelectedNoteUuid] = useState<string | null>(null);
   const [showLoginModal, setShowLoginModal] = useState(false);
+  const [showTrashPanel, setShowTrashPanel] = useState(false);
+  const [showExportPanel, setShowExportPanel] = useState(false);
   const [isAnyNoteDetailOpen, setIsAnyNoteDetailOpen] = useState(false);
+  const [showSharePanel, setShowSharePanel] = useState(false);
+  // A canvas shared by a teammate (or one of the user's tag boards) shown instead of the date canvas
+  const [openShare, setOpenShare] = useState<CanvasShare | null>(null);
   
   const { user, isAuthenticated, logout } = useAuthContext();
   
@@ -32,11 +74,17 @@ export const NotesCanvas = () => {
     isLoading,
     createNote, 
     updateNote, 
+    updateNotes,
     deleteNote, 
+    deleteNotes,
     clearAllDisplayedNotes,
     dragNote, 
     finalizeDrag,
     moveNoteToDate,
+    restoreFromTrash,
+    purgeFromTrash,
+    undo,
+    redo,
     refreshNoteFromStorage,
     forceReloadAllNotes,
     isCreating,
@@ -44,9 +92,80 @@ export const NotesCanvas = () => {
     isDeleting 
   } = useNotes(selectedDate, isAuthenticated);
 
-  const { containerRef, isDragging, handleMouseDown } = useCanvasDrag();
+  const {
+    ownedShares,
+    sharedWithMe,
+    createShare,
+    deleteShare,
+    addMember,
+    updateMemberRole,
+    removeMember
+  } = useCanvasShares(isAuthenticated);
+
+  // The date canvas on screen may be shared too; teammates then see it live
+  const selectedDateKey = formatDateKey(selectedDate);
+  const dateShare = openShare ? undefined : findDateShare(ownedShares, selectedDateKey);
+  const activeShareId = openShare?.id ?? dateShare?.id ?? null;
+  const shareRole = openShare && user ? getShareRole(openShare, user.id) : 'owner';
+  const canEditCanvas = canEditShare(shareRole);
+
+  const sharedCanvas = useSharedCanvas(openShare, canEditCanvas);
+  const collaboration = useCanvasCollaboration(activeShareId);
+
+  // Frames of the selected date; shared canvases show notes only
+  const { frames, createFrame, updateFrame, deleteFrame } = useFrames();
+  const dateFrames = openShare ? [] : getFramesOfDate(frames, selectedDate);
+
+  // Notes on screen: the shared canvas, or the user's notes of the selected date
+  // that are not hidden in a collapsed frame
+  const canvasNotes = openShare ? sharedCanvas.notes : notes.filter(note => !isNoteInCollapsedFrame(note, dateFrames));
+  const canvasAllNotes = openShare ? sharedCanvas.notes : allNotes;
+
+  const {
+    viewportRef,
+    viewport,
+    screenToCanvas,
+    getVisibleBounds,
+    panBy,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    resetViewport,
+    zoomToFit,
+    centerOn
+  } = useCanvasViewport();
+
+  const { isDragging, handleMouseDown } = useCanvasDrag(panBy);
+
+  const {
+    selectedUuids,
+    selectedNotes,
+    isSelected,
+    selectOnly,
+    toggleSelection,
+    clearSelection,
+    selectInBounds
+  } = useNoteSelection(canvasNotes);
+
+  const { marqueeBounds, handleMouseDown: handleMarqueeMouseDown } = useMarqueeSelection(screenToCanvas, selectInBounds);
+
+  const [showDeleteSelectionConfirmation, setShowDeleteSelectionConfirmation] = useState(false);
+  // Where the last canvas press started, to tell clicks from pans
+  const pointerDownRef = useRef({ x: 0, y: 0 });
 
   const [showClearConfirmation, setShowClearConfirmation] = useState(false);
+
+  const [isSnapEnabled, setIsSnapEnabled] = useState(() => NotesStorage.getSnapToGrid());
+  // Guides shown while a dragged note lines up with a neighbour
+  const [alignmentGuides, setAlignmentGuides] = useState<AlignmentGuide[]>([]);
+
+  // Connectors between the user's notes; shared canvases show notes only
+  const { connectors, connectNotes, updateConnector, deleteConnector } = useConnectors();
+  const [selectedConnectorUuid, setSelectedConnectorUuid] = useState<string | null>(null);
+
+  // Set while notes glide to the places a layout command gave them
+  const [isArranging, setIsArranging] = useState(false);
+  const arrangeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   
   // Z-index management
   const [noteZIndices, setNoteZIndices] = useState<Record<string, number>>({});
@@ -60,9 +179,10 @@ export const NotesCanvas = () => {
   useEffect(() => {
     if (!isLoading && selectedDate) {
       const dateKey = formatDateKey(selectedDate);
-      const noteCount = NotesStorage.getNotesCountByDate(dateKey);
       
-      NotesStorage.saveCanvasData(dateKey, noteCount);
+      NotesStorage.getNotesCountByDate(dateKey).then(noteCount => {
+        NotesStorage.saveCanvasData(dateKey, noteCount);
+      });
       NotesStorage.saveRecentCanvasDate(dateKey);
     }
   }, [notes.length, selectedDate, isLoading, isCreating, isUpdating, isDeleting]);
@@ -83,13 +203,42 @@ export const NotesCanvas = () => {
     };
   }, [forceReloadAllNotes]);
 
+  // Each date has its own canvas - start at the origin when switching dates or shared canvases
+  const openShareId = openShare?.id ?? null;
+  useEffect(() => {
+    resetViewport();
+  }, [selectedDateKey, openShareId, resetViewport]);
+
+  // Switching dates returns to the user's own canvases; so does signing out
+  useEffect(() => {
+    setOpenShare(null);
+  }, [selectedDateKey, isAuthenticated]);
+
+  // Tags of the user's notes, offered as tag boards to share
+  const availableTags = useMemo(() => {
+    const tagsByUuid = new Map<string, Tag>();
+    allNotes.forEach(note => (note.tags || []).forEach(tag => tagsByUuid.set(tag.uuid, tag)));
+    return [...tagsByUuid.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }, [allNotes]);
+
+  const handleOpenShare = (share: CanvasShare) => {
+    clearSelection();
+    setOpenShare(share);
+    setShowSharePanel(false);
+  };
+
   const handleCanvasDoubleClick = (e: React.MouseEvent) => {
     // Prevent default double-click behavior (text selection)
     e.preventDefault();
     e.stopPropagation();
     
-    // Disable note creation when login modal is open
-    if (showLoginModal || showSearchSidebar || isAnyNoteDetailOpen) {
+    // Ignore events bubbling from portaled overlays
+    if (!e.currentTarget.contains(e.target as Node)) {
+      return;
+    }
+    
+    // Disable note creation when login modal is open; shared canvases only hold the owner's notes
+    if (showLoginModal || showSearchSidebar || isAnyNoteDetailOpen || openShare) {
       return;
     }
     
@@ -101,12 +250,11 @@ export const NotesCanvas = () => {
       }
     }
     
-    // Note: No need to prevent note creation in left region since the canvas area 
-    // now starts at 280px from left due to ml-[280px] class
-    const rect = e.currentTarget.getBoundingClientRect();
+    // Convert the click to canvas coordinates at the current pan and zoom
+    const point = screenToCanvas(e.clientX, e.clientY);
     const position = {
-      x: e.clientX - rect.left - DRAG.CENTER_NOTE_X_OFFSET, // Center the note
-      y: e.clientY - rect.top - DRAG.CENTER_NOTE_Y_OFFSET
+      x: point.x - DRAG.CENTER_NOTE_X_OFFSET, // Center the note
+      y: point.y - DRAG.CENTER_NOTE_Y_OFFSET
     };
     createNote(position);
   };
@@ -124,55 +272,54 @@ export const NotesCanvas = () => {
     setShowClearConfirmation(false);
   };
 
+  // Pan the viewport so the note is in the center of the canvas
+  const centerOnNote = (note: Note) => {
+    const size = getNoteSize(note.uuid);
+    centerOn({
+      x: note.position.x + size.width / 2,
+      y: note.position.y + size.height / 2
+    });
+  };
+
   const handleNoteSelect = (note: Note) => {
+    setOpenShare(null);
     if (!isSameDay(note.date, selectedDate)) {
       setSelectedDate(new Date(note.date));
     }
     
-    setSelectedNoteUuid(note.uuid);
+    selectOnly(note.uuid);
     
     setShowSearchSidebar(false);
     
-    setTimeout(() => {
-      const noteElement = document.querySelector(`[data-note-uuid="${note.uuid}"]`);
-      if (noteElement) {
-        noteElement.scrollIntoView({ 
-          behavior: 'smooth', 
-          block: 'center',
-          inline: 'center'
-        });
-      }
-    }, ANIMATION.SCROLL_TO_NOTE_DELAY);
+    setTimeout(() => centerOnNote(note), ANIMATION.SCROLL_TO_NOTE_DELAY);
   };
 
   const handleQuickNoteSelect = (note: Note) => {
+    setOpenShare(null);
     // If the note is from a different date, switch to that date first
     if (!isSameDay(note.date, selectedDate)) {
       setSelectedDate(new Date(note.date));
     }
-    
-    setSelectedNoteUuid(note.uuid);
+
+    // Notes hidden in a collapsed frame are shown by expanding it
+    const collapsedFrame = frames.find(frame => frame.uuid === note.frameUuid && frame.isCollapsed);
+    if (collapsedFrame) updateFrame({ ...collapsedFrame, isCollapsed: false });
+
+    selectOnly(note.uuid);
     
     // Use setTimeout to ensure the date change has been processed
-    setTimeout(() => {
-      const noteElement = document.querySelector(`[data-note-uuid="${note.uuid}"]`);
-      if (noteElement && containerRef.current) {
-        // Get the note's position relative to the canvas
-        const noteRect = noteElement.getBoundingClientRect();
-        const containerRect = containerRef.current.getBoundingClientRect();
-        
-        // Calculate the horizontal center position only
-        const centerX = note.position.x - (containerRect.width / 2) + (noteRect.width / 2);
-        
-        // Scroll to center the note horizontally only
-        containerRef.current.scrollTo({
-          left: Math.max(0, centerX),
-          behavior: 'smooth'
-        });
-      }
-    }, ANIMATION.SCROLL_TO_NOTE_DELAY);
+    setTimeout(() => centerOnNote(note), ANIMATION.SCROLL_TO_NOTE_DELAY);
   };
 
+  // Jump to the note of a due item (upcoming list, reminder notification)
+  const handleOpenDueItem = (item: DueItem) => {
+    const note = allNotes.find(candidate => candidate.uuid === item.noteUuid);
+    if (note) handleQuickNoteSelect(note);
+  };
+
+  // Reminders for all notes; `now` drives overdue highlighting
+  const { now } = useReminders(allNotes, handleOpenDueItem);
+
   const handleNoteDetailStateChange = useCallback((_noteUuid: string, isOpen: boolean) => {
     setIsAnyNoteDetailOpen(isOpen);
   }, []);
@@ -182,7 +329,7 @@ export const NotesCanvas = () => {
     const newZIndices: Record<string, number> = {};
     let currentZIndex: number = Z_INDEX.NOTE_BASE;
     
-    notes.forEach((note) => {
+    canvasNotes.forEach((note) => {
       // Keep existing z-index if note already has one, otherwise assign new incremental z-index
       if (noteZIndices[note.uuid]) {
         newZIndices[note.uuid] = noteZIndices[note.uuid];
@@ -193,14 +340,14 @@ export const NotesCanvas = () => {
     });
     
     // Only update if the new indices are actually different
-    const hasChanges = notes.some(note => !noteZIndices[note.uuid]) || 
-                       Object.keys(noteZIndices).length !== notes.length;
+    const hasChanges = canvasNotes.some(note => !noteZIndices[note.uuid]) || 
+                       Object.keys(noteZIndices).length !== canvasNotes.length;
     
     if (hasChanges) {
       setNoteZIndices(newZIndices);
       setMaxZIndex(currentZIndex);
     }
-  }, [notes, noteZIndices]);
+  }, [canvasNotes, noteZIndices]);
 
   // Function to bring a note to the front
   const bringNoteToFront = useCallback((noteUuid: string) => {
@@ -213,42 +360,320 @@ export const NotesCanvas = () => {
 
   const displayedNotesCount = notes.filter(note => note.isDisplayed).length;
 
-  // Calculate dynamic canvas dimensions based on note positions
-  const calculateCanvasDimensions = useCallback(() => {
-    if (notes.length === 0) {
-      return {
-        width: LAYOUT.DEFAULT_CANVAS_WIDTH, // Default width when no notes
-        height: LAYOUT.DEFAULT_CANVAS_HEIGHT // Default height when no notes
-      };
+  // Dragging a selected note moves the whole selection by the same offset
+  const getGroupDragPositions = (uuid: string, position: { x: number; y: number }) => {
+    const draggedNote = canvasAllNotes.find(note => note.uuid === uuid);
+    if (!draggedNote || !isSelected(uuid) || selectedUuids.length < 2) {
+      return [{ uuid, position }];
     }
 
-    // Calculate the farthest note positions
-    const noteWidth = NOTE_CARD.MIN_WIDTH; // From note-card.css min-width
-    const noteHeight = NOTE_CARD.MIN_HEIGHT; // From note-card.css min-height
-    const padding = LAYOUT.CANVAS_PADDING; // Extra padding around notes
+    const deltaX = position.x - draggedNote.position.x;
+    const deltaY = position.y - draggedNote.position.y;
+    return canvasAllNotes
+      .filter(note => selectedUuids.includes(note.uuid))
+      .map(note => ({
+        uuid: note.uuid,
+        position: { x: note.position.x + deltaX, y: note.position.y + deltaY }
+      }));
+  };
 
-    let maxX = 0;
-    let maxY = 0;
+  // Box of a note at a position, with its rendered size
+  const getNoteBoundsAt = (uuid: string, position: { x: number; y: number }) => ({ ...position, ...getNoteSize(uuid) });
 
-    notes.forEach(note => {
-      const noteRightEdge = note.position.x + noteWidth;
-      const noteBottomEdge = note.position.y + noteHeight;
-      
-      maxX = Math.max(maxX, noteRightEdge);
-      maxY = Math.max(maxY, noteBottomEdge);
+  // Line the dragged note up with its neighbours, or the grid; notes moving with it are not neighbours
+  const snapDraggedNote = (uuid: string, position: { x: number; y: number }) => {
+    const movingUuids = isSelected(uuid) ? selectedUuids : [uuid];
+    const neighbours = canvasNotes
+      .filter(note => !movingUuids.includes(note.uuid))
+      .map(note => getNoteBoundsAt(note.uuid, note.position));
+    return getSnappedPosition(
+      getNoteBoundsAt(uuid, position),
+      neighbours,
+      GRID.GUIDE_SNAP_DISTANCE / viewport.zoom,
+      isSnapEnabled
+    );
+  };
+
+  // Teammates on a shared canvas see an outline where each note is dragged
+  const handleNoteDrag = (uuid: string, pointerPosition: { x: number; y: number }) => {
+    const { position, guides } = snapDraggedNote(uuid, pointerPosition);
+    setAlignmentGuides(guides);
+
+    getGroupDragPositions(uuid, position).forEach(item => {
+      if (openShare) {
+        sharedCanvas.dragNote(item.uuid, item.position);
+      } else {
+        dragNote(item.uuid, item.position);
+      }
+      collaboration.sendDragPreview(item.uuid, item.position);
     });
+  };
 
-    // Ensure minimum size and add padding
-    const minWidth = window.innerWidth - LAYOUT.SIDEBAR_WIDTH; // Subtract sidebar width
-    const minHeight = window.innerHeight;
-    
-    return {
-      width: Math.max(maxX + padding, minWidth) + 'px',
-      height: Math.max(maxY + padding, minHeight) + 'px'
+  const handleNoteDragEnd = (uuid: string, pointerPosition: { x: number; y: number }) => {
+    const { position } = snapDraggedNote(uuid, pointerPosition);
+    setAlignmentGuides([]);
+
+    const positions = getGroupDragPositions(uuid, position);
+    // A group drag is undone as one step
+    const historyGroup = positions.length > 1 ? `drag-${Date.now()}` : undefined;
+    positions.forEach(item => {
+      if (openShare) {
+        sharedCanvas.finalizeDrag(item.uuid, item.position);
+      } else {
+        // A note belongs to the frame its center was dropped in
+        const size = getNoteSize(item.uuid);
+        const frame = findFrameAt(dateFrames, { x: item.position.x + size.width / 2, y: item.position.y + size.height / 2 });
+        finalizeDrag(item.uuid, item.position, historyGroup, frame?.uuid ?? null);
+      }
+      collaboration.sendDragPreview(item.uuid, null);
+    });
+  };
+
+  // Moving a frame moves its notes by the same offset, including notes hidden while it is collapsed
+  const getFrameDragPositions = (frame: Frame, position: { x: number; y: number }) => {
+    const deltaX = position.x - frame.position.x;
+    const deltaY = position.y - frame.position.y;
+    return getFrameNotes(frame, allNotes).map(note => ({
+      uuid: note.uuid,
+      position: { x: note.position.x + deltaX, y: note.position.y + deltaY }
+    }));
+  };
+
+  const handleFrameDrag = (frameUuid: string, position: { x: number; y: number }) => {
+    const frame = frames.find(candidate => candidate.uuid === frameUuid);
+    if (!frame) return;
+    getFrameDragPositions(frame, position).forEach(item => dragNote(item.uuid, item.position));
+  };
+
+  const handleFrameDragEnd = (frameUuid: string, position: { x: number; y: number }) => {
+    const frame = frames.find(candidate => candidate.uuid === frameUuid);
+    if (!frame) return;
+
+    // The notes are undone as one step
+    const historyGroup = `frame-drag-${Date.now()}`;
+    getFrameDragPositions(frame, position).forEach(item => finalizeDrag(item.uuid, item.position, historyGroup));
+    updateFrame({ ...frame, position });
+  };
+
+  // Notes of a deleted frame stay where they are, outside any frame
+  const handleDeleteFrame = (frame: Frame) => {
+    deleteFrame(frame);
+    updateNotes(
+      allNotes.filter(note => note.frameUuid === frame.uuid && !note.isDeleted).map(note => ({ ...note, frameUuid: null })),
+      'Delete frame'
+    );
+  };
+
+  // New empty frame in the middle of the visible canvas
+  const handleAddFrame = () => {
+    const visible = getVisibleBounds();
+    createFrame(selectedDate, {
+      x: Math.round(visible.x + (visible.width - FRAME.DEFAULT_WIDTH) / 2),
+      y: Math.round(visible.y + (visible.height - FRAME.DEFAULT_HEIGHT) / 2),
+      width: FRAME.DEFAULT_WIDTH,
+      height: FRAME.DEFAULT_HEIGHT
+    });
+  };
+
+  // Share the pointer position with teammates on a shared canvas
+  const handleCanvasMouseMove = (e: React.MouseEvent) => {
+    if (!activeShareId) return;
+    collaboration.sendCursor(screenToCanvas(e.clientX, e.clientY));
+  };
+
+  const handleCanvasMouseLeave = () => {
+    if (activeShareId) collaboration.sendCursor(null);
+  };
+
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    pointerDownRef.current = { x: e.clientX, y: e.clientY };
+    if (handleMarqueeMouseDown(e)) return;
+    handleMouseDown(e);
+  };
+
+  // A click (not a pan) on empty canvas clears the selection
+  const handleCanvasClick = (e: React.MouseEvent) => {
+    if (e.target !== e.currentTarget) return;
+    const movedX = Math.abs(e.clientX - pointerDownRef.current.x);
+    const movedY = Math.abs(e.clientY - pointerDownRef.current.y);
+    if (movedX <= SELECTION.CLICK_TOLERANCE && movedY <= SELECTION.CLICK_TOLERANCE && !e.shiftKey && !e.ctrlKey && !e.metaKey) {
+      clearSelection();
+      setSelectedConnectorUuid(null);
+    }
+  };
+
+  // Escape closes the connector editor; Delete removes the selected connector
+  useEffect(() => {
+    if (!selectedConnectorUuid) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+      if (e.key === 'Escape') {
+        setSelectedConnectorUuid(null);
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        const connector = connectors.find(candidate => candidate.uuid === selectedConnectorUuid);
+        if (connector) deleteConnector(connector);
+        setSelectedConnectorUuid(null);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [selectedConnectorUuid, connectors, deleteConnector]);
+
+  // Escape clears the selection
+  useEffect(() => {
+    if (selectedUuids.length === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.key !== 'Escape' || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      clearSelection();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [selectedUuids.length, clearSelection]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y) undo and redo canvas changes.
+  // Text fields keep their own undo while editing. Shared canvases have no history.
+  useEffect(() => {
+    if (openShareId) return;
+
+    const handleKeyDown = async (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      const isUndo = key === 'z' && !e.shiftKey;
+      const isRedo = (key === 'z' && e.shiftKey) || key === 'y';
+      if (!isUndo && !isRedo) return;
+
+      e.preventDefault();
+      const entry = isUndo ? await undo() : await redo();
+      toast({
+        title: entry
+          ? `${isUndo ? 'Undo' : 'Redo'}: ${entry.label}`
+          : `Nothing to ${isUndo ? 'undo' : 'redo'}`,
+      });
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, openShareId]);
+
+  // Group actions - each is saved and queued for sync as a single batch
+  const handleGroupRecolor = (color: string) => {
+    updateNotes(selectedNotes.map(note => ({ ...note, color })), 'Recolor notes');
+  };
+
+  const handleGroupSetPinned = (isPinned: boolean) => {
+    updateNotes(selectedNotes.map(note => ({ ...note, isPinned })), isPinned ? 'Pin notes' : 'Unpin notes');
+  };
+
+  const handleGroupMoveToDate = (date: Date) => {
+    updateNotes(selectedNotes.map(note => ({ ...note, date })), 'Move notes to date');
+  };
+
+  const handleGroupAddTag = (tag: Tag) => {
+    updateNotes(
+      selectedNotes
+        .filter(note => !(note.tags || []).some(existing => existing.uuid === tag.uuid))
+        .map(note => ({ ...note, tags: [...(note.tags || []), tag] })),
+      'Tag notes'
+    );
+  };
+
+  const getSelectedNoteBounds = (): NoteBounds[] =>
+    selectedNotes.map(note => ({ uuid: note.uuid, bounds: getNoteBoundsAt(note.uuid, note.position) }));
+
+  const applyGroupPositions = (positions: { uuid: string; position: { x: number; y: number } }[], label: string) => {
+    const positionsByUuid = new Map(positions.map(item => [item.uuid, item.position]));
+    updateNotes(selectedNotes.map(note => ({ ...note, position: positionsByUuid.get(note.uuid) ?? note.position })), label);
+  };
+
+  const handleGroupAlign = (mode: AlignMode) => {
+    applyGroupPositions(alignNotes(getSelectedNoteBounds(), mode), 'Align notes');
+  };
+
+  const handleGroupDistribute = (axis: DistributeAxis) => {
+    applyGroupPositions(distributeNotes(getSelectedNoteBounds(), axis), 'Distribute notes');
+  };
+
+  // Chain the selected notes in the order they were selected
+  const handleConnectSelected = async () => {
+    const created = await connectNotes(selectedUuids);
+    toast({
+      title: created > 0
+        ? `Added ${created} connector${created === 1 ? '' : 's'}`
+        : 'These notes are already connected',
+    });
+  };
+
+  // Draw a frame around the selected notes and put them in it
+  const handleFrameSelected = async () => {
+    const bounds = getNotesBounds(selectedNotes);
+    if (!bounds) return;
+
+    const frame = await createFrame(selectedDate, {
+      x: bounds.x - FRAME.PADDING,
+      y: bounds.y - FRAME.PADDING - FRAME.HEADER_HEIGHT,
+      width: Math.max(bounds.width + FRAME.PADDING * 2, FRAME.MIN_WIDTH),
+      height: Math.max(bounds.height + FRAME.PADDING * 2 + FRAME.HEADER_HEIGHT, FRAME.MIN_HEIGHT)
+    });
+    updateNotes(selectedNotes.map(note => ({ ...note, frameUuid: frame.uuid })), 'Add notes to frame');
+  };
+
+  // Layout commands move the selection, or else every note outside a frame
+  const layoutTargets = selectedNotes.length >= 2
+    ? selectedNotes
+    : canvasNotes.filter(note => !dateFrames.some(frame => frame.uuid === note.frameUuid));
+
+  const handleLayout = (command: LayoutCommand) => {
+    const positions = layoutNotes(
+      layoutTargets.map(note => ({ note, bounds: getNoteBoundsAt(note.uuid, note.position) })),
+      command
+    );
+    const positionsByUuid = new Map(positions.map(item => [item.uuid, item.position]));
+
+    setIsArranging(true);
+    if (arrangeTimeoutRef.current) clearTimeout(arrangeTimeoutRef.current);
+    arrangeTimeoutRef.current = setTimeout(() => setIsArranging(false), AUTO_LAYOUT.ANIMATION_DURATION);
+
+    // Arranged notes belong to the frame their center lands in, as after a drag
+    updateNotes(layoutTargets.map(note => {
+      const position = positionsByUuid.get(note.uuid) ?? note.position;
+      const size = getNoteSize(note.uuid);
+      const frame = findFrameAt(dateFrames, { x: position.x + size.width / 2, y: position.y + size.height / 2 });
+      return { ...note, position, frameUuid: frame?.uuid ?? null };
+    }), 'Arrange notes');
+  };
+
+  // Cleanup arrange timeout on unmount
+  useEffect(() => {
+    return () => {
+      if (arrangeTimeoutRef.current) clearTimeout(arrangeTimeoutRef.current);
     };
-  }, [notes]);
+  }, []);
+
+  const handleToggleSnap = () => {
+    const enabled = !isSnapEnabled;
+    setIsSnapEnabled(enabled);
+    NotesStorage.saveSnapToGrid(enabled);
+  };
 
-  const canvasDimensions = calculateCanvasDimensions();
+  const handleConfirmDeleteSelection = () => {
+    deleteNotes(selectedUuids);
+    clearSelection();
+    setShowDeleteSelectionConfirmation(false);
+  };
+
+  const handleZoomToFit = () => {
+    zoomToFit(getNotesBounds(canvasNotes));
+  };
 
   // Show canvas immediately, even while loading - toast will handle sync notification
 
@@ -271,6 +696,8 @@ export const NotesCanvas = () => {
               allNotes={allNotes}
               selectedDate={selectedDate}
               onDateSelect={setSelectedDate}
+              onOpenDueItem={handleOpenDueItem}
+              now={now}
             />
           </div>
         </div>
@@ -279,21 +706,52 @@ export const NotesCanvas = () => {
         <div className="bg-sidebar-secondary dark:bg-gray-900 border-r border-sidebar-border dark:border-gray-700 flex-1 overflow-hidden">
           <QuickNoteTabs
             notes={notes}
+            frames={dateFrames}
             onNoteSelect={handleQuickNoteSelect}
-            selectedNoteUuid={selectedNoteUuid}
+            selectedNoteUuid={selectedUuids[0] ?? null}
+            now={now}
           />
         </div>
       </div>
 
       {/* Main Canvas Area */}
       <div 
-        ref={containerRef}
-        className={`flex-1 ml-[280px] relative overflow-x-auto overflow-y-hidden`}
-        style={{ cursor: notes.length === 0 ? 'default' : (isDragging ? 'grabbing' : 'grab') }}
+        className="flex-1 ml-[280px] relative h-screen overflow-hidden"
+        style={{ cursor: isDragging ? 'grabbing' : 'grab' }}
       >
         {/* Fixed Header Buttons */}
         <div className="fixed top-8 right-8 z-[9999] flex items-center gap-2">
-          
+          {/* Shared canvas on screen, with the way back to the user's own notes */}
+          {openShare && (
+            <div className="flex items-center gap-2 px-3 py-2 bg-blue-50/90 dark:bg-blue-900/60 backdrop-blur-sm border border-blue-200 dark:border-blue-800 rounded-lg shadow-lg text-sm text-blue-900 dark:text-blue-100">
+              <button
+                onClick={() => setOpenShare(null)}
+                className="p-0.5 rounded hover:bg-blue-100 dark:hover:bg-blue-800"
+                title="Back to my notes"
+              >
+                <ArrowLeft size={16} />
+              </button>
+              <span className="font-medium">{openShare.ownerName} · {describeShareScope(openShare)}</span>
+              {!canEditCanvas && (
+                <span className="flex items-center gap-1 text-xs opacity-80" title="You can view this canvas but not change it">
+                  <Eye size={14} />
+                  View only
+                </span>
+              )}
+            </div>
+          )}
+
+          {/* Teammates viewing the shared canvas */}
+          {activeShareId && <CanvasPresence viewers={collaboration.viewers} />}
+          {activeShareId && !collaboration.isLive && (
+            <div
+              className="flex items-center gap-1 px-3 py-2 bg-amber-50/90 dark:bg-amber-900/60 backdrop-blur-sm border border-amber-200 dark:border-amber-800 rounded-lg shadow-lg text-xs text-amber-900 dark:text-amber-100"
+              title="Teammates' changes, cursors and edit locks do not reach this canvas until it reconnects"
+            >
+              <WifiOff size={14} />
+              Live collaboration unavailable
+            </div>
+          )}
 
           {/* Hide theme toggle and auth buttons when search sidebar is open */}
           {!showSearchSidebar && (
@@ -312,11 +770,45 @@ export const NotesCanvas = () => {
                 <span>Search</span>
               </button>
 
+              {/* Trash button */}
+              <button
+                onClick={() => setShowTrashPanel(true)}
+                className="flex items-center gap-2 px-3 py-2 bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100/90 dark:hover:bg-gray-700/90 transition-colors"
+                title="Restore or permanently delete removed notes"
+              >
+                <ArchiveRestore size={16} />
+                <span>Trash</span>
+              </button>
+
+              {/* Export / import button */}
+              <button
+                onClick={() => setShowExportPanel(true)}
+                className="flex items-center gap-2 px-3 py-2 bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100/90 dark:hover:bg-gray-700/90 transition-colors"
+                title="Export notes as JSON, Markdown or CSV, or import an archive"
+              >
+                <Download size={16} />
+                <span>Export</span>
+              </button>
+
+              {/* Share with teammates */}
+              {isAuthenticated && (
+                <button
+                  onClick={() => setShowSharePanel(true)}
+                  className="flex items-center gap-2 px-3 py-2 bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100/90 dark:hover:bg-gray-700/90 transition-colors"
+                  title="Share this canvas or a tag board with teammates"
+                >
+                  <Share2 size={16} />
+                  <span>Share</span>
+                </button>
+              )}
+
               {/* Theme Toggle */}
               <ThemeToggle />
 
               {isAuthenticated && user ? (
                 <>
+                  {/* Sync status with conflict inbox */}
+                  <SyncStatusIndicator className="relative dark:bg-gray-800 dark:border-gray-700 shadow-lg" />
                   <div className="flex items-center gap-2 px-3 py-2 bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
                     <User size={16} className="text-gray-600 dark:text-gray-400" />
                     <span className="text-sm font-medium text-gray-800 dark:text-gray-200">
@@ -346,40 +838,135 @@ export const NotesCanvas = () => {
         </div>
         
         <div 
-          className="canvas-scrollable-area relative" 
+          ref={viewportRef}
+          className="canvas-viewport" 
           onDoubleClick={handleCanvasDoubleClick}
-          onMouseDown={notes.length > 0 ? handleMouseDown : undefined}
+          onMouseDown={handleCanvasMouseDown}
+          onClick={handleCanvasClick}
+          onMouseMove={handleCanvasMouseMove}
+          onMouseLeave={handleCanvasMouseLeave}
           style={{ 
-            cursor: notes.length === 0 ? 'default' : (isDragging ? 'grabbing' : 'grab'),
-            width: canvasDimensions.width,
-            height: canvasDimensions.height,
-            minWidth: canvasDimensions.width,
-            minHeight: canvasDimensions.height
+            cursor: isDragging ? 'grabbing' : 'grab',
+            // Keep the dot grid aligned with the panned and zoomed canvas
+            backgroundSize: `${GRID.GRID_SIZE * viewport.zoom}px ${GRID.GRID_SIZE * viewport.zoom}px, 100% 100%`,
+            backgroundPosition: `${viewport.x}px ${viewport.y}px, 0 0`
           }}
         >
 
-          <div className={showSearchSidebar ? 'pointer-events-none' : ''}>
-            {notes.map(note => (
+          <div
+            className={`canvas-world ${showSearchSidebar ? 'pointer-events-none' : ''} ${isArranging ? 'arranging' : ''}`}
+            style={{ transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})` }}
+          >
+            {/* Frames, under the connectors and note cards */}
+            {dateFrames.map(frame => (
+              <FrameCard
+                key={frame.uuid}
+                frame={frame}
+                noteCount={getFrameNotes(frame, notes).length}
+                screenToCanvas={screenToCanvas}
+                onDrag={handleFrameDrag}
+                onDragEnd={handleFrameDragEnd}
+                onUpdate={updateFrame}
+                onDelete={handleDeleteFrame}
+              />
+            ))}
+
+            {/* Connectors between notes, under the note cards */}
+            {!openShare && (
+              <NoteConnectors
+                connectors={connectors}
+                notes={canvasNotes}
+                zoom={viewport.zoom}
+                selectedConnectorUuid={selectedConnectorUuid}
+                onSelect={setSelectedConnectorUuid}
+                onUpdate={updateConnector}
+                onDelete={deleteConnector}
+              />
+            )}
+
+            {canvasNotes.map(note => (
               <NoteCard
                 key={note.uuid}
                 note={note}
-                onUpdate={updateNote}
-                onDelete={deleteNote}
-                onDrag={showSearchSidebar ? () => {} : dragNote}
-                onDragEnd={showSearchSidebar ? undefined : finalizeDrag}
-                onMoveToDate={moveNoteToDate}
-                onRefreshFromStorage={refreshNoteFromStorage}
-                isSelected={selectedNoteUuid === note.uuid}
-                onClearSelection={() => setSelectedNoteUuid(null)}
+                onUpdate={openShare ? sharedCanvas.updateNote : updateNote}
+                // Teammates' notes are edited, not deleted or moved to other dates
+                onDelete={openShare ? () => {} : deleteNote}
+                onDrag={showSearchSidebar ? () => {} : handleNoteDrag}
+                onDragEnd={showSearchSidebar ? undefined : handleNoteDragEnd}
+                onMoveToDate={openShare ? undefined : moveNoteToDate}
+                onRefreshFromStorage={openShare ? undefined : refreshNoteFromStorage}
+                isSelected={isSelected(note.uuid)}
+                onClearSelection={clearSelection}
+                onToggleSelection={toggleSelection}
                 onNoteDetailStateChange={handleNoteDetailStateChange}
                 zIndex={noteZIndices[note.uuid] || 1}
                 onBringToFront={() => bringNoteToFront(note.uuid)}
+                screenToCanvas={screenToCanvas}
+                now={now}
+                isReadOnly={!canEditCanvas}
+                lockedBy={activeShareId ? collaboration.getLockHolder(note.uuid) : null}
+                onEditingChange={activeShareId ? collaboration.setNoteEditing : undefined}
               />
             ))}
+
+            {/* Alignment guides (canvas coordinates, kept at 1 screen pixel) */}
+            {alignmentGuides.map(guide => (
+              <div
+                key={`${guide.orientation}-${guide.position}`}
+                className="absolute bg-pink-500 pointer-events-none"
+                style={{
+                  ...(guide.orientation === 'vertical'
+                    ? { left: guide.position, top: guide.start, width: 1 / viewport.zoom, height: guide.end - guide.start }
+                    : { left: guide.start, top: guide.position, width: guide.end - guide.start, height: 1 / viewport.zoom }),
+                  zIndex: Z_INDEX.NOTE_DETAIL_MODAL - 1
+                }}
+              />
+            ))}
+
+            {/* Teammates' cursors and drag outlines on a shared canvas */}
+            {activeShareId && (
+              <RemoteCursors
+                cursors={collaboration.cursors}
+                dragPreviews={collaboration.dragPreviews}
+                viewers={collaboration.viewers}
+                zoom={viewport.zoom}
+              />
+            )}
+
+            {/* Marquee selection rectangle (canvas coordinates, border kept at 1 screen pixel) */}
+            {marqueeBounds && (
+              <div
+                className="absolute border-blue-500 bg-blue-500/10 pointer-events-none"
+                style={{
+                  left: marqueeBounds.x,
+                  top: marqueeBounds.y,
+                  width: marqueeBounds.width,
+                  height: marqueeBounds.height,
+                  borderWidth: 1 / viewport.zoom,
+                  zIndex: Z_INDEX.NOTE_DETAIL_MODAL - 1
+                }}
+              />
+            )}
           </div>
 
           {/* Floating Action Buttons */}
-          <div className="fixed bottom-8 right-8 flex flex-col gap-4 z-20">
+          <div className={`fixed bottom-8 right-8 flex flex-col gap-4 z-20 ${openShare ? 'hidden' : ''}`}>
+            {/* Auto-layout commands */}
+            <LayoutMenu
+              noteCount={layoutTargets.length}
+              isSelection={selectedNotes.length >= 2}
+              onLayout={handleLayout}
+            />
+
+            {/* Add Frame Button */}
+            <button
+              onClick={handleAddFrame}
+              className="floating-search-btn text-gray-700 dark:text-gray-200"
+              title="Add a frame to group notes"
+            >
+              <FrameIcon size={24} />
+            </button>
+
             {/* Clear All Button */}
             <button
               onClick={handleClearAllClick}
@@ -416,7 +1003,7 @@ export const NotesCanvas = () => {
           </div>
 
           {/* No notes message */}
-          {notes.length === 0 && !isLoading && (
+          {notes.length === 0 && !isLoading && !openShare && (
             <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
               <div className="text-center text-muted-foreground">
                 <div className="text-6xl mb-4">📝</div>
@@ -430,7 +1017,7 @@ export const NotesCanvas = () => {
           <ConfirmationDialog
             isOpen={showClearConfirmation}
             title="Clear All Notes"
-            message={`Are you sure you want to clear all ${displayedNotesCount} displayed note${displayedNotesCount !== 1 ? 's' : ''}? This action cannot be undone.`}
+            message={`Are you sure you want to clear all ${displayedNotesCount} displayed note${displayedNotesCount !== 1 ? 's' : ''}? They will be moved to the trash.`}
             confirmText="Clear All"
             cancelText="Cancel"
             isLoading={isDeleting}
@@ -440,6 +1027,20 @@ export const NotesCanvas = () => {
             variant="danger"
           />
 
+          {/* Group delete confirmation */}
+          <ConfirmationDialog
+            isOpen={showDeleteSelectionConfirmation}
+            title="Delete Selected Notes"
+            message={`Are you sure you want to delete ${selectedUuids.length} selected note${selectedUuids.length !== 1 ? 's' : ''}?`}
+            confirmText="Delete"
+            cancelText="Cancel"
+            isLoading={isDeleting}
+            loadingText="Deleting..."
+            onConfirm={handleConfirmDeleteSelection}
+            onCancel={() => setShowDeleteSelectionConfirmation(false)}
+            variant="danger"
+          />
+
           {/* Search Sidebar */}
           <SearchSidebar
             allNotes={allNotes}
@@ -448,12 +1049,73 @@ export const NotesCanvas = () => {
             onNoteSelect={handleNoteSelect}
           />
 
+          {/* Trash */}
+          <TrashPanel
+            isOpen={showTrashPanel}
+            onClose={() => setShowTrashPanel(false)}
+            onRestore={restoreFromTrash}
+            onPurge={purgeFromTrash}
+          />
+
+          {/* Export / import */}
+          <ExportImportPanel
+            isOpen={showExportPanel}
+            onClose={() => setShowExportPanel(false)}
+            selectedDate={selectedDate}
+            onImported={forceReloadAllNotes}
+          />
+
+          {/* Sharing with teammates */}
+          <ShareCanvasDialog
+            isOpen={showSharePanel}
+            onClose={() => setShowSharePanel(false)}
+            dateKey={selectedDateKey}
+            availableTags={availableTags}
+            ownedShares={ownedShares}
+            sharedWithMe={sharedWithMe}
+            onCreateShare={createShare}
+            onDeleteShare={deleteShare}
+            onAddMember={addMember}
+            onUpdateMemberRole={updateMemberRole}
+            onRemoveMember={removeMember}
+            onOpenShare={handleOpenShare}
+          />
+
           {/* Login Modal */}
           <LoginModal
             isOpen={showLoginModal}
             onClose={() => setShowLoginModal(false)}
           />
         </div>
+
+        {/* Group actions for selected notes (the user's own notes only) */}
+        <SelectionToolbar
+          selectedNotes={openShare ? [] : selectedNotes}
+          onRecolor={handleGroupRecolor}
+          onSetPinned={handleGroupSetPinned}
+          onMoveToDate={handleGroupMoveToDate}
+          onAddTag={handleGroupAddTag}
+          onAlign={handleGroupAlign}
+          onDistribute={handleGroupDistribute}
+          onConnect={handleConnectSelected}
+          onFrame={handleFrameSelected}
+          onDelete={() => setShowDeleteSelectionConfirmation(true)}
+          onClearSelection={clearSelection}
+        />
+
+        {/* Minimap and zoom controls */}
+        <CanvasMinimap
+          notes={canvasNotes}
+          visibleBounds={getVisibleBounds()}
+          zoom={viewport.zoom}
+          onNavigate={centerOn}
+          onZoomIn={zoomIn}
+          onZoomOut={zoomOut}
+          onResetZoom={resetZoom}
+          onZoomToFit={handleZoomToFit}
+          isSnapEnabled={isSnapEnabled}
+          onToggleSnap={handleToggleSnap}
+        />
       </div>
     </div>
   );
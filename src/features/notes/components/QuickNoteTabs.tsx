@@ -1,15 +1,21 @@
 import { useState } from 'react';
 import { Note } from '@/domains/note';
+import { Frame } from '@/domains/frame';
 import { formatDateDisplay } from '@/helpers/date-helper';
-import { Eye, EyeOff } from 'lucide-react';
+import { isNoteOverdue } from '@/helpers/due-date-helper';
+import { Eye, EyeOff, AlarmClock } from 'lucide-react';
 
 interface QuickNoteTabsProps {
   notes: Note[];
+  /** Frames of the date; their notes are listed in groups */
+  frames?: Frame[];
   onNoteSelect: (note: Note) => void;
   selectedNoteUuid?: string | null;
+  /** Current time for overdue highlighting */
+  now?: Date;
 }
 
-export const QuickNoteTabs = ({ notes, onNoteSelect, selectedNoteUuid }: QuickNoteTabsProps) => {
+export const QuickNoteTabs = ({ notes, frames = [], onNoteSelect, selectedNoteUuid, now }: QuickNoteTabsProps) => {
   const [isExpanded, setIsExpanded] = useState(true);
 
   // Filter to only displayed notes (excluding deleted ones) and sort by creation time (newest first)
@@ -26,6 +32,60 @@ export const QuickNoteTabs = ({ notes, onNoteSelect, selectedNoteUuid }: QuickNo
     return title.substring(0, maxLength) + '...';
   };
 
+  // One group per frame with notes, in frame order; notes outside frames come last
+  const frameGroups = frames
+    .map(frame => ({ frame, notes: displayedNotes.filter(note => note.frameUuid === frame.uuid) }))
+    .filter(group => group.notes.length > 0);
+  const groupedUuids = new Set(frameGroups.flatMap(group => group.notes.map(note => note.uuid)));
+  const ungroupedNotes = displayedNotes.filter(note => !groupedUuids.has(note.uuid));
+
+  const renderNoteTab = (note: Note) => {
+    const isSelected = selectedNoteUuid === note.uuid;
+    const isOverdue = isNoteOverdue(note, now);
+    
+    return (
+      <button
+        key={note.uuid}
+        onClick={() => onNoteSelect(note)}
+        className={`w-full p-2 text-left border-b border-gray-100 dark:border-gray-700 hover:bg-sidebar-accent dark:hover:bg-gray-800 transition-colors ${
+          isSelected ? 'bg-blue-50 dark:bg-blue-900/20 border-l-4 border-l-blue-500' : ''
+        }`}
+        title={`${note.title} - ${formatDateDisplay(note.date)}${isOverdue ? ' (overdue)' : ''}`}
+      >
+        <div className="flex items-center gap-2">
+          {/* Color indicator */}
+          <div
+            className="w-3 h-3 rounded-full flex-shrink-0 border border-gray-300 dark:border-gray-600"
+            style={{ backgroundColor: note.color }}
+          />
+          
+          <div className="flex-1 min-w-0">
+            {/* Title */}
+            <div className={`text-sm font-medium flex items-center gap-1 ${
+              isOverdue ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-gray-100'
+            }`}>
+              {isOverdue && <AlarmClock size={12} className="flex-shrink-0" />}
+              <span className="truncate">{truncateTitle(note.title || 'Untitled')}</span>
+            </div>
+            
+            {/* Task/Note indicator and date */}
+            <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+              <span>{note.isTaskMode ? '📋' : '📝'}</span>
+              {note.noteTasks && note.noteTasks.length > 0 && (
+                <span>
+                  {note.noteTasks.filter(t => t.completed).length}/{note.noteTasks.length}
+                </span>
+              )}
+              <span className="truncate">{formatDateDisplay(note.date)}</span>
+            </div>
+          </div>
+        </div>
+      </button>
+    );
+  };
+
+  const groupHeaderClass = 'flex items-center gap-2 px-2 py-1 text-xs font-semibold uppercase tracking-wide text-gray-600 dark:text-gray-300 bg-sidebar-accent/60 dark:bg-gray-800/60 border-b border-gray-100 dark:border-gray-700';
+
   return (
     <div className="h-full flex flex-col">
       {/* Header */}
@@ -45,46 +105,24 @@ export const QuickNoteTabs = ({ notes, onNoteSelect, selectedNoteUuid }: QuickNo
       {/* Note Tabs */}
       {isExpanded && (
         <div className="flex-1 overflow-y-auto">
-          {displayedNotes.map((note) => {
-            const isSelected = selectedNoteUuid === note.uuid;
-            
-            return (
-              <button
-                key={note.uuid}
-                onClick={() => onNoteSelect(note)}
-                className={`w-full p-2 text-left border-b border-gray-100 dark:border-gray-700 hover:bg-sidebar-accent dark:hover:bg-gray-800 transition-colors ${
-                  isSelected ? 'bg-blue-50 dark:bg-blue-900/20 border-l-4 border-l-blue-500' : ''
-                }`}
-                title={`${note.title} - ${formatDateDisplay(note.date)}`}
-              >
-                <div className="flex items-center gap-2">
-                  {/* Color indicator */}
-                  <div
-                    className="w-3 h-3 rounded-full flex-shrink-0 border border-gray-300 dark:border-gray-600"
-                    style={{ backgroundColor: note.color }}
-                  />
-                  
-                  <div className="flex-1 min-w-0">
-                    {/* Title */}
-                    <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
-                      {truncateTitle(note.title || 'Untitled')}
-                    </div>
-                    
-                    {/* Task/Note indicator and date */}
-                    <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
-                      <span>{note.isTaskMode ? '📋' : '📝'}</span>
-                      {note.noteTasks && note.noteTasks.length > 0 && (
-                        <span>
-                          {note.noteTasks.filter(t => t.completed).length}/{note.noteTasks.length}
-                        </span>
-                      )}
-                      <span className="truncate">{formatDateDisplay(note.date)}</span>
-                    </div>
-                  </div>
-                </div>
-              </button>
-            );
-          })}
+          {frameGroups.map(({ frame, notes: frameNotes }) => (
+            <div key={frame.uuid}>
+              <div className={groupHeaderClass}>
+                <span className="w-2.5 h-2.5 rounded-sm flex-shrink-0" style={{ backgroundColor: frame.color }} />
+                <span className="truncate">{frame.name}</span>
+                <span className="ml-auto font-normal">{frameNotes.length}</span>
+              </div>
+              {frameNotes.map(renderNoteTab)}
+            </div>
+          ))}
+
+          {frameGroups.length > 0 && ungroupedNotes.length > 0 && (
+            <div className={groupHeaderClass}>
+              <span className="truncate">Other notes</span>
+              <span className="ml-auto font-normal">{ungroupedNotes.length}</span>
+            </div>
+          )}
+          {ungroupedNotes.map(renderNoteTab)}
         </div>
       )}
     </div>
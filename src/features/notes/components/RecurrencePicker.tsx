@@ -0,0 +1,254 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Repeat } from 'lucide-react';
+import { RecurrenceRule } from '@/domains/recurrence';
+import {
+  RecurrencePreset,
+  WEEKDAY_SHORT_NAMES,
+  createRecurrenceRule,
+  describeRecurrence,
+  formatRecurrenceRule,
+  getRecurrencePreset,
+  parseRecurrenceRule,
+} from '@/helpers/recurrence-helper';
+
+interface RecurrencePickerProps {
+  rule: RecurrenceRule | null | undefined;
+  /** First date of the note, used to anchor presets such as "weekly" */
+  startDate: Date;
+  onChange: (rule: RecurrenceRule | null) => void;
+}
+
+type RecurrenceEnd = 'never' | 'until' | 'count';
+
+const PRESET_OPTIONS: Array<{ value: RecurrencePreset; label: string }> = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekdays', label: 'Every weekday (Mon-Fri)' },
+  { value: 'weekly', label: 'Weekly on...' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'custom', label: 'Custom (RRULE)' },
+];
+
+// Helper function to get the RRULE line without the "RRULE:" prefix and EXDATE line
+const toRRuleText = (rule: RecurrenceRule): string =>
+  formatRecurrenceRule({ ...rule, exceptions: null }).replace(/^RRULE:/, '');
+
+export const RecurrencePicker: React.FC<RecurrencePickerProps> = ({
+  rule,
+  startDate,
+  onChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [customText, setCustomText] = useState('');
+  const [customError, setCustomError] = useState<string | null>(null);
+  const [isEditingCustom, setIsEditingCustom] = useState(false);
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  const preset = isEditingCustom ? 'custom' : getRecurrencePreset(rule);
+  const end: RecurrenceEnd = rule?.until ? 'until' : rule?.count ? 'count' : 'never';
+
+  useEffect(() => {
+    if (!isOpen) {
+      setIsEditingCustom(false);
+      setCustomError(null);
+    }
+  }, [isOpen]);
+
+  // Close when clicking outside the popover
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  // Presets keep the end settings and skipped dates of the current rule
+  const applyRule = (nextRule: RecurrenceRule | null) => {
+    onChange(nextRule && rule
+      ? { ...nextRule, until: rule.until, count: rule.count, exceptions: rule.exceptions }
+      : nextRule);
+  };
+
+  const handlePresetChange = (value: RecurrencePreset) => {
+    if (value === 'custom') {
+      setIsEditingCustom(true);
+      setCustomText(rule ? toRRuleText(rule) : 'FREQ=WEEKLY;INTERVAL=2');
+      setCustomError(null);
+      return;
+    }
+    setIsEditingCustom(false);
+    applyRule(createRecurrenceRule(value, startDate));
+  };
+
+  const handleApplyCustom = () => {
+    const parsed = parseRecurrenceRule(customText);
+    if (!parsed) {
+      setCustomError('Supported parts: FREQ, INTERVAL, BYDAY, BYMONTHDAY, UNTIL, COUNT');
+      return;
+    }
+    setCustomError(null);
+    setIsEditingCustom(false);
+    onChange({ ...parsed, exceptions: rule?.exceptions });
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (!rule) return;
+    const weekdays = rule.byWeekday || [];
+    const nextWeekdays = weekdays.includes(weekday)
+      ? weekdays.filter(day => day !== weekday)
+      : [...weekdays, weekday].sort();
+    // A weekly rule needs at least one day
+    if (nextWeekdays.length === 0) return;
+    onChange({ ...rule, byWeekday: nextWeekdays });
+  };
+
+  const handleEndChange = (value: RecurrenceEnd) => {
+    if (!rule) return;
+    const defaultUntil = new Date(startDate.getFullYear(), startDate.getMonth() + 1, startDate.getDate());
+    onChange({
+      ...rule,
+      until: value === 'until' ? rule.until || defaultUntil.toISOString().slice(0, 10) : null,
+      count: value === 'count' ? rule.count || 10 : null,
+    });
+  };
+
+  const inputClass = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="relative" ref={pickerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 text-sm cursor-pointer hover:bg-black/5 rounded px-2 py-1 transition-colors"
+        title="Repeat"
+      >
+        <Repeat size={16} />
+        <span className={rule ? '' : 'opacity-70'}>{rule ? describeRecurrence(rule) : 'Does not repeat'}</span>
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute top-full right-0 mt-2 w-72 bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-4 z-50 space-y-3"
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <label className="block text-sm">
+            <span className="block mb-1 text-gray-600 dark:text-gray-300">Repeat</span>
+            <select
+              value={preset}
+              onChange={(e) => handlePresetChange(e.target.value as RecurrencePreset)}
+              className={`w-full ${inputClass}`}
+            >
+              {PRESET_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {/* Days of the week for weekly rules */}
+          {rule && preset === 'weekly' && (
+            <div className="flex gap-1">
+              {WEEKDAY_SHORT_NAMES.map((name, weekday) => {
+                const isActive = (rule.byWeekday || []).includes(weekday);
+                return (
+                  <button
+                    key={name}
+                    onClick={() => toggleWeekday(weekday)}
+                    className={`w-8 h-8 rounded-full text-xs font-medium transition-colors ${
+                      isActive
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    }`}
+                    title={name}
+                  >
+                    {name.charAt(0)}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Custom RRULE */}
+          {preset === 'custom' && (
+            <div className="space-y-1">
+              <input
+                value={isEditingCustom ? customText : rule ? toRRuleText(rule) : ''}
+                onChange={(e) => {
+                  setIsEditingCustom(true);
+                  setCustomText(e.target.value);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleApplyCustom();
+                }}
+                placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+                className={`w-full font-mono ${inputClass}`}
+              />
+              {customError && <p className="text-xs text-red-600 dark:text-red-400">{customError}</p>}
+              {isEditingCustom && (
+                <button
+                  onClick={handleApplyCustom}
+                  className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors"
+                >
+                  Apply
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* End of the series */}
+          {rule && !isEditingCustom && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-gray-600 dark:text-gray-300">Ends</span>
+              <select
+                value={end}
+                onChange={(e) => handleEndChange(e.target.value as RecurrenceEnd)}
+                className={inputClass}
+              >
+                <option value="never">Never</option>
+                <option value="until">On</option>
+                <option value="count">After</option>
+              </select>
+              {end === 'until' && (
+                <input
+                  type="date"
+                  value={rule.until || ''}
+                  onChange={(e) => e.target.value && onChange({ ...rule, until: e.target.value })}
+                  className={`min-w-0 flex-1 ${inputClass}`}
+                />
+              )}
+              {end === 'count' && (
+                <>
+                  <input
+                    type="number"
+                    min={1}
+                    value={rule.count || 1}
+                    onChange={(e) => onChange({ ...rule, count: Math.max(1, Number(e.target.value) || 1) })}
+                    className={`w-16 ${inputClass}`}
+                  />
+                  <span className="text-gray-600 dark:text-gray-300">times</span>
+                </>
+              )}
+            </div>
+          )}
+
+          {rule?.exceptions && rule.exceptions.length > 0 && (
+            <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+              <span>{rule.exceptions.length} skipped date{rule.exceptions.length !== 1 ? 's' : ''}</span>
+              <button
+                onClick={() => onChange({ ...rule, exceptions: null })}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Restore all
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { MousePointer2 } from 'lucide-react';
+import { CanvasViewer, RemoteCursor, RemoteDragPreview } from '@/types/collaboration.types';
+import { getViewerColor } from '@/helpers/collaboration-helper';
+import { getNoteSize } from '@/helpers/viewport-helper';
+import { Z_INDEX } from '@/constants/ui-constants';
+
+interface RemoteCursorsProps {
+  cursors: RemoteCursor[];
+  dragPreviews: RemoteDragPreview[];
+  viewers: CanvasViewer[];
+  /** Current zoom, to keep cursors and labels the same size on screen */
+  zoom: number;
+}
+
+/**
+ * Teammates' cursors and the outlines of notes they are dragging, drawn in
+ * canvas coordinates inside the zoomed canvas
+ */
+export const RemoteCursors: React.FC<RemoteCursorsProps> = ({ cursors, dragPreviews, viewers, zoom }) => {
+  const getName = (clientId: string) =>
+    viewers.find(viewer => viewer.clientId === clientId)?.displayName ?? 'Teammate';
+
+  return (
+    <>
+      {dragPreviews.map(preview => {
+        const size = getNoteSize(preview.noteUuid);
+        const color = getViewerColor(preview.clientId);
+        return (
+          <div
+            key={preview.noteUuid}
+            className="absolute rounded-lg border-dashed pointer-events-none"
+            style={{
+              left: preview.position.x,
+              top: preview.position.y,
+              width: size.width,
+              height: size.height,
+              borderColor: color,
+              borderWidth: 2 / zoom,
+              backgroundColor: `${color}1a`,
+              zIndex: Z_INDEX.NOTE_DETAIL_MODAL - 1
+            }}
+          />
+        );
+      })}
+
+      {cursors.map(cursor => {
+        const color = getViewerColor(cursor.clientId);
+        return (
+          <div
+            key={cursor.clientId}
+            className="absolute pointer-events-none transition-transform duration-75"
+            style={{
+              left: 0,
+              top: 0,
+              transform: `translate(${cursor.x}px, ${cursor.y}px) scale(${1 / zoom})`,
+              transformOrigin: '0 0',
+              zIndex: Z_INDEX.NOTE_DETAIL_MODAL - 1
+            }}
+          >
+            <MousePointer2 size={18} fill={color} color="white" />
+            <span
+              className="ml-4 -mt-1 inline-block whitespace-nowrap rounded px-1.5 py-0.5 text-xs font-medium text-white shadow"
+              style={{ backgroundColor: color }}
+            >
+              {getName(cursor.clientId)}
+            </span>
+          </div>
+        );
+      })}
+    </>
+  );
+};
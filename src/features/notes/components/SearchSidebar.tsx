@@ -1,8 +1,14 @@
 import { useState, useMemo } from 'react';
-import { Search, X, Calendar, FileText } from 'lucide-react';
+import { Search, X, Calendar, FileText, Pin, CheckSquare, Cloud } from 'lucide-react';
 import { Note } from '@/domains/note';
-import { NoteTask } from '@/domains/noteTask';
+import { SearchSnippetPart } from '@/types/search.types';
+import { NoteSearchIndex } from '@/services/search/note-search-index';
 import { formatDateShort } from '@/helpers/date-helper';
+import { SEARCH } from '@/constants/ui-constants';
+import { useNoteSearch } from '../hooks/use-note-search';
+
+// Operators shown as clickable hints under the search box
+const QUERY_HINTS = ['tag:', 'color:', 'date:2026-10..2026-11', 'is:pinned', 'is:task', 'has:incomplete', '"exact phrase"'];
 
 interface SearchSidebarProps {
   allNotes: Note[];
@@ -14,48 +20,15 @@ interface SearchSidebarProps {
 export const SearchSidebar = ({ allNotes, isOpen, onClose, onNoteSelect }: SearchSidebarProps) => {
   const [searchQuery, setSearchQuery] = useState('');
 
-  // Helper function to normalize text for search (removes diacritics/accents)
-  const normalizeText = (text: string): string => {
-    return text
-      .toLowerCase()
-      .normalize('NFD') // Normalize to decomposed form
-      .replace(/[\u0300-\u036f]/g, ''); // Remove diacritic marks
-  };
+  const { parsedQuery, isQueryEmpty, results: searchResults, isSearchingServer } = useNoteSearch(allNotes, searchQuery);
 
-  const searchResults = useMemo(() => {
-    if (!searchQuery.trim()) {
-      // Show top 10 most recent notes by creation date when no search query
-      return allNotes
-        .filter(note => !note.isDeleted)
-        .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime())
-        .slice(0, 10);
-    }
-    
-    const normalizedQuery = normalizeText(searchQuery);
-    
+  // Show the most recent notes by creation date when there is no search query
+  const recentNotes = useMemo(() => {
     return allNotes
-      .filter(note => {
-        // First, exclude deleted notes
-        if (note.isDeleted) return false;
-        
-        const normalizedTitle = normalizeText(note.title);
-        const normalizedContent = normalizeText(note.content);
-        
-        // Search in title and content
-        let matches = normalizedTitle.includes(normalizedQuery) || 
-                     normalizedContent.includes(normalizedQuery);
-        
-        // Search in tasks if available
-        if (!matches && note.noteTasks) {
-          matches = note.noteTasks.some((task: NoteTask) => 
-            normalizeText(task.text).includes(normalizedQuery)
-          );
-        }
-        
-        return matches;
-      })
-      .sort((a, b) => new Date(b.updatedAt || 0).getTime() - new Date(a.updatedAt || 0).getTime()); // Sort by most recent
-  }, [allNotes, searchQuery]);
+      .filter(note => !note.isDeleted)
+      .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime())
+      .slice(0, SEARCH.RECENT_NOTES_LIMIT);
+  }, [allNotes]);
 
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchQuery(e.target.value);
@@ -75,6 +48,20 @@ export const SearchSidebar = ({ allNotes, isOpen, onClose, onNoteSelect }: Searc
     return content.substring(0, maxLength) + '...';
   };
 
+  // Append an operator hint to the query and keep typing after it
+  const addQueryHint = (hint: string) => {
+    setSearchQuery(prev => `${prev.trim()} ${hint}`.trimStart());
+  };
+
+  const renderParts = (parts: SearchSnippetPart[]) =>
+    parts.map((part, index) => part.highlight ? (
+      <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm px-0.5">
+        {part.text}
+      </mark>
+    ) : (
+      <span key={index}>{part.text}</span>
+    ));
+
   if (!isOpen) return null;
 
   return (
@@ -122,25 +109,36 @@ export const SearchSidebar = ({ allNotes, isOpen, onClose, onNoteSelect }: Searc
               </button>
             )}
           </div>
+          <div className="flex flex-wrap gap-1 mt-2">
+            {QUERY_HINTS.map(hint => (
+              <button
+                key={hint}
+                onClick={() => addQueryHint(hint)}
+                className="px-1.5 py-0.5 text-[11px] font-mono rounded bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700"
+              >
+                {hint}
+              </button>
+            ))}
+          </div>
         </div>
 
         {/* Content Area */}
         <div className="flex-1 flex">
           {/* Search Results List */}
           <div className="w-full">
-            {!searchQuery && searchResults.length === 0 ? (
+            {isQueryEmpty && recentNotes.length === 0 ? (
               <div className="p-8 text-center text-gray-500 dark:text-gray-400">
                 <FileText size={48} className="mx-auto mb-4 opacity-50" />
                 <p className="text-lg font-medium mb-2">No Notes Yet</p>
                 <p className="text-sm">Create your first note to see it here</p>
               </div>
-            ) : !searchQuery ? (
+            ) : isQueryEmpty ? (
               <div className="overflow-y-auto">
                 <div className="p-3 text-xs text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
-                  Recent Notes ({searchResults.length})
+                  Recent Notes ({recentNotes.length})
                 </div>
                 <div className="divide-y divide-gray-200 dark:divide-gray-700">
-                  {searchResults.map((note) => (
+                  {recentNotes.map((note) => (
                     <div
                       key={note.uuid}
                       className="p-4 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
@@ -170,17 +168,27 @@ export const SearchSidebar = ({ allNotes, isOpen, onClose, onNoteSelect }: Searc
               </div>
             ) : searchResults.length === 0 ? (
               <div className="p-8 text-center text-gray-500 dark:text-gray-400">
-                <FileText size={48} className="mx-auto mb-4 opacity-50" />
-                <p className="text-lg font-medium mb-2">No Notes Found</p>
-                <p className="text-sm">No notes match "{searchQuery}"</p>
+                {isSearchingServer ? (
+                  <>
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-4"></div>
+                    <p className="text-sm">Searching the server...</p>
+                  </>
+                ) : (
+                  <>
+                    <FileText size={48} className="mx-auto mb-4 opacity-50" />
+                    <p className="text-lg font-medium mb-2">No Notes Found</p>
+                    <p className="text-sm">No notes match "{searchQuery}"</p>
+                  </>
+                )}
               </div>
             ) : (
               <div className="overflow-y-auto">
                 <div className="p-3 text-xs text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
                   {searchResults.length} result{searchResults.length !== 1 ? 's' : ''} found
+                  {searchResults[0]?.fromServer && ' on the server'}
                 </div>
                 <div className="divide-y divide-gray-200 dark:divide-gray-700">
-                  {searchResults.map((note) => (
+                  {searchResults.map(({ note, snippet, field, fromServer }) => (
                     <div
                       key={note.uuid}
                       className="p-4 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
@@ -188,20 +196,25 @@ export const SearchSidebar = ({ allNotes, isOpen, onClose, onNoteSelect }: Searc
                     >
                       <div className="flex items-start justify-between mb-2">
                         <h3 className="font-medium text-gray-900 dark:text-white text-sm line-clamp-1">
-                          {note.title}
+                          {renderParts(NoteSearchIndex.highlightText(note.title, parsedQuery))}
                         </h3>
                         <div 
                           className="w-3 h-3 rounded-full ml-2 flex-shrink-0" 
                           style={{ backgroundColor: note.color }}
                         />
                       </div>
-                      <p className="text-xs text-gray-600 dark:text-gray-300 line-clamp-2 mb-2">
-                        {truncateContent(note.content)}
-                      </p>
+                      {field !== 'title' && snippet.length > 0 && (
+                        <p className="text-xs text-gray-600 dark:text-gray-300 line-clamp-2 mb-2">
+                          {field === 'task' && <CheckSquare size={11} className="inline mr-1 -mt-0.5" />}
+                          {renderParts(snippet)}
+                        </p>
+                      )}
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
                           <Calendar size={12} />
                           <span>{formatDateShort(note.date)}</span>
+                          {note.isPinned && <Pin size={12} />}
+                          {fromServer && <Cloud size={12} />}
                         </div>
                       </div>
                     </div>
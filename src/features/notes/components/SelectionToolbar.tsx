@@ -0,0 +1,296 @@
+import React, { useState, useRef, useEffect } from 'react';
+import {
+  Palette, Pin, PinOff, CalendarDays, Hash, Trash2, X, LayoutGrid,
+  AlignStartVertical, AlignCenterVertical, AlignEndVertical,
+  AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal,
+  AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter, Spline, Frame
+} from 'lucide-react';
+import { DatePicker } from '@mantine/dates';
+import { Note } from '@/domains/note';
+import { Tag } from '@/domains/tag';
+import { useTags } from '@/hooks/tags';
+import { toast } from '@/hooks/use-toast';
+import { AlignMode, DistributeAxis } from '@/helpers/alignment-helper';
+import { LAYOUT, SELECTION, Z_INDEX } from '@/constants/ui-constants';
+
+type ToolbarPopover = 'color' | 'date' | 'tag' | 'arrange' | null;
+
+const ALIGN_ACTIONS: { mode: AlignMode; label: string; icon: typeof LayoutGrid }[] = [
+  { mode: 'left', label: 'Align left edges', icon: AlignStartVertical },
+  { mode: 'center', label: 'Align horizontal centers', icon: AlignCenterVertical },
+  { mode: 'right', label: 'Align right edges', icon: AlignEndVertical },
+  { mode: 'top', label: 'Align top edges', icon: AlignStartHorizontal },
+  { mode: 'middle', label: 'Align vertical centers', icon: AlignCenterHorizontal },
+  { mode: 'bottom', label: 'Align bottom edges', icon: AlignEndHorizontal },
+];
+
+// Distributing needs a note between the two that stay in place
+const MIN_NOTES_TO_DISTRIBUTE = 3;
+
+interface SelectionToolbarProps {
+  selectedNotes: Note[];
+  onRecolor: (color: string) => void;
+  onSetPinned: (isPinned: boolean) => void;
+  onMoveToDate: (date: Date) => void;
+  onAddTag: (tag: Tag) => void;
+  onAlign: (mode: AlignMode) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  /** Connect the selected notes in the order they were selected */
+  onConnect: () => void;
+  /** Put the selected notes in a new frame drawn around them */
+  onFrame: () => void;
+  onDelete: () => void;
+  onClearSelection: () => void;
+}
+
+export const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  selectedNotes,
+  onRecolor,
+  onSetPinned,
+  onMoveToDate,
+  onAddTag,
+  onAlign,
+  onDistribute,
+  onConnect,
+  onFrame,
+  onDelete,
+  onClearSelection,
+}) => {
+  const [openPopover, setOpenPopover] = useState<ToolbarPopover>(null);
+  const [tagInput, setTagInput] = useState('');
+  const toolbarRef = useRef<HTMLDivElement>(null);
+
+  const { createTag, getTagSuggestions } = useTags();
+
+  // Close popovers when clicking outside the toolbar
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (toolbarRef.current && !toolbarRef.current.contains(event.target as Node)) {
+        setOpenPopover(null);
+      }
+    };
+
+    if (openPopover) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [openPopover]);
+
+  useEffect(() => {
+    if (openPopover !== 'tag') setTagInput('');
+  }, [openPopover]);
+
+  if (selectedNotes.length === 0) return null;
+
+  const allPinned = selectedNotes.every(note => note.isPinned);
+  const tagSuggestions = openPopover === 'tag' ? getTagSuggestions(tagInput.trim()) : [];
+
+  const togglePopover = (popover: ToolbarPopover) => {
+    setOpenPopover(prev => (prev === popover ? null : popover));
+  };
+
+  const handleDateChange = (value: string | null) => {
+    if (value) {
+      onMoveToDate(new Date(value));
+      setOpenPopover(null);
+    }
+  };
+
+  const handleSelectTag = (tag: Tag) => {
+    onAddTag(tag);
+    setOpenPopover(null);
+  };
+
+  const handleTagSubmit = async () => {
+    const name = tagInput.trim();
+    if (!name) return;
+
+    const existing = tagSuggestions.find(tag => tag.name.toLowerCase() === name.toLowerCase());
+    const tag = existing || await createTag(name);
+    if (!tag) {
+      toast({
+        title: 'Could not add tag',
+        description: 'Login to create and use tags.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    handleSelectTag(tag);
+  };
+
+  const buttonClass = (isActive: boolean) =>
+    `p-2 rounded-md transition-colors ${
+      isActive
+        ? 'bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300'
+        : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+    }`;
+
+  return (
+    <div
+      ref={toolbarRef}
+      className="fixed top-24 -translate-x-1/2 flex items-center gap-1 px-2 py-1 bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg"
+      style={{ left: `calc(${LAYOUT.SIDEBAR_WIDTH}px + (100vw - ${LAYOUT.SIDEBAR_WIDTH}px) / 2)`, zIndex: Z_INDEX.SIDEBAR }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      <span className="px-2 text-sm font-medium text-gray-800 dark:text-gray-200 whitespace-nowrap">
+        {selectedNotes.length} selected
+      </span>
+      <div className="w-px h-6 bg-gray-200 dark:bg-gray-700" />
+
+      {/* Recolor */}
+      <div className="relative">
+        <button onClick={() => togglePopover('color')} className={buttonClass(openPopover === 'color')} title="Change color">
+          <Palette size={16} />
+        </button>
+        {openPopover === 'color' && (
+          <div className="absolute top-full left-0 mt-2 p-2 grid grid-cols-4 gap-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+            {SELECTION.COLOR_PRESETS.map(color => (
+              <button
+                key={color}
+                onClick={() => {
+                  onRecolor(color);
+                  setOpenPopover(null);
+                }}
+                className="w-6 h-6 rounded-full border border-black/10 hover:scale-110 transition-transform"
+                style={{ backgroundColor: color }}
+                title={color}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Pin / unpin */}
+      <button
+        onClick={() => onSetPinned(!allPinned)}
+        className={buttonClass(false)}
+        title={allPinned ? 'Unpin notes' : 'Pin notes'}
+      >
+        {allPinned ? <PinOff size={16} /> : <Pin size={16} />}
+      </button>
+
+      {/* Move to date */}
+      <div className="relative">
+        <button onClick={() => togglePopover('date')} className={buttonClass(openPopover === 'date')} title="Move to date">
+          <CalendarDays size={16} />
+        </button>
+        {openPopover === 'date' && (
+          <div className="absolute top-full left-0 mt-2 p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+            <DatePicker onChange={handleDateChange} size="sm" />
+          </div>
+        )}
+      </div>
+
+      {/* Tag */}
+      <div className="relative">
+        <button onClick={() => togglePopover('tag')} className={buttonClass(openPopover === 'tag')} title="Add tag">
+          <Hash size={16} />
+        </button>
+        {openPopover === 'tag' && (
+          <div className="absolute top-full left-0 mt-2 p-2 w-56 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+            <input
+              type="text"
+              autoFocus
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleTagSubmit();
+                } else if (e.key === 'Escape') {
+                  setOpenPopover(null);
+                }
+              }}
+              className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Tag name..."
+            />
+            {tagSuggestions.length > 0 && (
+              <div className="mt-1 max-h-40 overflow-y-auto">
+                {tagSuggestions.map(tag => (
+                  <button
+                    key={tag.uuid}
+                    onClick={() => handleSelectTag(tag)}
+                    className="w-full text-left px-2 py-1 text-sm rounded text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    #{tag.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Align and distribute */}
+      <div className="relative">
+        <button
+          onClick={() => togglePopover('arrange')}
+          disabled={selectedNotes.length < 2}
+          className={`${buttonClass(openPopover === 'arrange')} disabled:opacity-50`}
+          title={selectedNotes.length < 2 ? 'Select at least two notes to arrange them' : 'Align and distribute'}
+        >
+          <LayoutGrid size={16} />
+        </button>
+        {openPopover === 'arrange' && (
+          <div className="absolute top-full left-0 mt-2 p-2 grid grid-cols-4 gap-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+            {ALIGN_ACTIONS.map(({ mode, label, icon: Icon }) => (
+              <button key={mode} onClick={() => onAlign(mode)} className={buttonClass(false)} title={label}>
+                <Icon size={16} />
+              </button>
+            ))}
+            <button
+              onClick={() => onDistribute('horizontal')}
+              disabled={selectedNotes.length < MIN_NOTES_TO_DISTRIBUTE}
+              className={`${buttonClass(false)} disabled:opacity-50`}
+              title="Distribute horizontally"
+            >
+              <AlignHorizontalDistributeCenter size={16} />
+            </button>
+            <button
+              onClick={() => onDistribute('vertical')}
+              disabled={selectedNotes.length < MIN_NOTES_TO_DISTRIBUTE}
+              className={`${buttonClass(false)} disabled:opacity-50`}
+              title="Distribute vertically"
+            >
+              <AlignVerticalDistributeCenter size={16} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Connect */}
+      <button
+        onClick={onConnect}
+        disabled={selectedNotes.length < 2}
+        className={`${buttonClass(false)} disabled:opacity-50`}
+        title={selectedNotes.length < 2 ? 'Select at least two notes to connect them' : 'Connect notes in selection order'}
+      >
+        <Spline size={16} />
+      </button>
+
+      {/* Frame */}
+      <button
+        onClick={onFrame}
+        className={buttonClass(false)}
+        title="Group notes in a new frame"
+      >
+        <Frame size={16} />
+      </button>
+
+      {/* Delete */}
+      <button
+        onClick={onDelete}
+        className="p-2 rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"
+        title="Delete notes"
+      >
+        <Trash2 size={16} />
+      </button>
+
+      <div className="w-px h-6 bg-gray-200 dark:bg-gray-700" />
+      <button onClick={onClearSelection} className={buttonClass(false)} title="Clear selection (Esc)">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
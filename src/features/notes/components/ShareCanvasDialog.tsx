@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import { X, Share2, Trash2, UserPlus, ExternalLink } from 'lucide-react';
+import { Tag } from '@/domains/tag';
+import { CanvasRole, CanvasScope, CanvasShare } from '@/types/collaboration.types';
+import { describeShareScope } from '@/helpers/collaboration-helper';
+import { Z_INDEX } from '@/constants/ui-constants';
+
+interface ShareCanvasDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Date key of the canvas on screen, offered for sharing */
+  dateKey: string;
+  /** Tags of the user's notes, offered as tag boards */
+  availableTags: Tag[];
+  ownedShares: CanvasShare[];
+  sharedWithMe: CanvasShare[];
+  onCreateShare: (scope: CanvasScope) => void;
+  onDeleteShare: (shareId: string) => void;
+  onAddMember: (shareId: string, email: string, role: CanvasRole) => Promise<boolean>;
+  onUpdateMemberRole: (shareId: string, userId: number, role: CanvasRole) => void;
+  onRemoveMember: (shareId: string, userId: number) => void;
+  onOpenShare: (share: CanvasShare) => void;
+}
+
+const ROLE_OPTIONS: { value: CanvasRole; label: string }[] = [
+  { value: 'viewer', label: 'Can view' },
+  { value: 'editor', label: 'Can edit' },
+];
+
+const inputClass = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Share the canvas of a date or a tag board with teammates, manage who has access
+ * and with which role, and open canvases teammates shared
+ */
+export const ShareCanvasDialog: React.FC<ShareCanvasDialogProps> = ({
+  isOpen,
+  onClose,
+  dateKey,
+  availableTags,
+  ownedShares,
+  sharedWithMe,
+  onCreateShare,
+  onDeleteShare,
+  onAddMember,
+  onUpdateMemberRole,
+  onRemoveMember,
+  onOpenShare,
+}) => {
+  const [selectedTagUuid, setSelectedTagUuid] = useState('');
+  const [inviteEmails, setInviteEmails] = useState<Record<string, string>>({});
+  const [inviteRoles, setInviteRoles] = useState<Record<string, CanvasRole>>({});
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+    }
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const isDateShared = ownedShares.some(share => share.scope.type === 'date' && share.scope.date === dateKey);
+  const unsharedTags = availableTags.filter(tag =>
+    !ownedShares.some(share => share.scope.type === 'tag' && share.scope.tagUuid === tag.uuid)
+  );
+
+  const handleShareTag = () => {
+    const tag = unsharedTags.find(candidate => candidate.uuid === selectedTagUuid);
+    if (!tag) return;
+    onCreateShare({ type: 'tag', tagUuid: tag.uuid, tagName: tag.name });
+    setSelectedTagUuid('');
+  };
+
+  const handleInvite = async (shareId: string) => {
+    const email = inviteEmails[shareId]?.trim();
+    if (!email) return;
+
+    const added = await onAddMember(shareId, email, inviteRoles[shareId] ?? 'viewer');
+    if (added) setInviteEmails(prev => ({ ...prev, [shareId]: '' }));
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center" style={{ zIndex: Z_INDEX.NOTE_DETAIL_MODAL }}>
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[90vw] max-w-xl max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-2">
+            <Share2 className="h-5 w-5 text-blue-500" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Share with teammates</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          {/* New shares */}
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Share</h3>
+            <button
+              onClick={() => onCreateShare({ type: 'date', date: dateKey })}
+              disabled={isDateShared}
+              className="px-3 py-1.5 text-sm rounded bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isDateShared ? `Canvas of ${dateKey} is shared` : `Share canvas of ${dateKey}`}
+            </button>
+            <div className="flex items-center gap-2">
+              <select
+                value={selectedTagUuid}
+                onChange={(e) => setSelectedTagUuid(e.target.value)}
+                className={`flex-1 ${inputClass}`}
+              >
+                <option value="">Choose a tag board…</option>
+                {unsharedTags.map(tag => (
+                  <option key={tag.uuid} value={tag.uuid}>#{tag.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleShareTag}
+                disabled={!selectedTagUuid}
+                className="px-3 py-1.5 text-sm rounded bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Share tag board
+              </button>
+            </div>
+          </section>
+
+          {/* Shares the user owns */}
+          {ownedShares.length > 0 && (
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Shared by you</h3>
+              {ownedShares.map(share => (
+                <div key={share.id} className="rounded border border-gray-200 dark:border-gray-700 p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">{describeShareScope(share)}</span>
+                    <div className="flex items-center gap-1">
+                      {share.scope.type === 'tag' && (
+                        <button
+                          onClick={() => onOpenShare(share)}
+                          className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+                          title="Open tag board"
+                        >
+                          <ExternalLink size={16} />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => onDeleteShare(share.id)}
+                        className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+                        title="Stop sharing"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+
+                  {share.members.map(member => (
+                    <div key={member.userId} className="flex items-center gap-2 text-sm">
+                      <span className="flex-1 min-w-0 truncate text-gray-700 dark:text-gray-300">
+                        {member.displayName || member.email}
+                      </span>
+                      <select
+                        value={member.role}
+                        onChange={(e) => onUpdateMemberRole(share.id, member.userId, e.target.value as CanvasRole)}
+                        className={inputClass}
+                      >
+                        {ROLE_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => onRemoveMember(share.id, member.userId)}
+                        className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400"
+                        title="Remove access"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+                  ))}
+
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="email"
+                      value={inviteEmails[share.id] ?? ''}
+                      onChange={(e) => setInviteEmails(prev => ({ ...prev, [share.id]: e.target.value }))}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleInvite(share.id);
+                      }}
+                      placeholder="Teammate's email"
+                      className={`flex-1 ${inputClass}`}
+                    />
+                    <select
+                      value={inviteRoles[share.id] ?? 'viewer'}
+                      onChange={(e) => setInviteRoles(prev => ({ ...prev, [share.id]: e.target.value as CanvasRole }))}
+                      className={inputClass}
+                    >
+                      {ROLE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleInvite(share.id)}
+                      disabled={!inviteEmails[share.id]?.trim()}
+                      className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 disabled:opacity-50"
+                      title="Invite"
+                    >
+                      <UserPlus size={16} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </section>
+          )}
+
+          {/* Canvases teammates shared */}
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Shared with you</h3>
+            {sharedWithMe.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No teammate has shared a canvas with you yet.</p>
+            ) : (
+              sharedWithMe.map(share => (
+                <div key={share.id} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 min-w-0 truncate text-gray-700 dark:text-gray-300">
+                    {share.ownerName} · {describeShareScope(share)}
+                  </span>
+                  <button
+                    onClick={() => onOpenShare(share)}
+                    className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-blue-600 dark:text-blue-400"
+                  >
+                    <ExternalLink size={14} />
+                    Open
+                  </button>
+                </div>
+              ))
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
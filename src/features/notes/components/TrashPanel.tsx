@@ -0,0 +1,256 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Trash2, RotateCcw, CheckSquare } from 'lucide-react';
+import { Note } from '@/domains/note';
+import { NotesSyncService } from '@/services/notes-sync-service';
+import { formatDateDisplay, formatDateShort } from '@/helpers/date-helper';
+import { TRASH, Z_INDEX } from '@/constants/ui-constants';
+import { toast } from '@/hooks/use-toast';
+
+interface TrashPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRestore: (notes: Note[]) => Promise<void>;
+  onPurge: (notes: Note[]) => Promise<void>;
+}
+
+// Helper function to describe how long ago a note was deleted
+const formatDeletedAgo = (deletedAt: Date): string => {
+  const days = Math.floor((Date.now() - deletedAt.getTime()) / TRASH.MS_PER_DAY);
+  if (days <= 0) return 'today';
+  if (days === 1) return 'yesterday';
+  return `${days} days ago`;
+};
+
+// Helper function to build a short plain-text preview of a trashed note
+const getNotePreview = (note: Note): string => {
+  const text = note.isTaskMode && note.noteTasks && note.noteTasks.length > 0
+    ? note.noteTasks.map(task => task.text).join(', ')
+    : note.content;
+  return text.length > TRASH.PREVIEW_LENGTH ? `${text.slice(0, TRASH.PREVIEW_LENGTH)}…` : text;
+};
+
+export const TrashPanel: React.FC<TrashPanelProps> = ({
+  isOpen,
+  onClose,
+  onRestore,
+  onPurge,
+}) => {
+  const [trashedNotes, setTrashedNotes] = useState<Note[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [autoPurgeDays, setAutoPurgeDays] = useState(() => NotesSyncService.getTrashAutoPurgeDays());
+  // Notes waiting for the "delete forever" confirmation
+  const [pendingPurge, setPendingPurge] = useState<Note[] | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setTrashedNotes(await NotesSyncService.getTrashedNotes());
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadTrash();
+    } else {
+      setPendingPurge(null);
+    }
+  }, [isOpen, loadTrash]);
+
+  // Close on Escape (or cancel a pending purge first)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      if (pendingPurge) {
+        setPendingPurge(null);
+      } else {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+    }
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, pendingPurge, onClose]);
+
+  if (!isOpen) return null;
+
+  const handleRestore = async (note: Note) => {
+    await onRestore([note]);
+    setTrashedNotes(prev => prev.filter(trashed => trashed.uuid !== note.uuid));
+    toast({
+      title: 'Note restored',
+      description: `"${note.title || 'Untitled'}" is back on ${formatDateDisplay(note.date)}.`,
+    });
+  };
+
+  const handleConfirmPurge = async () => {
+    if (!pendingPurge) return;
+
+    const purgedUuids = pendingPurge.map(note => note.uuid);
+    await onPurge(pendingPurge);
+    setTrashedNotes(prev => prev.filter(note => !purgedUuids.includes(note.uuid)));
+    setPendingPurge(null);
+    toast({
+      title: purgedUuids.length === 1 ? 'Note deleted forever' : `${purgedUuids.length} notes deleted forever`,
+    });
+  };
+
+  const handleAutoPurgeChange = async (days: number) => {
+    NotesSyncService.setTrashAutoPurgeDays(days);
+    setAutoPurgeDays(days);
+
+    // Apply the new setting right away
+    const now = Date.now();
+    const expiredNotes = trashedNotes.filter(note => {
+      const purgeDate = NotesSyncService.getTrashPurgeDate(note, days);
+      return purgeDate !== null && purgeDate.getTime() <= now;
+    });
+    if (expiredNotes.length > 0) {
+      await onPurge(expiredNotes);
+      setTrashedNotes(prev => prev.filter(note => !expiredNotes.includes(note)));
+      toast({
+        title: 'Trash cleaned up',
+        description: `${expiredNotes.length} note${expiredNotes.length !== 1 ? 's' : ''} older than ${days} days deleted forever.`,
+      });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center" style={{ zIndex: Z_INDEX.NOTE_DETAIL_MODAL }}>
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[90vw] max-w-2xl h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-2">
+            <Trash2 className="h-5 w-5 text-red-500" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Trash ({trashedNotes.length})
+            </h2>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+              Auto-delete after
+              <select
+                value={autoPurgeDays}
+                onChange={(e) => handleAutoPurgeChange(Number(e.target.value))}
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {TRASH.AUTO_PURGE_OPTIONS.map(days => (
+                  <option key={days} value={days}>
+                    {days === 0 ? 'Never' : `${days} days`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={() => setPendingPurge(trashedNotes)}
+              disabled={trashedNotes.length === 0}
+              className="px-3 py-1.5 text-sm font-medium rounded text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Permanently delete every note in the trash"
+            >
+              Empty trash
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+              title="Close"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {/* Trashed notes, most recently deleted first */}
+        {isLoading && trashedNotes.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+          </div>
+        ) : trashedNotes.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-gray-500 dark:text-gray-400">
+            Trash is empty.
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto">
+            {trashedNotes.map(note => {
+              const deletedAt = note.deletedAt || note.updatedAt;
+              const purgeDate = NotesSyncService.getTrashPurgeDate(note, autoPurgeDays);
+
+              return (
+                <div
+                  key={note.uuid}
+                  className="flex items-start gap-3 px-6 py-3 border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                >
+                  <span className="w-3 h-3 mt-1.5 rounded-full flex-shrink-0" style={{ backgroundColor: note.color }} />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      {note.isTaskMode && <CheckSquare size={14} className="text-gray-400 flex-shrink-0" />}
+                      <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {note.title || 'Untitled'}
+                      </span>
+                    </div>
+                    {getNotePreview(note) && (
+                      <p className="text-sm text-gray-600 dark:text-gray-300 truncate">{getNotePreview(note)}</p>
+                    )}
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {deletedAt && `Deleted ${formatDeletedAgo(deletedAt)} · `}from {formatDateShort(note.date)}
+                      {purgeDate && ` · deleted forever on ${formatDateShort(purgeDate)}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => handleRestore(note)}
+                      className="p-2 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                      title="Restore to its original date and position"
+                    >
+                      <RotateCcw size={16} />
+                    </button>
+                    <button
+                      onClick={() => setPendingPurge([note])}
+                      className="p-2 rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"
+                      title="Delete forever"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Purge confirmation */}
+        {pendingPurge && (
+          <div className="flex items-center justify-between gap-3 px-6 py-3 border-t border-gray-200 dark:border-gray-700 bg-red-50 dark:bg-red-900/20 rounded-b-lg">
+            <span className="text-sm text-red-700 dark:text-red-300">
+              {pendingPurge.length === 1
+                ? `Permanently delete "${pendingPurge[0].title || 'Untitled'}"? This cannot be undone.`
+                : `Permanently delete all ${pendingPurge.length} notes in the trash? This cannot be undone.`}
+            </span>
+            <div className="flex gap-2 flex-shrink-0">
+              <button
+                onClick={() => setPendingPurge(null)}
+                className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmPurge}
+                className="px-3 py-1.5 text-sm bg-red-600 hover:bg-red-700 text-white rounded transition-colors"
+              >
+                Delete forever
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  CanvasPresenceEvent,
+  CanvasViewer,
+  CursorMovedEvent,
+  NoteDragPreviewEvent,
+  NoteLock,
+  NoteLockChangedEvent,
+  RemoteCursor,
+  RemoteDragPreview
+} from '@/types/collaboration.types';
+import { CollaborationService } from '@/services/signalr/collaboration-service';
+import { SessionManager } from '@/helpers/session-manager';
+import { COLLABORATION } from '@/constants/ui-constants';
+
+/**
+ * Hook for live collaboration on a shared canvas: who is viewing it, their cursors
+ * and drag previews, and the notes they are editing. Joins the canvas while a
+ * share is given and leaves it when the share changes or the canvas closes.
+ */
+export const useCanvasCollaboration = (shareId: string | null) => {
+  const [viewers, setViewers] = useState<CanvasViewer[]>([]);
+  const [cursors, setCursors] = useState<Record<string, RemoteCursor>>({});
+  const [dragPreviews, setDragPreviews] = useState<Record<string, RemoteDragPreview>>({});
+  const [locks, setLocks] = useState<Record<string, NoteLock>>({});
+  // False while the canvas cannot be joined, e.g. offline: teammates' changes and locks do not arrive
+  const [isLive, setIsLive] = useState(true);
+
+  useEffect(() => {
+    if (!shareId) return;
+
+    const handlePresenceChanged = (event: CanvasPresenceEvent) => {
+      setViewers(event.viewers);
+      setLocks(Object.fromEntries(event.locks.map(lock => [lock.noteUuid, lock])));
+
+      // Drop the cursors and previews of clients that left
+      const present = new Set(event.viewers.map(viewer => viewer.clientId));
+      setCursors(prev => Object.fromEntries(Object.entries(prev).filter(([clientId]) => present.has(clientId))));
+      setDragPreviews(prev => Object.fromEntries(Object.entries(prev).filter(([, preview]) => present.has(preview.clientId))));
+    };
+
+    const handleCursorMoved = (event: CursorMovedEvent) => {
+      setCursors(prev => {
+        // A null position means the pointer left the canvas
+        if (event.x === null || event.y === null) {
+          const { [event.clientId]: _removed, ...rest } = prev;
+          return rest;
+        }
+        return { ...prev, [event.clientId]: { clientId: event.clientId, x: event.x, y: event.y, receivedAt: Date.now() } };
+      });
+    };
+
+    const handleDragPreview = (event: NoteDragPreviewEvent) => {
+      setDragPreviews(prev => {
+        if (!event.position) {
+          const { [event.noteUuid]: _removed, ...rest } = prev;
+          return rest;
+        }
+        return { ...prev, [event.noteUuid]: { clientId: event.clientId, noteUuid: event.noteUuid, position: event.position } };
+      });
+    };
+
+    const handleLockChanged = (event: NoteLockChangedEvent) => {
+      setLocks(prev => {
+        const { [event.noteUuid]: _removed, ...rest } = prev;
+        return event.lock ? { ...rest, [event.noteUuid]: event.lock } : rest;
+      });
+    };
+
+    const handleAvailabilityChanged = (event: { isLive: boolean }) => {
+      setIsLive(event.isLive);
+    };
+
+    CollaborationService.addEventListener('availabilityChanged', handleAvailabilityChanged);
+    CollaborationService.addEventListener('presenceChanged', handlePresenceChanged);
+    CollaborationService.addEventListener('cursorMoved', handleCursorMoved);
+    CollaborationService.addEventListener('dragPreview', handleDragPreview);
+    CollaborationService.addEventListener('lockChanged', handleLockChanged);
+    CollaborationService.joinCanvas(shareId);
+
+    return () => {
+      CollaborationService.removeEventListener('availabilityChanged', handleAvailabilityChanged);
+      CollaborationService.removeEventListener('presenceChanged', handlePresenceChanged);
+      CollaborationService.removeEventListener('cursorMoved', handleCursorMoved);
+      CollaborationService.removeEventListener('dragPreview', handleDragPreview);
+      CollaborationService.removeEventListener('lockChanged', handleLockChanged);
+      CollaborationService.leaveCanvas();
+      setViewers([]);
+      setCursors({});
+      setDragPreviews({});
+      setLocks({});
+      setIsLive(true);
+    };
+  }, [shareId]);
+
+  // Hide cursors that stopped moving, e.g. of a teammate who switched windows
+  const hasCursors = Object.keys(cursors).length > 0;
+  useEffect(() => {
+    if (!hasCursors) return;
+
+    const timer = setInterval(() => {
+      const cutoff = Date.now() - COLLABORATION.CURSOR_IDLE_TIMEOUT;
+      setCursors(prev => {
+        const active = Object.entries(prev).filter(([, cursor]) => cursor.receivedAt >= cutoff);
+        return active.length === Object.keys(prev).length ? prev : Object.fromEntries(active);
+      });
+    }, COLLABORATION.CURSOR_IDLE_TIMEOUT / 2);
+    return () => clearInterval(timer);
+  }, [hasCursors]);
+
+  // The viewer holding a note's lock, unless it is this client
+  const getLockHolder = useCallback((noteUuid: string): CanvasViewer | null => {
+    const lock = locks[noteUuid];
+    if (!lock || lock.clientId === SessionManager.getClientId()) return null;
+    return viewers.find(viewer => viewer.clientId === lock.clientId) ?? null;
+  }, [locks, viewers]);
+
+  // Lock a note while it is edited here, release it when editing ends
+  const setNoteEditing = useCallback((noteUuid: string, isEditing: boolean) => {
+    if (isEditing) {
+      CollaborationService.lockNote(noteUuid);
+    } else {
+      CollaborationService.unlockNote(noteUuid);
+    }
+  }, []);
+
+  const sendCursor = useCallback((point: { x: number; y: number } | null) => {
+    CollaborationService.sendCursor(point);
+  }, []);
+
+  const sendDragPreview = useCallback((noteUuid: string, position: { x: number; y: number } | null) => {
+    CollaborationService.sendDragPreview(noteUuid, position);
+  }, []);
+
+  return {
+    viewers,
+    isLive,
+    cursors: Object.values(cursors),
+    dragPreviews: Object.values(dragPreviews),
+    getLockHolder,
+    setNoteEditing,
+    sendCursor,
+    sendDragPreview,
+  };
+};
@@ -1,27 +1,23 @@
 import { useRef, useState, useCallback, useEffect } from 'react';
 
-export const useCanvasDrag = () => {
+export const useCanvasDrag = (onPan: (deltaX: number, deltaY: number) => void) => {
   const [isDragging, setIsDragging] = useState(false);
-  const [startPosition, setStartPosition] = useState({ x: 0, y: 0 });
-  const [startScrollPosition, setStartScrollPosition] = useState({ x: 0, y: 0 });
-  const containerRef = useRef<HTMLDivElement>(null);
+  const lastPositionRef = useRef({ x: 0, y: 0 });
 
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     // Only start dragging if clicking on empty canvas area (not on notes or buttons)
     const target = e.target as HTMLElement;
+    // Events from portaled overlays bubble through React but are not inside the canvas
+    if (!e.currentTarget.contains(target)) return;
     if (target.closest('.note-card') || target.closest('button') || target.closest('[role="button"]')) {
       return;
     }
 
-    const container = containerRef.current;
-    if (!container) return;
+    // Pan with the primary or middle mouse button
+    if (e.button !== 0 && e.button !== 1) return;
 
     setIsDragging(true);
-    setStartPosition({ x: e.clientX, y: e.clientY });
-    setStartScrollPosition({ 
-      x: container.scrollLeft, 
-      y: container.scrollTop 
-    });
+    lastPositionRef.current = { x: e.clientX, y: e.clientY };
 
     // Prevent text selection while dragging
     document.body.style.userSelect = 'none';
@@ -29,14 +25,15 @@ export const useCanvasDrag = () => {
   }, []);
 
   const handleMouseMove = useCallback((e: MouseEvent) => {
-    if (!isDragging || !containerRef.current) return;
+    if (!isDragging) return;
 
-    const deltaX = e.clientX - startPosition.x;
+    const deltaX = e.clientX - lastPositionRef.current.x;
+    const deltaY = e.clientY - lastPositionRef.current.y;
+    lastPositionRef.current = { x: e.clientX, y: e.clientY };
 
-    // Only allow horizontal dragging, ignore vertical
-    containerRef.current.scrollLeft = startScrollPosition.x - deltaX;
-    // Keep vertical scroll position unchanged
-  }, [isDragging, startPosition, startScrollPosition]);
+    // Free 2D panning
+    onPan(deltaX, deltaY);
+  }, [isDragging, onPan]);
 
   const handleMouseUp = useCallback(() => {
     if (!isDragging) return;
@@ -60,7 +57,6 @@ export const useCanvasDrag = () => {
   }, [isDragging, handleMouseMove, handleMouseUp]);
 
   return {
-    containerRef,
     isDragging,
     handleMouseDown
   };
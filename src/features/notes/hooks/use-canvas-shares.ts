@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import { sharesApi } from '@/services/api/shares-api';
+import { CanvasRole, CanvasScope, CanvasShare } from '@/types/collaboration.types';
+import { toast } from '@/hooks/use-toast';
+
+// Helper function to run a share change and report failures; the server message says what was wrong
+const runShareAction = async <T>(action: () => Promise<T>, failureTitle: string): Promise<T | null> => {
+  try {
+    return await action();
+  } catch (error) {
+    console.error(`${failureTitle}:`, error);
+    toast({
+      title: failureTitle,
+      description: error instanceof Error ? error.message : 'Please try again.',
+      variant: 'destructive',
+    });
+    return null;
+  }
+};
+
+// Helper function to replace a share changed on the server (members added, roles changed)
+const replaceShare = (shares: CanvasShare[], updated: CanvasShare): CanvasShare[] =>
+  shares.map(share => share.id === updated.id ? updated : share);
+
+/**
+ * Hook for the canvases the user shares and the ones teammates share with them.
+ * Sharing needs the server, so nothing is loaded while signed out.
+ */
+export const useCanvasShares = (isAuthenticated: boolean) => {
+  const [ownedShares, setOwnedShares] = useState<CanvasShare[]>([]);
+  const [sharedWithMe, setSharedWithMe] = useState<CanvasShare[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadShares = useCallback(async () => {
+    if (!isAuthenticated) return;
+
+    setIsLoading(true);
+    try {
+      const [owned, received] = await Promise.all([sharesApi.getOwnedShares(), sharesApi.getSharedWithMe()]);
+      setOwnedShares(owned);
+      setSharedWithMe(received);
+    } catch (error) {
+      console.error('Failed to load canvas shares:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadShares();
+    } else {
+      setOwnedShares([]);
+      setSharedWithMe([]);
+    }
+  }, [isAuthenticated, loadShares]);
+
+  const createShare = useCallback(async (scope: CanvasScope): Promise<CanvasShare | null> => {
+    const share = await runShareAction(() => sharesApi.createShare({ scope }), 'Could not share the canvas');
+    if (share) setOwnedShares(prev => [...prev, share]);
+    return share;
+  }, []);
+
+  const deleteShare = useCallback(async (shareId: string): Promise<void> => {
+    const result = await runShareAction(async () => {
+      await sharesApi.deleteShare(shareId);
+      return true;
+    }, 'Could not stop sharing');
+    if (result) setOwnedShares(prev => prev.filter(share => share.id !== shareId));
+  }, []);
+
+  const addMember = useCallback(async (shareId: string, email: string, role: CanvasRole): Promise<boolean> => {
+    const share = await runShareAction(() => sharesApi.addMember(shareId, { email: email.trim(), role }), 'Could not invite teammate');
+    if (share) setOwnedShares(prev => replaceShare(prev, share));
+    return !!share;
+  }, []);
+
+  const updateMemberRole = useCallback(async (shareId: string, userId: number, role: CanvasRole): Promise<void> => {
+    const share = await runShareAction(() => sharesApi.updateMember(shareId, userId, { role }), 'Could not change role');
+    if (share) setOwnedShares(prev => replaceShare(prev, share));
+  }, []);
+
+  const removeMember = useCallback(async (shareId: string, userId: number): Promise<void> => {
+    const share = await runShareAction(() => sharesApi.removeMember(shareId, userId), 'Could not remove teammate');
+    if (share) setOwnedShares(prev => replaceShare(prev, share));
+  }, []);
+
+  return {
+    ownedShares,
+    sharedWithMe,
+    isLoading,
+    loadShares,
+    createShare,
+    deleteShare,
+    addMember,
+    updateMemberRole,
+    removeMember,
+  };
+};
@@ -0,0 +1,206 @@
+import { useRef, useState, useCallback, useEffect } from 'react';
+import { VIEWPORT, LAYOUT } from '@/constants/ui-constants';
+import {
+  Viewport,
+  CanvasBounds,
+  DEFAULT_VIEWPORT,
+  viewportToCanvasPoint,
+  zoomViewportAt,
+  fitBoundsToViewport,
+} from '@/helpers/viewport-helper';
+
+// Pixels per wheel "line" when the browser reports deltas in lines (Firefox)
+const WHEEL_LINE_HEIGHT = 16;
+
+interface PinchState {
+  distance: number;
+  midpoint: { x: number; y: number };
+  viewport: Viewport;
+}
+
+/**
+ * Viewport model for the infinite canvas: pan offset and zoom level,
+ * wheel/pinch gestures and screen <-> canvas coordinate conversion
+ */
+export const useCanvasViewport = () => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
+  const pinchRef = useRef<PinchState | null>(null);
+  // Latest viewport for native gesture listeners
+  const latestViewportRef = useRef<Viewport>(viewport);
+
+  useEffect(() => {
+    latestViewportRef.current = viewport;
+  }, [viewport]);
+
+  // Point relative to the viewport element
+  const toViewportPoint = useCallback((clientX: number, clientY: number) => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    return {
+      x: clientX - (rect?.left ?? LAYOUT.SIDEBAR_WIDTH),
+      y: clientY - (rect?.top ?? 0),
+    };
+  }, []);
+
+  const getViewportSize = useCallback(() => ({
+    width: viewportRef.current?.clientWidth ?? window.innerWidth - LAYOUT.SIDEBAR_WIDTH,
+    height: viewportRef.current?.clientHeight ?? window.innerHeight,
+  }), []);
+
+  // Convert screen (client) coordinates to canvas coordinates at the current zoom
+  const screenToCanvas = useCallback((clientX: number, clientY: number) => {
+    return viewportToCanvasPoint(viewport, toViewportPoint(clientX, clientY));
+  }, [viewport, toViewportPoint]);
+
+  // Visible area in canvas coordinates
+  const getVisibleBounds = useCallback((): CanvasBounds => {
+    const size = getViewportSize();
+    return {
+      x: -viewport.x / viewport.zoom,
+      y: -viewport.y / viewport.zoom,
+      width: size.width / viewport.zoom,
+      height: size.height / viewport.zoom,
+    };
+  }, [viewport, getViewportSize]);
+
+  const panBy = useCallback((deltaX: number, deltaY: number) => {
+    setViewport(prev => ({ ...prev, x: prev.x + deltaX, y: prev.y + deltaY }));
+  }, []);
+
+  // Zoom keeping the given screen point fixed (defaults to the viewport center)
+  const zoomTo = useCallback((zoom: number, clientX?: number, clientY?: number) => {
+    const size = getViewportSize();
+    const anchor = clientX !== undefined && clientY !== undefined
+      ? toViewportPoint(clientX, clientY)
+      : { x: size.width / 2, y: size.height / 2 };
+    setViewport(prev => zoomViewportAt(prev, zoom, anchor));
+  }, [getViewportSize, toViewportPoint]);
+
+  const zoomIn = useCallback(() => {
+    zoomTo(viewport.zoom * VIEWPORT.ZOOM_STEP);
+  }, [viewport.zoom, zoomTo]);
+
+  const zoomOut = useCallback(() => {
+    zoomTo(viewport.zoom / VIEWPORT.ZOOM_STEP);
+  }, [viewport.zoom, zoomTo]);
+
+  const resetZoom = useCallback(() => {
+    zoomTo(VIEWPORT.DEFAULT_ZOOM);
+  }, [zoomTo]);
+
+  const resetViewport = useCallback(() => {
+    setViewport(DEFAULT_VIEWPORT);
+  }, []);
+
+  // Fit the given canvas bounds into the visible area
+  const zoomToFit = useCallback((bounds: CanvasBounds | null) => {
+    if (!bounds) {
+      setViewport(DEFAULT_VIEWPORT);
+      return;
+    }
+    setViewport(fitBoundsToViewport(bounds, getViewportSize(), LAYOUT.CANVAS_PADDING));
+  }, [getViewportSize]);
+
+  // Pan so the given canvas point is in the center of the visible area
+  const centerOn = useCallback((point: { x: number; y: number }) => {
+    const size = getViewportSize();
+    setViewport(prev => ({
+      ...prev,
+      x: size.width / 2 - point.x * prev.zoom,
+      y: size.height / 2 - point.y * prev.zoom,
+    }));
+  }, [getViewportSize]);
+
+  // Wheel pans the canvas, ctrl/cmd + wheel (and trackpad pinch) zooms at the cursor.
+  // Attached natively because React wheel listeners are passive and can't prevent browser zoom.
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      const target = e.target as HTMLElement;
+      // Ignore overlays (dialogs, sidebars) rendered inside the canvas area
+      if (target !== element && !target.closest('.canvas-world')) return;
+
+      const scale = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : 1;
+      const deltaX = e.deltaX * scale;
+      const deltaY = e.deltaY * scale;
+
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        const anchor = toViewportPoint(e.clientX, e.clientY);
+        setViewport(prev => zoomViewportAt(prev, prev.zoom * Math.exp(-deltaY * VIEWPORT.WHEEL_ZOOM_SENSITIVITY), anchor));
+        return;
+      }
+
+      // Let scrollable note content handle plain wheel events
+      if (target.closest('.note-card')) return;
+
+      e.preventDefault();
+      setViewport(prev => ({ ...prev, x: prev.x - deltaX, y: prev.y - deltaY }));
+    };
+
+    const getPinch = (touches: TouchList) => {
+      const [a, b] = [touches[0], touches[1]];
+      return {
+        distance: Math.hypot(b.clientX - a.clientX, b.clientY - a.clientY),
+        midpoint: toViewportPoint((a.clientX + b.clientX) / 2, (a.clientY + b.clientY) / 2),
+      };
+    };
+
+    const handleTouchStart = (e: TouchEvent) => {
+      if (e.touches.length !== 2) return;
+      pinchRef.current = { ...getPinch(e.touches), viewport: latestViewportRef.current };
+    };
+
+    const handleTouchMove = (e: TouchEvent) => {
+      const start = pinchRef.current;
+      if (!start || e.touches.length !== 2) return;
+      e.preventDefault();
+
+      const current = getPinch(e.touches);
+      const zoomed = zoomViewportAt(start.viewport, start.viewport.zoom * (current.distance / start.distance), start.midpoint);
+      // Two-finger movement pans while pinching
+      setViewport({
+        ...zoomed,
+        x: zoomed.x + current.midpoint.x - start.midpoint.x,
+        y: zoomed.y + current.midpoint.y - start.midpoint.y,
+      });
+    };
+
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) {
+        pinchRef.current = null;
+      }
+    };
+
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    element.addEventListener('touchstart', handleTouchStart, { passive: true });
+    element.addEventListener('touchmove', handleTouchMove, { passive: false });
+    element.addEventListener('touchend', handleTouchEnd);
+    element.addEventListener('touchcancel', handleTouchEnd);
+
+    return () => {
+      element.removeEventListener('wheel', handleWheel);
+      element.removeEventListener('touchstart', handleTouchStart);
+      element.removeEventListener('touchmove', handleTouchMove);
+      element.removeEventListener('touchend', handleTouchEnd);
+      element.removeEventListener('touchcancel', handleTouchEnd);
+    };
+  }, [toViewportPoint]);
+
+  return {
+    viewportRef,
+    viewport,
+    screenToCanvas,
+    getVisibleBounds,
+    panBy,
+    zoomTo,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    resetViewport,
+    zoomToFit,
+    centerOn,
+  };
+};
@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Connector } from '@/domains/connector';
+import { ConnectorsSyncService } from '@/services/connectors-sync-service';
+import { NotesSyncService } from '@/services/notes-sync-service';
+import { areNotesConnected } from '@/helpers/connector-helper';
+import { API } from '@/constants/ui-constants';
+
+/**
+ * Connectors between notes, loaded from local storage and reloaded whenever they
+ * change in this tab, another tab or on the server
+ */
+export const useConnectors = () => {
+  const [connectors, setConnectors] = useState<Connector[]>([]);
+
+  const loadConnectors = useCallback(async () => {
+    setConnectors(await ConnectorsSyncService.getConnectors());
+  }, []);
+
+  useEffect(() => {
+    loadConnectors();
+
+    ConnectorsSyncService.addChangeListener(loadConnectors);
+    NotesSyncService.addRealTimeEventHandler('forceReloadNotes', loadConnectors);
+    return () => {
+      ConnectorsSyncService.removeChangeListener(loadConnectors);
+      NotesSyncService.removeRealTimeEventHandler('forceReloadNotes', loadConnectors);
+    };
+  }, [loadConnectors]);
+
+  /**
+   * Connect notes in the given order: the first to the second, the second to the third...
+   * Pairs that are already connected are skipped.
+   * @returns The number of connectors created
+   */
+  const connectNotes = useCallback(async (noteUuids: string[]): Promise<number> => {
+    const created: Connector[] = [];
+
+    for (let i = 0; i < noteUuids.length - 1; i++) {
+      const fromNoteUuid = noteUuids[i];
+      const toNoteUuid = noteUuids[i + 1];
+      if (areNotesConnected([...connectors, ...created], fromNoteUuid, toNoteUuid)) continue;
+
+      created.push({
+        id: API.DEFAULT_IDS.NEW_ENTITY,
+        uuid: uuidv4(),
+        fromNoteUuid,
+        toNoteUuid,
+        label: null,
+        lineStyle: 'solid',
+        arrowHead: 'end',
+        color: null,
+        userId: 0, // Set when synced
+        isDeleted: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        syncVersion: 1,
+        localVersion: 1,
+        lastSyncedAt: new Date(),
+        clientUpdatedAt: new Date(),
+      });
+    }
+
+    if (created.length === 0) return 0;
+
+    // Optimistically add to UI
+    setConnectors(prev => [...prev, ...created]);
+    try {
+      for (const connector of created) {
+        await ConnectorsSyncService.createConnector(connector);
+      }
+    } catch (error) {
+      console.error('Failed to create connectors:', error);
+      loadConnectors();
+    }
+    return created.length;
+  }, [connectors, loadConnectors]);
+
+  const updateConnector = useCallback(async (connector: Connector) => {
+    const updatedConnector: Connector = {
+      ...connector,
+      updatedAt: new Date(),
+      localVersion: (connector.localVersion || 1) + 1, // Increment local version on update
+      clientUpdatedAt: new Date(),
+    };
+
+    setConnectors(prev => prev.map(existing => existing.uuid === connector.uuid ? updatedConnector : existing));
+    try {
+      await ConnectorsSyncService.updateConnector(updatedConnector);
+    } catch (error) {
+      console.error('Failed to update connector:', error);
+      loadConnectors();
+    }
+  }, [loadConnectors]);
+
+  const deleteConnector = useCallback(async (connector: Connector) => {
+    setConnectors(prev => prev.filter(existing => existing.uuid !== connector.uuid));
+    try {
+      await ConnectorsSyncService.deleteConnector(connector);
+    } catch (error) {
+      console.error('Failed to delete connector:', error);
+      loadConnectors();
+    }
+  }, [loadConnectors]);
+
+  return {
+    connectors,
+    connectNotes,
+    updateConnector,
+    deleteConnector,
+  };
+};
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Frame } from '@/domains/frame';
+import { FramesSyncService } from '@/services/frames-sync-service';
+import { NotesSyncService } from '@/services/notes-sync-service';
+import { API, FRAME } from '@/constants/ui-constants';
+
+/**
+ * Frames grouping notes on the date canvases, loaded from local storage and reloaded
+ * whenever they change in this tab, another tab or on the server
+ */
+export const useFrames = () => {
+  const [frames, setFrames] = useState<Frame[]>([]);
+
+  const loadFrames = useCallback(async () => {
+    setFrames(await FramesSyncService.getFrames());
+  }, []);
+
+  useEffect(() => {
+    loadFrames();
+
+    FramesSyncService.addChangeListener(loadFrames);
+    NotesSyncService.addRealTimeEventHandler('forceReloadNotes', loadFrames);
+    return () => {
+      FramesSyncService.removeChangeListener(loadFrames);
+      NotesSyncService.removeRealTimeEventHandler('forceReloadNotes', loadFrames);
+    };
+  }, [loadFrames]);
+
+  const createFrame = useCallback(async (
+    date: Date,
+    bounds: { x: number; y: number; width: number; height: number },
+    name: string = FRAME.DEFAULT_NAME
+  ): Promise<Frame> => {
+    const newFrame: Frame = {
+      id: API.DEFAULT_IDS.NEW_ENTITY,
+      uuid: uuidv4(),
+      name,
+      color: FRAME.COLOR_PRESETS[0],
+      date,
+      position: { x: bounds.x, y: bounds.y },
+      width: bounds.width,
+      height: bounds.height,
+      isCollapsed: false,
+      userId: 0, // Set when synced
+      isDeleted: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      syncVersion: 1,
+      localVersion: 1,
+      lastSyncedAt: new Date(),
+      clientUpdatedAt: new Date(),
+    };
+
+    // Optimistically add to UI
+    setFrames(prev => [...prev, newFrame]);
+    try {
+      await FramesSyncService.createFrame(newFrame);
+    } catch (error) {
+      console.error('Failed to create frame:', error);
+      loadFrames();
+    }
+    return newFrame;
+  }, [loadFrames]);
+
+  const updateFrame = useCallback(async (frame: Frame) => {
+    const updatedFrame: Frame = {
+      ...frame,
+      updatedAt: new Date(),
+      localVersion: (frame.localVersion || 1) + 1, // Increment local version on update
+      clientUpdatedAt: new Date(),
+    };
+
+    setFrames(prev => prev.map(existing => existing.uuid === frame.uuid ? updatedFrame : existing));
+    try {
+      await FramesSyncService.updateFrame(updatedFrame);
+    } catch (error) {
+      console.error('Failed to update frame:', error);
+      loadFrames();
+    }
+  }, [loadFrames]);
+
+  const deleteFrame = useCallback(async (frame: Frame) => {
+    setFrames(prev => prev.filter(existing => existing.uuid !== frame.uuid));
+    try {
+      await FramesSyncService.deleteFrame(frame);
+    } catch (error) {
+      console.error('Failed to delete frame:', error);
+      loadFrames();
+    }
+  }, [loadFrames]);
+
+  return {
+    frames,
+    createFrame,
+    updateFrame,
+    deleteFrame,
+  };
+};
@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CanvasBounds } from '@/helpers/viewport-helper';
+import { ScreenToCanvas } from './use-note-drag';
+
+interface MarqueeState {
+  start: { x: number; y: number };
+  current: { x: number; y: number };
+  additive: boolean;
+}
+
+// Helper function to build a normalized rectangle from two corners
+const toBounds = (a: { x: number; y: number }, b: { x: number; y: number }): CanvasBounds => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+/**
+ * Rubber-band selection on empty canvas, started with shift/ctrl/cmd + drag.
+ * Corners are tracked in canvas coordinates so the rectangle stays correct at any zoom.
+ */
+export const useMarqueeSelection = (
+  screenToCanvas: ScreenToCanvas,
+  onSelect: (bounds: CanvasBounds, additive: boolean) => void
+) => {
+  const [marquee, setMarquee] = useState<MarqueeState | null>(null);
+
+  // Returns true when a marquee was started so the caller skips panning
+  const handleMouseDown = useCallback((e: React.MouseEvent): boolean => {
+    const target = e.target as HTMLElement;
+    if (!e.currentTarget.contains(target)) return false;
+    if (target.closest('.note-card') || target.closest('button') || target.closest('[role="button"]')) {
+      return false;
+    }
+    if (e.button !== 0 || !(e.shiftKey || e.ctrlKey || e.metaKey)) return false;
+
+    e.preventDefault();
+    const point = screenToCanvas(e.clientX, e.clientY);
+    // Ctrl/cmd adds to the current selection, shift starts a new one
+    setMarquee({ start: point, current: point, additive: e.ctrlKey || e.metaKey });
+    return true;
+  }, [screenToCanvas]);
+
+  useEffect(() => {
+    if (!marquee) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const point = screenToCanvas(e.clientX, e.clientY);
+      setMarquee(prev => prev ? { ...prev, current: point } : prev);
+    };
+
+    const handleMouseUp = () => {
+      onSelect(toBounds(marquee.start, marquee.current), marquee.additive);
+      setMarquee(null);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [marquee, screenToCanvas, onSelect]);
+
+  return {
+    marqueeBounds: marquee ? toBounds(marquee.start, marquee.current) : null,
+    handleMouseDown,
+  };
+};
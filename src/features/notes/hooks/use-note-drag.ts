@@ -1,6 +1,14 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { DRAG, LAYOUT } from '@/constants/ui-constants';
 
+export type ScreenToCanvas = (clientX: number, clientY: number) => { x: number; y: number };
+
+// Without a viewport the canvas starts right of the sidebar at zoom 1
+const defaultScreenToCanvas: ScreenToCanvas = (clientX, clientY) => ({
+  x: clientX - LAYOUT.SIDEBAR_WIDTH,
+  y: clientY
+});
+
 export interface DragState {
   isDragging: boolean;
   isPending: boolean;
@@ -11,7 +19,8 @@ export interface DragState {
 export const useNoteDrag = (
   onDrag: (position: { x: number; y: number }) => void,
   onDragEnd?: (position: { x: number; y: number }) => void,
-  isEditing: boolean = false
+  isEditing: boolean = false,
+  screenToCanvas: ScreenToCanvas = defaultScreenToCanvas
 ) => {
   const [dragState, setDragState] = useState<DragState>({
     isDragging: false,
@@ -31,23 +40,22 @@ export const useNoteDrag = (
     
     const rect = cardRef.current?.getBoundingClientRect();
     if (rect) {
+      // Offset of the pointer inside the card, in canvas units so it is zoom independent
+      const pointer = screenToCanvas(e.clientX, e.clientY);
+      const cardOrigin = screenToCanvas(rect.left, rect.top);
       const dragOffset = {
-        x: e.clientX - rect.left,
-        y: e.clientY - rect.top
+        x: pointer.x - cardOrigin.x,
+        y: pointer.y - cardOrigin.y
       };
       
-      // Get the canvas container to account for scroll position
-      const canvasContainer = document.querySelector('.canvas-scrollable-area')?.parentElement;
-      const scrollLeft = canvasContainer?.scrollLeft || 0;
-      
       // Set pending state first
       setDragState({
         isDragging: false,
         isPending: true,
         dragOffset,
         currentPosition: { 
-          x: e.clientX - dragOffset.x - LAYOUT.SIDEBAR_WIDTH + scrollLeft, 
-          y: e.clientY - dragOffset.y 
+          x: pointer.x - dragOffset.x, 
+          y: pointer.y - dragOffset.y 
         }
       });
       
@@ -60,7 +68,7 @@ export const useNoteDrag = (
         }));
       }, DRAG.START_DELAY);
     }
-  }, [isEditing]);
+  }, [isEditing, screenToCanvas]);
 
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -68,13 +76,12 @@ export const useNoteDrag = (
       
       // Use requestAnimationFrame for smoother dragging
       requestAnimationFrame(() => {
-        // Get the current scroll position of the canvas container
-        const canvasContainer = document.querySelector('.canvas-scrollable-area')?.parentElement;
-        const scrollLeft = canvasContainer?.scrollLeft || 0;
+        // Convert the pointer to canvas coordinates at the current pan and zoom
+        const pointer = screenToCanvas(e.clientX, e.clientY);
         
         const newPosition = {
-          x: e.clientX - dragState.dragOffset.x - LAYOUT.SIDEBAR_WIDTH + scrollLeft, // Account for left sidebar width and scroll position
-          y: e.clientY - dragState.dragOffset.y
+          x: pointer.x - dragState.dragOffset.x,
+          y: pointer.y - dragState.dragOffset.y
         };
         
         setDragState(prev => ({
@@ -112,7 +119,7 @@ export const useNoteDrag = (
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [dragState.isDragging, dragState.isPending, dragState.dragOffset, dragState.currentPosition, onDrag, onDragEnd]);
+  }, [dragState.isDragging, dragState.isPending, dragState.dragOffset, dragState.currentPosition, onDrag, onDragEnd, screenToCanvas]);
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -2,7 +2,17 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { Note } from '@/domains/note';
 import { NoteTask } from '@/domains/noteTask';
 import { Tag } from '@/domains/tag';
-import { createTask, toggleTaskCompletion } from '@/helpers/task-manager';
+import {
+  createTask,
+  indentTask,
+  moveTask,
+  outdentTask,
+  removeTask,
+  setTaskCompleted,
+  sortTasks,
+  TaskDropPlacement,
+} from '@/helpers/task-manager';
+import { toggleMarkdownCheckbox } from '@/helpers/markdown-parser';
 
 export const useNoteEditing = (
   note: Note,
@@ -21,6 +31,13 @@ export const useNoteEditing = (
   const [contentHistory, setContentHistory] = useState<string[]>([note.content]);
   const [historyIndex, setHistoryIndex] = useState(0);
 
+  // Follow external changes (undo/redo, sync) while not editing
+  useEffect(() => {
+    if (!isEditingTitle) {
+      setTitle(note.title);
+    }
+  }, [note.title, isEditingTitle]);
+
   useEffect(() => {
     if (isEditingTitle && titleRef.current) {
       titleRef.current.focus();
@@ -151,7 +168,30 @@ export const useNoteEditing = (
     setIsEditingContent(true);
   };
 
+  // Check or uncheck a Markdown task list item ("- [ ] ...") in the saved content
+  const toggleContentCheckbox = (line: number) => {
+    const updatedContent = toggleMarkdownCheckbox(note.content, line);
+    if (updatedContent === note.content) return;
+
+    setContent(updatedContent);
+    onUpdate({
+      ...note,
+      content: updatedContent,
+      updatedAt: new Date(),
+      clientUpdatedAt: new Date() // Track client update for sync
+    });
+  };
+
   // Task management functions
+  const saveTasks = (noteTasks: NoteTask[]) => {
+    onUpdate({
+      ...note,
+      noteTasks,
+      updatedAt: new Date(),
+      clientUpdatedAt: new Date() // Track client update for sync
+    });
+  };
+
   const toggleTaskMode = () => {
     onUpdate({
       ...note,
@@ -168,14 +208,7 @@ export const useNoteEditing = (
     const newTask = {
       ...createTask(text, note.id),
     };
-    const updatedTasks = [...(note.noteTasks || []), newTask];
-    
-    onUpdate({
-      ...note,
-      noteTasks: updatedTasks,
-      updatedAt: new Date(),
-      clientUpdatedAt: new Date() // Track client update for sync
-    });
+    saveTasks(sortTasks([...(note.noteTasks || []), newTask]));
   };
 
   const updateTask = (taskUuid: string, updates: Partial<NoteTask>) => {
@@ -199,14 +232,8 @@ export const useNoteEditing = (
   const deleteTask = (taskUuid: string) => {
     if (!note.noteTasks) return;
     
-    const updatedTasks = note.noteTasks.filter(task => task.uuid !== taskUuid);
-    
-    onUpdate({
-      ...note,
-      noteTasks: updatedTasks,
-      updatedAt: new Date(),
-      clientUpdatedAt: new Date() // Track client update for sync
-    });
+    // Subtasks are removed with their parent
+    saveTasks(removeTask(note.noteTasks, taskUuid));
   };
 
   const toggleTask = (taskUuid: string) => {
@@ -215,8 +242,24 @@ export const useNoteEditing = (
     const task = note.noteTasks.find(t => t.uuid === taskUuid);
     if (!task) return;
     
-    const updatedTask = toggleTaskCompletion(task);
-    updateTask(taskUuid, updatedTask);
+    saveTasks(setTaskCompleted(note.noteTasks, taskUuid, !task.completed));
+  };
+
+  // Make a task a subtask of the one above it
+  const handleIndentTask = (taskUuid: string) => {
+    if (!note.noteTasks) return;
+    saveTasks(indentTask(note.noteTasks, taskUuid));
+  };
+
+  const handleOutdentTask = (taskUuid: string) => {
+    if (!note.noteTasks) return;
+    saveTasks(outdentTask(note.noteTasks, taskUuid));
+  };
+
+  // Drag-and-drop reordering
+  const handleMoveTask = (taskUuid: string, targetUuid: string, placement: TaskDropPlacement) => {
+    if (!note.noteTasks) return;
+    saveTasks(moveTask(note.noteTasks, taskUuid, targetUuid, placement));
   };
 
   // Pin management function
@@ -254,12 +297,16 @@ export const useNoteEditing = (
     handleTitleKeyDown,
     startEditingTitle,
     startEditingContent,
+    toggleContentCheckbox,
     // Task functions
     toggleTaskMode,
     addTask,
     updateTask,
     deleteTask,
     toggleTask,
+    handleIndentTask,
+    handleOutdentTask,
+    handleMoveTask,
     // Pin functions
     togglePin,
     // Tag functions
@@ -0,0 +1,92 @@
+import { useRef, useState, useCallback } from 'react';
+import { Note } from '@/domains/note';
+import { HISTORY } from '@/constants/ui-constants';
+
+/**
+ * State of one note before and after a change; null means the note did not
+ * exist (created) or was removed (deleted)
+ */
+export interface NoteHistoryChange {
+  uuid: string;
+  before: Note | null;
+  after: Note | null;
+}
+
+export interface NoteHistoryEntry {
+  label: string;
+  changes: NoteHistoryChange[];
+  /** Entries recorded with the same group are merged into one undo step */
+  group?: string;
+}
+
+interface HistoryStacks {
+  undo: NoteHistoryEntry[];
+  redo: NoteHistoryEntry[];
+}
+
+const EMPTY_STACKS: HistoryStacks = { undo: [], redo: [] };
+
+/**
+ * Undo/redo command stacks, one pair per canvas date
+ */
+export const useNoteHistory = () => {
+  const stacksRef = useRef<Record<string, HistoryStacks>>({});
+  // Bumped on every change so canUndo/canRedo re-render
+  const [, setRevision] = useState(0);
+
+  const getStacks = useCallback((dateKey: string): HistoryStacks => {
+    return stacksRef.current[dateKey] || EMPTY_STACKS;
+  }, []);
+
+  const setStacks = useCallback((dateKey: string, stacks: HistoryStacks) => {
+    stacksRef.current[dateKey] = stacks;
+    setRevision(prev => prev + 1);
+  }, []);
+
+  // Record a new change; clears the redo stack like any editor
+  const record = useCallback((dateKey: string, entry: NoteHistoryEntry) => {
+    if (entry.changes.length === 0) return;
+
+    const { undo } = getStacks(dateKey);
+    const last = undo[undo.length - 1];
+
+    if (entry.group && last?.group === entry.group) {
+      const merged = { ...last, changes: [...last.changes, ...entry.changes] };
+      setStacks(dateKey, { undo: [...undo.slice(0, -1), merged], redo: [] });
+      return;
+    }
+
+    setStacks(dateKey, { undo: [...undo, entry].slice(-HISTORY.MAX_ENTRIES), redo: [] });
+  }, [getStacks, setStacks]);
+
+  // Take the latest entry off the undo stack and move it to the redo stack
+  const takeUndo = useCallback((dateKey: string): NoteHistoryEntry | null => {
+    const { undo, redo } = getStacks(dateKey);
+    const entry = undo[undo.length - 1];
+    if (!entry) return null;
+
+    setStacks(dateKey, { undo: undo.slice(0, -1), redo: [...redo, entry] });
+    return entry;
+  }, [getStacks, setStacks]);
+
+  // Take the latest entry off the redo stack and move it back to the undo stack
+  const takeRedo = useCallback((dateKey: string): NoteHistoryEntry | null => {
+    const { undo, redo } = getStacks(dateKey);
+    const entry = redo[redo.length - 1];
+    if (!entry) return null;
+
+    setStacks(dateKey, { undo: [...undo, entry], redo: redo.slice(0, -1) });
+    return entry;
+  }, [getStacks, setStacks]);
+
+  const canUndo = (dateKey: string) => getStacks(dateKey).undo.length > 0;
+  const canRedo = (dateKey: string) => getStacks(dateKey).redo.length > 0;
+
+  return {
+    record,
+    takeUndo,
+    takeRedo,
+    canUndo,
+    canRedo,
+  };
+};
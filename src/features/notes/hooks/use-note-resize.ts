@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { NOTE_CARD } from '@/constants/ui-constants';
+import { ScreenToCanvas } from './use-note-drag';
+
+/**
+ * Handle being dragged: the right edge changes the width, the bottom edge the
+ * height and the corner both
+ */
+export type ResizeHandle = 'right' | 'bottom' | 'corner';
+
+export interface NoteSizeChange {
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Smallest and largest size the handles allow, in canvas pixels
+ */
+export interface ResizeLimits {
+  minWidth: number;
+  maxWidth: number;
+  minHeight: number;
+  maxHeight: number;
+}
+
+const NOTE_RESIZE_LIMITS: ResizeLimits = {
+  minWidth: NOTE_CARD.MIN_WIDTH,
+  maxWidth: NOTE_CARD.MAX_WIDTH,
+  minHeight: NOTE_CARD.MIN_HEIGHT,
+  maxHeight: NOTE_CARD.MAX_RESIZED_HEIGHT,
+};
+
+// Without a viewport the canvas is at zoom 1, so screen distances are canvas distances
+const identityScreenToCanvas: ScreenToCanvas = (clientX, clientY) => ({ x: clientX, y: clientY });
+
+const clamp = (value: number, min: number, max: number) => Math.round(Math.min(max, Math.max(min, value)));
+
+export const useNoteResize = (
+  onResizeEnd: (size: NoteSizeChange) => void,
+  isDisabled: boolean = false,
+  screenToCanvas: ScreenToCanvas = identityScreenToCanvas,
+  limits: ResizeLimits = NOTE_RESIZE_LIMITS
+) => {
+  // Size shown while resizing; the note is only updated when the handle is released
+  const [resizeSize, setResizeSize] = useState<NoteSizeChange | null>(null);
+  const stopResizeRef = useRef<(() => void) | null>(null);
+
+  const handleResizeStart = useCallback((e: React.MouseEvent, handle: ResizeHandle, cardRef: React.RefObject<HTMLDivElement>) => {
+    const card = cardRef.current;
+    if (isDisabled || !card) return;
+
+    // Keep the card from starting a drag or selecting text
+    e.preventDefault();
+    e.stopPropagation();
+
+    const start = screenToCanvas(e.clientX, e.clientY);
+    // offsetWidth/offsetHeight ignore the viewport transform, so they are canvas units
+    const startWidth = card.offsetWidth;
+    const startHeight = card.offsetHeight;
+    let size: NoteSizeChange | null = null;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const pointer = screenToCanvas(event.clientX, event.clientY);
+      size = {
+        ...(handle !== 'bottom' && {
+          width: clamp(startWidth + pointer.x - start.x, limits.minWidth, limits.maxWidth)
+        }),
+        ...(handle !== 'right' && {
+          height: clamp(startHeight + pointer.y - start.y, limits.minHeight, limits.maxHeight)
+        })
+      };
+      setResizeSize(size);
+    };
+
+    const stopResize = () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      stopResizeRef.current = null;
+    };
+
+    const handleMouseUp = () => {
+      stopResize();
+      setResizeSize(null);
+      if (size) onResizeEnd(size);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove, { passive: true });
+    document.addEventListener('mouseup', handleMouseUp);
+    stopResizeRef.current = stopResize;
+  }, [isDisabled, onResizeEnd, screenToCanvas, limits]);
+
+  // Stop listening if the card unmounts mid-resize
+  useEffect(() => {
+    return () => stopResizeRef.current?.();
+  }, []);
+
+  return {
+    isResizing: resizeSize !== null,
+    resizeSize,
+    handleResizeStart
+  };
+};
@@ -0,0 +1,60 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Note } from '@/domains/note';
+import { NoteSearchResult } from '@/types/search.types';
+import { NoteSearchIndex } from '@/services/search/note-search-index';
+import { SearchQueryParser } from '@/services/search/search-query-parser';
+import { NotesSyncService } from '@/services/notes-sync-service';
+import { SEARCH } from '@/constants/ui-constants';
+
+/**
+ * Ranked note search backed by an incrementally updated inverted index.
+ * When nothing matches locally, the free text is sent to the server search
+ * (online and authenticated only) and its results are filtered the same way.
+ */
+export const useNoteSearch = (allNotes: Note[], query: string) => {
+  const [index] = useState(() => new NoteSearchIndex());
+  const [serverResults, setServerResults] = useState<NoteSearchResult[]>([]);
+  const [isSearchingServer, setIsSearchingServer] = useState(false);
+
+  const parsedQuery = useMemo(() => SearchQueryParser.parse(query), [query]);
+  const isQueryEmpty = SearchQueryParser.isEmpty(parsedQuery);
+
+  const localResults = useMemo(() => {
+    // Re-index only the notes that changed since the last search
+    index.sync(allNotes);
+    return isQueryEmpty ? [] : index.search(parsedQuery);
+  }, [index, allNotes, parsedQuery, isQueryEmpty]);
+
+  // Fall back to the server search when the local index finds nothing
+  useEffect(() => {
+    setServerResults([]);
+    if (localResults.length > 0 || !parsedQuery.text) {
+      setIsSearchingServer(false);
+      return;
+    }
+
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearchingServer(true);
+      const serverNotes = await NotesSyncService.searchNotes(parsedQuery.text);
+      if (isCancelled) return;
+
+      setServerResults(serverNotes
+        .filter(note => NoteSearchIndex.matchesFilters(note, parsedQuery))
+        .map(note => ({ ...NoteSearchIndex.buildResult(note, parsedQuery, 0), fromServer: true })));
+      setIsSearchingServer(false);
+    }, SEARCH.SERVER_SEARCH_DEBOUNCE);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [localResults, parsedQuery]);
+
+  return {
+    parsedQuery,
+    isQueryEmpty,
+    results: localResults.length > 0 ? localResults : serverResults,
+    isSearchingServer,
+  };
+};
@@ -0,0 +1,61 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Note } from '@/domains/note';
+import { CanvasBounds, getNoteSize } from '@/helpers/viewport-helper';
+
+/**
+ * Multi-note selection on the canvas. Selection is pruned automatically
+ * when selected notes leave the canvas (deleted, moved to another date).
+ */
+export const useNoteSelection = (notes: Note[]) => {
+  const [selectedUuids, setSelectedUuids] = useState<string[]>([]);
+
+  // Drop selected notes that are no longer displayed
+  useEffect(() => {
+    setSelectedUuids(prev => {
+      const remaining = prev.filter(uuid => notes.some(note => note.uuid === uuid));
+      return remaining.length === prev.length ? prev : remaining;
+    });
+  }, [notes]);
+
+  const isSelected = useCallback((uuid: string) => selectedUuids.includes(uuid), [selectedUuids]);
+
+  const selectOnly = useCallback((uuid: string) => {
+    setSelectedUuids([uuid]);
+  }, []);
+
+  // Shift/ctrl-click: add the note, or remove it if already selected
+  const toggleSelection = useCallback((uuid: string) => {
+    setSelectedUuids(prev => prev.includes(uuid)
+      ? prev.filter(selected => selected !== uuid)
+      : [...prev, uuid]);
+  }, []);
+
+  const clearSelection = useCallback(() => {
+    setSelectedUuids([]);
+  }, []);
+
+  // Select notes intersecting a canvas rectangle (marquee selection)
+  const selectInBounds = useCallback((bounds: CanvasBounds, additive: boolean) => {
+    const hits = notes
+      .filter(note => {
+        const size = getNoteSize(note.uuid);
+        return note.position.x < bounds.x + bounds.width &&
+          note.position.x + size.width > bounds.x &&
+          note.position.y < bounds.y + bounds.height &&
+          note.position.y + size.height > bounds.y;
+      })
+      .map(note => note.uuid);
+
+    setSelectedUuids(prev => additive ? [...new Set([...prev, ...hits])] : hits);
+  }, [notes]);
+
+  return {
+    selectedUuids,
+    selectedNotes: notes.filter(note => selectedUuids.includes(note.uuid)),
+    isSelected,
+    selectOnly,
+    toggleSelection,
+    clearSelection,
+    selectInBounds,
+  };
+};
@@ -1,14 +1,24 @@
-import { useCallback, useState, useEffect } from 'react';
+import { useCallback, useState, useEffect, useRef } from 'react';
 import { Note } from '@/domains/note';
 import { NotesSyncService } from '@/services/notes-sync-service';
 import { NotesStorage } from '@/helpers/notes-storage';
 import { generateRandomNoteColor } from '@/helpers/color-generator';
 import { formatDateKey, formatDateDisplay, formatDateInput, formatDateShort, isSameDay } from '@/helpers/date-helper';
+import { materializeOccurrence, occursOn, toSeriesNote } from '@/helpers/recurrence-helper';
 import { LIMITS, ANIMATION } from '@/constants/ui-constants';
 import { v4 as uuidv4 } from 'uuid';
 import { API } from '@/constants/ui-constants';
 import { toast } from '@/hooks/use-toast';
+import { useNoteHistory, NoteHistoryEntry } from './use-note-history';
 
+// Helper function to replace notes by UUID and append the ones not loaded yet
+const mergeRestoredNotes = (notes: Note[], restoredNotes: Note[]): Note[] => {
+  const restoredByUuid = new Map(restoredNotes.map(note => [note.uuid, note]));
+  return [
+    ...notes.map(note => restoredByUuid.get(note.uuid) || note),
+    ...restoredNotes.filter(note => !notes.some(existing => existing.uuid === note.uuid))
+  ];
+};
 
 export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
   const [allNotes, setAllNotes] = useState<Note[]>([]);
@@ -17,7 +27,26 @@ export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
   const [isUpdating, setIsUpdating] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
-  // Load notes from API and localStorage on initialization and when authentication changes
+  // Undo/redo history, kept per canvas date
+  const { record: recordHistory, takeUndo, takeRedo, canUndo, canRedo } = useNoteHistory();
+  const historyKey = formatDateKey(selectedDate || new Date());
+
+  // Latest notes for history snapshots inside callbacks
+  const allNotesRef = useRef<Note[]>([]);
+  useEffect(() => {
+    allNotesRef.current = allNotes;
+  }, [allNotes]);
+
+  const findCurrentNote = (uuid: string): Note | null =>
+    allNotesRef.current.find(note => note.uuid === uuid) || null;
+
+  // Edits to an occurrence of a recurring note are applied to the stored series
+  const toStoredNote = (note: Note): Note =>
+    note.occurrenceDate
+      ? toSeriesNote(allNotesRef.current.find(current => current.uuid === note.uuid) || note, note)
+      : note;
+
+  // Load notes from API and local storage on initialization and when authentication changes
   useEffect(() => {
     const loadNotes = async () => {
       setIsLoading(true);
@@ -32,20 +61,23 @@ export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
       }
       
       try {
-        const notes = await NotesSyncService.loadAllNotes();
+        const loadedNotes = await NotesSyncService.loadAllNotes();
+        // Drop notes that stayed in the trash longer than the auto-purge setting
+        const purgedNotes = await NotesSyncService.purgeExpiredTrash();
+        const notes = loadedNotes.filter(note => !purgedNotes.some(purged => purged.uuid === note.uuid));
         setAllNotes(notes);
         console.log(`Loaded ${notes.length} notes (authenticated: ${isAuthenticated})`);
       } catch (error) {
         console.error('Failed to load notes:', error);
-        // Fallback to localStorage only
+        // Fallback to local storage only
         try {
           if (NotesStorage.isStorageAvailable()) {
-            const savedNotes = NotesStorage.getAllNotes();
+            const savedNotes = await NotesStorage.getAllNotes();
             setAllNotes(savedNotes);
-            console.log(`Fallback: Loaded ${savedNotes.length} notes from localStorage`);
+            console.log(`Fallback: Loaded ${savedNotes.length} notes from local storage`);
           }
         } catch (localError) {
-          console.error('Failed to load notes from localStorage:', localError);
+          console.error('Failed to load notes from local storage:', localError);
         }
       } finally {
         setIsLoading(false);
@@ -59,10 +91,11 @@ export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
     loadNotes();
   }, [isAuthenticated]); // Add isAuthenticated as dependency
 
+  // Recurring notes show up as an occurrence on every matching date
   const notes = selectedDate
-    ? allNotes.filter(note => 
-        !note.isDeleted && (isSameDay(note.date, selectedDate) || note.isPinned)
-      )
+    ? allNotes
+        .filter(note => !note.isDeleted && (occursOn(note, selectedDate) || note.isPinned))
+        .map(note => occursOn(note, selectedDate) ? materializeOccurrence(note, selectedDate) : note)
     : allNotes.filter(note => !note.isDeleted);
 
   const [draggedNotes, setDraggedNotes] = useState<Record<string, { x: number; y: number }>>({});
@@ -103,9 +136,13 @@ export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
 
     // Optimistically add to UI
     setAllNotes(prevNotes => [...prevNotes, newNote]);
+    recordHistory(historyKey, {
+      label: 'Create note',
+      changes: [{ uuid: newNote.uuid, before: null, after: newNote }]
+    });
     
     try {
-      // Sync with API and localStorage
+      // Sync with API and local storage
       const syncedNote = await NotesSyncService.createNote(newNote);
       
       // Update with synced version (may have server-generated ID)
@@ -116,18 +153,19 @@ export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
       );
     } catch (error) {
       console.error('Failed to sync created note:', error);
-      // Note is already in the UI and localStorage, so we continue
+      // Note is already in the UI and local storage, so we continue
     } finally {
       // Simulate API delay for smooth UX
       setTimeout(() => {
         setIsCreating(false);
       }, ANIMATION.CREATE_NOTE_DELAY);
     }
-  }, [selectedDate]);
+  }, [selectedDate, historyKey, recordHistory]);
 
-  const updateNote = useCallback(async (updatedNote: Note) => {
+  const updateNote = useCallback(async (editedNote: Note) => {
     setIsUpdating(true);
     
+    const updatedNote = toStoredNote(editedNote);
     const noteToUpdate = { 
       ...updatedNote, 
       updatedAt: new Date(),
@@ -135,6 +173,12 @@ export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
       clientUpdatedAt: new Date() // Update client timestamp for sync tracking
     };
     
+    const previousNote = findCurrentNote(updatedNote.uuid);
+    recordHistory(historyKey, {
+      label: 'Edit note',
+      changes: [{ uuid: updatedNote.uuid, before: previousNote, after: noteToUpdate }]
+    });
+    
     // Optimistically update UI
     setAllNotes(prevNotes => 
       prevNotes.map(note => 
@@ -143,7 +187,7 @@ export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
     );
     
     try {
-      // Sync with API and localStorage
+      // Sync with API and local storage
       const syncedNote = await NotesSyncService.updateNote(noteToUpdate);
       
       // Update with synced version
@@ -154,20 +198,20 @@ export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
       );
     } catch (error) {
       console.error('Failed to sync updated note:', error);
-      // Note is already updated in UI and localStorage, so we continue
+      // Note is already updated in UI and local storage, so we continue
     } finally {
       // Simulate API delay for smooth UX
       setTimeout(() => {
         setIsUpdating(false);
       }, ANIMATION.UPDATE_NOTE_DELAY);
     }
-  }, []);
+  }, [historyKey, recordHistory]);
 
   const deleteNote = useCallback(async (id: number, uuid: string) => {
     setIsDeleting(true);
     
     // Get the note to update its localVersion before deletion
-    const noteToDelete = NotesStorage.getNote(uuid);
+    const noteToDelete = await NotesStorage.getNote(uuid);
     if (noteToDelete) {
       // Increment localVersion to track this as a local change that needs sync
       const updatedNote = {
@@ -175,67 +219,154 @@ export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
         id: noteToDelete.id || 0,
         localVersion: (noteToDelete.localVersion || 1) + 1,
         clientUpdatedAt: new Date(),
-        isDeleted: true // Mark as deleted for sync tracking
+        isDeleted: true, // Mark as deleted for sync tracking
+        deletedAt: new Date() // Moves the note to the trash
       };
       
-      // Update localStorage with incremented localVersion before deletion
-      NotesStorage.saveNote(updatedNote);
+      // Update local storage with incremented localVersion before deletion
+      await NotesStorage.saveNote(updatedNote);
     }
     
+    recordHistory(historyKey, {
+      label: 'Delete note',
+      changes: [{ uuid, before: findCurrentNote(uuid), after: null }]
+    });
+    
     // Optimistically remove from UI
     setAllNotes(prevNotes => prevNotes.filter(note => note.uuid !== uuid));
     
     try {
-      // Sync with API and localStorage
+      // Sync with API and local storage
       await NotesSyncService.deleteNote(id, uuid);
     } catch (error) {
       console.error('Failed to sync deleted note:', error);
-      // Note is already removed from UI and localStorage, so we continue
+      // Note is already removed from UI and local storage, so we continue
     } finally {
       // Simulate API delay for smooth UX
       setTimeout(() => {
         setIsDeleting(false);
       }, ANIMATION.UPDATE_NOTE_DELAY);
     }
-  }, [allNotes]);
+  }, [allNotes, historyKey, recordHistory]);
 
   const clearAllDisplayedNotes = useCallback(async () => {
     setIsDeleting(true);
     
-    const displayedNotes = allNotes.filter(note => note.isDisplayed);
-    
+    // Same notes as the canvas shows for the date; notes already in the trash stay untouched
+    const displayedNotes = allNotes.filter(note =>
+      note.isDisplayed &&
+      !note.isDeleted &&
+      (!selectedDate || occursOn(note, selectedDate) || note.isPinned)
+    );
+
     // Update localVersion for each note before deletion (same logic as single delete)
-    displayedNotes.forEach(noteToDelete => {
+    const updatedNotes = displayedNotes.map(noteToDelete => ({
+      ...noteToDelete,
       // Increment localVersion to track this as a local change that needs sync
-      const updatedNote = {
-        ...noteToDelete,
-        localVersion: (noteToDelete.localVersion || 1) + 1,
-        clientUpdatedAt: new Date(),
-        isDeleted: true // Mark as deleted for sync tracking
-      };
-      
-      // Update localStorage with incremented localVersion before deletion
-      NotesStorage.saveNote(updatedNote);
+      localVersion: (noteToDelete.localVersion || 1) + 1,
+      clientUpdatedAt: new Date(),
+      isDeleted: true, // Mark as deleted for sync tracking
+      deletedAt: new Date() // Moves the note to the trash
+    }));
+    
+    // Update local storage with incremented localVersion before deletion
+    await NotesStorage.saveNotes(updatedNotes);
+    
+    recordHistory(historyKey, {
+      label: 'Clear all notes',
+      changes: displayedNotes.map(note => ({ uuid: note.uuid, before: note, after: null }))
     });
     
     // Optimistically remove from UI
     setAllNotes(prevNotes => prevNotes.filter(note => !displayedNotes.some(dn => dn.uuid === note.uuid)));
     
     try {
-      // Sync deletions with API and localStorage
-      await Promise.all(
-        displayedNotes.map(note => NotesSyncService.deleteNote(note.id, note.uuid))
-      );
+      // Sync deletions as a single batch
+      await NotesSyncService.deleteNotes(displayedNotes.map(note => note.uuid));
     } catch (error) {
       console.error('Failed to sync batch delete:', error);
-      // Notes are already removed from UI and localStorage, so we continue
+      // Notes are already removed from UI and local storage, so we continue
     } finally {
       // Simulate API delay for smooth UX (same as single delete)
       setTimeout(() => {
         setIsDeleting(false);
       }, ANIMATION.UPDATE_NOTE_DELAY);
     }
-  }, [allNotes]);
+  }, [allNotes, selectedDate, historyKey, recordHistory]);
+
+  // Update several notes as one group operation (queued for sync as a single batch)
+  const updateNotes = useCallback(async (updatedNotes: Note[], label: string = 'Edit notes') => {
+    if (updatedNotes.length === 0) return;
+    setIsUpdating(true);
+
+    const notesToUpdate = updatedNotes.map(toStoredNote).map(note => ({
+      ...note,
+      updatedAt: new Date(),
+      localVersion: (note.localVersion || 1) + 1, // Increment local version on update
+      clientUpdatedAt: new Date()
+    }));
+    const updatedByUuid = new Map(notesToUpdate.map(note => [note.uuid, note]));
+
+    recordHistory(historyKey, {
+      label,
+      changes: notesToUpdate.map(note => ({ uuid: note.uuid, before: findCurrentNote(note.uuid), after: note }))
+    });
+
+    // Optimistically update UI
+    setAllNotes(prevNotes => prevNotes.map(note => updatedByUuid.get(note.uuid) || note));
+
+    try {
+      const syncedNotes = await NotesSyncService.updateNotes(notesToUpdate);
+      const syncedByUuid = new Map(syncedNotes.map(note => [note.uuid, note]));
+
+      setAllNotes(prevNotes => prevNotes.map(note => syncedByUuid.get(note.uuid) || note));
+    } catch (error) {
+      console.error('Failed to sync group update:', error);
+      // Notes are already updated in UI and local storage, so we continue
+    } finally {
+      setTimeout(() => {
+        setIsUpdating(false);
+      }, ANIMATION.UPDATE_NOTE_DELAY);
+    }
+  }, [historyKey, recordHistory]);
+
+  // Delete several notes as one group operation (queued for sync as a single batch)
+  const deleteNotes = useCallback(async (uuids: string[]) => {
+    if (uuids.length === 0) return;
+    setIsDeleting(true);
+
+    const notesToDelete = allNotes
+      .filter(note => uuids.includes(note.uuid))
+      .map(note => ({
+        ...note,
+        // Increment localVersion to track this as a local change that needs sync
+        localVersion: (note.localVersion || 1) + 1,
+        clientUpdatedAt: new Date(),
+        isDeleted: true, // Mark as deleted for sync tracking
+        deletedAt: new Date() // Moves the note to the trash
+      }));
+
+    await NotesStorage.saveNotes(notesToDelete);
+
+    recordHistory(historyKey, {
+      label: 'Delete notes',
+      changes: uuids.map(uuid => ({ uuid, before: findCurrentNote(uuid), after: null }))
+    });
+
+    // Optimistically remove from UI
+    setAllNotes(prevNotes => prevNotes.filter(note => !uuids.includes(note.uuid)));
+
+    try {
+      await NotesSyncService.deleteNotes(uuids);
+    } catch (error) {
+      console.error('Failed to sync group delete:', error);
+      // Notes are already removed from UI and local storage, so we continue
+    } finally {
+      setTimeout(() => {
+        setIsDeleting(false);
+      }, ANIMATION.UPDATE_NOTE_DELAY);
+    }
+  }, [allNotes, historyKey, recordHistory]);
 
   const dragNote = useCallback((uuid: string, position: { x: number; y: number }) => {
     // Optimistic update for smooth dragging
@@ -245,7 +376,16 @@ export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
     }));
   }, []);
 
-  const finalizeDrag = useCallback(async (uuid: string, position: { x: number; y: number }) => {
+  // historyGroup merges drags of several notes (group drag) into one undo step;
+  // frameUuid, when given, is the frame the note was dropped into (null = none)
+  const finalizeDrag = useCallback(async (
+    uuid: string,
+    position: { x: number; y: number },
+    historyGroup?: string,
+    frameUuid?: string | null
+  ) => {
+    const membership = frameUuid !== undefined ? { frameUuid } : {};
+
     // Update UI immediately
     setAllNotes(prevNotes => {
       const updatedNotes = prevNotes.map(note => {
@@ -253,6 +393,7 @@ export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
           return { 
             ...note, 
             position, 
+            ...membership,
             updatedAt: new Date(),
             localVersion: (note.localVersion || 1) + 1, // Increment local version on position change
             clientUpdatedAt: new Date()
@@ -275,17 +416,23 @@ export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
         const updatedNote = { 
           ...noteToUpdate, 
           position, 
+          ...membership,
           updatedAt: new Date(),
           localVersion: (noteToUpdate.localVersion || 1) + 1,
           clientUpdatedAt: new Date()
         };
+        recordHistory(historyKey, {
+          label: historyGroup ? 'Move notes' : 'Move note',
+          group: historyGroup,
+          changes: [{ uuid, before: noteToUpdate, after: updatedNote }]
+        });
         await NotesSyncService.updateNote(updatedNote);
       }
     } catch (error) {
       console.error('Failed to sync drag position:', error);
-      // Position is already updated in UI and localStorage, so we continue
+      // Position is already updated in UI and local storage, so we continue
     }
-  }, [allNotes]);
+  }, [allNotes, historyKey, recordHistory]);
 
   const moveNoteToDate = useCallback(async (uuid: string, newDate: Date) => {
     setIsUpdating(true);
@@ -318,23 +465,149 @@ export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
           localVersion: (noteToUpdate.localVersion || 1) + 1,
           clientUpdatedAt: new Date()
         };
+        recordHistory(historyKey, {
+          label: 'Move note to date',
+          changes: [{ uuid, before: noteToUpdate, after: updatedNote }]
+        });
         await NotesSyncService.updateNote(updatedNote);
       }
     } catch (error) {
       console.error('Failed to sync note date move:', error);
-      // Date is already updated in UI and localStorage, so we continue
+      // Date is already updated in UI and local storage, so we continue
     } finally {
       // Simulate API delay for smooth UX
       setTimeout(() => {
         setIsUpdating(false);
       }, ANIMATION.UPDATE_NOTE_DELAY);
     }
-  }, [allNotes]);
+  }, [allNotes, historyKey, recordHistory]);
+
+  // Restore notes to recorded states and queue the result for sync. Not recorded in history itself.
+  const applyHistoryStates = useCallback(async (states: Array<{ uuid: string; note: Note | null }>) => {
+    // Later states for the same note win
+    const targetStates = new Map(states.map(state => [state.uuid, state.note]));
+    const restoredNotes: Note[] = [];
+    const removedNotes: Note[] = [];
+    const now = new Date();
+
+    for (const [uuid, target] of targetStates) {
+      const current = await NotesStorage.getNote(uuid);
+
+      if (!target) {
+        if (current && !current.isDeleted) {
+          removedNotes.push({
+            ...current,
+            localVersion: (current.localVersion || 1) + 1,
+            clientUpdatedAt: now,
+            isDeleted: true,
+            deletedAt: now
+          });
+        }
+        continue;
+      }
+
+      restoredNotes.push({
+        ...target,
+        // Keep the server id and sync versions the note has now, not the ones in the snapshot
+        id: current ? current.id : API.DEFAULT_IDS.NEW_ENTITY,
+        syncVersion: current ? current.syncVersion : target.syncVersion,
+        localVersion: (current ? current.localVersion : target.localVersion || 1) + 1,
+        lastSyncedAt: current ? current.lastSyncedAt : target.lastSyncedAt,
+        isDeleted: false,
+        deletedAt: null,
+        updatedAt: now,
+        clientUpdatedAt: now
+      });
+    }
+
+    const removedUuids = removedNotes.map(note => note.uuid);
+
+    setAllNotes(prevNotes => mergeRestoredNotes(prevNotes.filter(note => !removedUuids.includes(note.uuid)), restoredNotes));
+
+    try {
+      if (removedNotes.length > 0) {
+        await NotesStorage.saveNotes(removedNotes);
+        await NotesSyncService.deleteNotes(removedUuids);
+      }
+
+      if (restoredNotes.length > 0) {
+        // Queued as create or update depending on whether the server still has the note
+        const syncedNotes = await NotesSyncService.restoreNotes(restoredNotes);
+        setAllNotes(prevNotes => mergeRestoredNotes(prevNotes, syncedNotes));
+      }
+    } catch (error) {
+      console.error('Failed to sync undo/redo changes:', error);
+      // Notes are already restored in UI, so we continue
+    }
+  }, []);
+
+  // Bring notes back from the trash to their original date and position
+  const restoreFromTrash = useCallback(async (trashedNotes: Note[]) => {
+    if (trashedNotes.length === 0) return;
+    setIsUpdating(true);
+
+    const now = new Date();
+    const restoredNotes = trashedNotes.map(note => ({
+      ...note,
+      isDeleted: false,
+      deletedAt: null,
+      localVersion: (note.localVersion || 1) + 1, // Increment local version so the restore syncs
+      updatedAt: now,
+      clientUpdatedAt: now
+    }));
+
+    setAllNotes(prevNotes => mergeRestoredNotes(prevNotes, restoredNotes));
+
+    try {
+      const syncedNotes = await NotesSyncService.restoreNotes(restoredNotes);
+      setAllNotes(prevNotes => mergeRestoredNotes(prevNotes, syncedNotes));
+    } catch (error) {
+      console.error('Failed to sync restored notes:', error);
+      // Notes are already restored in UI, so we continue
+    } finally {
+      setTimeout(() => {
+        setIsUpdating(false);
+      }, ANIMATION.UPDATE_NOTE_DELAY);
+    }
+  }, []);
+
+  // Permanently remove notes from the trash
+  const purgeFromTrash = useCallback(async (trashedNotes: Note[]) => {
+    if (trashedNotes.length === 0) return;
+
+    const purgedUuids = trashedNotes.map(note => note.uuid);
+    setAllNotes(prevNotes => prevNotes.filter(note => !purgedUuids.includes(note.uuid)));
+
+    try {
+      await NotesSyncService.purgeNotes(trashedNotes);
+    } catch (error) {
+      console.error('Failed to purge notes from the trash:', error);
+    }
+  }, []);
+
+  // Revert the latest change on the current canvas date
+  const undo = useCallback(async (): Promise<NoteHistoryEntry | null> => {
+    const entry = takeUndo(historyKey);
+    if (!entry) return null;
+
+    // Apply in reverse so the oldest "before" state wins
+    await applyHistoryStates([...entry.changes].reverse().map(change => ({ uuid: change.uuid, note: change.before })));
+    return entry;
+  }, [historyKey, takeUndo, applyHistoryStates]);
+
+  // Re-apply the latest undone change on the current canvas date
+  const redo = useCallback(async (): Promise<NoteHistoryEntry | null> => {
+    const entry = takeRedo(historyKey);
+    if (!entry) return null;
+
+    await applyHistoryStates(entry.changes.map(change => ({ uuid: change.uuid, note: change.after })));
+    return entry;
+  }, [historyKey, takeRedo, applyHistoryStates]);
 
-  // Function to refresh a specific note from localStorage
-  const refreshNoteFromStorage = useCallback((noteUuid: string) => {
+  // Function to refresh a specific note from local storage
+  const refreshNoteFromStorage = useCallback(async (noteUuid: string) => {
     try {
-      const updatedNote = NotesStorage.getNote(noteUuid);
+      const updatedNote = await NotesStorage.getNote(noteUuid);
       if (updatedNote) {
         setAllNotes(prevNotes => 
           prevNotes.map(note => 
@@ -343,19 +616,19 @@ export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
         );
       }
     } catch (error) {
-      console.error('Failed to refresh note from localStorage:', error);
+      console.error('Failed to refresh note from local storage:', error);
     }
   }, []);
 
-  // Function to force reload all notes from localStorage
-  const forceReloadAllNotes = useCallback(() => {
+  // Function to force reload all notes from local storage
+  const forceReloadAllNotes = useCallback(async () => {
     try {
-      console.log('Force reloading all notes from localStorage...');
-      const reloadedNotes = NotesStorage.forceReloadAllNotes();
+      console.log('Force reloading all notes from local storage...');
+      const reloadedNotes = await NotesStorage.forceReloadAllNotes();
       setAllNotes(reloadedNotes);
       console.log(`Force reloaded ${reloadedNotes.length} notes in useNotes hook`);
     } catch (error) {
-      console.error('Failed to force reload all notes from localStorage:', error);
+      console.error('Failed to force reload all notes from local storage:', error);
     }
   }, []);
 
@@ -371,11 +644,19 @@ export const useNotes = (selectedDate?: Date, isAuthenticated?: boolean) => {
       isLoading,
       createNote,
       updateNote,
+      updateNotes,
       deleteNote,
+      deleteNotes,
       clearAllDisplayedNotes,
       dragNote,
       finalizeDrag,
       moveNoteToDate,
+      restoreFromTrash,
+      purgeFromTrash,
+      undo,
+      redo,
+      canUndo: canUndo(historyKey),
+      canRedo: canRedo(historyKey),
       refreshNoteFromStorage,
       forceReloadAllNotes,
       
@@ -0,0 +1,89 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Note } from '@/domains/note';
+import { DueItem } from '@/types/reminder.types';
+import { NotesStorage } from '@/helpers/notes-storage';
+import { TabChannel } from '@/helpers/tab-channel';
+import { formatDueDate, getDueItems, getReminderKey, getReminderTime } from '@/helpers/due-date-helper';
+import { REMINDERS } from '@/constants/ui-constants';
+import { toast } from '@/hooks/use-toast';
+
+// Helper function to show a reminder as a toast and, when permitted, a system notification
+const deliverReminder = (item: DueItem, onOpenItem?: (item: DueItem) => void) => {
+  const due = `Due ${formatDueDate(item.dueDate)}`;
+  const description = item.taskUuid ? `${item.noteTitle} · ${due}` : due;
+
+  toast({ title: `⏰ ${item.title}`, description });
+
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  try {
+    const notification = new Notification(item.title, { body: description, tag: item.key });
+    notification.onclick = () => {
+      window.focus();
+      onOpenItem?.(item);
+      notification.close();
+    };
+  } catch (error) {
+    console.error('Failed to show reminder notification:', error);
+  }
+};
+
+/**
+ * Delivers due-date reminders of notes and tasks while the app is open (in the leader tab).
+ * Delivered reminders are remembered in localStorage so a reload does not repeat them.
+ * @param notes - All notes (not only the current canvas date)
+ * @param onOpenItem - Called when a system notification is clicked
+ * @returns The current time, refreshed on every check, for overdue highlighting
+ */
+export const useReminders = (notes: Note[], onOpenItem?: (item: DueItem) => void) => {
+  const [now, setNow] = useState(() => new Date());
+  const notesRef = useRef(notes);
+  const onOpenItemRef = useRef(onOpenItem);
+
+  useEffect(() => {
+    notesRef.current = notes;
+    onOpenItemRef.current = onOpenItem;
+  }, [notes, onOpenItem]);
+
+  const checkReminders = useCallback(() => {
+    // With several tabs open only the leader delivers, so reminders are not repeated
+    if (!TabChannel.isLeader()) return;
+
+    const checkedAt = new Date();
+    const items = getDueItems(notesRef.current);
+    if (items.length === 0) return;
+
+    const delivered = new Set(NotesStorage.getDeliveredReminders());
+    const due = items.filter(item => {
+      const reminderTime = getReminderTime(item);
+      if (!reminderTime || item.completed || delivered.has(getReminderKey(item))) return false;
+      const lateBy = checkedAt.getTime() - reminderTime.getTime();
+      return lateBy >= 0 && lateBy <= REMINDERS.MAX_LATE_DELIVERY;
+    });
+    if (due.length === 0) return;
+
+    due.forEach(item => deliverReminder(item, onOpenItemRef.current));
+
+    // Keep only keys of reminders that still exist, so the list does not grow forever
+    const currentKeys = new Set(items.map(getReminderKey));
+    NotesStorage.saveDeliveredReminders([
+      ...[...delivered].filter(key => currentKeys.has(key)),
+      ...due.map(getReminderKey),
+    ]);
+  }, []);
+
+  // Periodic check, which also refreshes the overdue state
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setNow(new Date());
+      checkReminders();
+    }, REMINDERS.CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [checkReminders]);
+
+  // Check right away when notes load or a due date changes
+  useEffect(() => {
+    checkReminders();
+  }, [notes, checkReminders]);
+
+  return { now };
+};
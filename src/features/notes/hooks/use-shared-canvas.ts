@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Note } from '@/domains/note';
+import { CanvasShare, SharedNotesChangedEvent } from '@/types/collaboration.types';
+import { sharesApi } from '@/services/api/shares-api';
+import { ApiError } from '@/services/api/models/api.model';
+import { transformNoteResponseToNote, transformNoteToPatchRequest } from '@/services/api/transformers/note-transformers';
+import { CollaborationService } from '@/services/signalr/collaboration-service';
+import { SignalRService } from '@/services/signalr/signalr-service';
+import { NoteMergeEngine } from '@/services/sync/merge-engine';
+import { API } from '@/constants/ui-constants';
+import { toast } from '@/hooks/use-toast';
+
+/**
+ * Hook for the notes of a canvas a teammate shared. They belong to the owner, so
+ * they are not stored on this device: they are loaded from the server, kept up to
+ * date by hub events, and editors' changes are sent right away (online only).
+ */
+export const useSharedCanvas = (share: CanvasShare | null, canEdit: boolean) => {
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const notesRef = useRef<Note[]>([]);
+  notesRef.current = notes;
+  // Where dragged notes were before the drag, to tell what changed when it ends
+  const dragOriginsRef = useRef<Map<string, { x: number; y: number }>>(new Map());
+  const shareId = share?.id ?? null;
+
+  const loadNotes = useCallback(async () => {
+    if (!shareId) return;
+
+    setIsLoading(true);
+    try {
+      const responses = await sharesApi.getSharedNotes(shareId);
+      setNotes(responses.map(transformNoteResponseToNote).filter(note => !note.isDeleted));
+    } catch (error) {
+      console.error('Failed to load shared canvas notes:', error);
+      toast({ title: 'Could not open the shared canvas', description: 'Please try again.', variant: 'destructive' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [shareId]);
+
+  useEffect(() => {
+    setNotes([]);
+    loadNotes();
+  }, [loadNotes]);
+
+  // Apply teammates' changes; older versions than the one shown are ignored
+  useEffect(() => {
+    if (!shareId) return;
+
+    const handleNotesChanged = (event: SharedNotesChangedEvent) => {
+      setNotes(prev => {
+        let next = prev;
+        event.notes.forEach(eventNote => {
+          const existing = next.find(note => note.uuid === eventNote.uuid);
+          if (existing && (eventNote.syncVersion || 1) <= existing.syncVersion) return;
+
+          if (event.eventType === 'DELETE') {
+            next = next.filter(note => note.uuid !== eventNote.uuid);
+            return;
+          }
+
+          const note = SignalRService.transformServerNoteToLocalNote(eventNote);
+          next = existing
+            ? next.map(candidate => candidate.uuid === note.uuid ? note : candidate)
+            : [...next, note];
+        });
+        return next;
+      });
+    };
+
+    // Changes made while the hub was disconnected are only in a fresh load
+    const handleRejoined = () => loadNotes();
+
+    CollaborationService.addEventListener('sharedNotesChanged', handleNotesChanged);
+    CollaborationService.addEventListener('rejoined', handleRejoined);
+    return () => {
+      CollaborationService.removeEventListener('sharedNotesChanged', handleNotesChanged);
+      CollaborationService.removeEventListener('rejoined', handleRejoined);
+    };
+  }, [shareId, loadNotes]);
+
+  // Move a note while it is dragged; the position is saved when the drag ends
+  const dragNote = useCallback((uuid: string, position: { x: number; y: number }) => {
+    if (!canEdit) return;
+
+    const note = notesRef.current.find(candidate => candidate.uuid === uuid);
+    if (note && !dragOriginsRef.current.has(uuid)) {
+      dragOriginsRef.current.set(uuid, note.position);
+    }
+    setNotes(prev => prev.map(candidate => candidate.uuid === uuid ? { ...candidate, position } : candidate));
+  }, [canEdit]);
+
+  // Send the changed fields to the server; the note shows the change until it answers
+  const updateNote = useCallback(async (updated: Note, before?: Note) => {
+    if (!shareId || !canEdit) return;
+
+    const previous = before ?? notesRef.current.find(note => note.uuid === updated.uuid);
+    if (!previous) return;
+
+    const changedFields = NoteMergeEngine.getChangedFields(previous, updated);
+    if (changedFields.length === 0) return;
+
+    setNotes(prev => prev.map(note => note.uuid === updated.uuid ? updated : note));
+
+    try {
+      const response = await sharesApi.updateSharedNote(shareId, transformNoteToPatchRequest(updated, changedFields));
+      const saved = transformNoteResponseToNote(response);
+      setNotes(prev => prev.map(note => note.uuid === saved.uuid ? saved : note));
+    } catch (error) {
+      console.error('Failed to update shared note:', error);
+      const status = error instanceof ApiError ? error.status : undefined;
+
+      if (status === API.STATUS_CODES.CONFLICT) {
+        toast({ title: 'A teammate changed this note', description: 'Showing their version; please make your change again.' });
+        loadNotes();
+        return;
+      }
+
+      setNotes(prev => prev.map(note => note.uuid === previous.uuid ? previous : note));
+      toast({
+        title: 'Change not saved',
+        description: status === API.STATUS_CODES.FORBIDDEN
+          ? 'You can only view this canvas.'
+          : 'Shared canvases need a connection to the server.',
+        variant: 'destructive',
+      });
+    }
+  }, [shareId, canEdit, loadNotes]);
+
+  // Save the position a drag ended at
+  const finalizeDrag = useCallback((uuid: string, position: { x: number; y: number }) => {
+    const note = notesRef.current.find(candidate => candidate.uuid === uuid);
+    const origin = dragOriginsRef.current.get(uuid);
+    dragOriginsRef.current.delete(uuid);
+    if (!note) return;
+
+    updateNote({ ...note, position }, origin ? { ...note, position: origin } : undefined);
+  }, [updateNote]);
+
+  return {
+    notes,
+    isLoading,
+    reloadNotes: loadNotes,
+    dragNote,
+    updateNote,
+    finalizeDrag,
+  };
+};
@@ -0,0 +1,156 @@
+import { GRID } from '@/constants/ui-constants';
+import { CanvasBounds } from './viewport-helper';
+
+/**
+ * Edge or center a selection is lined up on
+ */
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+/**
+ * Line shown while dragging when the note lines up with a neighbour, in canvas coordinates.
+ * Vertical guides sit at x = position and run from start to end on the y axis.
+ */
+export interface AlignmentGuide {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * A note's box, keyed by the note it belongs to
+ */
+export interface NoteBounds {
+  uuid: string;
+  bounds: CanvasBounds;
+}
+
+interface AxisMatch {
+  value: number; // Snapped coordinate of the dragged note
+  guide: AlignmentGuide;
+  distance: number;
+}
+
+// Helper function to round a position to the nearest grid intersection
+export const snapToGrid = (position: { x: number; y: number }, gridSize: number = GRID.GRID_SIZE): { x: number; y: number } => ({
+  x: Math.round(position.x / gridSize) * gridSize,
+  y: Math.round(position.y / gridSize) * gridSize,
+});
+
+// Helper function to find the closest neighbour edge or center on one axis within the threshold
+const findAxisMatch = (
+  dragged: CanvasBounds,
+  others: CanvasBounds[],
+  axis: 'x' | 'y',
+  threshold: number
+): AxisMatch | null => {
+  const size = axis === 'x' ? dragged.width : dragged.height;
+  const start = axis === 'x' ? dragged.x : dragged.y;
+  const offsets = [0, size / 2, size];
+  let best: AxisMatch | null = null;
+
+  others.forEach(other => {
+    const otherStart = axis === 'x' ? other.x : other.y;
+    const otherSize = axis === 'x' ? other.width : other.height;
+    const targets = [otherStart, otherStart + otherSize / 2, otherStart + otherSize];
+
+    offsets.forEach(offset => {
+      targets.forEach(target => {
+        const distance = Math.abs(start + offset - target);
+        if (distance > threshold || (best && distance >= best.distance)) return;
+
+        // The guide spans both notes on the other axis
+        const crossStart = axis === 'x' ? Math.min(dragged.y, other.y) : Math.min(dragged.x, other.x);
+        const crossEnd = axis === 'x'
+          ? Math.max(dragged.y + dragged.height, other.y + other.height)
+          : Math.max(dragged.x + dragged.width, other.x + other.width);
+
+        best = {
+          value: target - offset,
+          distance,
+          guide: { orientation: axis === 'x' ? 'vertical' : 'horizontal', position: target, start: crossStart, end: crossEnd },
+        };
+      });
+    });
+  });
+
+  return best;
+};
+
+/**
+ * Snap a dragged note: on each axis it lines up with the closest neighbour edge or
+ * center within the threshold, otherwise it snaps to the grid when grid snapping is on
+ * @param dragged - The dragged note's box at the pointer position
+ * @param others - Boxes of the notes it can line up with
+ * @param threshold - Snap distance in canvas units
+ * @param snapToGridEnabled - Round axes without a guide to the grid
+ * @returns The position to use and the guides to show
+ */
+export const getSnappedPosition = (
+  dragged: CanvasBounds,
+  others: CanvasBounds[],
+  threshold: number,
+  snapToGridEnabled: boolean
+): { position: { x: number; y: number }; guides: AlignmentGuide[] } => {
+  const gridPosition = snapToGridEnabled ? snapToGrid(dragged) : { x: dragged.x, y: dragged.y };
+  const matchX = findAxisMatch(dragged, others, 'x', threshold);
+  const matchY = findAxisMatch(dragged, others, 'y', threshold);
+
+  return {
+    position: {
+      x: matchX ? matchX.value : gridPosition.x,
+      y: matchY ? matchY.value : gridPosition.y,
+    },
+    guides: [matchX?.guide, matchY?.guide].filter((guide): guide is AlignmentGuide => !!guide),
+  };
+};
+
+/**
+ * Line notes up on the outermost edge, or the shared center, of the selection
+ * @returns New positions of the notes
+ */
+export const alignNotes = (notes: NoteBounds[], mode: AlignMode): { uuid: string; position: { x: number; y: number } }[] => {
+  const left = Math.min(...notes.map(note => note.bounds.x));
+  const right = Math.max(...notes.map(note => note.bounds.x + note.bounds.width));
+  const top = Math.min(...notes.map(note => note.bounds.y));
+  const bottom = Math.max(...notes.map(note => note.bounds.y + note.bounds.height));
+
+  return notes.map(({ uuid, bounds }) => {
+    const position = { x: bounds.x, y: bounds.y };
+    switch (mode) {
+      case 'left': position.x = left; break;
+      case 'center': position.x = (left + right) / 2 - bounds.width / 2; break;
+      case 'right': position.x = right - bounds.width; break;
+      case 'top': position.y = top; break;
+      case 'middle': position.y = (top + bottom) / 2 - bounds.height / 2; break;
+      case 'bottom': position.y = bottom - bounds.height; break;
+    }
+    return { uuid, position };
+  });
+};
+
+/**
+ * Space notes evenly along an axis: the first and last stay in place and the gaps
+ * between neighbouring cards become equal
+ * @returns New positions of the notes
+ */
+export const distributeNotes = (notes: NoteBounds[], axis: DistributeAxis): { uuid: string; position: { x: number; y: number } }[] => {
+  const isHorizontal = axis === 'horizontal';
+  const start = (bounds: CanvasBounds) => isHorizontal ? bounds.x : bounds.y;
+  const size = (bounds: CanvasBounds) => isHorizontal ? bounds.width : bounds.height;
+
+  const sorted = [...notes].sort((a, b) => start(a.bounds) - start(b.bounds));
+  const first = sorted[0].bounds;
+  const last = sorted[sorted.length - 1].bounds;
+  const totalSize = sorted.reduce((sum, note) => sum + size(note.bounds), 0);
+  const gap = (start(last) + size(last) - start(first) - totalSize) / Math.max(1, sorted.length - 1);
+
+  let cursor = start(first);
+  return sorted.map(({ uuid, bounds }) => {
+    const position = isHorizontal ? { x: cursor, y: bounds.y } : { x: bounds.x, y: cursor };
+    cursor += size(bounds) + gap;
+    return { uuid, position };
+  });
+};
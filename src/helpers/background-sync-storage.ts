@@ -0,0 +1,93 @@
+import { BackgroundSyncOutbox, BackgroundSyncResults } from '@/types/sync.types';
+import { BACKGROUND_SYNC } from '@/constants/ui-constants';
+import { requestToPromise, transactionToPromise } from './indexed-db';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+// Helper function to open the database shared with the service worker.
+// It is separate from the notes database so the worker never depends on its schema.
+const openBackgroundSyncDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(BACKGROUND_SYNC.DATABASE_NAME, 1);
+
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(BACKGROUND_SYNC.STORE_NAME)) {
+        request.result.createObjectStore(BACKGROUND_SYNC.STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+
+  return databasePromise;
+};
+
+/**
+ * Helper functions for the records exchanged with the service worker: the outbox of
+ * prepared batch requests it sends while no page is open, and the responses it received.
+ */
+export class BackgroundSyncStorage {
+  /**
+   * Save the outbox, replacing the previous one
+   */
+  static async saveOutbox(outbox: BackgroundSyncOutbox): Promise<void> {
+    await this.put(BACKGROUND_SYNC.OUTBOX_KEY, outbox);
+  }
+
+  /**
+   * Remove the outbox, e.g. once the queue is empty
+   */
+  static async clearOutbox(): Promise<void> {
+    await this.remove(BACKGROUND_SYNC.OUTBOX_KEY);
+  }
+
+  /**
+   * Retrieve the responses received by the service worker
+   * @returns The results or null if there are none to apply
+   */
+  static async getResults(): Promise<BackgroundSyncResults | null> {
+    try {
+      const db = await openBackgroundSyncDatabase();
+      const store = db.transaction(BACKGROUND_SYNC.STORE_NAME, 'readonly').objectStore(BACKGROUND_SYNC.STORE_NAME);
+      const results = await requestToPromise<BackgroundSyncResults | undefined>(store.get(BACKGROUND_SYNC.RESULTS_KEY));
+      return results || null;
+    } catch (error) {
+      console.error('Failed to retrieve background sync results from IndexedDB:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove the results once they have been applied
+   */
+  static async clearResults(): Promise<void> {
+    await this.remove(BACKGROUND_SYNC.RESULTS_KEY);
+  }
+
+  private static async put(key: string, value: BackgroundSyncOutbox): Promise<void> {
+    try {
+      const db = await openBackgroundSyncDatabase();
+      const transaction = db.transaction(BACKGROUND_SYNC.STORE_NAME, 'readwrite');
+      transaction.objectStore(BACKGROUND_SYNC.STORE_NAME).put(value, key);
+      await transactionToPromise(transaction);
+    } catch (error) {
+      console.error(`Failed to save background sync ${key} to IndexedDB:`, error);
+    }
+  }
+
+  private static async remove(key: string): Promise<void> {
+    try {
+      const db = await openBackgroundSyncDatabase();
+      const transaction = db.transaction(BACKGROUND_SYNC.STORE_NAME, 'readwrite');
+      transaction.objectStore(BACKGROUND_SYNC.STORE_NAME).delete(key);
+      await transactionToPromise(transaction);
+    } catch (error) {
+      console.error(`Failed to delete background sync ${key} from IndexedDB:`, error);
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import { CodeToken, CodeTokenType } from '@/types/markdown.types';
+
+interface LanguageGrammar {
+  keywords: string[];
+  /** Constants such as true, false and null */
+  literals: string[];
+  lineComments: string[];
+  blockComment?: [string, string];
+  quotes: string[];
+  /** Quotes whose strings may span several lines */
+  multilineQuotes?: string[];
+  caseInsensitive?: boolean;
+}
+
+const JAVASCRIPT: LanguageGrammar = {
+  keywords: [
+    'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete',
+    'do', 'else', 'enum', 'export', 'extends', 'finally', 'for', 'from', 'function', 'if', 'implements',
+    'import', 'in', 'instanceof', 'interface', 'let', 'new', 'of', 'private', 'protected', 'public',
+    'readonly', 'return', 'static', 'super', 'switch', 'this', 'throw', 'try', 'type', 'typeof', 'var',
+    'void', 'while', 'yield',
+  ],
+  literals: ['true', 'false', 'null', 'undefined', 'NaN', 'Infinity'],
+  lineComments: ['//'],
+  blockComment: ['/*', '*/'],
+  quotes: ['"', "'", '`'],
+  multilineQuotes: ['`'],
+};
+
+const GRAMMARS: Record<string, LanguageGrammar> = {
+  javascript: JAVASCRIPT,
+  json: {
+    keywords: [],
+    literals: ['true', 'false', 'null'],
+    lineComments: [],
+    quotes: ['"'],
+  },
+  python: {
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else',
+      'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not',
+      'or', 'pass', 'raise', 'return', 'self', 'try', 'while', 'with', 'yield',
+    ],
+    literals: ['True', 'False', 'None'],
+    lineComments: ['#'],
+    quotes: ['"""', "'''", '"', "'"],
+    multilineQuotes: ['"""', "'''"],
+  },
+  csharp: {
+    keywords: [
+      'abstract', 'async', 'await', 'base', 'bool', 'break', 'case', 'catch', 'class', 'const', 'continue',
+      'decimal', 'default', 'do', 'double', 'else', 'enum', 'foreach', 'for', 'if', 'in', 'int', 'interface',
+      'internal', 'is', 'long', 'namespace', 'new', 'override', 'private', 'protected', 'public', 'readonly',
+      'record', 'return', 'sealed', 'static', 'string', 'struct', 'switch', 'this', 'throw', 'try', 'using',
+      'var', 'virtual', 'void', 'while',
+    ],
+    literals: ['true', 'false', 'null'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+  },
+  bash: {
+    keywords: [
+      'case', 'cd', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if',
+      'in', 'local', 'return', 'set', 'source', 'then', 'until', 'while',
+    ],
+    literals: ['true', 'false'],
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    multilineQuotes: ['"', "'"],
+  },
+  css: {
+    keywords: ['@media', '@import', '@keyframes', '@font-face', '@supports', '!important'],
+    literals: [],
+    lineComments: [],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+  },
+  sql: {
+    keywords: [
+      'alter', 'and', 'as', 'asc', 'by', 'create', 'delete', 'desc', 'distinct', 'drop', 'from', 'group',
+      'having', 'index', 'inner', 'insert', 'into', 'join', 'left', 'limit', 'not', 'on', 'or', 'order',
+      'outer', 'right', 'select', 'set', 'table', 'union', 'update', 'values', 'where',
+    ],
+    literals: ['true', 'false', 'null'],
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+    caseInsensitive: true,
+  },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  typescript: 'javascript',
+  py: 'python',
+  cs: 'csharp',
+  'c#': 'csharp',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  scss: 'css',
+};
+
+const NUMBER_PATTERN = /0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?/iy;
+const WORD_PATTERN = /@[\w-]+|![A-Za-z]+|[A-Za-z_$][\w$]*/y;
+
+// Helper function to resolve a fence language such as "ts" or "sh" to its grammar
+const getGrammar = (language: string): LanguageGrammar | null => {
+  const name = language.toLowerCase();
+  return GRAMMARS[LANGUAGE_ALIASES[name] || name] || null;
+};
+
+/**
+ * Split code into highlighted tokens (keywords, literals, strings, numbers, comments,
+ * function calls). Unknown languages come back as a single plain token.
+ * @param language - The fence language, e.g. "ts", "python", "json"
+ */
+export const highlightCode = (code: string, language: string): CodeToken[] => {
+  const grammar = getGrammar(language);
+  if (!grammar) return [{ text: code, type: 'plain' }];
+
+  const normalizeWord = (word: string) => grammar.caseInsensitive ? word.toLowerCase() : word;
+  const keywords = new Set(grammar.keywords.map(normalizeWord));
+  const literals = new Set(grammar.literals.map(normalizeWord));
+  const tokens: CodeToken[] = [];
+
+  const push = (text: string, type: CodeTokenType) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ text, type });
+    }
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    // Comments
+    if (grammar.blockComment && code.startsWith(grammar.blockComment[0], i)) {
+      const close = code.indexOf(grammar.blockComment[1], i + grammar.blockComment[0].length);
+      const end = close === -1 ? code.length : close + grammar.blockComment[1].length;
+      push(code.slice(i, end), 'comment');
+      i = end;
+      continue;
+    }
+    if (grammar.lineComments.some(marker => code.startsWith(marker, i))) {
+      const newline = code.indexOf('\n', i);
+      const end = newline === -1 ? code.length : newline;
+      push(code.slice(i, end), 'comment');
+      i = end;
+      continue;
+    }
+
+    // Strings, up to the matching unescaped quote (or the end of the line)
+    const quote = grammar.quotes.find(candidate => code.startsWith(candidate, i));
+    if (quote) {
+      const isMultiline = grammar.multilineQuotes?.includes(quote) ?? false;
+      let end = i + quote.length;
+      while (end < code.length && !code.startsWith(quote, end)) {
+        if (code[end] === '\\') end++;
+        else if (code[end] === '\n' && !isMultiline) break;
+        end++;
+      }
+      end = Math.min(code.length, code.startsWith(quote, end) ? end + quote.length : end);
+      push(code.slice(i, end), 'string');
+      i = end;
+      continue;
+    }
+
+    const isWordStart = i === 0 || !/[\w$]/.test(code[i - 1]);
+
+    if (isWordStart && /\d/.test(code[i])) {
+      NUMBER_PATTERN.lastIndex = i;
+      const match = NUMBER_PATTERN.exec(code)!;
+      push(match[0], 'number');
+      i += match[0].length;
+      continue;
+    }
+
+    if (isWordStart) {
+      WORD_PATTERN.lastIndex = i;
+      const match = WORD_PATTERN.exec(code);
+      if (match) {
+        const word = normalizeWord(match[0]);
+        let type: CodeTokenType = 'plain';
+        if (keywords.has(word)) type = 'keyword';
+        else if (literals.has(word)) type = 'literal';
+        else if (/^\s*\(/.test(code.slice(i + match[0].length, i + match[0].length + 8))) type = 'function';
+
+        push(match[0], type);
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    push(code[i], 'plain');
+    i++;
+  }
+
+  return tokens;
+};
@@ -0,0 +1,51 @@
+import { CanvasRole, CanvasShare, CanvasViewer } from '@/types/collaboration.types';
+import { COLLABORATION } from '@/constants/ui-constants';
+
+/**
+ * Pick a stable color for a client, used for its cursor and lock highlights
+ */
+export const getViewerColor = (clientId: string): string => {
+  let hash = 0;
+  for (let i = 0; i < clientId.length; i++) {
+    hash = (hash * 31 + clientId.charCodeAt(i)) | 0;
+  }
+  return COLLABORATION.VIEWER_COLORS[Math.abs(hash) % COLLABORATION.VIEWER_COLORS.length];
+};
+
+/**
+ * Get up to two initials of a name, for avatars without a photo
+ */
+export const getInitials = (name: string): string =>
+  name
+    .split(/[\s@._-]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('') || '?';
+
+/**
+ * Find the share of a date canvas among the shares a user owns
+ */
+export const findDateShare = (shares: CanvasShare[], dateKey: string): CanvasShare | undefined =>
+  shares.find(share => share.scope.type === 'date' && share.scope.date === dateKey);
+
+/**
+ * Get the role of a user in a share: the owner edits, members have their assigned role
+ * @returns The role, or null if the user has no access
+ */
+export const getShareRole = (share: CanvasShare, userId: number): CanvasViewer['role'] | null => {
+  if (share.ownerId === userId) return 'owner';
+  return share.members.find(member => member.userId === userId)?.role ?? null;
+};
+
+/**
+ * Check whether a role may change notes of a shared canvas
+ */
+export const canEditShare = (role: CanvasRole | 'owner' | null): boolean =>
+  role === 'owner' || role === 'editor';
+
+/**
+ * Describe what a share covers, for lists and headers
+ */
+export const describeShareScope = (share: CanvasShare): string =>
+  share.scope.type === 'date' ? share.scope.date : `#${share.scope.tagName}`;
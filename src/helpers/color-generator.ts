@@ -65,3 +65,40 @@ export function isLightColor(hexColor: string): boolean {
 export function getContrastTextColor(backgroundColor: string): string {
   return isLightColor(backgroundColor) ? '#000000' : '#ffffff';
 }
+
+/**
+ * Name the hue family of a hex color (used by the color: search filter)
+ * @returns One of gray, red, orange, yellow, green, teal, blue, purple, pink
+ */
+export function getColorName(hexColor: string): string {
+  const hex = hexColor.replace('#', '');
+  const r = parseInt(hex.substring(0, 2), 16) / 255;
+  const g = parseInt(hex.substring(2, 4), 16) / 255;
+  const b = parseInt(hex.substring(4, 6), 16) / 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+
+  // Low saturation reads as gray regardless of hue
+  if (delta < 0.08) return 'gray';
+
+  let hue: number;
+  if (max === r) {
+    hue = ((g - b) / delta) % 6;
+  } else if (max === g) {
+    hue = (b - r) / delta + 2;
+  } else {
+    hue = (r - g) / delta + 4;
+  }
+  hue = (hue * 60 + 360) % 360;
+
+  if (hue < 15 || hue >= 345) return 'red';
+  if (hue < 40) return 'orange';
+  if (hue < 70) return 'yellow';
+  if (hue < 160) return 'green';
+  if (hue < 190) return 'teal';
+  if (hue < 250) return 'blue';
+  if (hue < 290) return 'purple';
+  return 'pink';
+}
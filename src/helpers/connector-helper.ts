@@ -0,0 +1,49 @@
+import { Connector } from '@/domains/connector';
+import { CanvasBounds } from './viewport-helper';
+
+type Point = { x: number; y: number };
+
+/**
+ * Where a connector is drawn, in canvas coordinates
+ */
+export interface ConnectorLine {
+  start: Point;
+  end: Point;
+  mid: Point;
+}
+
+// Helper function to get how far along the line from a box's center toward a point the box border is (0..1+)
+const getBorderFraction = (bounds: CanvasBounds, dx: number, dy: number): number => {
+  const fractionX = dx === 0 ? Infinity : (bounds.width / 2) / Math.abs(dx);
+  const fractionY = dy === 0 ? Infinity : (bounds.height / 2) / Math.abs(dy);
+  return Math.min(fractionX, fractionY);
+};
+
+/**
+ * Line of a connector between two note cards: it runs between their centers and is
+ * cut at each card's border, so arrowheads touch the cards
+ * @returns null when the cards overlap and there is no line left to draw
+ */
+export const getConnectorLine = (from: CanvasBounds, to: CanvasBounds): ConnectorLine | null => {
+  const fromCenter = { x: from.x + from.width / 2, y: from.y + from.height / 2 };
+  const toCenter = { x: to.x + to.width / 2, y: to.y + to.height / 2 };
+  const dx = toCenter.x - fromCenter.x;
+  const dy = toCenter.y - fromCenter.y;
+
+  const startFraction = getBorderFraction(from, dx, dy);
+  const endFraction = 1 - getBorderFraction(to, dx, dy);
+  if (startFraction >= endFraction) return null;
+
+  const start = { x: fromCenter.x + dx * startFraction, y: fromCenter.y + dy * startFraction };
+  const end = { x: fromCenter.x + dx * endFraction, y: fromCenter.y + dy * endFraction };
+  return { start, end, mid: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 } };
+};
+
+// Helper function to check whether two notes are already connected, in either direction
+export const areNotesConnected = (connectors: Connector[], noteUuidA: string, noteUuidB: string): boolean => {
+  return connectors.some(connector =>
+    !connector.isDeleted &&
+    ((connector.fromNoteUuid === noteUuidA && connector.toNoteUuid === noteUuidB) ||
+     (connector.fromNoteUuid === noteUuidB && connector.toNoteUuid === noteUuidA))
+  );
+};
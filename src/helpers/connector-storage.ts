@@ -0,0 +1,114 @@
+import { Connector } from '@/domains/connector';
+import { STORES, openDatabase, requestToPromise, transactionToPromise } from './indexed-db';
+import { TabChannel } from './tab-channel';
+
+/**
+ * Helper functions for persisting connectors in IndexedDB.
+ * Records hold full Connector objects; IndexedDB stores their Date fields natively.
+ */
+export class ConnectorStorage {
+  /**
+   * Save a connector to IndexedDB
+   * @param connector - The connector to save
+   */
+  static async saveConnector(connector: Connector): Promise<void> {
+    await this.saveConnectors([connector]);
+  }
+
+  /**
+   * Save multiple connectors to IndexedDB in a single transaction
+   * @param connectors - The connectors to save
+   */
+  static async saveConnectors(connectors: Connector[]): Promise<void> {
+    if (connectors.length === 0) return;
+
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORES.CONNECTORS, 'readwrite');
+      const store = transaction.objectStore(STORES.CONNECTORS);
+      connectors.forEach(connector => store.put(connector));
+      await transactionToPromise(transaction);
+      // Other tabs reload notes and connectors together
+      TabChannel.notifyNotesChanged(connectors.map(connector => connector.uuid));
+    } catch (error) {
+      console.error('Failed to save connectors to IndexedDB:', error);
+    }
+  }
+
+  /**
+   * Retrieve a connector by UUID
+   * @param connectorUuid - The UUID of the connector
+   * @returns The connector or null if not found
+   */
+  static async getConnector(connectorUuid: string): Promise<Connector | null> {
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(STORES.CONNECTORS, 'readonly').objectStore(STORES.CONNECTORS);
+      const connector = await requestToPromise<Connector | undefined>(store.get(connectorUuid));
+      return connector || null;
+    } catch (error) {
+      console.error('Failed to retrieve connector from IndexedDB:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Retrieve all connectors, including removed ones whose deletion may still need to sync
+   */
+  static async getAllConnectors(): Promise<Connector[]> {
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(STORES.CONNECTORS, 'readonly').objectStore(STORES.CONNECTORS);
+      return await requestToPromise<Connector[]>(store.getAll());
+    } catch (error) {
+      console.error('Failed to retrieve connectors from IndexedDB:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Retrieve the connectors attached to any of the given notes
+   * @param noteUuids - The UUIDs of the notes
+   */
+  static async getConnectorsOfNotes(noteUuids: string[]): Promise<Connector[]> {
+    const uuids = new Set(noteUuids);
+    const connectors = await this.getAllConnectors();
+    return connectors.filter(connector => uuids.has(connector.fromNoteUuid) || uuids.has(connector.toNoteUuid));
+  }
+
+  /**
+   * Record that the server applied a connector's deletion
+   * @param connectorUuid - The UUID of the connector
+   */
+  static async markDeletionSynced(connectorUuid: string): Promise<void> {
+    const connector = await this.getConnector(connectorUuid);
+    if (!connector) return;
+
+    await this.saveConnector({
+      ...connector,
+      isDeleted: true,
+      deletedAt: connector.deletedAt || new Date(),
+      syncVersion: connector.localVersion || 1,
+      lastSyncedAt: new Date(),
+    });
+  }
+
+  /**
+   * Delete several connectors from IndexedDB in a single transaction
+   * @param connectorUuids - The UUIDs of the connectors to delete
+   */
+  static async deleteConnectors(connectorUuids: string[]): Promise<void> {
+    if (connectorUuids.length === 0) return;
+
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORES.CONNECTORS, 'readwrite');
+      const store = transaction.objectStore(STORES.CONNECTORS);
+      connectorUuids.forEach(connectorUuid => store.delete(connectorUuid));
+      await transactionToPromise(transaction);
+      TabChannel.notifyNotesChanged(connectorUuids);
+    } catch (error) {
+      console.error('Failed to delete connectors from IndexedDB:', error);
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { Note } from '@/domains/note';
+import { NoteTask } from '@/domains/noteTask';
+import { DueItem } from '@/types/reminder.types';
+import { formatDateDisplay, isSameDay } from './date-helper';
+
+const MS_PER_MINUTE = 60000;
+
+// Helper function to pad hours and minutes
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Check whether a note is done: it has tasks and all of them are completed
+ */
+export const isNoteCompleted = (note: Note): boolean =>
+  !!note.noteTasks && note.noteTasks.length > 0 && note.noteTasks.every(task => task.completed);
+
+/**
+ * Check whether a due date has passed for an item that is not completed
+ */
+export const isPastDue = (dueDate: Date | null | undefined, completed: boolean, now: Date = new Date()): boolean =>
+  !!dueDate && !completed && dueDate.getTime() < now.getTime();
+
+/**
+ * Check whether a task is overdue
+ */
+export const isTaskOverdue = (task: NoteTask, now: Date = new Date()): boolean =>
+  isPastDue(task.dueDate, task.completed, now);
+
+/**
+ * Check whether a note is overdue, either itself or through one of its tasks
+ */
+export const isNoteOverdue = (note: Note, now: Date = new Date()): boolean =>
+  !note.isDeleted && (
+    isPastDue(note.dueDate, isNoteCompleted(note), now) ||
+    (note.noteTasks || []).some(task => isTaskOverdue(task, now))
+  );
+
+/**
+ * Flatten notes and their tasks into the items that have a due date
+ */
+export const getDueItems = (notes: Note[]): DueItem[] => {
+  const items: DueItem[] = [];
+
+  notes.forEach(note => {
+    if (note.isDeleted) return;
+    const noteTitle = note.title || 'Untitled';
+
+    if (note.dueDate) {
+      items.push({
+        key: `${note.uuid}:note`,
+        noteUuid: note.uuid,
+        taskUuid: null,
+        title: noteTitle,
+        noteTitle,
+        noteDate: note.date,
+        dueDate: note.dueDate,
+        reminderMinutes: note.reminderMinutes ?? null,
+        completed: isNoteCompleted(note),
+      });
+    }
+
+    (note.noteTasks || []).forEach(task => {
+      if (!task.dueDate) return;
+      items.push({
+        key: `${note.uuid}:${task.uuid}`,
+        noteUuid: note.uuid,
+        taskUuid: task.uuid,
+        title: task.text || 'Untitled task',
+        noteTitle,
+        noteDate: note.date,
+        dueDate: task.dueDate,
+        reminderMinutes: task.reminderMinutes ?? null,
+        completed: task.completed,
+      });
+    });
+  });
+
+  return items;
+};
+
+/**
+ * Get open items that are overdue or due within the next few days, soonest first
+ * @param days - How many days ahead to include
+ */
+export const getUpcomingDueItems = (notes: Note[], days: number, now: Date = new Date()): DueItem[] => {
+  const end = new Date(now.getFullYear(), now.getMonth(), now.getDate() + days + 1);
+  return getDueItems(notes)
+    .filter(item => !item.completed && item.dueDate.getTime() < end.getTime())
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+};
+
+/**
+ * Get when the reminder of an item fires, or null if it has no reminder
+ */
+export const getReminderTime = (item: DueItem): Date | null =>
+  item.reminderMinutes === null ? null : new Date(item.dueDate.getTime() - item.reminderMinutes * MS_PER_MINUTE);
+
+/**
+ * Key of one reminder delivery. It changes with the due date and offset,
+ * so moving the due date arms the reminder again.
+ */
+export const getReminderKey = (item: DueItem): string =>
+  `${item.key}@${item.dueDate.getTime()}-${item.reminderMinutes}`;
+
+/**
+ * Format a due date relative to today, e.g. "Today 14:30", "Tomorrow 09:00" or "26-10-2026 09:00"
+ */
+export const formatDueDate = (date: Date, now: Date = new Date()): string => {
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  const yesterday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+
+  if (isSameDay(date, now)) return `Today ${time}`;
+  if (isSameDay(date, tomorrow)) return `Tomorrow ${time}`;
+  if (isSameDay(date, yesterday)) return `Yesterday ${time}`;
+  return `${formatDateDisplay(date)} ${time}`;
+};
+
+/**
+ * Describe a reminder offset, e.g. "15 minutes before" or "1 day before"
+ */
+export const formatReminderOffset = (minutes: number): string => {
+  if (minutes === 0) return 'At due time';
+  if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? '' : 's'} before`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'} before`;
+  return `${minutes} minute${minutes === 1 ? '' : 's'} before`;
+};
+
+/**
+ * Format a date for a datetime-local input (YYYY-MM-DDTHH:mm in local time)
+ */
+export const toDateTimeInputValue = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+/**
+ * Ask for permission to show system notifications for reminders
+ * @returns True if notifications may be shown
+ */
+export const requestReminderPermission = async (): Promise<boolean> => {
+  if (typeof window === 'undefined' || !('Notification' in window)) return false;
+  if (Notification.permission !== 'default') return Notification.permission === 'granted';
+
+  try {
+    return (await Notification.requestPermission()) === 'granted';
+  } catch (error) {
+    console.error('Failed to request notification permission:', error);
+    return false;
+  }
+};
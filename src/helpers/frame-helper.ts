@@ -0,0 +1,53 @@
+import { Frame } from '@/domains/frame';
+import { Note } from '@/domains/note';
+import { CanvasBounds } from './viewport-helper';
+import { isSameDay } from './date-helper';
+import { FRAME } from '@/constants/ui-constants';
+
+// Helper function to get the frames of a canvas date
+export const getFramesOfDate = (frames: Frame[], date: Date): Frame[] => {
+  return frames.filter(frame => isSameDay(new Date(frame.date), date));
+};
+
+// Helper function to get the area a frame covers; collapsed frames only keep their header
+export const getFrameBounds = (frame: Frame): CanvasBounds => ({
+  x: frame.position.x,
+  y: frame.position.y,
+  width: frame.width,
+  height: frame.isCollapsed ? FRAME.HEADER_HEIGHT : frame.height,
+});
+
+/**
+ * Frame a note dropped at the given point belongs to. Collapsed frames take no
+ * notes, and the frame drawn last (on top) wins where frames overlap.
+ */
+export const findFrameAt = (frames: Frame[], point: { x: number; y: number }): Frame | null => {
+  for (let i = frames.length - 1; i >= 0; i--) {
+    const frame = frames[i];
+    if (frame.isCollapsed) continue;
+
+    const bounds = getFrameBounds(frame);
+    if (
+      point.x >= bounds.x && point.x <= bounds.x + bounds.width &&
+      point.y >= bounds.y && point.y <= bounds.y + bounds.height
+    ) {
+      return frame;
+    }
+  }
+  return null;
+};
+
+// Helper function to get the notes of a frame that are on the frame's canvas date, leaving out trashed notes
+export const getFrameNotes = (frame: Frame, notes: Note[]): Note[] => {
+  return notes.filter(note =>
+    note.frameUuid === frame.uuid &&
+    !note.isDeleted &&
+    isSameDay(new Date(note.date), new Date(frame.date))
+  );
+};
+
+// Helper function to check whether a note is hidden inside a collapsed frame
+export const isNoteInCollapsedFrame = (note: Note, frames: Frame[]): boolean => {
+  if (!note.frameUuid) return false;
+  return frames.some(frame => frame.uuid === note.frameUuid && frame.isCollapsed);
+};
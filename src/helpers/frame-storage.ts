@@ -0,0 +1,104 @@
+import { Frame } from '@/domains/frame';
+import { STORES, openDatabase, requestToPromise, transactionToPromise } from './indexed-db';
+import { TabChannel } from './tab-channel';
+
+/**
+ * Helper functions for persisting frames in IndexedDB.
+ * Records hold full Frame objects; IndexedDB stores their Date fields natively.
+ */
+export class FrameStorage {
+  /**
+   * Save a frame to IndexedDB
+   * @param frame - The frame to save
+   */
+  static async saveFrame(frame: Frame): Promise<void> {
+    await this.saveFrames([frame]);
+  }
+
+  /**
+   * Save multiple frames to IndexedDB in a single transaction
+   * @param frames - The frames to save
+   */
+  static async saveFrames(frames: Frame[]): Promise<void> {
+    if (frames.length === 0) return;
+
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORES.FRAMES, 'readwrite');
+      const store = transaction.objectStore(STORES.FRAMES);
+      frames.forEach(frame => store.put(frame));
+      await transactionToPromise(transaction);
+      // Other tabs reload notes and frames together
+      TabChannel.notifyNotesChanged(frames.map(frame => frame.uuid));
+    } catch (error) {
+      console.error('Failed to save frames to IndexedDB:', error);
+    }
+  }
+
+  /**
+   * Retrieve a frame by UUID
+   * @param frameUuid - The UUID of the frame
+   * @returns The frame or null if not found
+   */
+  static async getFrame(frameUuid: string): Promise<Frame | null> {
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(STORES.FRAMES, 'readonly').objectStore(STORES.FRAMES);
+      const frame = await requestToPromise<Frame | undefined>(store.get(frameUuid));
+      return frame || null;
+    } catch (error) {
+      console.error('Failed to retrieve frame from IndexedDB:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Retrieve all frames, including removed ones whose deletion may still need to sync
+   */
+  static async getAllFrames(): Promise<Frame[]> {
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(STORES.FRAMES, 'readonly').objectStore(STORES.FRAMES);
+      return await requestToPromise<Frame[]>(store.getAll());
+    } catch (error) {
+      console.error('Failed to retrieve frames from IndexedDB:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record that the server applied a frame's deletion
+   * @param frameUuid - The UUID of the frame
+   */
+  static async markDeletionSynced(frameUuid: string): Promise<void> {
+    const frame = await this.getFrame(frameUuid);
+    if (!frame) return;
+
+    await this.saveFrame({
+      ...frame,
+      isDeleted: true,
+      deletedAt: frame.deletedAt || new Date(),
+      syncVersion: frame.localVersion || 1,
+      lastSyncedAt: new Date(),
+    });
+  }
+
+  /**
+   * Delete several frames from IndexedDB in a single transaction
+   * @param frameUuids - The UUIDs of the frames to delete
+   */
+  static async deleteFrames(frameUuids: string[]): Promise<void> {
+    if (frameUuids.length === 0) return;
+
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORES.FRAMES, 'readwrite');
+      const store = transaction.objectStore(STORES.FRAMES);
+      frameUuids.forEach(frameUuid => store.delete(frameUuid));
+      await transactionToPromise(transaction);
+      TabChannel.notifyNotesChanged(frameUuids);
+    } catch (error) {
+      console.error('Failed to delete frames from IndexedDB:', error);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+// Database configuration
+const DB_NAME = 'draggy-notes';
+const DB_VERSION = 5;
+
+/**
+ * Object store names used by the application database
+ */
+export const STORES = {
+  NOTES: 'notes',
+  NOTE_BASES: 'noteBases',
+  CONFLICTS: 'conflicts',
+  CONNECTORS: 'connectors',
+  FRAMES: 'frames',
+} as const;
+
+/**
+ * Index names on the notes object store
+ */
+export const NOTE_INDEXES = {
+  DATE: 'date',
+  IS_DELETED: 'isDeleted',
+  UPDATED_AT: 'updatedAt',
+  IS_DELETED_DATE: 'isDeleted_date',
+} as const;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Create or upgrade object stores. Each case applies the changes introduced by
+ * that version so existing databases are upgraded step by step.
+ * @param db - The database being upgraded
+ * @param transaction - The upgrade transaction, used to change existing stores
+ * @param oldVersion - The version the database is upgrading from
+ */
+const upgradeDatabase = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void => {
+  if (oldVersion < 1) {
+    const notesStore = db.createObjectStore(STORES.NOTES, { keyPath: 'uuid' });
+    notesStore.createIndex(NOTE_INDEXES.DATE, 'date');
+    notesStore.createIndex(NOTE_INDEXES.IS_DELETED, 'isDeleted');
+    notesStore.createIndex(NOTE_INDEXES.UPDATED_AT, 'updatedAt');
+  }
+
+  if (oldVersion < 2) {
+    // Last-synced snapshot of each note, used as the base for three-way merges
+    db.createObjectStore(STORES.NOTE_BASES, { keyPath: 'uuid' });
+    // Unresolved merge conflicts, keyed by note UUID
+    db.createObjectStore(STORES.CONFLICTS, { keyPath: 'noteUuid' });
+  }
+
+  if (oldVersion < 3) {
+    // Lines and arrows between notes, keyed by connector UUID
+    db.createObjectStore(STORES.CONNECTORS, { keyPath: 'uuid' });
+  }
+
+  if (oldVersion < 4) {
+    // Frames grouping notes on a date canvas, keyed by frame UUID
+    db.createObjectStore(STORES.FRAMES, { keyPath: 'uuid' });
+  }
+
+  if (oldVersion < 5) {
+    // Counts the notes of a date outside the trash without loading them. isDeleted comes
+    // first so a range over the day's timestamps matches a single isDeleted value
+    transaction.objectStore(STORES.NOTES).createIndex(NOTE_INDEXES.IS_DELETED_DATE, ['isDeleted', 'date']);
+  }
+};
+
+/**
+ * Open the application database, creating it on first use.
+ * The connection is shared by all callers.
+ * @returns The open database
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      upgradeDatabase(request.result, request.transaction!, event.oldVersion);
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema - close so it is not blocked
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+
+  return databasePromise;
+};
+
+/**
+ * Wrap an IDBRequest in a promise
+ * @param request - The request to wait for
+ * @returns The request result
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Wait for a transaction to complete
+ * @param transaction - The transaction to wait for
+ */
+export const transactionToPromise = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Check if IndexedDB is available in the current environment
+ * @returns True if IndexedDB is available
+ */
+export const isIndexedDbAvailable = (): boolean => {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,155 @@
+import { Note } from '@/domains/note';
+import { CanvasBounds } from './viewport-helper';
+import { getTaskProgress } from './task-manager';
+import { AUTO_LAYOUT } from '@/constants/ui-constants';
+
+/**
+ * Layout command of the canvas:
+ * - tidy: a grid in reading order
+ * - pack: tallest first, in rows as compact as the cards allow
+ * - cluster-tag / cluster-color: one grid per tag or color
+ * - sort-created / sort-progress: a grid ordered by creation time or task progress
+ */
+export type LayoutCommand = 'tidy' | 'pack' | 'cluster-tag' | 'cluster-color' | 'sort-created' | 'sort-progress';
+
+/**
+ * A note with its rendered box, the input of the layout commands
+ */
+export interface LayoutItem {
+  note: Note;
+  bounds: CanvasBounds;
+}
+
+type Point = { x: number; y: number };
+type Size = { width: number; height: number };
+
+// Helper function to get the offsets of boxes laid out in columns, each column as wide and each row as tall as its largest box
+const getGridOffsets = (sizes: Size[], gap: number): { offsets: Point[]; size: Size } => {
+  if (sizes.length === 0) return { offsets: [], size: { width: 0, height: 0 } };
+
+  const averageWidth = sizes.reduce((sum, size) => sum + size.width, 0) / sizes.length;
+  const averageHeight = sizes.reduce((sum, size) => sum + size.height, 0) / sizes.length;
+  // c columns of n cards are c * w wide and n / c * h tall; solve for the target ratio
+  const columns = Math.min(
+    sizes.length,
+    Math.max(1, Math.ceil(Math.sqrt(sizes.length * AUTO_LAYOUT.TARGET_ASPECT_RATIO * averageHeight / averageWidth)))
+  );
+  const rows = Math.ceil(sizes.length / columns);
+
+  const columnWidths = Array.from({ length: columns }, (_, column) =>
+    Math.max(...sizes.filter((_, index) => index % columns === column).map(size => size.width)));
+  const rowHeights = Array.from({ length: rows }, (_, row) =>
+    Math.max(...sizes.slice(row * columns, (row + 1) * columns).map(size => size.height)));
+
+  const columnStarts = columnWidths.map((_, column) =>
+    columnWidths.slice(0, column).reduce((sum, width) => sum + width + gap, 0));
+  const rowStarts = rowHeights.map((_, row) =>
+    rowHeights.slice(0, row).reduce((sum, height) => sum + height + gap, 0));
+
+  return {
+    offsets: sizes.map((_, index) => ({ x: columnStarts[index % columns], y: rowStarts[Math.floor(index / columns)] })),
+    size: {
+      width: columnStarts[columns - 1] + columnWidths[columns - 1],
+      height: rowStarts[rows - 1] + rowHeights[rows - 1],
+    },
+  };
+};
+
+// Helper function to get the offsets of boxes placed left to right in rows that wrap at about the target ratio
+const getShelfOffsets = (sizes: Size[], gap: number): Point[] => {
+  const totalArea = sizes.reduce((sum, size) => sum + (size.width + gap) * (size.height + gap), 0);
+  const rowWidth = Math.max(
+    ...sizes.map(size => size.width),
+    Math.sqrt(totalArea * AUTO_LAYOUT.TARGET_ASPECT_RATIO)
+  );
+
+  let x = 0;
+  let y = 0;
+  let rowHeight = 0;
+  return sizes.map(size => {
+    if (x > 0 && x + size.width > rowWidth) {
+      x = 0;
+      y += rowHeight + gap;
+      rowHeight = 0;
+    }
+    const offset = { x, y };
+    x += size.width + gap;
+    rowHeight = Math.max(rowHeight, size.height);
+    return offset;
+  });
+};
+
+// Helper function to get the key of each cluster; notes without one go to a last cluster
+const getClusterKey = (note: Note, command: LayoutCommand): string | null => {
+  if (command === 'cluster-color') return note.color ? note.color.toLowerCase() : null;
+  const tagNames = (note.tags || []).map(tag => tag.name.toLowerCase()).sort();
+  return tagNames[0] ?? null;
+};
+
+// Helper function to order notes for the grid commands; notes without tasks come after those with tasks
+const sortForGrid = (items: LayoutItem[], command: LayoutCommand): LayoutItem[] => {
+  const sorted = [...items];
+  switch (command) {
+    case 'sort-created':
+      return sorted.sort((a, b) => new Date(a.note.createdAt || 0).getTime() - new Date(b.note.createdAt || 0).getTime());
+    case 'sort-progress': {
+      const progressOf = (item: LayoutItem) => {
+        const tasks = item.note.noteTasks || [];
+        return tasks.length === 0 ? Infinity : getTaskProgress(tasks).percentage;
+      };
+      return sorted.sort((a, b) => progressOf(a) - progressOf(b));
+    }
+    default:
+      // Reading order: top to bottom, then left to right
+      return sorted.sort((a, b) => a.bounds.y - b.bounds.y || a.bounds.x - b.bounds.x);
+  }
+};
+
+/**
+ * New positions of notes for a layout command. The layout starts at the top left
+ * corner of the notes' current bounding box and no two cards overlap.
+ * @returns New positions of the notes
+ */
+export const layoutNotes = (items: LayoutItem[], command: LayoutCommand): { uuid: string; position: Point }[] => {
+  if (items.length === 0) return [];
+
+  const origin = {
+    x: Math.min(...items.map(item => item.bounds.x)),
+    y: Math.min(...items.map(item => item.bounds.y)),
+  };
+  const place = (item: LayoutItem, offset: Point) => ({
+    uuid: item.note.uuid,
+    position: { x: Math.round(origin.x + offset.x), y: Math.round(origin.y + offset.y) },
+  });
+
+  if (command === 'pack') {
+    const sorted = [...items].sort((a, b) => b.bounds.height - a.bounds.height || b.bounds.width - a.bounds.width);
+    const offsets = getShelfOffsets(sorted.map(item => item.bounds), AUTO_LAYOUT.GAP);
+    return sorted.map((item, index) => place(item, offsets[index]));
+  }
+
+  if (command === 'cluster-tag' || command === 'cluster-color') {
+    const clusters = new Map<string | null, LayoutItem[]>();
+    sortForGrid(items, 'tidy').forEach(item => {
+      const key = getClusterKey(item.note, command);
+      clusters.set(key, [...(clusters.get(key) || []), item]);
+    });
+
+    // Clusters in key order, the one without a key last, each laid out as a grid
+    const keys = [...clusters.keys()].sort((a, b) => a === null ? 1 : b === null ? -1 : a.localeCompare(b));
+    const grids = keys.map(key => {
+      const clusterItems = clusters.get(key) || [];
+      return { items: clusterItems, ...getGridOffsets(clusterItems.map(item => item.bounds), AUTO_LAYOUT.GAP) };
+    });
+    const clusterOffsets = getShelfOffsets(grids.map(grid => grid.size), AUTO_LAYOUT.CLUSTER_GAP);
+
+    return grids.flatMap((grid, clusterIndex) => grid.items.map((item, index) => place(item, {
+      x: clusterOffsets[clusterIndex].x + grid.offsets[index].x,
+      y: clusterOffsets[clusterIndex].y + grid.offsets[index].y,
+    })));
+  }
+
+  const sorted = sortForGrid(items, command);
+  const { offsets } = getGridOffsets(sorted.map(item => item.bounds), AUTO_LAYOUT.GAP);
+  return sorted.map((item, index) => place(item, offsets[index]));
+};
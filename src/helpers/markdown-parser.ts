@@ -0,0 +1,367 @@
+import { MarkdownBlock, MarkdownInline, MarkdownListItem } from '@/types/markdown.types';
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_PATTERN = /^ {0,3}>\s?(.*)$/;
+const LIST_ITEM_PATTERN = /^( *)([-*+]|\d{1,9}[.)])(?:\s+(.*))?$/;
+const TASK_PATTERN = /^\[([ xX])\](?:\s+(.*))?$/;
+// List item checkbox, also inside block quotes: "- [ ] ", "1. [x] ", "> - [ ] "
+const CHECKBOX_LINE_PATTERN = /^(\s*(?:>\s?)*\s*(?:[-*+]|\d{1,9}[.)])\s+\[)([ xX])\]/;
+
+const ESCAPABLE_PATTERN = /[\\`*_{}[\]()#+\-.!~>|]/;
+const ANGLE_LINK_PATTERN = /<((?:https?:\/\/|mailto:)[^\s<>]+)>/y;
+// Bare URLs stop before trailing punctuation such as "see https://example.com."
+const BARE_URL_PATTERN = /https?:\/\/[^\s<]*[^\s<.,:;"')\]!?*_~]/y;
+const SAFE_URL_PATTERN = /^(?:https?:\/\/|mailto:)/i;
+
+// Helper function to measure the indentation of a line (tabs are expanded beforehand)
+const getIndent = (line: string): number => line.length - line.trimStart().length;
+
+// Helper function to check whether a line opens a block other than a paragraph
+const startsBlock = (line: string): boolean =>
+  FENCE_PATTERN.test(line) ||
+  HEADING_PATTERN.test(line) ||
+  RULE_PATTERN.test(line) ||
+  QUOTE_PATTERN.test(line) ||
+  LIST_ITEM_PATTERN.test(line);
+
+// Helper function to check for the fence closing a code block
+const isClosingFence = (line: string, marker: string): boolean => {
+  const trimmed = line.trim();
+  return trimmed.length >= marker.length && trimmed === marker[0].repeat(trimmed.length);
+};
+
+/**
+ * Only web and mail links are rendered; anything else (javascript:, data:, ...) stays plain text
+ */
+export const isSafeMarkdownUrl = (href: string): boolean => SAFE_URL_PATTERN.test(href.trim());
+
+/**
+ * Parse note content into Markdown blocks: headings, paragraphs, (nested and task) lists,
+ * fenced code blocks, block quotes and horizontal rules.
+ * Single line breaks are kept, so plain text notes look the same as before.
+ */
+export const parseMarkdown = (content: string): MarkdownBlock[] => {
+  const lines = content
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/^\s+/, indent => indent.replace(/\t/g, '    ')));
+  return parseBlocks(lines, 0);
+};
+
+const parseBlocks = (lines: string[], lineOffset: number): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !isClosingFence(lines[i], fence[1])) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      // Skip the closing fence (an unclosed block runs to the end)
+      i++;
+      blocks.push({ type: 'code', language: fence[2].toLowerCase(), code: codeLines.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInlineMarkdown(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const start = i;
+      const quoteLines: string[] = [];
+      while (i < lines.length && QUOTE_PATTERN.test(lines[i])) {
+        quoteLines.push(QUOTE_PATTERN.exec(lines[i])![1]);
+        i++;
+      }
+      blocks.push({ type: 'blockquote', blocks: parseBlocks(quoteLines, lineOffset + start) });
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const { block, end } = parseList(lines, i, lineOffset);
+      blocks.push(block);
+      i = end;
+      continue;
+    }
+
+    const paragraphLines = [line.trimEnd()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+      paragraphLines.push(lines[i].trimEnd());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInlineLines(paragraphLines) });
+  }
+
+  return blocks;
+};
+
+const parseList = (lines: string[], start: number, lineOffset: number): { block: MarkdownBlock; end: number } => {
+  const first = LIST_ITEM_PATTERN.exec(lines[start])!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: MarkdownListItem[] = [];
+
+  // Sibling items start at (about) the same indentation and use the same kind of marker
+  const matchSibling = (line: string) => {
+    const match = LIST_ITEM_PATTERN.exec(line);
+    if (!match || match[1].length > baseIndent + 1 || /\d/.test(match[2]) !== ordered) return null;
+    return match;
+  };
+
+  let i = start;
+  while (i < lines.length) {
+    if (!lines[i].trim()) {
+      // Blank lines between items keep the list going
+      let next = i + 1;
+      while (next < lines.length && !lines[next].trim()) next++;
+      if (next >= lines.length || !matchSibling(lines[next])) break;
+      i = next;
+      continue;
+    }
+
+    const match = matchSibling(lines[i]);
+    if (!match) break;
+
+    const text = match[3] || '';
+    const task = TASK_PATTERN.exec(text);
+    const item: MarkdownListItem = {
+      checked: task ? task[1] !== ' ' : null,
+      line: lineOffset + i,
+      children: parseInlineMarkdown(task ? task[2] || '' : text),
+      blocks: [],
+    };
+    i++;
+
+    // Indented lines (nested lists, continuation text) belong to the item
+    const contentStart = i;
+    let contentEnd = i;
+    while (i < lines.length) {
+      if (!lines[i].trim()) {
+        i++;
+        continue;
+      }
+      if (getIndent(lines[i]) < baseIndent + 2) break;
+      i++;
+      contentEnd = i;
+    }
+    // Trailing blank lines are left for the list (or the next block)
+    i = contentEnd;
+
+    if (contentEnd > contentStart) {
+      const contentLines = lines.slice(contentStart, contentEnd);
+      const indent = Math.min(...contentLines.filter(line => line.trim()).map(getIndent));
+      item.blocks = parseBlocks(contentLines.map(line => line.slice(indent)), lineOffset + contentStart);
+    }
+
+    items.push(item);
+  }
+
+  return {
+    block: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items },
+    end: i,
+  };
+};
+
+// Helper function to join the lines of a paragraph, keeping its line breaks
+const parseInlineLines = (lines: string[]): MarkdownInline[] =>
+  lines.flatMap((line, index) => [
+    ...(index > 0 ? [{ type: 'break' } as const] : []),
+    ...parseInlineMarkdown(line),
+  ]);
+
+/**
+ * Parse inline Markdown: `code`, **strong**, *em*, ~~strike~~, [text](url), <url> and bare URLs.
+ * Backslash escapes produce the literal character.
+ */
+export const parseInlineMarkdown = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < text.length && ESCAPABLE_PATTERN.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      let ticks = 1;
+      while (text[i + ticks] === '`') ticks++;
+      const delimiter = '`'.repeat(ticks);
+      const close = text.indexOf(delimiter, i + ticks);
+      if (close !== -1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + ticks, close).replace(/^ (.+) $/, '$1') });
+        i = close + ticks;
+      } else {
+        buffer += delimiter;
+        i += ticks;
+      }
+      continue;
+    }
+
+    if (char === '[') {
+      const link = parseLink(text, i);
+      if (link) {
+        flush();
+        nodes.push(...link.nodes);
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (char === '<') {
+      ANGLE_LINK_PATTERN.lastIndex = i;
+      const match = ANGLE_LINK_PATTERN.exec(text);
+      if (match) {
+        flush();
+        nodes.push({ type: 'link', href: match[1], children: [{ type: 'text', text: match[1] }] });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if ((char === 'h' || char === 'H') && (i === 0 || /[\s([]/.test(text[i - 1]))) {
+      BARE_URL_PATTERN.lastIndex = i;
+      const match = BARE_URL_PATTERN.exec(text);
+      if (match) {
+        flush();
+        nodes.push({ type: 'link', href: match[0], children: [{ type: 'text', text: match[0] }] });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      const emphasis = parseEmphasis(text, i);
+      if (emphasis) {
+        flush();
+        nodes.push(emphasis.node);
+        i = emphasis.end;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+// Helper function to parse [label](url "title") starting at an opening bracket
+const parseLink = (text: string, start: number): { nodes: MarkdownInline[]; end: number } | null => {
+  let depth = 0;
+  let labelEnd = -1;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']' && --depth === 0) {
+      labelEnd = i;
+      break;
+    }
+  }
+  if (labelEnd === -1 || text[labelEnd + 1] !== '(') return null;
+
+  depth = 0;
+  let urlEnd = -1;
+  for (let i = labelEnd + 1; i < text.length; i++) {
+    if (text[i] === '(') {
+      depth++;
+    } else if (text[i] === ')' && --depth === 0) {
+      urlEnd = i;
+      break;
+    }
+  }
+  if (urlEnd === -1) return null;
+
+  const destination = /^\s*<?([^\s>]*)>?(?:\s+"[^"]*")?\s*$/.exec(text.slice(labelEnd + 2, urlEnd));
+  if (!destination) return null;
+
+  const children = parseInlineMarkdown(text.slice(start + 1, labelEnd));
+  const href = destination[1];
+  return {
+    // Unsafe links keep their label as plain content
+    nodes: isSafeMarkdownUrl(href) ? [{ type: 'link', href, children }] : children,
+    end: urlEnd + 1,
+  };
+};
+
+// Helper function to parse *em*, _em_, **strong**, __strong__ or ~~strike~~ starting at a delimiter
+const parseEmphasis = (text: string, start: number): { node: MarkdownInline; end: number } | null => {
+  const char = text[start];
+  const isDouble = text[start + 1] === char;
+  if (char === '~' && !isDouble) return null;
+
+  const delimiter = isDouble ? char + char : char;
+  const contentStart = start + delimiter.length;
+
+  // Openers must touch the text, and underscores inside words (snake_case) are literal
+  if (!text[contentStart] || /\s/.test(text[contentStart])) return null;
+  if (char === '_' && start > 0 && /[\p{L}\p{N}]/u.test(text[start - 1])) return null;
+
+  let close = text.indexOf(delimiter, contentStart + 1);
+  while (close !== -1 && /\s/.test(text[close - 1])) {
+    close = text.indexOf(delimiter, close + 1);
+  }
+  if (close === -1) return null;
+
+  const end = close + delimiter.length;
+  if (char === '_' && end < text.length && /[\p{L}\p{N}]/u.test(text[end])) return null;
+
+  const children = parseInlineMarkdown(text.slice(contentStart, close));
+  const type = char === '~' ? 'strike' : isDouble ? 'strong' : 'em';
+  return { node: { type, children }, end };
+};
+
+/**
+ * Check or uncheck the task list checkbox on a source line
+ * @param line - 0-based line of the list item, as reported by parseMarkdown
+ * @returns The updated content, or the same content if the line has no checkbox
+ */
+export const toggleMarkdownCheckbox = (content: string, line: number): string => {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const match = CHECKBOX_LINE_PATTERN.exec(lines[line] ?? '');
+  if (!match) return content;
+
+  const mark = match[2] === ' ' ? 'x' : ' ';
+  lines[line] = match[1] + mark + lines[line].slice(match[1].length + 1);
+  return lines.join('\n');
+};
@@ -1,192 +1,301 @@
 import { Note } from '@/domains/note';
+import {
+  NOTE_INDEXES,
+  STORES,
+  isIndexedDbAvailable,
+  openDatabase,
+  requestToPromise,
+  transactionToPromise,
+} from './indexed-db';
+import { TabChannel } from './tab-channel';
 
 // Storage keys
 const STORAGE_PREFIX = 'draggy-notes';
 const NOTES_LIST_KEY = `${STORAGE_PREFIX}-list`;
+const MIGRATION_FLAG_KEY = `${STORAGE_PREFIX}-idb-migrated`;
 const CANVAS_PREFIX = 'canvas';
 const RECENT_CANVAS_KEY = 'recent-canvas-date';
+const TRASH_AUTO_PURGE_KEY = `${STORAGE_PREFIX}-trash-auto-purge-days`;
+const DELIVERED_REMINDERS_KEY = `${STORAGE_PREFIX}-delivered-reminders`;
+const SYNC_CURSORS_KEY = `${STORAGE_PREFIX}-sync-cursors`;
+const SNAP_TO_GRID_KEY = `${STORAGE_PREFIX}-snap-to-grid`;
+
+// Matches legacy per-note localStorage keys: draggy-notes-<uuid>
+const LEGACY_NOTE_KEY_PATTERN = new RegExp(
+  `^${STORAGE_PREFIX}-([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$`,
+  'i'
+);
+
+/**
+ * Shape of a note as persisted in IndexedDB.
+ * Dates are ISO strings and isDeleted is stored as 0/1 because
+ * booleans are not valid IndexedDB keys and could not be indexed.
+ */
+interface StoredNote extends Omit<Note, 'date' | 'createdAt' | 'updatedAt' | 'lastSyncedAt' | 'clientUpdatedAt' | 'isDeleted' | 'deletedAt' | 'dueDate'> {
+  date: string;
+  createdAt: string;
+  updatedAt: string;
+  lastSyncedAt: string;
+  clientUpdatedAt?: string;
+  isDeleted: 0 | 1;
+  deletedAt?: string | null;
+  dueDate?: string | null;
+}
 
 /**
- * Helper functions for managing notes in localStorage
+ * Helper functions for managing notes in IndexedDB
  */
 export class NotesStorage {
+  private static migrationPromise: Promise<void> | null = null;
+
   /**
-   * Save a note to localStorage
+   * Save a note to IndexedDB
    * @param note - The note to save
    */
-  static saveNote(note: Note): void {
+  static async saveNote(note: Note): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      const transaction = db.transaction(STORES.NOTES, 'readwrite');
+      transaction.objectStore(STORES.NOTES).put(this.toStoredNote(note));
+      await transactionToPromise(transaction);
+      TabChannel.notifyNotesChanged([note.uuid]);
+    } catch (error) {
+      console.error('Failed to save note to IndexedDB:', error);
+    }
+  }
+
+  /**
+   * Save multiple notes to IndexedDB in a single transaction
+   * @param notes - The notes to save
+   */
+  static async saveNotes(notes: Note[]): Promise<void> {
+    if (notes.length === 0) return;
+
     try {
-      const key = `${STORAGE_PREFIX}-${note.uuid}`;
-      const noteData = {
-        ...note,
-        id: note.id || 0,
-        uuid: note.uuid,
-        date: note.date.toISOString(),
-        createdAt: note.createdAt?.toISOString() || new Date().toISOString(),
-        updatedAt: note.updatedAt?.toISOString() || new Date().toISOString(),
-        userId: note.userId || 0, // Default to 0 if not set
-        tags: note.tags || [], // Default to empty array if not set
-        isPinned: note.isPinned || false, // Default to false if not set
-        // sync properties - preserve tracking fields
-        syncVersion: note.syncVersion || 1,
-        localVersion: note.localVersion || 1,
-        lastSyncedAt: note.lastSyncedAt?.toISOString() || new Date().toISOString(),
-        clientUpdatedAt: note.clientUpdatedAt?.toISOString(),
-      };
-      localStorage.setItem(key, JSON.stringify(noteData));
-      
-      // Update the notes list
-      this.updateNotesList(note.uuid, 'add');
+      const db = await this.getDatabase();
+      const transaction = db.transaction(STORES.NOTES, 'readwrite');
+      const store = transaction.objectStore(STORES.NOTES);
+      notes.forEach(note => store.put(this.toStoredNote(note)));
+      await transactionToPromise(transaction);
+      TabChannel.notifyNotesChanged(notes.map(note => note.uuid));
     } catch (error) {
-      console.error('Failed to save note to localStorage:', error);
+      console.error('Failed to save notes to IndexedDB:', error);
     }
   }
 
   /**
-   * Retrieve a note from localStorage by UUID
+   * Save a note received from the server and record it as the last-synced base snapshot
+   * @param note - The server version of the note
+   */
+  static async saveSyncedNote(note: Note): Promise<void> {
+    await this.saveSyncedNotes([note]);
+  }
+
+  /**
+   * Save notes received from the server and record them as last-synced base snapshots
+   * @param notes - The server versions of the notes
+   */
+  static async saveSyncedNotes(notes: Note[]): Promise<void> {
+    if (notes.length === 0) return;
+
+    try {
+      const db = await this.getDatabase();
+      const transaction = db.transaction([STORES.NOTES, STORES.NOTE_BASES], 'readwrite');
+      const notesStore = transaction.objectStore(STORES.NOTES);
+      const basesStore = transaction.objectStore(STORES.NOTE_BASES);
+      notes.forEach(note => {
+        const stored = this.toStoredNote(note);
+        notesStore.put(stored);
+        basesStore.put(stored);
+      });
+      await transactionToPromise(transaction);
+      TabChannel.notifyNotesChanged(notes.map(note => note.uuid));
+    } catch (error) {
+      console.error('Failed to save synced notes to IndexedDB:', error);
+    }
+  }
+
+  /**
+   * Save only the last-synced base snapshot of a note
+   * @param note - The server version of the note
+   */
+  static async saveBaseSnapshot(note: Note): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      const transaction = db.transaction(STORES.NOTE_BASES, 'readwrite');
+      transaction.objectStore(STORES.NOTE_BASES).put(this.toStoredNote(note));
+      await transactionToPromise(transaction);
+    } catch (error) {
+      console.error('Failed to save base snapshot to IndexedDB:', error);
+    }
+  }
+
+  /**
+   * Retrieve the last-synced base snapshot of a note
+   * @param noteUuid - The UUID of the note
+   * @returns The base snapshot or null if the note was never synced
+   */
+  static async getBaseSnapshot(noteUuid: string): Promise<Note | null> {
+    try {
+      const db = await this.getDatabase();
+      const store = db.transaction(STORES.NOTE_BASES, 'readonly').objectStore(STORES.NOTE_BASES);
+      const stored = await requestToPromise<StoredNote | undefined>(store.get(noteUuid));
+      return stored ? this.fromStoredNote(stored) : null;
+    } catch (error) {
+      console.error('Failed to retrieve base snapshot from IndexedDB:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Retrieve a note from IndexedDB by UUID
    * @param noteUuid - The UUID of the note to retrieve
    * @returns The note or null if not found
    */
-  static getNote(noteUuid: string): Note | null {
+  static async getNote(noteUuid: string): Promise<Note | null> {
     try {
-      const key = `${STORAGE_PREFIX}-${noteUuid}`;
-      const noteData = localStorage.getItem(key);
-      
-      if (!noteData) return null;
-      
-      const parsed = JSON.parse(noteData);
-      return {
-        ...parsed,
-        id: parsed.id || 0,
-        uuid: parsed.uuid,
-        date: new Date(parsed.date),
-        createdAt: new Date(parsed.createdAt),
-        updatedAt: new Date(parsed.updatedAt),
-        userId: parsed.userId || 0, // Default to 0 if not set
-        tags: parsed.tags || [], // Default to empty array if not set
-        isPinned: parsed.isPinned || false, // Default to false if not set
-        // sync properties - restore tracking fields
-        syncVersion: parsed.syncVersion || 1,
-        localVersion: parsed.localVersion || 1,
-        lastSyncedAt: new Date(parsed.lastSyncedAt || parsed.updatedAt || new Date()),
-        clientUpdatedAt: parsed.clientUpdatedAt ? new Date(parsed.clientUpdatedAt) : undefined,
-      };
+      const db = await this.getDatabase();
+      const store = db.transaction(STORES.NOTES, 'readonly').objectStore(STORES.NOTES);
+      const stored = await requestToPromise<StoredNote | undefined>(store.get(noteUuid));
+      return stored ? this.fromStoredNote(stored) : null;
     } catch (error) {
-      console.error('Failed to retrieve note from localStorage:', error);
+      console.error('Failed to retrieve note from IndexedDB:', error);
       return null;
     }
   }
 
   /**
-   * Retrieve all notes from localStorage
+   * Retrieve all notes from IndexedDB
    * @returns Array of all notes
    */
-  static getAllNotes(): Note[] {
+  static async getAllNotes(): Promise<Note[]> {
     try {
-      const noteUuids = this.getNotesList();
-      const notes: Note[] = [];
-      
-      for (const noteUuid of noteUuids) {
-        const note = this.getNote(noteUuid);
-        if (note) {
-          notes.push(note);
-        }
-      }
-      
+      const db = await this.getDatabase();
+      const store = db.transaction(STORES.NOTES, 'readonly').objectStore(STORES.NOTES);
+      const stored = await requestToPromise<StoredNote[]>(store.getAll());
+      const notes = stored.map(record => this.fromStoredNote(record));
+
       // Sort by creation date (newest first)
       return notes.sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
     } catch (error) {
-      console.error('Failed to retrieve all notes from localStorage:', error);
+      console.error('Failed to retrieve all notes from IndexedDB:', error);
       return [];
     }
   }
 
   /**
-   * Delete a note from localStorage
+   * Delete a note from IndexedDB
    * @param noteUuid - The UUID of the note to delete
    */
-  static deleteNote(noteUuid: string): void {
+  static async deleteNote(noteUuid: string): Promise<void> {
     try {
-      const key = `${STORAGE_PREFIX}-${noteUuid}`;
-      localStorage.removeItem(key);
-      
-      // Update the notes list
-      this.updateNotesList(noteUuid, 'remove');
+      const db = await this.getDatabase();
+      const transaction = db.transaction([STORES.NOTES, STORES.NOTE_BASES], 'readwrite');
+      transaction.objectStore(STORES.NOTES).delete(noteUuid);
+      transaction.objectStore(STORES.NOTE_BASES).delete(noteUuid);
+      await transactionToPromise(transaction);
+      TabChannel.notifyNotesChanged([noteUuid]);
     } catch (error) {
-      console.error('Failed to delete note from localStorage:', error);
+      console.error('Failed to delete note from IndexedDB:', error);
     }
   }
 
   /**
-   * Clear all notes from localStorage
+   * Retrieve soft-deleted notes (the trash) using the isDeleted index
+   * @returns Deleted notes, most recently deleted first
    */
-  static clearAllNotes(): void {
+  static async getDeletedNotes(): Promise<Note[]> {
     try {
-      const noteUuids = this.getNotesList();
-      
-      // Remove each note
-      for (const noteUuid of noteUuids) {
-        const key = `${STORAGE_PREFIX}-${noteUuid}`;
-        localStorage.removeItem(key);
-      }
+      const db = await this.getDatabase();
+      const index = db.transaction(STORES.NOTES, 'readonly').objectStore(STORES.NOTES).index(NOTE_INDEXES.IS_DELETED);
+      const stored = await requestToPromise<StoredNote[]>(index.getAll(1));
+      const notes = stored.map(record => this.fromStoredNote(record));
 
+      const deletedTime = (note: Note) => (note.deletedAt || note.updatedAt)?.getTime() || 0;
+      return notes.sort((a, b) => deletedTime(b) - deletedTime(a));
     } catch (error) {
-      console.error('Failed to clear all notes from localStorage:', error);
+      console.error('Failed to retrieve deleted notes from IndexedDB:', error);
+      return [];
     }
   }
 
   /**
-   * Get the list of note UUIDs from localStorage
-   * @returns Array of note UUIDs
+   * Record that a note's deletion reached the server. The note is kept as a
+   * trash entry so it can still be restored, but no longer counts as dirty.
+   * @param noteUuid - The UUID of the deleted note
    */
-  private static getNotesList(): string[] {
+  static async markDeletionSynced(noteUuid: string): Promise<void> {
     try {
-      const listData = localStorage.getItem(NOTES_LIST_KEY);
-      return listData ? JSON.parse(listData) : [];
+      const note = await this.getNote(noteUuid);
+      const db = await this.getDatabase();
+      const transaction = db.transaction([STORES.NOTES, STORES.NOTE_BASES], 'readwrite');
+      if (note) {
+        transaction.objectStore(STORES.NOTES).put(this.toStoredNote({
+          ...note,
+          isDeleted: true,
+          deletedAt: note.deletedAt || new Date(),
+          syncVersion: note.localVersion || 1,
+          lastSyncedAt: new Date(),
+        }));
+      }
+      // The server copy is gone, so there is no base left to merge against
+      transaction.objectStore(STORES.NOTE_BASES).delete(noteUuid);
+      await transactionToPromise(transaction);
+      TabChannel.notifyNotesChanged([noteUuid]);
     } catch (error) {
-      console.error('Failed to get notes list from localStorage:', error);
-      return [];
+      console.error('Failed to mark note deletion as synced in IndexedDB:', error);
     }
   }
 
   /**
-   * Update the notes list in localStorage
-   * @param noteUuid - The note UUID to add or remove
-   * @param action - Whether to add or remove the note UUID
+   * Delete several notes from IndexedDB in a single transaction
+   * @param noteUuids - The UUIDs of the notes to delete
    */
-  private static updateNotesList(noteUuid: string, action: 'add' | 'remove'): void {
+  static async deleteNotes(noteUuids: string[]): Promise<void> {
+    if (noteUuids.length === 0) return;
+
     try {
-      let noteUuids = this.getNotesList();
-      
-      if (action === 'add') {
-        if (!noteUuids.includes(noteUuid)) {
-          noteUuids.push(noteUuid);
-        }
-      } else if (action === 'remove') {
-        noteUuids = noteUuids.filter(uuid => uuid !== noteUuid);
-      }
-      
-      localStorage.setItem(NOTES_LIST_KEY, JSON.stringify(noteUuids));
+      const db = await this.getDatabase();
+      const transaction = db.transaction([STORES.NOTES, STORES.NOTE_BASES], 'readwrite');
+      const notesStore = transaction.objectStore(STORES.NOTES);
+      const basesStore = transaction.objectStore(STORES.NOTE_BASES);
+      noteUuids.forEach(noteUuid => {
+        notesStore.delete(noteUuid);
+        basesStore.delete(noteUuid);
+      });
+      await transactionToPromise(transaction);
+      TabChannel.notifyNotesChanged(noteUuids);
     } catch (error) {
-      console.error('Failed to update notes list in localStorage:', error);
+      console.error('Failed to delete notes from IndexedDB:', error);
     }
   }
 
   /**
-   * Check if localStorage is available
-   * @returns True if localStorage is available
+   * Clear all notes from IndexedDB
    */
-  static isStorageAvailable(): boolean {
+  static async clearAllNotes(): Promise<void> {
     try {
-      const test = '__storage_test__';
-      localStorage.setItem(test, test);
-      localStorage.removeItem(test);
-      return true;
-    } catch {
-      return false;
+      const db = await this.getDatabase();
+      const transaction = db.transaction([STORES.NOTES, STORES.NOTE_BASES], 'readwrite');
+      transaction.objectStore(STORES.NOTES).clear();
+      transaction.objectStore(STORES.NOTE_BASES).clear();
+      await transactionToPromise(transaction);
+      // Without local notes, changes since a cursor are not enough to rebuild them
+      localStorage.removeItem(SYNC_CURSORS_KEY);
+      TabChannel.notifyNotesChanged([]);
+    } catch (error) {
+      console.error('Failed to clear all notes from IndexedDB:', error);
     }
   }
 
+  /**
+   * Check if IndexedDB is available
+   * @returns True if IndexedDB is available
+   */
+  static isStorageAvailable(): boolean {
+    return isIndexedDbAvailable();
+  }
+
   /**
    * Save canvas data to localStorage with note count for the date
    * @param date - The date to save canvas data for
@@ -249,18 +358,126 @@ export class NotesStorage {
   }
 
   /**
-   * Get notes count by date
-   * @param date - The date to count notes for
+   * Save how many days deleted notes stay in the trash before being purged
+   * @param days - Number of days, 0 disables auto-purge
+   */
+  static saveTrashAutoPurgeDays(days: number): void {
+    try {
+      localStorage.setItem(TRASH_AUTO_PURGE_KEY, days.toString());
+    } catch (error) {
+      console.error('Failed to save trash auto-purge setting to localStorage:', error);
+    }
+  }
+
+  /**
+   * Get how many days deleted notes stay in the trash before being purged
+   * @returns Number of days (0 = never) or null if never configured
+   */
+  static getTrashAutoPurgeDays(): number | null {
+    try {
+      const data = localStorage.getItem(TRASH_AUTO_PURGE_KEY);
+      return data !== null ? parseInt(data, 10) : null;
+    } catch (error) {
+      console.error('Failed to get trash auto-purge setting from localStorage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save whether dragged notes snap to the canvas grid
+   * @param enabled - True to snap
+   */
+  static saveSnapToGrid(enabled: boolean): void {
+    try {
+      localStorage.setItem(SNAP_TO_GRID_KEY, JSON.stringify(enabled));
+    } catch (error) {
+      console.error('Failed to save snap to grid setting to localStorage:', error);
+    }
+  }
+
+  /**
+   * Get whether dragged notes snap to the canvas grid
+   * @returns The setting, off by default
+   */
+  static getSnapToGrid(): boolean {
+    try {
+      return localStorage.getItem(SNAP_TO_GRID_KEY) === 'true';
+    } catch (error) {
+      console.error('Failed to get snap to grid setting from localStorage:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Save the keys of reminders that were already delivered, so they are not repeated after a reload
+   * @param keys - Reminder keys
+   */
+  static saveDeliveredReminders(keys: string[]): void {
+    try {
+      localStorage.setItem(DELIVERED_REMINDERS_KEY, JSON.stringify(keys));
+    } catch (error) {
+      console.error('Failed to save delivered reminders to localStorage:', error);
+    }
+  }
+
+  /**
+   * Get the keys of reminders that were already delivered
+   * @returns Reminder keys, empty if none were delivered
+   */
+  static getDeliveredReminders(): string[] {
+    try {
+      const data = localStorage.getItem(DELIVERED_REMINDERS_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Failed to get delivered reminders from localStorage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the delta sync cursor of a user: the highest server syncVersion already stored locally
+   * @param userId - The user the cursor belongs to
+   * @param cursor - The cursor returned by the server
+   */
+  static saveSyncCursor(userId: number, cursor: number): void {
+    try {
+      localStorage.setItem(SYNC_CURSORS_KEY, JSON.stringify({ ...this.getSyncCursors(), [userId]: cursor }));
+    } catch (error) {
+      console.error('Failed to save sync cursor to localStorage:', error);
+    }
+  }
+
+  /**
+   * Get the delta sync cursor of a user
+   * @returns The cursor or null if the user's notes were never fully loaded
+   */
+  static getSyncCursor(userId: number): number | null {
+    return this.getSyncCursors()[userId] ?? null;
+  }
+
+  /**
+   * Forget the delta sync cursor of a user, so the next load is a full resync
+   */
+  static clearSyncCursor(userId: number): void {
+    try {
+      const { [userId]: _removed, ...cursors } = this.getSyncCursors();
+      localStorage.setItem(SYNC_CURSORS_KEY, JSON.stringify(cursors));
+    } catch (error) {
+      console.error('Failed to clear sync cursor in localStorage:', error);
+    }
+  }
+
+  /**
+   * Get notes count by date using the isDeleted and date index. Notes in the
+   * trash stay in the store, so they are left out of the count.
+   * @param date - The date to count notes for (YYYY-MM-DD)
    * @returns Number of notes for the specified date
    */
-  static getNotesCountByDate(date: string): number {
+  static async getNotesCountByDate(date: string): Promise<number> {
     try {
-      const allNotes = this.getAllNotes();
-      const dateKey = date;
-      return allNotes.filter(note => {
-        const noteDate = note.date.toISOString().split('T')[0];
-        return noteDate === dateKey;
-      }).length;
+      const db = await this.getDatabase();
+      const index = db.transaction(STORES.NOTES, 'readonly').objectStore(STORES.NOTES).index(NOTE_INDEXES.IS_DELETED_DATE);
+      return await requestToPromise(index.count(this.getDateKeyRange(date, 0)));
     } catch (error) {
       console.error('Failed to get notes count by date:', error);
       return 0;
@@ -268,54 +485,175 @@ export class NotesStorage {
   }
 
   /**
-   * Force reload all notes from localStorage (fresh read)
-   * This method bypasses any caching and reads directly from localStorage
-   * @returns Array of all notes freshly loaded from localStorage
+   * Get notes for a date using the date index
+   * @param date - The date to get notes for (YYYY-MM-DD)
+   * @returns Notes stored for the specified date
+   */
+  static async getNotesByDate(date: string): Promise<Note[]> {
+    try {
+      const db = await this.getDatabase();
+      const index = db.transaction(STORES.NOTES, 'readonly').objectStore(STORES.NOTES).index(NOTE_INDEXES.DATE);
+      const stored = await requestToPromise<StoredNote[]>(index.getAll(this.getDateKeyRange(date)));
+      return stored.map(record => this.fromStoredNote(record));
+    } catch (error) {
+      console.error('Failed to get notes by date:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Force reload all notes from IndexedDB (fresh read)
+   * This method bypasses any caching and reads directly from IndexedDB
+   * @returns Array of all notes freshly loaded from IndexedDB
+   */
+  static async forceReloadAllNotes(): Promise<Note[]> {
+    try {
+      console.log('Force reloading all notes from IndexedDB...');
+      const notes = await this.getAllNotes();
+      console.log(`Force reloaded ${notes.length} notes from IndexedDB`);
+      return notes;
+    } catch (error) {
+      console.error('Failed to force reload notes from IndexedDB:', error);
+      return [];
+    }
+  }
+
+  private static getSyncCursors(): Record<number, number> {
+    try {
+      const data = localStorage.getItem(SYNC_CURSORS_KEY);
+      return data ? JSON.parse(data) : {};
+    } catch (error) {
+      console.error('Failed to get sync cursors from localStorage:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Open the database and make sure legacy localStorage notes were migrated
+   * @returns The open database
    */
-  static forceReloadAllNotes(): Note[] {
+  private static async getDatabase(): Promise<IDBDatabase> {
+    const db = await openDatabase();
+
+    if (!this.migrationPromise) {
+      this.migrationPromise = this.migrateFromLocalStorage(db);
+    }
+    await this.migrationPromise;
+
+    return db;
+  }
+
+  /**
+   * One-time migration of legacy draggy-notes-<uuid> localStorage keys into IndexedDB.
+   * Legacy keys are removed only after the transaction commits.
+   * @param db - The open database
+   */
+  private static async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
     try {
-      console.log('Force reloading all notes from localStorage...');
-      
-      // Get fresh list of note UUIDs from localStorage
-      const noteUuids = this.getNotesList();
-      const notes: Note[] = [];
-      
-      for (const noteUuid of noteUuids) {
-        // Force fresh read of each note
-        const note = this.getNote(noteUuid);
-        if (note) {
-          notes.push(note);
-        } else {
-          console.warn(`Note ${noteUuid} found in list but not in storage - cleaning up`);
-          // Clean up orphaned UUID from list
-          this.updateNotesList(noteUuid, 'remove');
+      if (localStorage.getItem(MIGRATION_FLAG_KEY) === 'true') return;
+
+      const legacyKeys: string[] = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && LEGACY_NOTE_KEY_PATTERN.test(key)) {
+          legacyKeys.push(key);
         }
       }
-      
-      // Sort by creation date (newest first)
-      const sortedNotes = notes.sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
-      
-      console.log(`Force reloaded ${sortedNotes.length} notes from localStorage`);
-      return sortedNotes;
+
+      if (legacyKeys.length > 0) {
+        const transaction = db.transaction(STORES.NOTES, 'readwrite');
+        const store = transaction.objectStore(STORES.NOTES);
+
+        legacyKeys.forEach(key => {
+          try {
+            const parsed = JSON.parse(localStorage.getItem(key) || 'null');
+            if (parsed && parsed.uuid) {
+              store.put(this.toStoredNote(this.fromStoredNote(parsed)));
+            }
+          } catch (error) {
+            console.warn(`Skipping unreadable legacy note ${key}:`, error);
+          }
+        });
+
+        await transactionToPromise(transaction);
+        legacyKeys.forEach(key => localStorage.removeItem(key));
+        console.log(`Migrated ${legacyKeys.length} notes from localStorage to IndexedDB`);
+      }
+
+      localStorage.removeItem(NOTES_LIST_KEY);
+      localStorage.setItem(MIGRATION_FLAG_KEY, 'true');
     } catch (error) {
-      console.error('Failed to force reload notes from localStorage:', error);
-      return [];
+      // Leave legacy keys in place so the migration is retried on next load
+      console.error('Failed to migrate notes from localStorage to IndexedDB:', error);
+      this.migrationPromise = null;
     }
   }
-}
 
-// Export individual functions for convenience
-export const {
-  saveNote,
-  getNote,
-  getAllNotes,
-  deleteNote,
-  clearAllNotes,
-  isStorageAvailable,
-  saveCanvasData,
-  getCanvasData,
-  saveRecentCanvasDate,
-  getRecentCanvasDate,
-  getNotesCountByDate,
-  forceReloadAllNotes,
-} = NotesStorage;
+  /**
+   * Key range matching every ISO date string that starts with the given day.
+   * With isDeleted, the range is over the [isDeleted, date] index instead.
+   * @param date - The date key (YYYY-MM-DD)
+   * @param isDeleted - Stored isDeleted flag to match (0/1)
+   */
+  private static getDateKeyRange(date: string, isDeleted?: 0 | 1): IDBKeyRange {
+    if (isDeleted === undefined) {
+      return IDBKeyRange.bound(`${date}T`, `${date}T\uffff`);
+    }
+    return IDBKeyRange.bound([isDeleted, `${date}T`], [isDeleted, `${date}T\uffff`]);
+  }
+
+  /**
+   * Convert a note to its persisted shape
+   * @param note - The note to convert
+   */
+  private static toStoredNote(note: Note): StoredNote {
+    return {
+      ...note,
+      id: note.id || 0,
+      uuid: note.uuid,
+      date: note.date.toISOString(),
+      createdAt: note.createdAt?.toISOString() || new Date().toISOString(),
+      updatedAt: note.updatedAt?.toISOString() || new Date().toISOString(),
+      userId: note.userId || 0, // Default to 0 if not set
+      tags: note.tags || [], // Default to empty array if not set
+      isPinned: note.isPinned || false, // Default to false if not set
+      isDeleted: note.isDeleted ? 1 : 0,
+      deletedAt: note.deletedAt?.toISOString() || null,
+      dueDate: note.dueDate?.toISOString() || null,
+      // sync properties - preserve tracking fields
+      syncVersion: note.syncVersion || 1,
+      localVersion: note.localVersion || 1,
+      lastSyncedAt: note.lastSyncedAt?.toISOString() || new Date().toISOString(),
+      clientUpdatedAt: note.clientUpdatedAt?.toISOString(),
+    };
+  }
+
+  /**
+   * Convert a persisted note (or legacy localStorage JSON) back to a Note
+   * @param stored - The persisted record
+   */
+  private static fromStoredNote(stored: StoredNote): Note {
+    return {
+      ...stored,
+      id: stored.id || 0,
+      uuid: stored.uuid,
+      date: new Date(stored.date),
+      createdAt: new Date(stored.createdAt),
+      updatedAt: new Date(stored.updatedAt),
+      userId: stored.userId || 0, // Default to 0 if not set
+      tags: stored.tags || [], // Default to empty array if not set
+      isPinned: stored.isPinned || false, // Default to false if not set
+      isDeleted: Boolean(stored.isDeleted),
+      deletedAt: stored.deletedAt ? new Date(stored.deletedAt) : null,
+      dueDate: stored.dueDate ? new Date(stored.dueDate) : null,
+      width: stored.width ?? null, // Notes stored before resizing existed use the default size
+      height: stored.height ?? null,
+      frameUuid: stored.frameUuid ?? null,
+      // sync properties - restore tracking fields
+      syncVersion: stored.syncVersion || 1,
+      localVersion: stored.localVersion || 1,
+      lastSyncedAt: new Date(stored.lastSyncedAt || stored.updatedAt || new Date()),
+      clientUpdatedAt: stored.clientUpdatedAt ? new Date(stored.clientUpdatedAt) : undefined,
+    };
+  }
+}
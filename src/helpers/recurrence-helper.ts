@@ -0,0 +1,340 @@
+import { Note } from '@/domains/note';
+import { RecurrenceFrequency, RecurrenceRule } from '@/domains/recurrence';
+import { formatDateKey, isSameDay } from './date-helper';
+
+export type RecurrencePreset = 'none' | 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'yearly' | 'custom';
+
+export const WEEKDAY_SHORT_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const RRULE_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly',
+};
+const WORKING_DAYS = [1, 2, 3, 4, 5];
+const RRULE_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Helper function to drop the time of a date
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Helper function to count calendar days between two dates (DST-safe)
+const daysBetween = (from: Date, to: Date): number =>
+  Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / MS_PER_DAY);
+
+// Helper function to convert a YYYY-MM-DD key to the RRULE date form (YYYYMMDD)
+const toRRuleDate = (dateKey: string): string => dateKey.replace(/-/g, '');
+
+// Helper function to convert an RRULE date (YYYYMMDD or YYYYMMDDTHHMMSSZ) to a YYYY-MM-DD key
+const fromRRuleDate = (value: string): string | null => {
+  const match = RRULE_DATE_PATTERN.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+/**
+ * Build the rule for a repeat preset, anchored on the note's first date
+ */
+export const createRecurrenceRule = (preset: RecurrencePreset, startDate: Date): RecurrenceRule | null => {
+  switch (preset) {
+    case 'daily':
+      return { frequency: 'daily', interval: 1 };
+    case 'weekdays':
+      return { frequency: 'weekly', interval: 1, byWeekday: WORKING_DAYS };
+    case 'weekly':
+      return { frequency: 'weekly', interval: 1, byWeekday: [startDate.getDay()] };
+    case 'monthly':
+      return { frequency: 'monthly', interval: 1, byMonthDay: startDate.getDate() };
+    case 'yearly':
+      return { frequency: 'yearly', interval: 1 };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Find the preset a rule corresponds to, or 'custom' for anything else
+ */
+export const getRecurrencePreset = (rule: RecurrenceRule | null | undefined): RecurrencePreset => {
+  if (!rule) return 'none';
+  if (rule.interval !== 1 || (rule.byMonthDay && rule.frequency !== 'monthly')) return 'custom';
+
+  const weekdays = [...(rule.byWeekday || [])].sort();
+  switch (rule.frequency) {
+    case 'daily':
+      return weekdays.length === 0 ? 'daily' : 'custom';
+    case 'weekly':
+      if (weekdays.join() === WORKING_DAYS.join()) return 'weekdays';
+      return 'weekly';
+    case 'monthly':
+      return weekdays.length === 0 ? 'monthly' : 'custom';
+    case 'yearly':
+      return weekdays.length === 0 ? 'yearly' : 'custom';
+  }
+};
+
+/**
+ * Parse an iCalendar recurrence such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10".
+ * An optional "RRULE:" prefix and an "EXDATE:" line with skipped dates are accepted.
+ * @returns The rule, or null if the text is not a supported RRULE
+ */
+export const parseRecurrenceRule = (text: string): RecurrenceRule | null => {
+  let rule: RecurrenceRule | null = null;
+  const exceptions: string[] = [];
+
+  for (const line of text.split(/\r?\n/).map(part => part.trim()).filter(Boolean)) {
+    if (/^EXDATE[:;]/i.test(line)) {
+      line.slice(line.indexOf(':') + 1).split(',').forEach(value => {
+        const dateKey = fromRRuleDate(value);
+        if (dateKey) exceptions.push(dateKey);
+      });
+      continue;
+    }
+
+    const parts: Record<string, string> = {};
+    for (const part of line.replace(/^RRULE:/i, '').split(';')) {
+      const [key, value] = part.split('=');
+      if (!key || value === undefined) return null;
+      parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+    }
+
+    const frequency = RRULE_FREQUENCIES[parts.FREQ];
+    if (!frequency) return null;
+
+    const interval = parts.INTERVAL ? parseInt(parts.INTERVAL, 10) : 1;
+    if (!Number.isInteger(interval) || interval < 1) return null;
+
+    rule = { frequency, interval };
+
+    if (parts.BYDAY) {
+      const weekdays = parts.BYDAY.split(',').map(day => RRULE_WEEKDAYS.indexOf(day));
+      // Ordinal weekdays such as 1MO are not supported
+      if (weekdays.some(day => day === -1)) return null;
+      rule.byWeekday = weekdays;
+    }
+
+    if (parts.BYMONTHDAY) {
+      const monthDay = parseInt(parts.BYMONTHDAY, 10);
+      if (!monthDay || Math.abs(monthDay) > 31) return null;
+      rule.byMonthDay = monthDay;
+    }
+
+    if (parts.UNTIL) {
+      const until = fromRRuleDate(parts.UNTIL);
+      if (!until) return null;
+      rule.until = until;
+    }
+
+    if (parts.COUNT) {
+      const count = parseInt(parts.COUNT, 10);
+      if (!count || count < 1) return null;
+      rule.count = count;
+    }
+  }
+
+  if (rule && exceptions.length > 0) {
+    rule.exceptions = exceptions;
+  }
+  return rule;
+};
+
+/**
+ * Format a rule as iCalendar text (RRULE plus an EXDATE line for skipped dates),
+ * the form sent to the server
+ */
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byWeekday && rule.byWeekday.length > 0) parts.push(`BYDAY=${rule.byWeekday.map(day => RRULE_WEEKDAYS[day]).join(',')}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.until) parts.push(`UNTIL=${toRRuleDate(rule.until)}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+
+  const lines = [`RRULE:${parts.join(';')}`];
+  if (rule.exceptions && rule.exceptions.length > 0) {
+    lines.push(`EXDATE:${rule.exceptions.map(toRRuleDate).join(',')}`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Describe a rule in words, e.g. "Every weekday" or "Every 2 weeks on Mon, Wed, 10 times"
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const every = (single: string, unit: string) => rule.interval === 1 ? single : `Every ${rule.interval} ${unit}`;
+  const weekdays = (rule.byWeekday || []).map(day => WEEKDAY_SHORT_NAMES[day]).join(', ');
+  const onWeekdays = weekdays ? ` on ${weekdays}` : '';
+  let description: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      description = every('Daily', 'days') + onWeekdays;
+      break;
+    case 'weekly':
+      description = getRecurrencePreset(rule) === 'weekdays' ? 'Every weekday' : every('Weekly', 'weeks') + onWeekdays;
+      break;
+    case 'monthly':
+      if (weekdays || !rule.byMonthDay) {
+        description = every('Monthly', 'months') + onWeekdays;
+      } else {
+        const day = rule.byMonthDay === -1 ? 'the last day' : rule.byMonthDay < 0 ? `day ${rule.byMonthDay} from the end` : `day ${rule.byMonthDay}`;
+        description = `${every('Monthly', 'months')} on ${day}`;
+      }
+      break;
+    case 'yearly':
+      description = every('Yearly', 'years');
+      break;
+  }
+
+  if (rule.until) description += `, until ${rule.until}`;
+  if (rule.count) description += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  return description;
+};
+
+// Helper function to check the repeat pattern of a rule, ignoring its end and exceptions
+const matchesPattern = (rule: RecurrenceRule, start: Date, day: Date): boolean => {
+  // The first date is always an occurrence, even if it does not fit the pattern
+  if (isSameDay(start, day)) return true;
+
+  const weekdays = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : null;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return daysBetween(start, day) % rule.interval === 0 &&
+        (!weekdays || weekdays.includes(day.getDay()));
+
+    case 'weekly': {
+      // Weeks start on Sunday, like the calendar
+      const weeks = Math.floor((daysBetween(start, day) + start.getDay()) / 7);
+      return weeks % rule.interval === 0 &&
+        (weekdays || [start.getDay()]).includes(day.getDay());
+    }
+
+    case 'monthly': {
+      const months = (day.getFullYear() - start.getFullYear()) * 12 + day.getMonth() - start.getMonth();
+      if (months % rule.interval !== 0) return false;
+      if (weekdays) return weekdays.includes(day.getDay());
+
+      const monthDay = rule.byMonthDay || start.getDate();
+      const daysInMonth = new Date(day.getFullYear(), day.getMonth() + 1, 0).getDate();
+      return day.getDate() === (monthDay < 0 ? daysInMonth + monthDay + 1 : monthDay);
+    }
+
+    case 'yearly':
+      return (day.getFullYear() - start.getFullYear()) % rule.interval === 0 &&
+        day.getMonth() === start.getMonth() &&
+        day.getDate() === (rule.byMonthDay || start.getDate());
+  }
+};
+
+// Helper function to number an occurrence (1-based) for COUNT limits
+const getOccurrenceNumber = (rule: RecurrenceRule, start: Date, day: Date, limit: number): number => {
+  let number = 0;
+  const current = new Date(start);
+  while (current <= day && number <= limit) {
+    if (matchesPattern(rule, start, current)) number++;
+    current.setDate(current.getDate() + 1);
+  }
+  return number;
+};
+
+/**
+ * Check whether a note shows on a date: its own date, or any occurrence of its repeat rule
+ */
+export const occursOn = (note: Note, date: Date): boolean => {
+  const rule = note.recurrence;
+  if (!rule) return isSameDay(note.date, date);
+
+  const start = startOfDay(note.date);
+  const day = startOfDay(date);
+  if (day < start) return false;
+
+  const dateKey = formatDateKey(day);
+  if (rule.until && dateKey > rule.until) return false;
+  if (rule.exceptions?.includes(dateKey)) return false;
+  if (!matchesPattern(rule, start, day)) return false;
+
+  return !rule.count || getOccurrenceNumber(rule, start, day, rule.count) <= rule.count;
+};
+
+/**
+ * List the dates a note occurs on within a range (inclusive)
+ */
+export const getOccurrenceDates = (note: Note, from: Date, to: Date): Date[] => {
+  const dates: Date[] = [];
+  const current = startOfDay(from < note.date ? note.date : from);
+  const end = startOfDay(to);
+
+  while (current <= end) {
+    if (occursOn(note, current)) dates.push(new Date(current));
+    if (!note.recurrence) break;
+    current.setDate(current.getDate() + 1);
+  }
+  return dates;
+};
+
+/**
+ * The date a displayed note stands for: the occurrence date for repeated instances
+ */
+export const getOccurrenceDate = (note: Note): Date => note.occurrenceDate || note.date;
+
+/**
+ * Build the instance of a recurring note shown on a given date. Task completion
+ * is tracked per occurrence; the first date uses the note's own task state.
+ */
+export const materializeOccurrence = (note: Note, date: Date): Note => {
+  if (!note.recurrence || isSameDay(note.date, date)) return note;
+
+  const completed = new Set(note.occurrenceCompletions?.[formatDateKey(date)] || []);
+  return {
+    ...note,
+    date: startOfDay(date),
+    occurrenceDate: startOfDay(date),
+    noteTasks: (note.noteTasks || []).map(task => ({ ...task, completed: completed.has(task.uuid) })),
+  };
+};
+
+/**
+ * Fold changes made to an occurrence back into its recurring note: edits apply to the
+ * whole series, task completion is recorded for the occurrence date only
+ * @param series - The stored recurring note
+ * @param occurrence - The edited instance from materializeOccurrence
+ */
+export const toSeriesNote = (series: Note, occurrence: Note): Note => {
+  if (!occurrence.occurrenceDate) return occurrence;
+
+  const dateKey = formatDateKey(occurrence.occurrenceDate);
+  const seriesTasks = new Map((series.noteTasks || []).map(task => [task.uuid, task]));
+  const occurrenceTasks = occurrence.noteTasks || [];
+  const completedUuids = occurrenceTasks.filter(task => task.completed).map(task => task.uuid);
+
+  const { [dateKey]: _, ...otherCompletions } = series.occurrenceCompletions || {};
+  const { occurrenceDate: _occurrenceDate, ...fields } = occurrence;
+
+  return {
+    ...fields,
+    date: series.date,
+    // The series keeps the task state of its first date
+    noteTasks: occurrenceTasks.map(task => ({ ...task, completed: seriesTasks.get(task.uuid)?.completed ?? false })),
+    occurrenceCompletions: completedUuids.length > 0
+      ? { ...otherCompletions, [dateKey]: completedUuids }
+      : Object.keys(otherCompletions).length > 0 ? otherCompletions : null,
+  };
+};
+
+/**
+ * Skip the occurrence a displayed note stands for
+ */
+export const skipOccurrence = (note: Note): Note => {
+  if (!note.recurrence) return note;
+
+  const dateKey = formatDateKey(getOccurrenceDate(note));
+  return {
+    ...note,
+    recurrence: {
+      ...note.recurrence,
+      exceptions: [...(note.recurrence.exceptions || []).filter(key => key !== dateKey), dateKey],
+    },
+  };
+};
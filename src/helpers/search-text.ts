@@ -0,0 +1,44 @@
+// Splits text into words: runs of letters and digits in any script
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Helper function to normalize text for search (lowercase, removes diacritics/accents)
+export const normalizeSearchText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .normalize('NFD') // Normalize to decomposed form
+    .replace(/[\u0300-\u036f]/g, ''); // Remove diacritic marks
+};
+
+// Helper function to split text into normalized words
+export const tokenizeSearchText = (text: string): string[] => {
+  return normalizeSearchText(text).match(WORD_PATTERN) || [];
+};
+
+/**
+ * Normalized text plus, for every normalized character, the index of the
+ * original character it came from. Lets matches found in normalized text be
+ * highlighted in the original text even when normalization changes lengths.
+ */
+export interface NormalizedTextMap {
+  normalized: string;
+  sourceIndex: number[];
+}
+
+// Helper function to normalize text while keeping a map back to the original characters
+export const normalizeWithSourceMap = (text: string): NormalizedTextMap => {
+  let normalized = '';
+  const sourceIndex: number[] = [];
+
+  let index = 0;
+  for (const char of text) {
+    const normalizedChar = normalizeSearchText(char);
+    normalized += normalizedChar;
+    for (let i = 0; i < normalizedChar.length; i++) {
+      sourceIndex.push(index);
+    }
+    index += char.length;
+  }
+  sourceIndex.push(index);
+
+  return { normalized, sourceIndex };
+};
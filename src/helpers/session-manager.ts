@@ -1,4 +1,5 @@
 import { AuthUser } from "@/services/api";
+import { v4 as uuidv4 } from 'uuid';
 
 export interface SessionData {
   userInfo: AuthUser;
@@ -10,6 +11,7 @@ export interface SessionData {
 export class SessionManager {
   private static readonly SESSION_KEY = 'draggy_session';
   private static readonly LOGIN_HISTORY_KEY = 'draggy_login_history';
+  private static readonly CLIENT_ID_KEY = 'draggy_client_id';
 
   /**
    * Save session data with user info and token
@@ -106,6 +108,19 @@ export class SessionManager {
     return localStorage.getItem(this.LOGIN_HISTORY_KEY) === 'true';
   }
 
+  /**
+   * Get the id of this browser, sent with API requests so the server can tag its
+   * real-time events with the client that caused them. Kept across sign-ins.
+   */
+  static getClientId(): string {
+    let clientId = localStorage.getItem(this.CLIENT_ID_KEY);
+    if (!clientId) {
+      clientId = uuidv4();
+      localStorage.setItem(this.CLIENT_ID_KEY, clientId);
+    }
+    return clientId;
+  }
+
   /**
    * Update token in existing session
    */
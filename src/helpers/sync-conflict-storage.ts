@@ -0,0 +1,71 @@
+import { NoteConflict } from '@/types/sync.types';
+import { STORES, openDatabase, requestToPromise, transactionToPromise } from './indexed-db';
+
+/**
+ * Helper functions for persisting unresolved note merge conflicts in IndexedDB.
+ * Conflict records hold full Note objects; IndexedDB stores their Date fields natively.
+ */
+export class SyncConflictStorage {
+  /**
+   * Save or replace the conflict record for a note
+   * @param conflict - The conflict to save
+   */
+  static async saveConflict(conflict: NoteConflict): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORES.CONFLICTS, 'readwrite');
+      transaction.objectStore(STORES.CONFLICTS).put(conflict);
+      await transactionToPromise(transaction);
+    } catch (error) {
+      console.error('Failed to save sync conflict to IndexedDB:', error);
+    }
+  }
+
+  /**
+   * Retrieve the conflict record for a note
+   * @param noteUuid - The UUID of the note
+   * @returns The conflict or null if none is recorded
+   */
+  static async getConflict(noteUuid: string): Promise<NoteConflict | null> {
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(STORES.CONFLICTS, 'readonly').objectStore(STORES.CONFLICTS);
+      const conflict = await requestToPromise<NoteConflict | undefined>(store.get(noteUuid));
+      return conflict || null;
+    } catch (error) {
+      console.error('Failed to retrieve sync conflict from IndexedDB:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Retrieve all unresolved conflicts
+   * @returns Conflicts sorted by detection time (newest first)
+   */
+  static async getAllConflicts(): Promise<NoteConflict[]> {
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(STORES.CONFLICTS, 'readonly').objectStore(STORES.CONFLICTS);
+      const conflicts = await requestToPromise<NoteConflict[]>(store.getAll());
+      return conflicts.sort((a, b) => b.detectedAt.getTime() - a.detectedAt.getTime());
+    } catch (error) {
+      console.error('Failed to retrieve sync conflicts from IndexedDB:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove the conflict record for a note
+   * @param noteUuid - The UUID of the note
+   */
+  static async deleteConflict(noteUuid: string): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(STORES.CONFLICTS, 'readwrite');
+      transaction.objectStore(STORES.CONFLICTS).delete(noteUuid);
+      await transactionToPromise(transaction);
+    } catch (error) {
+      console.error('Failed to delete sync conflict from IndexedDB:', error);
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TabEnvelope, TabMessage } from '@/types/sync.types';
+import { TABS } from '@/constants/ui-constants';
+
+type TabMessageHandler = (message: TabMessage) => void;
+type LeadershipHandler = (isLeader: boolean) => void;
+
+/**
+ * Messaging between open tabs of the app, and election of the leader tab that
+ * alone runs background work (sync timer, SignalR, reminders).
+ * Messages go through BroadcastChannel, or through localStorage `storage` events
+ * where BroadcastChannel is unavailable. The leader is the tab holding a Web Lock;
+ * when it closes, the browser hands the lock to the next waiting tab.
+ */
+export class TabChannel {
+  static readonly tabId = uuidv4();
+  private static channel: BroadcastChannel | null = null;
+  private static isInitialized = false;
+  private static isLeaderTab = false;
+  private static messageHandlers: TabMessageHandler[] = [];
+  private static leadershipHandlers: LeadershipHandler[] = [];
+  private static pendingNoteUuids = new Set<string>();
+  private static pendingAllNotes = false;
+  private static changeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Open the channel and join the leader election. Safe to call more than once.
+   */
+  static initialize(): void {
+    if (this.isInitialized || typeof window === 'undefined') return;
+    this.isInitialized = true;
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(TABS.CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<TabEnvelope>) => this.receive(event.data);
+    } else {
+      window.addEventListener('storage', this.handleStorageMessage);
+    }
+
+    // Don't lose batched change notifications when the tab closes
+    window.addEventListener('pagehide', () => this.flushNotesChanged());
+
+    this.requestLeadership();
+  }
+
+  /**
+   * Check whether this tab is the leader
+   */
+  static isLeader(): boolean {
+    return this.isLeaderTab;
+  }
+
+  /**
+   * Send a message to all other tabs
+   */
+  static post(message: TabMessage): void {
+    if (!this.isInitialized) return;
+
+    const envelope: TabEnvelope = { tabId: this.tabId, message };
+    try {
+      if (this.channel) {
+        this.channel.postMessage(envelope);
+      } else {
+        // A unique value makes every message fire a storage event
+        localStorage.setItem(TABS.MESSAGE_STORAGE_KEY, JSON.stringify({ ...envelope, nonce: uuidv4() }));
+      }
+    } catch (error) {
+      console.error('Failed to post message to other tabs:', error);
+    }
+  }
+
+  /**
+   * Tell other tabs that notes were written to local storage.
+   * Notifications are batched briefly so bulk writes send one message.
+   * @param noteUuids - Changed notes; an empty list means all notes may have changed
+   */
+  static notifyNotesChanged(noteUuids: string[]): void {
+    if (!this.isInitialized) return;
+
+    if (noteUuids.length === 0) {
+      this.pendingAllNotes = true;
+    } else {
+      noteUuids.forEach(uuid => this.pendingNoteUuids.add(uuid));
+    }
+
+    if (!this.changeTimer) {
+      this.changeTimer = setTimeout(() => this.flushNotesChanged(), TABS.CHANGE_BATCH_DELAY);
+    }
+  }
+
+  /**
+   * Add handler for messages from other tabs
+   */
+  static addMessageHandler(handler: TabMessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  /**
+   * Remove handler for messages from other tabs
+   */
+  static removeMessageHandler(handler: TabMessageHandler): void {
+    this.messageHandlers = this.messageHandlers.filter(existing => existing !== handler);
+  }
+
+  /**
+   * Add handler called when this tab becomes (or stops being) the leader
+   */
+  static addLeadershipHandler(handler: LeadershipHandler): void {
+    this.leadershipHandlers.push(handler);
+  }
+
+  /**
+   * Remove leadership handler
+   */
+  static removeLeadershipHandler(handler: LeadershipHandler): void {
+    this.leadershipHandlers = this.leadershipHandlers.filter(existing => existing !== handler);
+  }
+
+  private static flushNotesChanged(): void {
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+      this.changeTimer = null;
+    }
+    if (!this.pendingAllNotes && this.pendingNoteUuids.size === 0) return;
+
+    this.post({ type: 'notesChanged', noteUuids: this.pendingAllNotes ? [] : [...this.pendingNoteUuids] });
+    this.pendingNoteUuids.clear();
+    this.pendingAllNotes = false;
+  }
+
+  private static requestLeadership(): void {
+    if (!navigator.locks) {
+      // Without Web Locks every tab runs its own background work, as before
+      this.setLeader(true);
+      return;
+    }
+
+    navigator.locks
+      .request(TABS.LEADER_LOCK_NAME, () => {
+        this.setLeader(true);
+        // Never resolves: the lock is released when the tab closes
+        return new Promise<void>(() => {});
+      })
+      .catch(error => {
+        console.error('Leader election failed, running as leader:', error);
+        this.setLeader(true);
+      });
+  }
+
+  private static setLeader(isLeader: boolean): void {
+    if (this.isLeaderTab === isLeader) return;
+    this.isLeaderTab = isLeader;
+    console.log(isLeader ? `Tab ${this.tabId} is now the leader` : `Tab ${this.tabId} is no longer the leader`);
+
+    this.leadershipHandlers.forEach(handler => {
+      try {
+        handler(isLeader);
+      } catch (error) {
+        console.error('Error in tab leadership handler:', error);
+      }
+    });
+  }
+
+  private static handleStorageMessage = (event: StorageEvent): void => {
+    if (event.key !== TABS.MESSAGE_STORAGE_KEY || !event.newValue) return;
+    try {
+      TabChannel.receive(JSON.parse(event.newValue) as TabEnvelope);
+    } catch (error) {
+      console.error('Failed to read message from another tab:', error);
+    }
+  };
+
+  private static receive(envelope: TabEnvelope): void {
+    if (!envelope || envelope.tabId === this.tabId || !envelope.message) return;
+
+    this.messageHandlers.forEach(handler => {
+      try {
+        handler(envelope.message);
+      } catch (error) {
+        console.error(`Error in tab message handler for ${envelope.message.type}:`, error);
+      }
+    });
+  }
+}
@@ -1,6 +1,10 @@
 import { NoteTask } from '@/domains/noteTask';
 import { v4 as uuidv4 } from 'uuid';
-export const createTask = (text: string, noteId: number | null | undefined): NoteTask => {
+import { TASK_MODE } from '@/constants/ui-constants';
+
+export type TaskDropPlacement = 'before' | 'after';
+
+export const createTask = (text: string, noteId: number | null | undefined, parentUuid: string | null = null): NoteTask => {
   const uuid = uuidv4();
   return {
     id: 0,
@@ -9,6 +13,7 @@ export const createTask = (text: string, noteId: number | null | undefined): Not
     completed: false,
     createdAt: new Date(),
     noteId: noteId || 0,
+    parentUuid,
   };
 };
 
@@ -22,17 +27,223 @@ export const updateTaskText = (task: NoteTask, text: string): NoteTask => ({
   text: text.trim(),
 });
 
+// Helper function to map tasks by UUID
+const toTaskMap = (tasks: NoteTask[]): Map<string, NoteTask> => new Map(tasks.map(task => [task.uuid, task]));
+
+/**
+ * Put tasks in list order: depth-first, each parent followed by its subtasks, siblings by `order`.
+ * Tasks without an order stay after the task before them, subtasks of missing parents
+ * (and parent cycles) move to the top level, and `order` is renumbered 0..n-1.
+ */
+export const sortTasks = (tasks: NoteTask[]): NoteTask[] => {
+  let lastKey = -Infinity;
+  const ordered = tasks
+    .map((task, index) => {
+      lastKey = task.order ?? lastKey;
+      return { task, key: lastKey, index };
+    })
+    .sort((a, b) => a.key - b.key || a.index - b.index)
+    .map(entry => entry.task);
+
+  const known = new Set(ordered.map(task => task.uuid));
+  const childrenByParent = new Map<string | null, NoteTask[]>();
+  ordered.forEach(task => {
+    const parentUuid = task.parentUuid && task.parentUuid !== task.uuid && known.has(task.parentUuid) ? task.parentUuid : null;
+    childrenByParent.set(parentUuid, [...(childrenByParent.get(parentUuid) || []), task]);
+  });
+
+  const result: NoteTask[] = [];
+  const visited = new Set<string>();
+  const visit = (task: NoteTask, parentUuid: string | null) => {
+    if (visited.has(task.uuid)) return;
+    visited.add(task.uuid);
+    result.push((task.order === result.length && (task.parentUuid ?? null) === parentUuid)
+      ? task
+      : { ...task, order: result.length, parentUuid });
+    (childrenByParent.get(task.uuid) || []).forEach(child => visit(child, task.uuid));
+  };
+
+  (childrenByParent.get(null) || []).forEach(task => visit(task, null));
+  // Tasks only reachable through a parent cycle
+  ordered.forEach(task => visit(task, null));
+
+  return result;
+};
+
+/**
+ * Get the nesting level of a task (0 = top level)
+ */
+export const getTaskDepth = (tasks: NoteTask[], taskUuid: string): number => {
+  const taskMap = toTaskMap(tasks);
+  let depth = 0;
+  let parentUuid = taskMap.get(taskUuid)?.parentUuid;
+  while (parentUuid && taskMap.has(parentUuid) && depth < tasks.length) {
+    depth++;
+    parentUuid = taskMap.get(parentUuid)?.parentUuid;
+  }
+  return depth;
+};
+
+/**
+ * Get the direct subtasks of a task, or the top-level tasks for null
+ */
+export const getChildTasks = (tasks: NoteTask[], parentUuid: string | null): NoteTask[] =>
+  tasks.filter(task => (task.parentUuid ?? null) === parentUuid);
+
+/**
+ * Get the UUIDs of all subtasks of a task, at any depth
+ */
+export const getDescendantUuids = (tasks: NoteTask[], taskUuid: string): Set<string> => {
+  const descendants = new Set<string>();
+  const queue = [taskUuid];
+  while (queue.length > 0) {
+    const parentUuid = queue.shift();
+    tasks.forEach(task => {
+      if (task.parentUuid === parentUuid && !descendants.has(task.uuid) && task.uuid !== taskUuid) {
+        descendants.add(task.uuid);
+        queue.push(task.uuid);
+      }
+    });
+  }
+  return descendants;
+};
+
+// Helper function to get how many levels of subtasks a task has below it
+const getSubtreeHeight = (tasks: NoteTask[], taskUuid: string): number => {
+  const depth = getTaskDepth(tasks, taskUuid);
+  return Math.max(0, ...[...getDescendantUuids(tasks, taskUuid)].map(uuid => getTaskDepth(tasks, uuid) - depth));
+};
+
+/**
+ * Make a task a subtask of the sibling above it. Returns the tasks unchanged
+ * when there is no sibling above or the maximum depth would be exceeded.
+ */
+export const indentTask = (tasks: NoteTask[], taskUuid: string): NoteTask[] => {
+  const sorted = sortTasks(tasks);
+  const task = sorted.find(t => t.uuid === taskUuid);
+  if (!task) return sorted;
+
+  const previousSibling = getChildTasks(sorted, task.parentUuid ?? null)
+    .filter(sibling => (sibling.order ?? 0) < (task.order ?? 0))
+    .pop();
+  if (!previousSibling) return sorted;
+  if (getTaskDepth(sorted, previousSibling.uuid) + 1 + getSubtreeHeight(sorted, taskUuid) > TASK_MODE.MAX_SUBTASK_DEPTH) {
+    return sorted;
+  }
+
+  // Becomes the last subtask of the sibling, keeping its own subtasks
+  return sortTasks(sorted.map(t => t.uuid === taskUuid ? { ...t, parentUuid: previousSibling.uuid } : t));
+};
+
+/**
+ * Move a subtask up one level, right after its former parent. Subtasks below it stay with the parent.
+ */
+export const outdentTask = (tasks: NoteTask[], taskUuid: string): NoteTask[] => {
+  const sorted = sortTasks(tasks);
+  const task = sorted.find(t => t.uuid === taskUuid);
+  const parent = task?.parentUuid ? sorted.find(t => t.uuid === task.parentUuid) : undefined;
+  if (!task || !parent) return sorted;
+
+  // Place it after the parent's last subtask
+  const afterParent = Math.max(parent.order ?? 0, ...[...getDescendantUuids(sorted, parent.uuid)]
+    .map(uuid => sorted.find(t => t.uuid === uuid)?.order ?? 0)) + 0.5;
+
+  return sortTasks(sorted.map(t =>
+    t.uuid === taskUuid ? { ...t, parentUuid: parent.parentUuid ?? null, order: afterParent } : t
+  ));
+};
+
+/**
+ * Move a task (with its subtasks) before or after another task, as that task's sibling.
+ * Returns the tasks unchanged for moves into the task's own subtasks or past the maximum depth.
+ */
+export const moveTask = (tasks: NoteTask[], taskUuid: string, targetUuid: string, placement: TaskDropPlacement): NoteTask[] => {
+  const sorted = sortTasks(tasks);
+  const target = sorted.find(t => t.uuid === targetUuid);
+  if (!target || taskUuid === targetUuid || getDescendantUuids(sorted, taskUuid).has(targetUuid)) return sorted;
+  if (getTaskDepth(sorted, targetUuid) + getSubtreeHeight(sorted, taskUuid) > TASK_MODE.MAX_SUBTASK_DEPTH) return sorted;
+
+  // Siblings are ordered by `order`, so half a step puts it right next to the target
+  const order = (target.order ?? 0) + (placement === 'before' ? -0.5 : 0.5);
+  return sortTasks(sorted.map(t =>
+    t.uuid === taskUuid ? { ...t, parentUuid: target.parentUuid ?? null, order } : t
+  ));
+};
+
+/**
+ * Remove a task together with its subtasks
+ */
+export const removeTask = (tasks: NoteTask[], taskUuid: string): NoteTask[] => {
+  const removed = getDescendantUuids(tasks, taskUuid);
+  removed.add(taskUuid);
+  return sortTasks(tasks.filter(task => !removed.has(task.uuid)));
+};
+
+/**
+ * Check or uncheck a task. Its subtasks follow, and parents are checked
+ * exactly when all of their subtasks are.
+ */
+export const setTaskCompleted = (tasks: NoteTask[], taskUuid: string, completed: boolean): NoteTask[] => {
+  const affected = getDescendantUuids(tasks, taskUuid);
+  affected.add(taskUuid);
+  let updated = tasks.map(task => affected.has(task.uuid) && task.completed !== completed ? { ...task, completed } : task);
+
+  // Roll the state up to each ancestor
+  const visited = new Set<string>();
+  let parentUuid = tasks.find(task => task.uuid === taskUuid)?.parentUuid;
+  while (parentUuid && !visited.has(parentUuid)) {
+    visited.add(parentUuid);
+    const children = getChildTasks(updated, parentUuid);
+    const allCompleted = children.length > 0 && children.every(child => child.completed);
+    updated = updated.map(task => task.uuid === parentUuid && task.completed !== allCompleted ? { ...task, completed: allCompleted } : task);
+    parentUuid = updated.find(task => task.uuid === parentUuid)?.parentUuid;
+  }
+
+  return updated;
+};
+
+// Helper function to get how done a task is (0-1): checked tasks count fully,
+// others by the average of their subtasks
+const getTaskCompletion = (tasks: NoteTask[], task: NoteTask, visited: Set<string>): number => {
+  if (task.completed) return 1;
+  if (visited.has(task.uuid)) return 0;
+  visited.add(task.uuid);
+
+  const children = getChildTasks(tasks, task.uuid);
+  if (children.length === 0) return 0;
+  return children.reduce((sum, child) => sum + getTaskCompletion(tasks, child, visited), 0) / children.length;
+};
+
+/**
+ * Get task progress. The percentage rolls up through subtasks: each top-level task
+ * weighs the same, and a partly done parent counts by its subtasks.
+ */
 export const getTaskProgress = (tasks: NoteTask[]): { completed: number; total: number; percentage: number } => {
   const total = tasks.length;
   const completed = tasks.filter(task => task.completed).length;
-  const percentage = total === 0 ? 0 : Math.round((completed / total) * 100);
-  
+  const taskUuids = new Set(tasks.map(task => task.uuid));
+  const roots = tasks.filter(task => !task.parentUuid || !taskUuids.has(task.parentUuid));
+  const visited = new Set<string>();
+  const rolledUp = roots.reduce((sum, task) => sum + getTaskCompletion(tasks, task, visited), 0);
+  const percentage = roots.length === 0 ? 0 : Math.round((rolledUp / roots.length) * 100);
+
   return { completed, total, percentage };
 };
 
+/**
+ * Get how many of a task's subtasks (at any depth) are completed
+ */
+export const getSubtaskProgress = (tasks: NoteTask[], taskUuid: string): { completed: number; total: number } => {
+  const descendants = getDescendantUuids(tasks, taskUuid);
+  return {
+    completed: tasks.filter(task => descendants.has(task.uuid) && task.completed).length,
+    total: descendants.size,
+  };
+};
+
 export const getTaskProgressDisplay = (tasks: NoteTask[]): string => {
   if (!tasks || tasks.length === 0) return 'No tasks';
-  
+
   const { completed, total } = getTaskProgress(tasks);
   return `${completed}/${total} tasks`;
 };
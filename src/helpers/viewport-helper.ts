@@ -0,0 +1,108 @@
+import { Note } from '@/domains/note';
+import { NOTE_CARD, VIEWPORT } from '@/constants/ui-constants';
+
+/**
+ * Canvas viewport: screen offset of the canvas origin and zoom level
+ */
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+/**
+ * Axis-aligned rectangle in canvas coordinates
+ */
+export interface CanvasBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, zoom: VIEWPORT.DEFAULT_ZOOM };
+
+// Helper function to keep zoom within the supported range
+export const clampZoom = (zoom: number): number => {
+  return Math.min(VIEWPORT.MAX_ZOOM, Math.max(VIEWPORT.MIN_ZOOM, zoom));
+};
+
+// Helper function to convert a point relative to the viewport element into canvas coordinates
+export const viewportToCanvasPoint = (viewport: Viewport, point: { x: number; y: number }): { x: number; y: number } => ({
+  x: (point.x - viewport.x) / viewport.zoom,
+  y: (point.y - viewport.y) / viewport.zoom,
+});
+
+// Helper function to zoom around a fixed point (relative to the viewport element)
+export const zoomViewportAt = (viewport: Viewport, zoom: number, anchor: { x: number; y: number }): Viewport => {
+  const nextZoom = clampZoom(zoom);
+  const ratio = nextZoom / viewport.zoom;
+  return {
+    x: anchor.x - (anchor.x - viewport.x) * ratio,
+    y: anchor.y - (anchor.y - viewport.y) * ratio,
+    zoom: nextZoom,
+  };
+};
+
+// Helper function to get the rendered size of a note card, falling back to the minimum card size
+export const getNoteSize = (noteUuid: string): { width: number; height: number } => {
+  const element = document.querySelector<HTMLElement>(`[data-note-uuid="${noteUuid}"]`);
+  return {
+    // offsetWidth/offsetHeight ignore the viewport transform, so they are canvas units
+    width: element?.offsetWidth || NOTE_CARD.DEFAULT_WIDTH,
+    height: element?.offsetHeight || NOTE_CARD.MIN_HEIGHT,
+  };
+};
+
+// Helper function to get the bounding box of notes in canvas coordinates
+export const getNotesBounds = (notes: Note[]): CanvasBounds | null => {
+  if (notes.length === 0) return null;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  notes.forEach(note => {
+    const size = getNoteSize(note.uuid);
+    minX = Math.min(minX, note.position.x);
+    minY = Math.min(minY, note.position.y);
+    maxX = Math.max(maxX, note.position.x + size.width);
+    maxY = Math.max(maxY, note.position.y + size.height);
+  });
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// Helper function to get the smallest box containing both rectangles
+export const unionBounds = (a: CanvasBounds, b: CanvasBounds): CanvasBounds => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+};
+
+// Helper function to compute a viewport showing the whole bounds centered in the visible area
+export const fitBoundsToViewport = (
+  bounds: CanvasBounds,
+  size: { width: number; height: number },
+  padding: number
+): Viewport => {
+  const availableWidth = Math.max(1, size.width - padding * 2);
+  const availableHeight = Math.max(1, size.height - padding * 2);
+  const zoom = clampZoom(Math.min(
+    availableWidth / Math.max(1, bounds.width),
+    availableHeight / Math.max(1, bounds.height),
+    VIEWPORT.FIT_MAX_ZOOM
+  ));
+
+  return {
+    x: (size.width - bounds.width * zoom) / 2 - bounds.x * zoom,
+    y: (size.height - bounds.height * zoom) / 2 - bounds.y * zoom,
+    zoom,
+  };
+};
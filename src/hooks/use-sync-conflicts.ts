@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import { NotesSyncService } from '@/services/notes-sync-service';
+import { ConflictResolution, NoteConflict } from '@/types/sync.types';
+import { SYNC } from '@/constants/ui-constants';
+
+/**
+ * Hook to list unresolved merge conflicts and resolve them
+ */
+export const useSyncConflicts = () => {
+  const [conflicts, setConflicts] = useState<NoteConflict[]>([]);
+  const [isResolving, setIsResolving] = useState(false);
+
+  const refreshConflicts = useCallback(async () => {
+    const storedConflicts = await NotesSyncService.getConflicts();
+    setConflicts(storedConflicts);
+  }, []);
+
+  // Resolve a conflict by picking a side per field
+  const resolveConflict = useCallback(async (conflict: NoteConflict, resolution: ConflictResolution) => {
+    setIsResolving(true);
+    try {
+      await NotesSyncService.resolveConflict(conflict, resolution);
+      await refreshConflicts();
+      return true;
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      return false;
+    } finally {
+      setIsResolving(false);
+    }
+  }, [refreshConflicts]);
+
+  // Resolve a conflict by keeping the local version as a duplicated note
+  const keepBothVersions = useCallback(async (conflict: NoteConflict) => {
+    setIsResolving(true);
+    try {
+      await NotesSyncService.keepBothConflictVersions(conflict);
+      await refreshConflicts();
+      return true;
+    } catch (error) {
+      console.error('Failed to keep both conflict versions:', error);
+      return false;
+    } finally {
+      setIsResolving(false);
+    }
+  }, [refreshConflicts]);
+
+  // Initial load and periodic refresh, since merges happen inside sync runs
+  useEffect(() => {
+    refreshConflicts();
+    const interval = setInterval(refreshConflicts, SYNC.STATUS_UPDATE_INTERVAL);
+    return () => clearInterval(interval);
+  }, [refreshConflicts]);
+
+  // Refresh when notes are reloaded after sync events
+  useEffect(() => {
+    const handleReload = () => {
+      refreshConflicts();
+    };
+
+    NotesSyncService.addRealTimeEventHandler('forceReloadNotes', handleReload);
+    return () => {
+      NotesSyncService.removeRealTimeEventHandler('forceReloadNotes', handleReload);
+    };
+  }, [refreshConflicts]);
+
+  return {
+    conflicts,
+    isResolving,
+    refreshConflicts,
+    resolveConflict,
+    keepBothVersions,
+  };
+};
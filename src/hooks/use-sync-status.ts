@@ -4,6 +4,7 @@ import { QueueManager } from '@/services/sync/queue-manager';
 import { QueueStats, RealTimeSyncStatus } from '@/types/sync.types';
 import { SYNC } from '@/constants/ui-constants';
 import { SessionManager } from '@/helpers/session-manager';
+import { TabChannel } from '@/helpers/tab-channel';
 
 export interface SyncStatus {
   isOnline: boolean;
@@ -12,8 +13,11 @@ export interface SyncStatus {
   lastSyncTime: Date | null;
   primaryQueueCount: number;
   retryQueueCount: number;
+  deadLetterCount: number; // Items the server rejected, waiting for the user
+  isQueuePaused: boolean; // The server refused the session; sync waits for a new sign-in
   syncErrors: string[];
   isTimerActive: boolean;
+  isLeaderTab: boolean; // Whether this tab runs the sync timer and SignalR
   isSyncing: boolean;
   queueStats: QueueStats;
   realTimeStatus: RealTimeSyncStatus;
@@ -30,8 +34,11 @@ export const useSyncStatus = () => {
     lastSyncTime: null,
     primaryQueueCount: SYNC.DEFAULT_QUEUE_STATS.EMPTY_COUNT,
     retryQueueCount: SYNC.DEFAULT_QUEUE_STATS.EMPTY_COUNT,
+    deadLetterCount: SYNC.DEFAULT_QUEUE_STATS.EMPTY_COUNT,
+    isQueuePaused: false,
     syncErrors: [],
     isTimerActive: false,
+    isLeaderTab: false,
     isSyncing: false,
     queueStats: {
       primary: { 
@@ -45,6 +52,12 @@ export const useSyncStatus = () => {
         create: SYNC.DEFAULT_QUEUE_STATS.EMPTY_COUNT, 
         update: SYNC.DEFAULT_QUEUE_STATS.EMPTY_COUNT, 
         delete: SYNC.DEFAULT_QUEUE_STATS.EMPTY_COUNT 
+      },
+      deadLetter: { 
+        total: SYNC.DEFAULT_QUEUE_STATS.EMPTY_COUNT, 
+        create: SYNC.DEFAULT_QUEUE_STATS.EMPTY_COUNT, 
+        update: SYNC.DEFAULT_QUEUE_STATS.EMPTY_COUNT, 
+        delete: SYNC.DEFAULT_QUEUE_STATS.EMPTY_COUNT 
       }
     },
     realTimeStatus: {
@@ -65,7 +78,10 @@ export const useSyncStatus = () => {
       ...prev,
       primaryQueueCount: status.primaryQueueCount,
       retryQueueCount: status.retryQueueCount,
+      deadLetterCount: status.deadLetterCount,
+      isQueuePaused: status.isQueuePaused,
       isTimerActive: status.isTimerActive,
+      isLeaderTab: status.isLeaderTab,
       isSyncing: status.isSyncing,
       isAuthenticated: SessionManager.isAuthenticated(),
       queueStats: status.queueStats,
@@ -109,6 +125,23 @@ export const useSyncStatus = () => {
     }
   }, [updateSyncStatus]);
 
+  // Get the changes the server rejected
+  const getDeadLetterItems = useCallback(() => QueueManager.getDeadLetterQueue(), []);
+
+  // Send a rejected note again
+  const retryDeadLetterItem = useCallback(async (noteUuid: string) => {
+    QueueManager.retryDeadLetterItem(noteUuid);
+    updateSyncStatus();
+    await NotesSyncService.performScheduledSync();
+    updateSyncStatus();
+  }, [updateSyncStatus]);
+
+  // Stop trying to sync a rejected note; it stays on this device
+  const discardDeadLetterItem = useCallback((noteUuid: string) => {
+    QueueManager.removeFromDeadLetterQueue([noteUuid]);
+    updateSyncStatus();
+  }, [updateSyncStatus]);
+
   // Handle authentication changes
   const handleAuthChange = useCallback((isAuthenticated: boolean) => {
     if (isAuthenticated) {
@@ -170,6 +203,23 @@ export const useSyncStatus = () => {
     };
   }, [updateSyncStatus]);
 
+  // Other tabs change the shared queues and the leader may change
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (QueueManager.isQueueStorageKey(event.key)) {
+        updateSyncStatus();
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    TabChannel.addLeadershipHandler(updateSyncStatus);
+
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+      TabChannel.removeLeadershipHandler(updateSyncStatus);
+    };
+  }, [updateSyncStatus]);
+
   // Periodic status updates
   useEffect(() => {
     const interval = setInterval(updateSyncStatus, SYNC.STATUS_UPDATE_INTERVAL);
@@ -192,6 +242,7 @@ export const useSyncStatus = () => {
     NotesSyncService.addRealTimeEventHandler('notesUpdated', handleRealTimeEvent);
     NotesSyncService.addRealTimeEventHandler('notesDeleted', handleRealTimeEvent);
     NotesSyncService.addRealTimeEventHandler('statusUpdated', handleRealTimeEvent);
+    NotesSyncService.addRealTimeEventHandler('backgroundSyncCompleted', handleRealTimeEvent);
 
     return () => {
       // Clean up event handlers
@@ -199,6 +250,7 @@ export const useSyncStatus = () => {
       NotesSyncService.removeRealTimeEventHandler('notesUpdated', handleRealTimeEvent);
       NotesSyncService.removeRealTimeEventHandler('notesDeleted', handleRealTimeEvent);
       NotesSyncService.removeRealTimeEventHandler('statusUpdated', handleRealTimeEvent);
+    NotesSyncService.removeRealTimeEventHandler('backgroundSyncCompleted', handleRealTimeEvent);
     };
   }, [updateSyncStatus]);
 
@@ -217,6 +269,9 @@ export const useSyncStatus = () => {
     checkApiAvailability,
     getQueueItems: QueueManager.getPrimaryQueue,
     getRetryQueueItems: QueueManager.getRetryQueue,
+    getDeadLetterItems,
+    retryDeadLetterItem,
+    discardDeadLetterItem,
     clearAllQueues: QueueManager.clearAllQueues,
     getSignalRStatus
   };
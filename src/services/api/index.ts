@@ -7,6 +7,7 @@ export * from './auth-api';
 // Specific API exports
 export * from './notes-api';
 export * from './tags-api';
+export * from './shares-api';
 
 // Model exports
 export * from './models';
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { ConnectorArrowHead, ConnectorLineStyle } from '@/domains/connector';
+
+// Connector Request Models
+export interface CreateConnectorRequest {
+  uuid: string;
+  userId: number;
+  fromNoteUuid: string;
+  toNoteUuid: string;
+  label?: string | null;
+  lineStyle: ConnectorLineStyle;
+  arrowHead: ConnectorArrowHead;
+  color?: string | null;
+  isDeleted: boolean;
+  // sync properties - send clientUpdatedAt to server for tracking
+  clientUpdatedAt?: string;
+  syncVersion: number;
+  localVersion: number;
+  lastSyncedAt: string; // ISO date string format
+  operationId?: string; // Client operation id
+}
+
+export interface UpdateConnectorRequest extends CreateConnectorRequest {
+  id: number;
+}
+
+export interface DeleteConnectorRequest {
+  id: number;
+  localVersion: number;
+  clientUpdatedAt?: string;
+  operationId?: string;
+}
+
+// Connector Response Models
+export interface ConnectorResponse {
+  id: number;
+  uuid: string;
+  userId: number;
+  fromNoteUuid: string;
+  toNoteUuid: string;
+  label?: string | null;
+  lineStyle: ConnectorLineStyle;
+  arrowHead: ConnectorArrowHead;
+  color?: string | null;
+  isDeleted: boolean;
+  createdAt: string; // ISO date string format
+  updatedAt: string; // ISO date string format
+  // sync properties - received from server
+  syncVersion: number;
+  localVersion: number;
+  lastSyncedAt: string; // ISO date string format
+  clientUpdatedAt?: string;
+}
+
+// Connectors sent in a notes batch request are reported separately from the notes
+export interface ConnectorBatchResult {
+  successful: ConnectorResponse[];
+  failed: ConnectorResponse[];
+}
@@ -0,0 +1,58 @@
+// Frame Request Models
+export interface CreateFrameRequest {
+  uuid: string;
+  userId: number;
+  name: string;
+  color: string;
+  date: string; // ISO date string format
+  position: { x: number; y: number };
+  width: number;
+  height: number;
+  isCollapsed: boolean;
+  isDeleted: boolean;
+  // sync properties - send clientUpdatedAt to server for tracking
+  clientUpdatedAt?: string;
+  syncVersion: number;
+  localVersion: number;
+  lastSyncedAt: string; // ISO date string format
+  operationId?: string; // Client operation id
+}
+
+export interface UpdateFrameRequest extends CreateFrameRequest {
+  id: number;
+}
+
+export interface DeleteFrameRequest {
+  id: number;
+  localVersion: number;
+  clientUpdatedAt?: string;
+  operationId?: string;
+}
+
+// Frame Response Models
+export interface FrameResponse {
+  id: number;
+  uuid: string;
+  userId: number;
+  name: string;
+  color: string;
+  date: string; // ISO date string format
+  position: { x: number; y: number };
+  width: number;
+  height: number;
+  isCollapsed: boolean;
+  isDeleted: boolean;
+  createdAt: string; // ISO date string format
+  updatedAt: string; // ISO date string format
+  // sync properties - received from server
+  syncVersion: number;
+  localVersion: number;
+  lastSyncedAt: string; // ISO date string format
+  clientUpdatedAt?: string;
+}
+
+// Frames sent in a notes batch request are reported separately from the notes
+export interface FrameBatchResult {
+  successful: FrameResponse[];
+  failed: FrameResponse[];
+}
@@ -1,3 +1,6 @@
 export * from './api.model';
 export * from './auth.model';
 export * from './notes.model';
+export * from './connectors.model';
+export * from './frames.model';
+export * from './shares.model';
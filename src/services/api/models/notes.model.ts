@@ -1,3 +1,13 @@
+import { TaskPriority } from '@/domains/noteTask';
+import {
+  ConnectorBatchResult,
+  ConnectorResponse,
+  CreateConnectorRequest,
+  DeleteConnectorRequest,
+  UpdateConnectorRequest
+} from './connectors.model';
+import { CreateFrameRequest, DeleteFrameRequest, FrameBatchResult, FrameResponse, UpdateFrameRequest } from './frames.model';
+
 // Note Request Models
 export interface CreateNotePositionRequest {
   x: number;
@@ -10,6 +20,12 @@ export interface CreateTaskRequest {
   noteId: number;
   text: string | null;
   completed: boolean;
+  dueDate?: string | null; // ISO date string format
+  reminderMinutes?: number | null;
+  order?: number; // Position in the task list
+  parentUuid?: string | null; // Parent task for subtasks
+  priority?: TaskPriority | null;
+  assignee?: string | null;
 }
 
 export interface CreateNoteRequest {
@@ -26,11 +42,19 @@ export interface CreateNoteRequest {
   isPinned: boolean;
   tagNames?: string[] | null;
   isDeleted: boolean;
+  recurrenceRule?: string | null; // iCalendar RRULE plus optional EXDATE line, e.g. "RRULE:FREQ=WEEKLY;BYDAY=MO,WE"
+  occurrenceCompletions?: Record<string, string[]> | null; // Completed task UUIDs per occurrence date (YYYY-MM-DD)
+  dueDate?: string | null; // ISO date string format
+  reminderMinutes?: number | null; // Minutes before dueDate to remind
+  width?: number | null; // Card size in canvas pixels, null = default size
+  height?: number | null;
+  frameUuid?: string | null; // Frame the note belongs to, null = none
   // sync properties - send clientUpdatedAt to server for tracking
   clientUpdatedAt?: string;
   syncVersion: number;
   localVersion: number;
   lastSyncedAt: string; // ISO date string format
+  operationId?: string; // Client operation id - the server applies each operation once, so retries are safe
 }
 
 export interface UpdateNotePositionRequest {
@@ -44,6 +68,12 @@ export interface UpdateTaskRequest {
   noteId: number;
   text: string | null;
   completed: boolean;
+  dueDate?: string | null; // ISO date string format
+  reminderMinutes?: number | null;
+  order?: number; // Position in the task list
+  parentUuid?: string | null; // Parent task for subtasks
+  priority?: TaskPriority | null;
+  assignee?: string | null;
 }
 
 export interface UpdateNoteRequest {
@@ -60,13 +90,30 @@ export interface UpdateNoteRequest {
   isTaskMode: boolean;
   tagNames?: string[] | null;
   isDeleted: boolean;
+  recurrenceRule?: string | null; // iCalendar RRULE plus optional EXDATE line, e.g. "RRULE:FREQ=WEEKLY;BYDAY=MO,WE"
+  occurrenceCompletions?: Record<string, string[]> | null; // Completed task UUIDs per occurrence date (YYYY-MM-DD)
+  dueDate?: string | null; // ISO date string format
+  reminderMinutes?: number | null; // Minutes before dueDate to remind
+  width?: number | null; // Card size in canvas pixels, null = default size
+  height?: number | null;
+  frameUuid?: string | null; // Frame the note belongs to, null = none
   // sync properties - send clientUpdatedAt to server for conflict detection
   clientUpdatedAt?: string;
   syncVersion: number;
   localVersion: number;
   lastSyncedAt: string; // ISO date string format
+  operationId?: string; // Client operation id
 }
 
+type NoteIdentityField = 'id' | 'uuid' | 'userId' | 'clientUpdatedAt' | 'syncVersion' | 'localVersion' | 'lastSyncedAt' | 'operationId';
+
+// Update carrying identity and versions plus only the fields listed in changedFields;
+// without changedFields it is a full UpdateNoteRequest
+export type NotePatchRequest = Pick<UpdateNoteRequest, NoteIdentityField> &
+  Partial<Omit<UpdateNoteRequest, NoteIdentityField>> & {
+    changedFields?: string[];
+  };
+
 export interface GetNoteByIdRequest {
   id: number;
 }
@@ -75,6 +122,7 @@ export interface DeleteNoteRequest {
   id: number;
   localVersion: number;
   clientUpdatedAt?: string;
+  operationId?: string;
 }
 
 export interface DuplicateNoteRequest {
@@ -85,20 +133,32 @@ export interface GetNotesByColorRequest {
   color: string | null;
 }
 
+export interface GetNoteChangesRequest {
+  since: number; // Sync cursor from the previous response
+  limit?: number; // Page size
+}
+
 export interface SearchNotesRequest {
   q: string | null;
 }
 
+// Batch requests carry connectors and frames queued with the notes; their results come back in `connectors` and `frames`
 export interface BatchDeleteRequest {
   notes: DeleteNoteRequest[];
+  connectors?: DeleteConnectorRequest[];
+  frames?: DeleteFrameRequest[];
 }
 
 export interface BatchCreateRequest {
   notes: CreateNoteRequest[];
+  connectors?: CreateConnectorRequest[];
+  frames?: CreateFrameRequest[];
 }
 
 export interface BatchUpdateRequest {
-  notes: UpdateNoteRequest[];
+  notes: NotePatchRequest[];
+  connectors?: UpdateConnectorRequest[];
+  frames?: UpdateFrameRequest[];
 }
 
 export interface BatchResponse<T> {
@@ -130,6 +190,8 @@ export interface BatchSyncResult {
   failed: NoteResponse[];
   errors: string[];
   conflicts: SyncConflict[];
+  connectors?: ConnectorBatchResult;
+  frames?: FrameBatchResult;
   processingTimeMs: number;
 }
 
@@ -145,6 +207,12 @@ export interface TaskResponse {
   noteId: number;
   text: string;
   completed: boolean;
+  dueDate?: string | null; // ISO date string format
+  reminderMinutes?: number | null;
+  order?: number; // Position in the task list
+  parentUuid?: string | null; // Parent task for subtasks
+  priority?: TaskPriority | null;
+  assignee?: string | null;
   createdAt: string; // ISO date string format
 }
 
@@ -174,6 +242,13 @@ export interface NoteResponse {
   isTaskMode: boolean;
   tags?: TagResponse[] | null;
   isDeleted: boolean;
+  recurrenceRule?: string | null; // iCalendar RRULE plus optional EXDATE line, e.g. "RRULE:FREQ=WEEKLY;BYDAY=MO,WE"
+  occurrenceCompletions?: Record<string, string[]> | null; // Completed task UUIDs per occurrence date (YYYY-MM-DD)
+  dueDate?: string | null; // ISO date string format
+  reminderMinutes?: number | null; // Minutes before dueDate to remind
+  width?: number | null; // Card size in canvas pixels, null = default size
+  height?: number | null;
+  frameUuid?: string | null; // Frame the note belongs to, null = none
   // sync properties - received from server
   syncVersion: number;
   localVersion: number;
@@ -181,6 +256,25 @@ export interface NoteResponse {
   clientUpdatedAt?: string;
 }
 
+// Delta sync response models
+export interface NoteTombstoneResponse {
+  id: number;
+  uuid: string;
+  syncVersion: number;
+  deletedAt: string; // ISO date string format
+}
+
+export interface NoteChangesResponse {
+  notes: NoteResponse[]; // Notes created or updated since the cursor
+  tombstones: NoteTombstoneResponse[]; // Notes deleted since the cursor
+  connectors?: ConnectorResponse[]; // Connectors created or updated since the cursor
+  connectorTombstones?: NoteTombstoneResponse[]; // Connectors deleted since the cursor
+  frames?: FrameResponse[]; // Frames created or updated since the cursor
+  frameTombstones?: NoteTombstoneResponse[]; // Frames deleted since the cursor
+  cursor: number; // Highest syncVersion included, to send as `since` next time
+  hasMore: boolean; // More changes remain after this page
+}
+
 // Health Response Models
 export interface HealthResponse {
   status: string | null;
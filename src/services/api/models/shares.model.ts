@@ -0,0 +1,15 @@
+import { CanvasRole, CanvasScope } from '@/types/collaboration.types';
+
+// Canvas Share Request Models
+export interface CreateCanvasShareRequest {
+  scope: CanvasScope;
+}
+
+export interface AddCanvasMemberRequest {
+  email: string;
+  role: CanvasRole;
+}
+
+export interface UpdateCanvasMemberRequest {
+  role: CanvasRole;
+}
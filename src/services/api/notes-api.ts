@@ -10,6 +10,8 @@ import {
   DuplicateNoteRequest,
   GetNotesByColorRequest,
   SearchNotesRequest,
+  GetNoteChangesRequest,
+  NoteChangesResponse,
   BatchDeleteRequest,
   BatchCreateRequest,
   BatchUpdateRequest,
@@ -17,6 +19,8 @@ import {
   NoteResponse,
   HealthResponse
 } from './models/notes.model';
+import { ConnectorResponse } from './models/connectors.model';
+import { FrameResponse } from './models/frames.model';
 
 // Notes API service
 class NotesApi {
@@ -33,6 +37,7 @@ class NotesApi {
     const config: RequestInit = {
       headers: {
         'Content-Type': 'application/json',
+        [API.CLIENT_ID_HEADER]: SessionManager.getClientId(),
         ...(token && { 'Authorization': `Bearer ${token}` }),
         ...options.headers,
       },
@@ -70,6 +75,39 @@ class NotesApi {
     return response.data || [];
   }
 
+  // GET /api/notes/connectors - Fetch all connectors between the user's notes
+  async getAllConnectors(): Promise<ConnectorResponse[]> {
+    const response = await this.makeRequest<ConnectorResponse[]>(`${this.basePath}/connectors`, {
+      method: 'GET'
+    });
+    return response.data || [];
+  }
+
+  // GET /api/notes/frames - Fetch all frames of the user's canvases
+  async getAllFrames(): Promise<FrameResponse[]> {
+    const response = await this.makeRequest<FrameResponse[]>(`${this.basePath}/frames`, {
+      method: 'GET'
+    });
+    return response.data || [];
+  }
+
+  // GET /api/notes/changes - Fetch notes changed since a sync cursor, deletions included.
+  // The server answers 410 Gone when it no longer has the changes since that cursor.
+  async getNoteChanges(request: GetNoteChangesRequest): Promise<NoteChangesResponse> {
+    const queryParams = new URLSearchParams({ since: request.since.toString() });
+    if (request.limit) {
+      queryParams.append('limit', request.limit.toString());
+    }
+
+    const response = await this.makeRequest<NoteChangesResponse>(`${this.basePath}/changes?${queryParams}`, {
+      method: 'GET'
+    });
+    if (!response.data) {
+      throw new ApiError('No data returned from note changes', API.STATUS_CODES.INTERNAL_SERVER_ERROR);
+    }
+    return response.data;
+  }
+
   // POST /api/notes - Create a new note
   async createNote(noteData: CreateNoteRequest): Promise<NoteResponse> {
     const response = await this.makeRequest<NoteResponse>(this.basePath, {
@@ -146,6 +184,11 @@ class NotesApi {
     return response.data || [];
   }
 
+  // Full URL of the batch endpoints, for requests sent by the service worker
+  getBatchUrl(): string {
+    return `${API_CONFIG.BASE_URL}${this.basePath}/batch`;
+  }
+
   // POST /api/notes/batch - Batch create notes
   async batchCreateNotes(request: BatchCreateRequest): Promise<BatchSyncResult> {
     const response = await this.makeRequest<BatchSyncResult>(`${this.basePath}/batch`, {
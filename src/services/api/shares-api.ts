@@ -0,0 +1,160 @@
+import { API_CONFIG } from '@/config/api';
+import { SessionManager } from '@/helpers/session-manager';
+import { ApiError, ApiResponse } from './models/api.model';
+import { API } from '@/constants/ui-constants';
+import { CanvasShare } from '@/types/collaboration.types';
+import { NotePatchRequest, NoteResponse } from './models/notes.model';
+import {
+  CreateCanvasShareRequest,
+  AddCanvasMemberRequest,
+  UpdateCanvasMemberRequest
+} from './models/shares.model';
+
+// Canvas shares API service
+class SharesApi {
+  private readonly basePath = '/api/canvas-shares';
+
+  // Helper method to make authenticated API requests
+  private async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> {
+    const token = SessionManager.getToken();
+    const url = `${API_CONFIG.BASE_URL}${endpoint}`;
+
+    const config: RequestInit = {
+      headers: {
+        'Content-Type': 'application/json',
+        [API.CLIENT_ID_HEADER]: SessionManager.getClientId(),
+        ...(token && { 'Authorization': `Bearer ${token}` }),
+        ...options.headers,
+      },
+      ...options,
+    };
+
+    try {
+      const response = await fetch(url, config);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new ApiError(
+          errorData.message || `API Error: ${response.status} ${response.statusText}`,
+          response.status,
+          errorData.code,
+          errorData.details
+        );
+      }
+
+      // DELETE answers 204 No Content
+      if (response.status === API.STATUS_CODES.NO_CONTENT) {
+        return { success: true, message: null, data: undefined as T, errors: null };
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      console.error('API Request failed:', error);
+      throw new ApiError('Network error occurred', API.STATUS_CODES.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  // GET /api/canvas-shares - Get the shares the user owns
+  async getOwnedShares(): Promise<CanvasShare[]> {
+    const response = await this.makeRequest<CanvasShare[]>(this.basePath);
+    return response.data || [];
+  }
+
+  // GET /api/canvas-shares/shared-with-me - Get the canvases teammates shared with the user
+  async getSharedWithMe(): Promise<CanvasShare[]> {
+    const response = await this.makeRequest<CanvasShare[]>(`${this.basePath}/shared-with-me`);
+    return response.data || [];
+  }
+
+  // POST /api/canvas-shares - Share a date canvas or a tag board
+  async createShare(request: CreateCanvasShareRequest): Promise<CanvasShare> {
+    const response = await this.makeRequest<CanvasShare>(this.basePath, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+
+    if (!response.data) {
+      throw new ApiError('No data returned from create share request', API.STATUS_CODES.INTERNAL_SERVER_ERROR);
+    }
+
+    return response.data;
+  }
+
+  // DELETE /api/canvas-shares/{id} - Stop sharing; members lose access at once
+  async deleteShare(shareId: string): Promise<void> {
+    await this.makeRequest<void>(`${this.basePath}/${shareId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // POST /api/canvas-shares/{id}/members - Invite a teammate by email
+  async addMember(shareId: string, request: AddCanvasMemberRequest): Promise<CanvasShare> {
+    const response = await this.makeRequest<CanvasShare>(`${this.basePath}/${shareId}/members`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+
+    if (!response.data) {
+      throw new ApiError('No data returned from add member request', API.STATUS_CODES.INTERNAL_SERVER_ERROR);
+    }
+
+    return response.data;
+  }
+
+  // PUT /api/canvas-shares/{id}/members/{userId} - Change a member's role
+  async updateMember(shareId: string, userId: number, request: UpdateCanvasMemberRequest): Promise<CanvasShare> {
+    const response = await this.makeRequest<CanvasShare>(`${this.basePath}/${shareId}/members/${userId}`, {
+      method: 'PUT',
+      body: JSON.stringify(request),
+    });
+
+    if (!response.data) {
+      throw new ApiError('No data returned from update member request', API.STATUS_CODES.INTERNAL_SERVER_ERROR);
+    }
+
+    return response.data;
+  }
+
+  // DELETE /api/canvas-shares/{id}/members/{userId} - Remove a member
+  async removeMember(shareId: string, userId: number): Promise<CanvasShare> {
+    const response = await this.makeRequest<CanvasShare>(`${this.basePath}/${shareId}/members/${userId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.data) {
+      throw new ApiError('No data returned from remove member request', API.STATUS_CODES.INTERNAL_SERVER_ERROR);
+    }
+
+    return response.data;
+  }
+
+  // GET /api/canvas-shares/{id}/notes - Get the owner's notes in the shared canvas
+  async getSharedNotes(shareId: string): Promise<NoteResponse[]> {
+    const response = await this.makeRequest<NoteResponse[]>(`${this.basePath}/${shareId}/notes`);
+    return response.data || [];
+  }
+
+  // PATCH /api/canvas-shares/{id}/notes/{noteId} - Edit a note of the shared canvas (editors only).
+  // The server answers 409 Conflict when the note changed since the given syncVersion.
+  async updateSharedNote(shareId: string, request: NotePatchRequest): Promise<NoteResponse> {
+    const response = await this.makeRequest<NoteResponse>(`${this.basePath}/${shareId}/notes/${request.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(request),
+    });
+
+    if (!response.data) {
+      throw new ApiError('No data returned from update shared note request', API.STATUS_CODES.INTERNAL_SERVER_ERROR);
+    }
+
+    return response.data;
+  }
+}
+
+// Export singleton instance
+export const sharesApi = new SharesApi();
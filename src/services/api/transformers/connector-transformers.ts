@@ -0,0 +1,60 @@
+import { Connector } from '@/domains/connector';
+import { API } from '@/constants/ui-constants';
+import { ConnectorResponse, CreateConnectorRequest, UpdateConnectorRequest } from '../models/connectors.model';
+
+/**
+ * Transform API ConnectorResponse to domain Connector model
+ */
+export function transformConnectorResponseToConnector(response: ConnectorResponse): Connector {
+  return {
+    id: response.id,
+    uuid: response.uuid,
+    userId: response.userId || 0,
+    fromNoteUuid: response.fromNoteUuid,
+    toNoteUuid: response.toNoteUuid,
+    label: response.label ?? null,
+    lineStyle: response.lineStyle || 'solid',
+    arrowHead: response.arrowHead || 'end',
+    color: response.color ?? null,
+    isDeleted: response.isDeleted || false,
+    createdAt: new Date(response.createdAt),
+    updatedAt: new Date(response.updatedAt),
+    // sync properties - received from server
+    syncVersion: response.syncVersion || 1,
+    localVersion: response.localVersion || response.syncVersion || 1,
+    lastSyncedAt: new Date(response.lastSyncedAt || response.updatedAt),
+    clientUpdatedAt: response.clientUpdatedAt ? new Date(response.clientUpdatedAt) : undefined
+  };
+}
+
+/**
+ * Transform domain Connector model to API CreateConnectorRequest
+ */
+export function transformConnectorToCreateRequest(connector: Connector): CreateConnectorRequest {
+  return {
+    uuid: connector.uuid,
+    userId: connector.userId,
+    fromNoteUuid: connector.fromNoteUuid,
+    toNoteUuid: connector.toNoteUuid,
+    label: connector.label ?? null,
+    lineStyle: connector.lineStyle,
+    arrowHead: connector.arrowHead,
+    color: connector.color ?? null,
+    isDeleted: connector.isDeleted,
+    // sync properties - send clientUpdatedAt to server for tracking
+    clientUpdatedAt: connector.clientUpdatedAt?.toISOString(),
+    syncVersion: connector.syncVersion,
+    localVersion: connector.localVersion,
+    lastSyncedAt: connector.lastSyncedAt.toISOString()
+  };
+}
+
+/**
+ * Transform domain Connector model to API UpdateConnectorRequest
+ */
+export function transformConnectorToUpdateRequest(connector: Connector): UpdateConnectorRequest {
+  return {
+    ...transformConnectorToCreateRequest(connector),
+    id: connector.id || API.DEFAULT_IDS.NEW_ENTITY
+  };
+}
@@ -0,0 +1,68 @@
+import { Frame } from '@/domains/frame';
+import { API } from '@/constants/ui-constants';
+import { CreateFrameRequest, FrameResponse, UpdateFrameRequest } from '../models/frames.model';
+
+/**
+ * Transform API FrameResponse to domain Frame model
+ */
+export function transformFrameResponseToFrame(response: FrameResponse): Frame {
+  return {
+    id: response.id,
+    uuid: response.uuid,
+    userId: response.userId || 0,
+    name: response.name,
+    color: response.color,
+    date: new Date(response.date),
+    position: {
+      x: response.position.x,
+      y: response.position.y
+    },
+    width: response.width,
+    height: response.height,
+    isCollapsed: response.isCollapsed || false,
+    isDeleted: response.isDeleted || false,
+    createdAt: new Date(response.createdAt),
+    updatedAt: new Date(response.updatedAt),
+    // sync properties - received from server
+    syncVersion: response.syncVersion || 1,
+    localVersion: response.localVersion || response.syncVersion || 1,
+    lastSyncedAt: new Date(response.lastSyncedAt || response.updatedAt),
+    clientUpdatedAt: response.clientUpdatedAt ? new Date(response.clientUpdatedAt) : undefined
+  };
+}
+
+/**
+ * Transform domain Frame model to API CreateFrameRequest
+ */
+export function transformFrameToCreateRequest(frame: Frame): CreateFrameRequest {
+  return {
+    uuid: frame.uuid,
+    userId: frame.userId,
+    name: frame.name,
+    color: frame.color,
+    date: frame.date.toISOString(),
+    position: {
+      x: frame.position.x,
+      y: frame.position.y
+    },
+    width: frame.width,
+    height: frame.height,
+    isCollapsed: frame.isCollapsed,
+    isDeleted: frame.isDeleted,
+    // sync properties - send clientUpdatedAt to server for tracking
+    clientUpdatedAt: frame.clientUpdatedAt?.toISOString(),
+    syncVersion: frame.syncVersion,
+    localVersion: frame.localVersion,
+    lastSyncedAt: frame.lastSyncedAt.toISOString()
+  };
+}
+
+/**
+ * Transform domain Frame model to API UpdateFrameRequest
+ */
+export function transformFrameToUpdateRequest(frame: Frame): UpdateFrameRequest {
+  return {
+    ...transformFrameToCreateRequest(frame),
+    id: frame.id || API.DEFAULT_IDS.NEW_ENTITY
+  };
+}
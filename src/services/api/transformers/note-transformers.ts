@@ -2,10 +2,14 @@ import { Note } from '@/domains/note';
 import { API } from '@/constants/ui-constants';
 import { NoteTask } from '@/domains/noteTask';
 import { Tag } from '@/domains/tag';
+import { formatRecurrenceRule, parseRecurrenceRule } from '@/helpers/recurrence-helper';
+import { sortTasks } from '@/helpers/task-manager';
+import { NoteSyncField } from '@/types/sync.types';
 import { 
   NoteResponse, 
   CreateNoteRequest, 
   UpdateNoteRequest, 
+  NotePatchRequest,
   TaskResponse, 
   TagResponse,
   CreateTaskRequest,
@@ -16,10 +20,11 @@ import {
  * Transform API NoteResponse to domain Note model
  */
 export function transformNoteResponseToNote(response: NoteResponse): Note {
-  const transformedTasks = response.tasks ? response.tasks.map(task => ({
+  // Tasks are listed by their persisted order, parents before their subtasks
+  const transformedTasks = response.tasks ? sortTasks(response.tasks.map(task => ({
     ...transformTaskResponseToNoteTask(task),
     noteId: response.id // Set the note ID for each task
-  })) : [];
+  }))) : [];
 
   return {
     id: response.id,
@@ -41,6 +46,15 @@ export function transformNoteResponseToNote(response: NoteResponse): Note {
     noteTasks: transformedTasks,
     tags: response.tags ? response.tags.map(transformTagResponseToTag) : null,
     isDeleted: response.isDeleted || false,
+    recurrence: response.recurrenceRule ? parseRecurrenceRule(response.recurrenceRule) : null,
+    occurrenceCompletions: response.occurrenceCompletions && Object.keys(response.occurrenceCompletions).length > 0
+      ? response.occurrenceCompletions
+      : null,
+    dueDate: response.dueDate ? new Date(response.dueDate) : null,
+    reminderMinutes: response.reminderMinutes ?? null,
+    width: response.width ?? null,
+    height: response.height ?? null,
+    frameUuid: response.frameUuid ?? null,
     // sync properties - received from server
     syncVersion: (response as any).syncVersion || 1,
     localVersion: (response as any).localVersion || 1,
@@ -70,6 +84,13 @@ export function transformNoteToCreateRequest(note: Note): CreateNoteRequest {
     isPinned: note.isPinned || false,
     tagNames: note.tags ? note.tags.map(tag => tag.name) : null,
     isDeleted: note.isDeleted || false,
+    recurrenceRule: note.recurrence ? formatRecurrenceRule(note.recurrence) : null,
+    occurrenceCompletions: note.occurrenceCompletions || null,
+    dueDate: note.dueDate?.toISOString() || null,
+    reminderMinutes: note.reminderMinutes ?? null,
+    width: note.width ?? null,
+    height: note.height ?? null,
+    frameUuid: note.frameUuid ?? null,
     // sync properties - send clientUpdatedAt to server for tracking
     clientUpdatedAt: note.clientUpdatedAt?.toISOString(),
     syncVersion: note.syncVersion,
@@ -99,6 +120,13 @@ export function transformNoteToUpdateRequest(note: Note): UpdateNoteRequest {
     isTaskMode: note.isTaskMode || false,
     tagNames: note.tags ? note.tags.map(tag => tag.name) : null,
     isDeleted: note.isDeleted,
+    recurrenceRule: note.recurrence ? formatRecurrenceRule(note.recurrence) : null,
+    occurrenceCompletions: note.occurrenceCompletions || null,
+    dueDate: note.dueDate?.toISOString() || null,
+    reminderMinutes: note.reminderMinutes ?? null,
+    width: note.width ?? null,
+    height: note.height ?? null,
+    frameUuid: note.frameUuid ?? null,
     // sync properties - send clientUpdatedAt to server for conflict detection
     clientUpdatedAt: note.clientUpdatedAt?.toISOString(),
     syncVersion: note.syncVersion,
@@ -107,6 +135,51 @@ export function transformNoteToUpdateRequest(note: Note): UpdateNoteRequest {
   }
 }
 
+// Request fields carrying each note field; fields the server does not store (isPinned) have none
+const PATCH_REQUEST_FIELDS: Record<NoteSyncField, (keyof UpdateNoteRequest)[]> = {
+  title: ['title'],
+  content: ['content'],
+  date: ['date'],
+  color: ['color'],
+  position: ['position'],
+  isPinned: [],
+  isDisplayed: ['isDisplayed'],
+  isTaskMode: ['isTaskMode'],
+  isDeleted: ['isDeleted'],
+  recurrence: ['recurrenceRule'],
+  occurrenceCompletions: ['occurrenceCompletions'],
+  dueDate: ['dueDate'],
+  reminderMinutes: ['reminderMinutes'],
+  width: ['width'],
+  height: ['height'],
+  frameUuid: ['frameUuid'],
+  tags: ['tagNames'],
+  tasks: ['tasks']
+};
+
+/**
+ * Transform domain Note model to an API NotePatchRequest with only the given fields
+ */
+export function transformNoteToPatchRequest(note: Note, fields: NoteSyncField[]): NotePatchRequest {
+  const full = transformNoteToUpdateRequest(note);
+  const changedFields = [...new Set(fields.flatMap(field => PATCH_REQUEST_FIELDS[field]))];
+  const patch: NotePatchRequest = {
+    id: full.id,
+    uuid: full.uuid,
+    userId: full.userId,
+    clientUpdatedAt: full.clientUpdatedAt,
+    syncVersion: full.syncVersion,
+    localVersion: full.localVersion,
+    lastSyncedAt: full.lastSyncedAt,
+    changedFields
+  };
+
+  changedFields.forEach(field => {
+    (patch as unknown as Record<string, unknown>)[field] = full[field];
+  });
+  return patch;
+}
+
 /**
  * Transform API TaskResponse to domain NoteTask model
  */
@@ -117,6 +190,12 @@ export function transformTaskResponseToNoteTask(response: TaskResponse): NoteTas
     noteId: response.noteId,
     text: response.text,
     completed: response.completed,
+    dueDate: response.dueDate ? new Date(response.dueDate) : null,
+    reminderMinutes: response.reminderMinutes ?? null,
+    order: response.order,
+    parentUuid: response.parentUuid ?? null,
+    priority: response.priority ?? null,
+    assignee: response.assignee ?? null,
     createdAt: new Date(response.createdAt),
     updatedAt: new Date(response.createdAt), // Use createdAt as fallback
   };
@@ -131,6 +210,12 @@ export function transformNoteTaskToCreateRequest(task: NoteTask): CreateTaskRequ
     uuid: task.uuid,
     text: task.text,
     completed: task.completed,
+    dueDate: task.dueDate?.toISOString() || null,
+    reminderMinutes: task.reminderMinutes ?? null,
+    order: task.order,
+    parentUuid: task.parentUuid ?? null,
+    priority: task.priority ?? null,
+    assignee: task.assignee ?? null,
     noteId: task.noteId
   };
 }
@@ -144,7 +229,13 @@ export function transformNoteTaskToUpdateRequest(task: NoteTask): UpdateTaskRequ
     uuid: task.uuid,
     noteId: task.noteId,
     text: task.text,
-    completed: task.completed
+    completed: task.completed,
+    dueDate: task.dueDate?.toISOString() || null,
+    reminderMinutes: task.reminderMinutes ?? null,
+    order: task.order,
+    parentUuid: task.parentUuid ?? null,
+    priority: task.priority ?? null,
+    assignee: task.assignee ?? null
   };
 }
 
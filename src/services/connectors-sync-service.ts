@@ -0,0 +1,265 @@
+import { Connector } from '@/domains/connector';
+import { ConnectorStorage } from '@/helpers/connector-storage';
+import { NotesStorage } from '@/helpers/notes-storage';
+import { SessionManager } from '@/helpers/session-manager';
+import { NoteTombstoneResponse } from './api/models/notes.model';
+import { QueueManager } from './sync/queue-manager';
+import { API } from '@/constants/ui-constants';
+
+type ConnectorChangeHandler = () => void;
+
+/**
+ * Service that keeps connectors in IndexedDB and queues their changes. Connectors
+ * share the sync queue and batch requests with notes, and follow their notes into
+ * and out of the trash.
+ */
+export class ConnectorsSyncService {
+  private static changeHandlers: ConnectorChangeHandler[] = [];
+
+  /**
+   * Get the connectors shown on the canvas
+   */
+  static async getConnectors(): Promise<Connector[]> {
+    const connectors = await ConnectorStorage.getAllConnectors();
+    return connectors.filter(connector => !connector.isDeleted);
+  }
+
+  /**
+   * Create a connector with precheck and queue management
+   */
+  static async createConnector(connector: Connector): Promise<Connector> {
+    const connectorToSave = this.withCurrentUser(connector);
+
+    // Always save to local storage first
+    await ConnectorStorage.saveConnector(connectorToSave);
+
+    if (this.isAuthenticated()) {
+      await QueueManager.addToQueue(connectorToSave.uuid, 'create', undefined, 'connector');
+    }
+
+    this.notifyChangeHandlers();
+    return connectorToSave;
+  }
+
+  /**
+   * Update a connector with precheck and queue management
+   */
+  static async updateConnector(connector: Connector): Promise<Connector> {
+    const connectorToSave = this.withCurrentUser(connector);
+
+    // Always save to local storage first
+    await ConnectorStorage.saveConnector(connectorToSave);
+
+    if (this.isAuthenticated()) {
+      await QueueManager.addToQueue(connectorToSave.uuid, 'update', undefined, 'connector');
+    }
+
+    this.notifyChangeHandlers();
+    return connectorToSave;
+  }
+
+  /**
+   * Remove a connector for good; connectors have no trash of their own.
+   * A connector the server has is still deleted there with the next sync.
+   */
+  static async deleteConnector(connector: Connector): Promise<void> {
+    QueueManager.queuePurge([], [connector]);
+    await ConnectorStorage.deleteConnectors([connector.uuid]);
+    this.notifyChangeHandlers();
+  }
+
+  /**
+   * Remove the connectors of notes moved to the trash. They are kept locally so
+   * restoring a note brings its connectors back.
+   */
+  static async removeConnectorsOfNotes(noteUuids: string[]): Promise<void> {
+    const connectors = (await ConnectorStorage.getConnectorsOfNotes(noteUuids))
+      .filter(connector => !connector.isDeleted);
+    if (connectors.length === 0) return;
+
+    const now = new Date();
+    await ConnectorStorage.saveConnectors(connectors.map(connector => ({
+      ...connector,
+      isDeleted: true,
+      deletedAt: now,
+      deletedWithNote: true,
+      localVersion: (connector.localVersion || 1) + 1,
+      clientUpdatedAt: now
+    })));
+
+    if (this.isAuthenticated()) {
+      await QueueManager.addBatchToQueue(connectors.map(connector => connector.uuid), 'delete', undefined, 'connector');
+    }
+
+    this.notifyChangeHandlers();
+  }
+
+  /**
+   * Bring back the connectors removed with restored notes, once both of their notes are back
+   */
+  static async restoreConnectorsOfNotes(noteUuids: string[]): Promise<void> {
+    const candidates = (await ConnectorStorage.getConnectorsOfNotes(noteUuids))
+      .filter(connector => connector.isDeleted && connector.deletedWithNote);
+
+    const createUuids: string[] = [];
+    const updateUuids: string[] = [];
+    const connectorsToSave: Connector[] = [];
+    const now = new Date();
+
+    for (const connector of candidates) {
+      const [fromNote, toNote] = await Promise.all([
+        NotesStorage.getNote(connector.fromNoteUuid),
+        NotesStorage.getNote(connector.toNoteUuid)
+      ]);
+      if (!fromNote || fromNote.isDeleted || !toNote || toNote.isDeleted) continue;
+
+      // The server has no copy to update once the deletion synced, so it is sent again as a new one
+      const action = QueueManager.getRestoreAction(connector);
+      connectorsToSave.push(this.withCurrentUser({
+        ...connector,
+        ...(action === 'create' && { id: API.DEFAULT_IDS.NEW_ENTITY }),
+        isDeleted: false,
+        deletedAt: null,
+        deletedWithNote: false,
+        localVersion: (connector.localVersion || 1) + 1,
+        clientUpdatedAt: now
+      }));
+      (action === 'create' ? createUuids : updateUuids).push(connector.uuid);
+    }
+
+    if (connectorsToSave.length === 0) return;
+    await ConnectorStorage.saveConnectors(connectorsToSave);
+
+    if (this.isAuthenticated()) {
+      // A delete waiting for retry must not be replayed after the restore
+      [...createUuids, ...updateUuids].forEach(uuid => QueueManager.removeFromRetryQueue(uuid));
+      await QueueManager.addBatchToQueue(createUuids, 'create', undefined, 'connector');
+      await QueueManager.addBatchToQueue(updateUuids, 'update', undefined, 'connector');
+    }
+
+    this.notifyChangeHandlers();
+  }
+
+  /**
+   * Permanently remove the connectors of notes purged from the trash
+   */
+  static async purgeConnectorsOfNotes(noteUuids: string[]): Promise<void> {
+    const connectors = await ConnectorStorage.getConnectorsOfNotes(noteUuids);
+    if (connectors.length === 0) return;
+
+    QueueManager.queuePurge([], connectors);
+    await ConnectorStorage.deleteConnectors(connectors.map(connector => connector.uuid));
+    this.notifyChangeHandlers();
+  }
+
+  /**
+   * Store the connectors downloaded from the server. Connectors with local changes
+   * keep them; the queued change is sent with the next sync.
+   */
+  static async applyServerConnectors(apiConnectors: Connector[]): Promise<void> {
+    const connectorsToSave: Connector[] = [];
+
+    for (const apiConnector of apiConnectors) {
+      const localConnector = await ConnectorStorage.getConnector(apiConnector.uuid);
+
+      if (!localConnector) {
+        // Connectors removed here for good only wait for their server delete
+        if (!QueueManager.hasQueuedDelete(apiConnector.uuid)) connectorsToSave.push(apiConnector);
+        continue;
+      }
+
+      const hasLocalChanges = (localConnector.localVersion || 1) > (localConnector.syncVersion || 1);
+      if (!hasLocalChanges) {
+        connectorsToSave.push({ ...apiConnector, deletedWithNote: localConnector.deletedWithNote });
+      }
+    }
+
+    await ConnectorStorage.saveConnectors(connectorsToSave);
+    if (connectorsToSave.length > 0) this.notifyChangeHandlers();
+  }
+
+  /**
+   * Apply connector deletions made on the server. A connector changed here since
+   * is kept by creating it again on the server.
+   */
+  static async applyConnectorTombstones(tombstones: NoteTombstoneResponse[]): Promise<void> {
+    for (const tombstone of tombstones) {
+      const localConnector = await ConnectorStorage.getConnector(tombstone.uuid);
+      const hasLocalChanges = !!localConnector && (localConnector.localVersion || 1) > (localConnector.syncVersion || 1);
+
+      if (!localConnector || localConnector.isDeleted || !hasLocalChanges) {
+        // Nothing is left to send for it
+        if (!localConnector || localConnector.isDeleted) {
+          QueueManager.removeFromPrimaryQueue(tombstone.uuid);
+          QueueManager.removeFromRetryQueue(tombstone.uuid);
+        }
+        await ConnectorStorage.markDeletionSynced(tombstone.uuid);
+        continue;
+      }
+
+      await ConnectorStorage.saveConnector({ ...localConnector, id: API.DEFAULT_IDS.NEW_ENTITY });
+      QueueManager.replacePendingAction(tombstone.uuid, 'update', 'create');
+      console.log(`Connector ${tombstone.uuid} was deleted on the server but changed here, creating it again`);
+    }
+
+    if (tombstones.length > 0) this.notifyChangeHandlers();
+  }
+
+  /**
+   * Queue the connectors changed on this device that have not reached the server,
+   * e.g. while signed out
+   */
+  static async ensureQueuedConnectors(): Promise<void> {
+    const queuedUuids = new Set([
+      ...QueueManager.getPrimaryQueue().map(item => item.noteUuid),
+      ...QueueManager.getRetryQueue().map(item => item.noteUuid)
+    ]);
+
+    const connectors = await ConnectorStorage.getAllConnectors();
+    for (const connector of connectors) {
+      if (queuedUuids.has(connector.uuid)) continue;
+
+      const isNew = !connector.id || connector.id === API.DEFAULT_IDS.NEW_ENTITY;
+      const hasLocalChanges = (connector.localVersion || 1) > (connector.syncVersion || 1);
+      // Removed connectors only need a delete, and only while it has not reached the server
+      const needsSync = connector.isDeleted ? !isNew && hasLocalChanges : isNew || hasLocalChanges;
+      if (!needsSync) continue;
+
+      const action = connector.isDeleted ? 'delete' : isNew ? 'create' : 'update';
+      await QueueManager.addToQueue(connector.uuid, action, undefined, 'connector');
+    }
+  }
+
+  /**
+   * Add handler called when connectors change in this tab
+   */
+  static addChangeListener(handler: ConnectorChangeHandler): void {
+    this.changeHandlers.push(handler);
+  }
+
+  /**
+   * Remove handler called when connectors change in this tab
+   */
+  static removeChangeListener(handler: ConnectorChangeHandler): void {
+    this.changeHandlers = this.changeHandlers.filter(existing => existing !== handler);
+  }
+
+  private static withCurrentUser(connector: Connector): Connector {
+    const currentUser = this.isAuthenticated() ? SessionManager.getCurrentUser() : null;
+    return currentUser?.id ? { ...connector, userId: currentUser.id } : connector;
+  }
+
+  private static isAuthenticated(): boolean {
+    return SessionManager.isAuthenticated();
+  }
+
+  private static notifyChangeHandlers(): void {
+    this.changeHandlers.forEach(handler => {
+      try {
+        handler();
+      } catch (error) {
+        console.error('Error in connector change handler:', error);
+      }
+    });
+  }
+}
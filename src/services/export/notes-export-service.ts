@@ -0,0 +1,243 @@
+import { Note } from '@/domains/note';
+import { NotesStorage } from '@/helpers/notes-storage';
+import { formatDateKey } from '@/helpers/date-helper';
+import { formatRecurrenceRule, getOccurrenceDates, describeRecurrence } from '@/helpers/recurrence-helper';
+import { createZipArchive } from '@/helpers/zip-writer';
+import { getTaskDepth, sortTasks } from '@/helpers/task-manager';
+import { ArchivedNote, ExportFile, ExportFormat, ExportScope, NotesArchive } from '@/types/export.types';
+import { EXPORT } from '@/constants/ui-constants';
+
+// Helper function to quote a CSV cell (RFC 4180). Cells that a spreadsheet would
+// run as a formula are prefixed with a quote mark.
+const toCsvCell = (value: string | number | boolean | null | undefined): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Helper function to quote a front matter value when it could be misread as YAML syntax
+const toYamlValue = (value: string): string =>
+  /^[\w .,/()-]*$/.test(value) && value.trim() === value && value !== '' ? value : JSON.stringify(value);
+
+// Helper function to turn a title into a safe file name part
+const slugify = (title: string): string =>
+  title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, EXPORT.MAX_FILENAME_TITLE_LENGTH) || 'untitled';
+
+/**
+ * Export service: serializes notes (with tasks, tags, colors and positions)
+ * as a lossless JSON archive, zipped Markdown files or a CSV of tasks.
+ */
+export class NotesExportService {
+  /**
+   * Export the notes in a scope
+   * @param scope - Selected date, date range or everything
+   * @param format - Output format
+   * @returns The file to download
+   */
+  static async exportNotes(scope: ExportScope, format: ExportFormat): Promise<ExportFile> {
+    const notes = await this.getNotesInScope(scope);
+    const baseName = `${EXPORT.FILENAME_PREFIX}-${this.describeScope(scope)}`;
+
+    switch (format) {
+      case 'json':
+        return {
+          filename: `${baseName}.json`,
+          blob: new Blob([JSON.stringify(this.toArchive(notes), null, 2)], { type: 'application/json' }),
+          noteCount: notes.length,
+        };
+      case 'markdown':
+        return {
+          filename: `${baseName}.zip`,
+          blob: createZipArchive(this.toMarkdownFiles(notes)),
+          noteCount: notes.length,
+        };
+      case 'csv':
+        return {
+          filename: `${baseName}-tasks.csv`,
+          // BOM so spreadsheet apps detect UTF-8
+          blob: new Blob(['\uFEFF' + this.toTasksCsv(notes)], { type: 'text/csv;charset=utf-8' }),
+          noteCount: notes.length,
+        };
+    }
+  }
+
+  /**
+   * Save an exported file through a temporary download link
+   */
+  static downloadFile(file: ExportFile): void {
+    const url = URL.createObjectURL(file.blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Give the browser a moment to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  /**
+   * Get the notes (not in the trash) that belong to a scope, in canvas date order
+   */
+  static async getNotesInScope(scope: ExportScope): Promise<Note[]> {
+    const notes = (await NotesStorage.getAllNotes()).filter(note => !note.isDeleted);
+    const inScope = scope.type === 'all'
+      ? notes
+      : notes.filter(note => {
+          const from = scope.type === 'date' ? scope.date : scope.from;
+          const to = scope.type === 'date' ? scope.date : scope.to;
+          return getOccurrenceDates(note, from, to).length > 0;
+        });
+
+    return inScope.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Build the JSON archive for notes
+   */
+  static toArchive(notes: Note[]): NotesArchive {
+    return {
+      app: 'draggy-notes',
+      version: EXPORT.ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      notes: notes.map(note => this.toArchivedNote(note)),
+    };
+  }
+
+  /**
+   * Build a CSV with one row per task
+   */
+  static toTasksCsv(notes: Note[]): string {
+    const header = [
+      'Note', 'Note date', 'Task', 'Completed', 'Due', 'Reminder (minutes before)', 'Priority', 'Assignee',
+      'Tags', 'Note UUID', 'Task UUID', 'Parent task UUID',
+    ];
+    const rows = notes.flatMap(note =>
+      sortTasks(note.noteTasks || []).map(task => [
+        note.title,
+        formatDateKey(note.date),
+        task.text,
+        task.completed ? 'yes' : 'no',
+        task.dueDate?.toISOString() ?? '',
+        task.reminderMinutes ?? '',
+        task.priority ?? '',
+        task.assignee ?? '',
+        (note.tags || []).map(tag => tag.name).join('; '),
+        note.uuid,
+        task.uuid,
+        task.parentUuid ?? '',
+      ])
+    );
+
+    return [header, ...rows].map(row => row.map(toCsvCell).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Build one Markdown file per note, with the note's metadata as front matter
+   */
+  static toMarkdownFiles(notes: Note[]): Array<{ name: string; content: string }> {
+    const usedNames = new Set<string>();
+
+    return notes.map(note => {
+      const baseName = `${formatDateKey(note.date)}-${slugify(note.title)}`;
+      let name = `${baseName}.md`;
+      for (let suffix = 2; usedNames.has(name); suffix++) {
+        name = `${baseName}-${suffix}.md`;
+      }
+      usedNames.add(name);
+
+      return { name, content: this.toMarkdown(note) };
+    });
+  }
+
+  /**
+   * Render a note as a Markdown document
+   */
+  static toMarkdown(note: Note): string {
+    const frontMatter = [
+      '---',
+      `uuid: ${note.uuid}`,
+      `title: ${toYamlValue(note.title)}`,
+      `date: ${formatDateKey(note.date)}`,
+      `color: ${toYamlValue(note.color)}`,
+      `position: { x: ${Math.round(note.position.x)}, y: ${Math.round(note.position.y)} }`,
+      `pinned: ${note.isPinned}`,
+    ];
+    if (note.tags && note.tags.length > 0) {
+      frontMatter.push(`tags: [${note.tags.map(tag => toYamlValue(tag.name)).join(', ')}]`);
+    }
+    if (note.dueDate) frontMatter.push(`due: ${note.dueDate.toISOString()}`);
+    if (note.recurrence) frontMatter.push(`repeat: ${toYamlValue(describeRecurrence(note.recurrence))}`);
+    frontMatter.push('---');
+
+    const sections = [frontMatter.join('\n'), `# ${note.title || 'Untitled'}`];
+    if (note.content.trim()) sections.push(note.content.trim());
+
+    if (note.noteTasks && note.noteTasks.length > 0) {
+      const noteTasks = sortTasks(note.noteTasks);
+      const tasks = noteTasks.map(task => {
+        const details = [
+          task.priority && `${task.priority} priority`,
+          task.assignee && `@${task.assignee}`,
+          task.dueDate && `due ${task.dueDate.toISOString()}`,
+        ].filter(Boolean).join(', ');
+        const indent = '  '.repeat(getTaskDepth(noteTasks, task.uuid));
+        return `${indent}- [${task.completed ? 'x' : ' '}] ${task.text.replace(/\n/g, ' ')}${details ? ` (${details})` : ''}`;
+      });
+      sections.push(['## Tasks', ...tasks].join('\n'));
+    }
+
+    return sections.join('\n\n') + '\n';
+  }
+
+  private static toArchivedNote(note: Note): ArchivedNote {
+    return {
+      uuid: note.uuid,
+      title: note.title,
+      content: note.content,
+      date: note.date.toISOString(),
+      color: note.color,
+      position: { x: note.position.x, y: note.position.y },
+      width: note.width ?? null,
+      height: note.height ?? null,
+      isPinned: note.isPinned,
+      isDisplayed: note.isDisplayed,
+      isTaskMode: note.isTaskMode,
+      tasks: sortTasks(note.noteTasks || []).map(task => ({
+        uuid: task.uuid,
+        text: task.text,
+        completed: task.completed,
+        dueDate: task.dueDate?.toISOString() ?? null,
+        reminderMinutes: task.reminderMinutes ?? null,
+        parentUuid: task.parentUuid ?? null,
+        priority: task.priority ?? null,
+        assignee: task.assignee ?? null,
+      })),
+      tags: (note.tags || []).map(tag => tag.name),
+      recurrenceRule: note.recurrence ? formatRecurrenceRule(note.recurrence) : null,
+      occurrenceCompletions: note.occurrenceCompletions ?? null,
+      dueDate: note.dueDate?.toISOString() ?? null,
+      reminderMinutes: note.reminderMinutes ?? null,
+      createdAt: (note.createdAt || new Date()).toISOString(),
+      updatedAt: (note.updatedAt || new Date()).toISOString(),
+    };
+  }
+
+  // Part of the file name describing the scope, e.g. "2026-10-19" or "2026-10-01-to-2026-10-31"
+  private static describeScope(scope: ExportScope): string {
+    switch (scope.type) {
+      case 'date':
+        return formatDateKey(scope.date);
+      case 'range':
+        return `${formatDateKey(scope.from)}-to-${formatDateKey(scope.to)}`;
+      case 'all':
+        return `all-${formatDateKey(new Date())}`;
+    }
+  }
+}
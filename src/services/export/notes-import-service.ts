@@ -0,0 +1,251 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Note } from '@/domains/note';
+import { NoteTask } from '@/domains/noteTask';
+import { Tag } from '@/domains/tag';
+import { NotesSyncService } from '@/services/notes-sync-service';
+import { sortTasks } from '@/helpers/task-manager';
+import { TagManager } from '@/helpers/tag-manager';
+import { SessionManager } from '@/helpers/session-manager';
+import { parseRecurrenceRule } from '@/helpers/recurrence-helper';
+import { ArchivedNote, ImportResult, NotesArchive } from '@/types/export.types';
+import { API, EXPORT } from '@/constants/ui-constants';
+
+/**
+ * Raised when a file is not a valid notes archive. Nothing is imported in that case.
+ */
+export class ArchiveImportError extends Error {
+  constructor(message: string, public problems: string[] = []) {
+    super(message);
+    this.name = 'ArchiveImportError';
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+// Helper function to check for a plain JSON object
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Helper function to check for an ISO date string that parses to a valid date
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+// Helper function to check an optional value: null, missing or valid
+const isOptional = (value: unknown, check: (value: unknown) => boolean): boolean =>
+  value === null || value === undefined || check(value);
+
+const isReminder = (value: unknown): boolean => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isCardSize = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isPriority = (value: unknown): boolean => value === 'low' || value === 'medium' || value === 'high';
+
+const isOccurrenceCompletions = (value: unknown): boolean =>
+  isObject(value) && Object.values(value).every(uuids => Array.isArray(uuids) && uuids.every(uuid => typeof uuid === 'string'));
+
+/**
+ * Import service for JSON archives written by NotesExportService. Archives are
+ * validated as a whole first; imported notes get new UUIDs, so importing the same
+ * archive twice creates copies instead of overwriting, and are created through
+ * NotesSyncService so they sync like any new note.
+ */
+export class NotesImportService {
+  /**
+   * Import a JSON archive file
+   * @param file - The archive chosen by the user
+   * @returns The created notes
+   * @throws ArchiveImportError if the file is not a valid archive
+   */
+  static async importFile(file: File): Promise<ImportResult> {
+    if (file.size > EXPORT.MAX_IMPORT_SIZE) {
+      throw new ArchiveImportError(`The file is larger than ${Math.round(EXPORT.MAX_IMPORT_SIZE / 1024 / 1024)} MB.`);
+    }
+    return this.importArchive(this.parseArchive(await file.text()));
+  }
+
+  /**
+   * Parse and validate archive text
+   * @throws ArchiveImportError listing the problems found
+   */
+  static parseArchive(text: string): NotesArchive {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new ArchiveImportError('The file is not valid JSON.');
+    }
+
+    if (!isObject(data) || data.app !== 'draggy-notes' || !Array.isArray(data.notes)) {
+      throw new ArchiveImportError('The file is not a Draggy Notes archive.');
+    }
+    if (typeof data.version !== 'number' || data.version > EXPORT.ARCHIVE_VERSION) {
+      throw new ArchiveImportError('The archive was made by a newer version of the app.');
+    }
+
+    const problems = data.notes.flatMap((note, index) =>
+      this.validateNote(note).map(problem => `Note ${index + 1}: ${problem}`)
+    );
+    if (problems.length > 0) {
+      const shown = problems.slice(0, EXPORT.MAX_REPORTED_ERRORS);
+      const more = problems.length - shown.length;
+      throw new ArchiveImportError(
+        `The archive is invalid: ${shown.join('; ')}${more > 0 ? ` (and ${more} more)` : ''}`,
+        problems
+      );
+    }
+
+    return data as unknown as NotesArchive;
+  }
+
+  /**
+   * Create the notes of a validated archive
+   */
+  static async importArchive(archive: NotesArchive): Promise<ImportResult> {
+    const userId = SessionManager.getCurrentUser()?.id || 0;
+    const knownTags = TagManager.getAllTags(userId);
+    const createdTags: string[] = [];
+
+    // Reuse existing tags by name (case-insensitive), create the rest
+    const resolveTag = (name: string): Tag => {
+      let tag = knownTags.find(known => known.name.toLowerCase() === name.trim().toLowerCase());
+      if (!tag) {
+        tag = TagManager.createTag(name, userId);
+        knownTags.push(tag);
+        createdTags.push(tag.name);
+      }
+      return tag;
+    };
+
+    const notes: Note[] = [];
+    for (const archived of archive.notes) {
+      try {
+        notes.push(await NotesSyncService.createNote(this.toNote(archived, userId, resolveTag)));
+      } catch (error) {
+        console.error(`Failed to import note "${archived.title}":`, error);
+      }
+    }
+
+    console.log(`Imported ${notes.length} of ${archive.notes.length} notes`);
+    return { notes, createdTags };
+  }
+
+  // Returns the problems found in one archived note (empty if valid)
+  private static validateNote(note: unknown): string[] {
+    if (!isObject(note)) return ['not an object'];
+
+    const problems: string[] = [];
+    if (typeof note.title !== 'string') problems.push('title must be text');
+    if (typeof note.content !== 'string') problems.push('content must be text');
+    if (!isDateString(note.date)) problems.push('date is missing or invalid');
+    if (typeof note.color !== 'string') problems.push('color must be text');
+    if (!isObject(note.position) || typeof note.position.x !== 'number' || typeof note.position.y !== 'number') {
+      problems.push('position must have numeric x and y');
+    }
+    if (!isOptional(note.width, isCardSize) || !isOptional(note.height, isCardSize)) {
+      problems.push('width and height must be positive numbers');
+    }
+    if (!isOptional(note.isPinned, value => typeof value === 'boolean')) problems.push('isPinned must be true or false');
+    if (!isOptional(note.isTaskMode, value => typeof value === 'boolean')) problems.push('isTaskMode must be true or false');
+    if (!isOptional(note.isDisplayed, value => typeof value === 'boolean')) problems.push('isDisplayed must be true or false');
+    if (!isOptional(note.dueDate, isDateString)) problems.push('dueDate is invalid');
+    if (!isOptional(note.reminderMinutes, isReminder)) problems.push('reminderMinutes must be a whole number');
+    if (!isOptional(note.tags, value => Array.isArray(value) && value.every(tag => typeof tag === 'string' && tag.trim() !== ''))) {
+      problems.push('tags must be a list of names');
+    }
+    if (!isOptional(note.recurrenceRule, value => typeof value === 'string' && parseRecurrenceRule(value) !== null)) {
+      problems.push('recurrenceRule is not a supported RRULE');
+    }
+    if (!isOptional(note.occurrenceCompletions, isOccurrenceCompletions)) {
+      problems.push('occurrenceCompletions must map dates to lists of task ids');
+    }
+
+    if (!isOptional(note.tasks, Array.isArray)) {
+      problems.push('tasks must be a list');
+    } else {
+      ((note.tasks as unknown[]) || []).forEach((task, index) => {
+        if (!isObject(task) || typeof task.text !== 'string' || typeof task.completed !== 'boolean') {
+          problems.push(`task ${index + 1} needs text and completed`);
+        } else if (!isOptional(task.dueDate, isDateString) || !isOptional(task.reminderMinutes, isReminder)) {
+          problems.push(`task ${index + 1} has an invalid due date or reminder`);
+        } else if (
+          !isOptional(task.priority, isPriority) ||
+          !isOptional(task.assignee, value => typeof value === 'string') ||
+          !isOptional(task.parentUuid, value => typeof value === 'string')
+        ) {
+          problems.push(`task ${index + 1} has an invalid priority, assignee or parent`);
+        }
+      });
+    }
+
+    return problems;
+  }
+
+  // Builds a new note from an archived one, with new note and task UUIDs
+  private static toNote(archived: ArchivedNote, userId: number, resolveTag: (name: string) => Tag): Note {
+    const now = new Date();
+    const taskUuids = new Map<string, string>();
+
+    (archived.tasks || []).forEach(task => {
+      if (task.uuid) taskUuids.set(task.uuid, uuidv4());
+    });
+
+    const noteTasks: NoteTask[] = (archived.tasks || []).map((task, index) => {
+      const uuid = (task.uuid && taskUuids.get(task.uuid)) || uuidv4();
+      return {
+        id: API.DEFAULT_IDS.NEW_ENTITY,
+        uuid,
+        noteId: API.DEFAULT_IDS.NEW_ENTITY,
+        text: task.text,
+        completed: task.completed,
+        dueDate: task.dueDate ? new Date(task.dueDate) : null,
+        reminderMinutes: task.reminderMinutes ?? null,
+        order: index,
+        // Subtasks point at their parent's new UUID
+        parentUuid: task.parentUuid ? taskUuids.get(task.parentUuid) ?? null : null,
+        priority: task.priority ?? null,
+        assignee: task.assignee?.trim() || null,
+        createdAt: now,
+        updatedAt: now,
+      };
+    });
+
+    // Completions refer to task UUIDs, which were replaced
+    const occurrenceCompletions = archived.occurrenceCompletions
+      ? Object.fromEntries(
+          Object.entries(archived.occurrenceCompletions)
+            .map(([dateKey, uuids]) => [dateKey, uuids.map(uuid => taskUuids.get(uuid)).filter((uuid): uuid is string => !!uuid)])
+            .filter(([, uuids]) => uuids.length > 0)
+        )
+      : null;
+
+    return {
+      id: API.DEFAULT_IDS.NEW_ENTITY,
+      uuid: uuidv4(),
+      title: archived.title,
+      content: archived.content,
+      date: new Date(archived.date),
+      color: archived.color,
+      position: { x: archived.position.x, y: archived.position.y },
+      width: archived.width ?? null,
+      height: archived.height ?? null,
+      isPinned: archived.isPinned ?? false,
+      isDisplayed: archived.isDisplayed ?? true,
+      isTaskMode: archived.isTaskMode ?? false,
+      noteTasks: sortTasks(noteTasks),
+      tags: [...new Set((archived.tags || []).map(name => name.trim()))].map(resolveTag),
+      recurrence: archived.recurrenceRule ? parseRecurrenceRule(archived.recurrenceRule) : null,
+      occurrenceCompletions: occurrenceCompletions && Object.keys(occurrenceCompletions).length > 0 ? occurrenceCompletions : null,
+      dueDate: archived.dueDate ? new Date(archived.dueDate) : null,
+      reminderMinutes: archived.reminderMinutes ?? null,
+      userId,
+      isDeleted: false,
+      createdAt: now,
+      updatedAt: now,
+      // sync properties - a new note that has never been synced
+      syncVersion: 1,
+      localVersion: 1,
+      lastSyncedAt: now,
+      clientUpdatedAt: now,
+    };
+  }
+}
@@ -0,0 +1,176 @@
+import { Frame } from '@/domains/frame';
+import { FrameStorage } from '@/helpers/frame-storage';
+import { SessionManager } from '@/helpers/session-manager';
+import { NoteTombstoneResponse } from './api/models/notes.model';
+import { QueueManager } from './sync/queue-manager';
+import { API } from '@/constants/ui-constants';
+
+type FrameChangeHandler = () => void;
+
+/**
+ * Service that keeps frames in IndexedDB and queues their changes. Frames share the
+ * sync queue and batch requests with notes; notes point to their frame by UUID.
+ */
+export class FramesSyncService {
+  private static changeHandlers: FrameChangeHandler[] = [];
+
+  /**
+   * Get the frames shown on the canvases
+   */
+  static async getFrames(): Promise<Frame[]> {
+    const frames = await FrameStorage.getAllFrames();
+    return frames.filter(frame => !frame.isDeleted);
+  }
+
+  /**
+   * Create a frame with precheck and queue management
+   */
+  static async createFrame(frame: Frame): Promise<Frame> {
+    const frameToSave = this.withCurrentUser(frame);
+
+    // Always save to local storage first
+    await FrameStorage.saveFrame(frameToSave);
+
+    if (this.isAuthenticated()) {
+      await QueueManager.addToQueue(frameToSave.uuid, 'create', undefined, 'frame');
+    }
+
+    this.notifyChangeHandlers();
+    return frameToSave;
+  }
+
+  /**
+   * Update a frame with precheck and queue management
+   */
+  static async updateFrame(frame: Frame): Promise<Frame> {
+    const frameToSave = this.withCurrentUser(frame);
+
+    // Always save to local storage first
+    await FrameStorage.saveFrame(frameToSave);
+
+    if (this.isAuthenticated()) {
+      await QueueManager.addToQueue(frameToSave.uuid, 'update', undefined, 'frame');
+    }
+
+    this.notifyChangeHandlers();
+    return frameToSave;
+  }
+
+  /**
+   * Remove a frame for good; frames have no trash. Its notes stay on the canvas.
+   * A frame the server has is still deleted there with the next sync.
+   */
+  static async deleteFrame(frame: Frame): Promise<void> {
+    QueueManager.queuePurge([], [], [frame]);
+    await FrameStorage.deleteFrames([frame.uuid]);
+    this.notifyChangeHandlers();
+  }
+
+  /**
+   * Store the frames downloaded from the server. Frames with local changes keep
+   * them; the queued change is sent with the next sync.
+   */
+  static async applyServerFrames(apiFrames: Frame[]): Promise<void> {
+    const framesToSave: Frame[] = [];
+
+    for (const apiFrame of apiFrames) {
+      const localFrame = await FrameStorage.getFrame(apiFrame.uuid);
+
+      if (!localFrame) {
+        // Frames removed here only wait for their server delete
+        if (!QueueManager.hasQueuedDelete(apiFrame.uuid)) framesToSave.push(apiFrame);
+        continue;
+      }
+
+      const hasLocalChanges = (localFrame.localVersion || 1) > (localFrame.syncVersion || 1);
+      if (!hasLocalChanges) {
+        framesToSave.push(apiFrame);
+      }
+    }
+
+    await FrameStorage.saveFrames(framesToSave);
+    if (framesToSave.length > 0) this.notifyChangeHandlers();
+  }
+
+  /**
+   * Apply frame deletions made on the server. A frame changed here since is kept
+   * by creating it again on the server.
+   */
+  static async applyFrameTombstones(tombstones: NoteTombstoneResponse[]): Promise<void> {
+    for (const tombstone of tombstones) {
+      const localFrame = await FrameStorage.getFrame(tombstone.uuid);
+      const hasLocalChanges = !!localFrame && (localFrame.localVersion || 1) > (localFrame.syncVersion || 1);
+
+      if (!localFrame || localFrame.isDeleted || !hasLocalChanges) {
+        // Nothing is left to send for it
+        if (!localFrame || localFrame.isDeleted) {
+          QueueManager.removeFromPrimaryQueue(tombstone.uuid);
+          QueueManager.removeFromRetryQueue(tombstone.uuid);
+        }
+        await FrameStorage.markDeletionSynced(tombstone.uuid);
+        continue;
+      }
+
+      await FrameStorage.saveFrame({ ...localFrame, id: API.DEFAULT_IDS.NEW_ENTITY });
+      QueueManager.replacePendingAction(tombstone.uuid, 'update', 'create');
+      console.log(`Frame ${tombstone.uuid} was deleted on the server but changed here, creating it again`);
+    }
+
+    if (tombstones.length > 0) this.notifyChangeHandlers();
+  }
+
+  /**
+   * Queue the frames changed on this device that have not reached the server,
+   * e.g. while signed out
+   */
+  static async ensureQueuedFrames(): Promise<void> {
+    const queuedUuids = new Set([
+      ...QueueManager.getPrimaryQueue().map(item => item.noteUuid),
+      ...QueueManager.getRetryQueue().map(item => item.noteUuid)
+    ]);
+
+    const frames = await FrameStorage.getAllFrames();
+    for (const frame of frames) {
+      if (queuedUuids.has(frame.uuid) || frame.isDeleted) continue;
+
+      const isNew = !frame.id || frame.id === API.DEFAULT_IDS.NEW_ENTITY;
+      const hasLocalChanges = (frame.localVersion || 1) > (frame.syncVersion || 1);
+      if (!isNew && !hasLocalChanges) continue;
+
+      await QueueManager.addToQueue(frame.uuid, isNew ? 'create' : 'update', undefined, 'frame');
+    }
+  }
+
+  /**
+   * Add handler called when frames change in this tab
+   */
+  static addChangeListener(handler: FrameChangeHandler): void {
+    this.changeHandlers.push(handler);
+  }
+
+  /**
+   * Remove handler called when frames change in this tab
+   */
+  static removeChangeListener(handler: FrameChangeHandler): void {
+    this.changeHandlers = this.changeHandlers.filter(existing => existing !== handler);
+  }
+
+  private static withCurrentUser(frame: Frame): Frame {
+    const currentUser = this.isAuthenticated() ? SessionManager.getCurrentUser() : null;
+    return currentUser?.id ? { ...frame, userId: currentUser.id } : frame;
+  }
+
+  private static isAuthenticated(): boolean {
+    return SessionManager.isAuthenticated();
+  }
+
+  private static notifyChangeHandlers(): void {
+    this.changeHandlers.forEach(handler => {
+      try {
+        handler();
+      } catch (error) {
+        console.error('Error in frame change handler:', error);
+      }
+    });
+  }
+}
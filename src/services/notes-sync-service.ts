@@ -3,20 +3,98 @@ import { notesApi } from './api/notes-api';
 import { NotesStorage } from '@/helpers/notes-storage';
 import { SessionManager } from '@/helpers/session-manager';
 import { transformNoteResponseToNote } from './api/transformers/note-transformers';
+import { NoteTombstoneResponse } from './api/models/notes.model';
 import { QueueManager } from './sync/queue-manager';
 import { BatchSyncHandler } from './sync/batch-sync-handler';
-import { QueueItem, RealTimeSyncStatus } from '@/types/sync.types';
-import { SYNC } from '@/constants/ui-constants';
+import { NoteMergeEngine } from './sync/merge-engine';
+import { ConflictResolution, NoteConflict, NoteSyncField, QueueItem, RealTimeSyncStatus, SyncFailure } from '@/types/sync.types';
+import { ApiError } from './api/models/api.model';
+import { API, CONFLICT, SYNC, TRASH } from '@/constants/ui-constants';
+import { SyncConflictStorage } from '@/helpers/sync-conflict-storage';
+import { v4 as uuidv4 } from 'uuid';
 import { SignalRService } from './signalr/signalr-service';
+import { TabChannel } from '@/helpers/tab-channel';
+import { BackgroundSyncService } from './sync/background-sync-service';
+import { ConnectorsSyncService } from './connectors-sync-service';
+import { transformConnectorResponseToConnector } from './api/transformers/connector-transformers';
+import { FramesSyncService } from './frames-sync-service';
+import { transformFrameResponseToFrame } from './api/transformers/frame-transformers';
 
 /**
- * Enhanced service that handles synchronization between API and localStorage
+ * Enhanced service that handles synchronization between API and local storage
  * Features: Queue-based sync, retry mechanisms, batch processing, and 5-minute auto-sync
  */
 export class NotesSyncService {
   private static syncTimer: NodeJS.Timeout | null = null;
   private static isSyncing = false;
   private static realTimeEventHandlers: Map<string, Function[]> = new Map();
+  private static isTabSyncInitialized = false;
+  private static isBackgroundSyncInitialized = false;
+
+  /**
+   * Join the other open tabs: only the leader tab runs the sync timer and SignalR,
+   * and notes written by other tabs are reloaded through 'forceReloadNotes' events.
+   */
+  static initializeTabSync(): void {
+    if (this.isTabSyncInitialized) return;
+    this.isTabSyncInitialized = true;
+
+    TabChannel.addMessageHandler(message => {
+      switch (message.type) {
+        case 'notesChanged':
+          this.notifyRealTimeEventHandlers('forceReloadNotes', { reason: 'otherTab', affectedNotes: message.noteUuids.length });
+          break;
+        case 'syncRequested':
+          if (TabChannel.isLeader()) this.performScheduledSync();
+          break;
+      }
+    });
+
+    // Take over background sync when the previous leader tab closes
+    TabChannel.addLeadershipHandler(isLeader => {
+      if (isLeader && this.isAuthenticated()) {
+        console.log('Tab became leader - starting sync timer and SignalR');
+        this.handleUserLogin();
+      } else if (!isLeader) {
+        this.stopSyncTimer();
+        SignalRService.handleLeadershipLost();
+      }
+    });
+
+    TabChannel.initialize();
+  }
+
+  /**
+   * Register the service worker and answer it: the leader tab syncs when the worker
+   * asks for a queue flush, and applies the results of flushes done while no page was open.
+   */
+  static initializeBackgroundSync(): void {
+    if (this.isBackgroundSyncInitialized) return;
+    this.isBackgroundSyncInitialized = true;
+
+    BackgroundSyncService.addMessageHandler(async (message, reply) => {
+      if (!TabChannel.isLeader()) return;
+
+      switch (message.type) {
+        case 'flushQueue':
+          await this.performScheduledSync();
+          reply({ type: 'queueFlushed', remaining: QueueManager.getPrimaryQueue().length });
+          break;
+        case 'backgroundSyncCompleted':
+          await this.applyBackgroundSyncResults();
+          break;
+      }
+    });
+
+    // The page may not come back once hidden - leave the queue to the service worker
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden' && TabChannel.isLeader() && this.isAuthenticated()) {
+        BackgroundSyncService.scheduleQueueFlush(QueueManager.getPrimaryQueue().length > 0);
+      }
+    });
+
+    BackgroundSyncService.register();
+  }
 
   /**
    * Start automatic sync timer
@@ -49,7 +127,8 @@ export class NotesSyncService {
     return (
       this.isAuthenticated() &&
       navigator.onLine &&
-      !this.isSyncing
+      !this.isSyncing &&
+      !QueueManager.isPaused()
     );
   }
 
@@ -57,8 +136,18 @@ export class NotesSyncService {
    * Perform scheduled sync with retry queue processing
    */
   static async performScheduledSync(): Promise<void> {
+    // Followers ask the leader tab, which owns the queue processing
+    if (this.isTabSyncInitialized && !TabChannel.isLeader()) {
+      TabChannel.post({ type: 'syncRequested' });
+      return;
+    }
+
     if (!this.canSync()) {
       console.log('Sync conditions not met, skipping sync');
+      // Offline: let the browser flush the queue once connectivity returns
+      if (this.isAuthenticated() && !navigator.onLine) {
+        BackgroundSyncService.scheduleQueueFlush(true);
+      }
       return;
     }
 
@@ -66,6 +155,12 @@ export class NotesSyncService {
     console.log('Starting scheduled sync...');
 
     try {
+      // Marks left by an interrupted sync would keep later changes from being combined
+      QueueManager.clearInFlight();
+
+      // Notes sent by the service worker must not be sent again
+      await this.applyBackgroundSyncResults();
+
       // First, process retry queue to move eligible items back to primary
       QueueManager.processRetryQueue();
       
@@ -77,6 +172,19 @@ export class NotesSyncService {
       console.error('Scheduled sync failed:', error);
     } finally {
       this.isSyncing = false;
+      // Keep the service worker's copy of the queue current
+      await BackgroundSyncService.scheduleQueueFlush();
+    }
+  }
+
+  /**
+   * Apply queue flushes done by the service worker and tell listeners
+   */
+  private static async applyBackgroundSyncResults(): Promise<void> {
+    const changed = await BackgroundSyncService.applyResults();
+    if (changed > 0) {
+      this.notifyRealTimeEventHandlers('backgroundSyncCompleted', { affectedNotes: changed });
+      this.notifyRealTimeEventHandlers('forceReloadNotes', { reason: 'backgroundSync', affectedNotes: changed });
     }
   }
 
@@ -84,7 +192,8 @@ export class NotesSyncService {
    * Sync all items from primary queue in batches
    */
   static async syncAllQueuedItems(): Promise<void> {
-    const queueByAction = QueueManager.getPrimaryQueueByAction();
+    // Items backing off after a failure wait for their next attempt
+    const queueByAction = QueueManager.getPrimaryQueueByAction(true);
     const batchHandler = new BatchSyncHandler();
 
     // Process in order: creates, updates, deletes
@@ -105,8 +214,11 @@ export class NotesSyncService {
 
     console.log(`Processing ${items.length} ${action} operations using batch API...`);
 
+    // Changes made while the request is out are queued after it instead of combined with it
+    QueueManager.markInFlight(items.map(item => item.operationId));
+
     try {
-      let result: { successful: string[], failed: Array<{ noteUuid: string, error: string }> };
+      let result: { successful: string[], failed: SyncFailure[] };
 
       // Use batch operations instead of individual item processing
       switch (action) {
@@ -122,15 +234,12 @@ export class NotesSyncService {
       }
 
       // Handle batch sync results using the new queue management method
-      QueueManager.handleBatchSyncResult(result.successful, result.failed);
+      QueueManager.handleBatchSyncResult(items, result.successful, result.failed);
       
-      // Log results
-      result.successful.forEach(noteUuid => {
-        if (action === 'delete') {
-          NotesStorage.deleteNote(noteUuid);
-        }
+      // Log results (the batch handler already marked synced deletions)
+      for (const noteUuid of result.successful) {
         console.log(`Successfully synced ${action} for note ${noteUuid}`);
-      });
+      }
 
       result.failed.forEach(({ noteUuid, error }) => {
         console.error(`Failed to sync ${action} for note ${noteUuid}:`, error);
@@ -140,13 +249,17 @@ export class NotesSyncService {
       console.error(`Batch ${action} operation failed entirely:`, error);
       
       // If the entire batch fails, handle all items as failed
+      const status = error instanceof ApiError ? error.status : undefined;
       items.forEach(item => {
-        const canRetry = QueueManager.handleFailedSync(item.noteUuid, (error as Error).message);
+        const canRetry = QueueManager.handleFailedSync(item.operationId, (error as Error).message, status);
         
         if (!canRetry) {
-          console.warn(`Note ${item.noteUuid} moved to retry queue after max retries`);
+          console.warn(`Note ${item.noteUuid} left the primary queue after failing to sync`);
         }
       });
+    } finally {
+      // Operations left queued (e.g. merged conflicts) can take later changes again
+      QueueManager.clearInFlight();
     }
   }
 
@@ -168,12 +281,12 @@ export class NotesSyncService {
       console.log(`User not authenticated, keeping original userId ${note.userId} for note ${note.uuid}`);
     }
     
-    // Always save to localStorage first
-    NotesStorage.saveNote(noteToSave);
+    // Always save to local storage first
+    await NotesStorage.saveNote(noteToSave);
     
     // Add to sync queue with precheck if authenticated
     if (this.isAuthenticated()) {
-      const added = QueueManager.addToQueue(noteToSave.uuid, 'create');
+      const added = await QueueManager.addToQueue(noteToSave.uuid, 'create');
       if (!added) {
         console.log(`Note ${noteToSave.uuid} not added to sync queue due to precheck failure`);
       }
@@ -195,12 +308,21 @@ export class NotesSyncService {
       }
     }
     
-    // Always save to localStorage first
-    NotesStorage.saveNote(noteToSave);
+    // Only the fields that changed are sent
+    const previous = await NotesStorage.getNote(noteToSave.uuid);
+    const changedFields = previous ? NoteMergeEngine.getChangedFields(previous, noteToSave) : undefined;
+
+    // Always save to local storage first
+    await NotesStorage.saveNote(noteToSave);
     
     // Add to sync queue with precheck if authenticated
     if (this.isAuthenticated()) {
-      const added = QueueManager.addToQueue(noteToSave.uuid, 'update');
+      if (changedFields?.length === 0) {
+        console.log(`Note ${noteToSave.uuid} has no changed fields, skipping sync queue`);
+        return noteToSave;
+      }
+
+      const added = await QueueManager.addToQueue(noteToSave.uuid, 'update', changedFields);
       if (!added) {
         console.log(`Note ${noteToSave.uuid} update not added to sync queue due to precheck failure`);
       }
@@ -213,15 +335,237 @@ export class NotesSyncService {
    * Delete a note with precheck and queue management
    */
   static async deleteNote(_id: number, uuid: string): Promise<void> {
+    // Connectors leave the canvas with the note
+    await ConnectorsSyncService.removeConnectorsOfNotes([uuid]);
+
     // Add to sync queue with precheck if authenticated
     if (this.isAuthenticated()) {
-      const added = QueueManager.addToQueue(uuid, 'delete');
+      const added = await QueueManager.addToQueue(uuid, 'delete');
       if (!added) {
         console.log(`Note ${uuid} delete not added to sync queue due to precheck (likely id=0)`);
       }
     }
   }
 
+  /**
+   * Update several notes as one group operation: saved together and queued as a single batch
+   */
+  static async updateNotes(notes: Note[]): Promise<Note[]> {
+    // Set userId if user is authenticated
+    let notesToSave = notes;
+    if (this.isAuthenticated()) {
+      const currentUser = SessionManager.getCurrentUser();
+      if (currentUser && currentUser.id) {
+        notesToSave = notes.map(note => ({ ...note, userId: currentUser.id }));
+      }
+    }
+
+    // Only the fields that changed are sent
+    const changedFields: Record<string, NoteSyncField[]> = {};
+    for (const note of notesToSave) {
+      const previous = await NotesStorage.getNote(note.uuid);
+      if (previous) changedFields[note.uuid] = NoteMergeEngine.getChangedFields(previous, note);
+    }
+
+    // Always save to local storage first
+    await NotesStorage.saveNotes(notesToSave);
+
+    // Add to sync queue as one batch if authenticated
+    if (this.isAuthenticated()) {
+      const changedUuids = notesToSave
+        .map(note => note.uuid)
+        .filter(uuid => changedFields[uuid]?.length !== 0);
+      await QueueManager.addBatchToQueue(changedUuids, 'update', changedFields);
+    }
+
+    return notesToSave;
+  }
+
+  /**
+   * Delete several notes as one group operation queued as a single batch
+   */
+  static async deleteNotes(uuids: string[]): Promise<void> {
+    await ConnectorsSyncService.removeConnectorsOfNotes(uuids);
+
+    if (this.isAuthenticated()) {
+      await QueueManager.addBatchToQueue(uuids, 'delete');
+    }
+  }
+
+  /**
+   * Restore notes to a previous state (trash restore, undo of a delete). Each note is
+   * queued as a create or an update depending on whether its server copy still exists.
+   */
+  static async restoreNotes(notes: Note[]): Promise<Note[]> {
+    const createUuids: string[] = [];
+    const updateUuids: string[] = [];
+    let notesToSave: Note[] = [];
+
+    for (const note of notes) {
+      const current = await NotesStorage.getNote(note.uuid);
+      const action = current ? QueueManager.getRestoreAction(current) : 'create';
+
+      if (action === 'create') {
+        // The server has no copy to update, so the note is sent again as a new one
+        notesToSave.push({ ...note, id: API.DEFAULT_IDS.NEW_ENTITY });
+        createUuids.push(note.uuid);
+      } else {
+        notesToSave.push(note);
+        updateUuids.push(note.uuid);
+      }
+    }
+
+    // Set userId if user is authenticated
+    if (this.isAuthenticated()) {
+      const currentUser = SessionManager.getCurrentUser();
+      if (currentUser && currentUser.id) {
+        notesToSave = notesToSave.map(note => ({ ...note, userId: currentUser.id }));
+      }
+    }
+
+    // Always save to local storage first
+    await NotesStorage.saveNotes(notesToSave);
+
+    if (this.isAuthenticated()) {
+      // A delete waiting for retry must not be replayed after the restore
+      [...createUuids, ...updateUuids].forEach(uuid => QueueManager.removeFromRetryQueue(uuid));
+      await QueueManager.addBatchToQueue(createUuids, 'create');
+      await QueueManager.addBatchToQueue(updateUuids, 'update');
+    }
+
+    // Connectors removed with the notes come back once both of their notes are restored
+    await ConnectorsSyncService.restoreConnectorsOfNotes(notesToSave.map(note => note.uuid));
+
+    return notesToSave;
+  }
+
+  /**
+   * Get all notes in the trash, most recently deleted first
+   */
+  static async getTrashedNotes(): Promise<Note[]> {
+    return NotesStorage.getDeletedNotes();
+  }
+
+  /**
+   * Permanently remove notes from the trash. A deletion that has not reached the
+   * server yet stays queued so the server copy is still removed.
+   */
+  static async purgeNotes(notes: Note[]): Promise<void> {
+    if (notes.length === 0) return;
+
+    QueueManager.queuePurge(notes);
+    await NotesStorage.deleteNotes(notes.map(note => note.uuid));
+    await ConnectorsSyncService.purgeConnectorsOfNotes(notes.map(note => note.uuid));
+    console.log(`Purged ${notes.length} notes from the trash`);
+  }
+
+  /**
+   * Get how many days notes stay in the trash before being purged (0 = never)
+   */
+  static getTrashAutoPurgeDays(): number {
+    return NotesStorage.getTrashAutoPurgeDays() ?? TRASH.DEFAULT_AUTO_PURGE_DAYS;
+  }
+
+  /**
+   * Set how many days notes stay in the trash before being purged (0 = never)
+   */
+  static setTrashAutoPurgeDays(days: number): void {
+    NotesStorage.saveTrashAutoPurgeDays(days);
+  }
+
+  /**
+   * Get the date a trashed note will be purged automatically, or null when auto-purge is off
+   */
+  static getTrashPurgeDate(note: Note, days: number = this.getTrashAutoPurgeDays()): Date | null {
+    const deletedAt = note.deletedAt || note.updatedAt;
+    if (days <= 0 || !deletedAt) return null;
+    return new Date(deletedAt.getTime() + days * TRASH.MS_PER_DAY);
+  }
+
+  /**
+   * Purge trashed notes deleted longer ago than the auto-purge setting
+   * @returns The purged notes
+   */
+  static async purgeExpiredTrash(): Promise<Note[]> {
+    const days = this.getTrashAutoPurgeDays();
+    if (days <= 0) return [];
+
+    const now = Date.now();
+    const expiredNotes = (await NotesStorage.getDeletedNotes()).filter(note => {
+      const purgeDate = this.getTrashPurgeDate(note, days);
+      return purgeDate !== null && purgeDate.getTime() <= now;
+    });
+
+    await this.purgeNotes(expiredNotes);
+    return expiredNotes;
+  }
+
+  /**
+   * Resolve a merge conflict by picking a side per field. The result is saved
+   * and queued like any other update so it syncs to every device.
+   */
+  static async resolveConflict(conflict: NoteConflict, resolution: ConflictResolution): Promise<Note | null> {
+    const current = await NotesStorage.getNote(conflict.noteUuid);
+    if (!current) {
+      await SyncConflictStorage.deleteConflict(conflict.noteUuid);
+      return null;
+    }
+
+    const resolved = NoteMergeEngine.applyResolution(current, conflict, resolution);
+    const savedNote = await this.updateNote({
+      ...resolved,
+      updatedAt: new Date(),
+      localVersion: (resolved.localVersion || 1) + 1,
+      clientUpdatedAt: new Date()
+    });
+
+    await SyncConflictStorage.deleteConflict(conflict.noteUuid);
+    this.notifyRealTimeEventHandlers('forceReloadNotes', { reason: 'conflictResolved', affectedNotes: 1 });
+    return savedNote;
+  }
+
+  /**
+   * Resolve a merge conflict by keeping both versions: the note keeps the server
+   * values and the local version is re-created as a new note
+   */
+  static async keepBothConflictVersions(conflict: NoteConflict): Promise<Note> {
+    const now = new Date();
+    const duplicate: Note = {
+      ...conflict.local,
+      id: API.DEFAULT_IDS.NEW_ENTITY,
+      uuid: uuidv4(),
+      title: `${conflict.local.title} (local copy)`,
+      position: {
+        x: conflict.local.position.x + CONFLICT.DUPLICATE_OFFSET,
+        y: conflict.local.position.y + CONFLICT.DUPLICATE_OFFSET
+      },
+      noteTasks: (conflict.local.noteTasks || []).map(task => ({
+        ...task,
+        id: API.DEFAULT_IDS.NEW_ENTITY,
+        uuid: uuidv4(),
+        noteId: API.DEFAULT_IDS.NEW_ENTITY
+      })),
+      createdAt: now,
+      updatedAt: now,
+      syncVersion: 1,
+      localVersion: 1,
+      lastSyncedAt: now,
+      clientUpdatedAt: now
+    };
+
+    const savedNote = await this.createNote(duplicate);
+    await SyncConflictStorage.deleteConflict(conflict.noteUuid);
+    this.notifyRealTimeEventHandlers('forceReloadNotes', { reason: 'conflictResolved', affectedNotes: 2 });
+    return savedNote;
+  }
+
+  /**
+   * Get all unresolved merge conflicts
+   */
+  static async getConflicts(): Promise<NoteConflict[]> {
+    return SyncConflictStorage.getAllConflicts();
+  }
+
   /**
    * Handle user logout - stop sync but preserve queue
    */
@@ -236,6 +580,11 @@ export class NotesSyncService {
    * Handle user login - start sync timer and SignalR
    */
   static handleUserLogin(): void {
+    if (this.isTabSyncInitialized && !TabChannel.isLeader()) {
+      console.log('User logged in - sync timer and SignalR run in the leader tab');
+      return;
+    }
+
     console.log('User logged in - starting sync timer and SignalR');
     this.startSyncTimer();
     SignalRService.handleUserLogin();
@@ -246,6 +595,8 @@ export class NotesSyncService {
    * Handle network status change
    */
   static handleNetworkChange(isOnline: boolean): void {
+    if (this.isTabSyncInitialized && !TabChannel.isLeader()) return;
+
     if (isOnline && this.isAuthenticated()) {
       console.log('Network restored - starting sync timer and SignalR');
       this.startSyncTimer();
@@ -254,6 +605,9 @@ export class NotesSyncService {
       console.log('Network lost - stopping sync timer');
       this.stopSyncTimer();
       SignalRService.handleNetworkChange(isOnline);
+      if (this.isAuthenticated()) {
+        BackgroundSyncService.scheduleQueueFlush(true);
+      }
     }
   }
 
@@ -266,10 +620,13 @@ export class NotesSyncService {
     
     return {
       isTimerActive: this.syncTimer !== null,
+      isLeaderTab: TabChannel.isLeader(),
       isSyncing: this.isSyncing,
       canSync: this.canSync(),
       primaryQueueCount: queueStats.primary.total,
       retryQueueCount: queueStats.retry.total,
+      deadLetterCount: queueStats.deadLetter.total,
+      isQueuePaused: QueueManager.isPaused(),
       queueStats,
       realTimeStatus
     };
@@ -280,7 +637,7 @@ export class NotesSyncService {
    */
   static async retryFailedItems(): Promise<void> {
     console.log('Manually retrying failed items...');
-    QueueManager.processRetryQueue();
+    QueueManager.processRetryQueue(true);
     
     if (this.canSync()) {
       await this.performScheduledSync();
@@ -288,111 +645,287 @@ export class NotesSyncService {
   }
 
   /**
-   * Load all notes from API and localStorage
+   * Load all notes from API and local storage. With a sync cursor only the changes
+   * since the last load are downloaded; a full resync runs when it is missing or rejected.
    */
   static async loadAllNotes(): Promise<Note[]> {
-    // If user has never logged in, only use localStorage
+    // If user has never logged in, only use local storage
     if (!SessionManager.hasUserEverLoggedIn()) {
-      console.log('User has never logged in, using localStorage only');
+      console.log('User has never logged in, using local storage only');
       return NotesStorage.getAllNotes();
     }
 
-    // If user has logged in before but is not currently authenticated, use localStorage only
+    // If user has logged in before but is not currently authenticated, use local storage only
     if (!this.isAuthenticated()) {
-      console.log('User not currently authenticated but has logged in before, using localStorage only');
+      console.log('User not currently authenticated but has logged in before, using local storage only');
       return NotesStorage.getAllNotes();
     }
     
     try {
-      // User is authenticated and has logged in before - merge API + unsynced local notes
-      console.log('User is authenticated, loading and merging API notes with local unsynced notes');
-      
-      const apiResponse = await notesApi.getAllNotes();
-      const apiNotes = apiResponse.map(transformNoteResponseToNote);
-      
-      // Get all local notes
-      const localNotes = NotesStorage.getAllNotes();
-      
-      // Create a map for efficient lookup
-      const apiNotesMap = new Map(apiNotes.map(note => [note.uuid, note]));
-      
-      // Merge notes with priority: local with bigger localVersion > API > localStorage not in API
-      const mergedNotes: Note[] = [];
-      const processedUuids = new Set<string>();
-      
-      // First, process notes that exist in both local and API
-      for (const localNote of localNotes) {
-        const apiNote = apiNotesMap.get(localNote.uuid);
-        
-        if (apiNote) {
-          // Note exists in both local and API - compare localVersion
-          const localVersion = localNote.localVersion || 1;
-          const apiSyncVersion = apiNote.syncVersion || 1;
-          
-          if (localVersion > apiSyncVersion) {
-            // Local note has higher version - use local and queue for sync
-            mergedNotes.push(localNote);
-            console.log(`Using local version of note ${localNote.uuid} (local v${localVersion} > API v${apiSyncVersion})`);
-            
-            // Immediately add to sync queue since local version is newer
-            const isInQueue = QueueManager.getPrimaryQueue().some(queueItem => queueItem.noteUuid === localNote.uuid) ||
-                             QueueManager.getRetryQueue().some(queueItem => queueItem.noteUuid === localNote.uuid);
-            
-            if (!isInQueue) {
-              const action = localNote.id === 0 ? 'create' : 'update';
-              const added = QueueManager.addToQueue(localNote.uuid, action);
-              if (added) {
-                console.log(`Added note ${localNote.uuid} to sync queue (local v${localVersion} > API v${apiSyncVersion})`);
-              }
-            }
-          } else {
-            // API note has same or higher version - use API and save to localStorage
-            mergedNotes.push(apiNote);
-            NotesStorage.saveNote(apiNote);
-            console.log(`Using API version of note ${apiNote.uuid} (API v${apiSyncVersion} >= local v${localVersion})`);
-          }
-          processedUuids.add(localNote.uuid);
+      const userId = SessionManager.getCurrentUser()?.id;
+      const cursor = userId ? NotesStorage.getSyncCursor(userId) : null;
+
+      if (userId && cursor !== null) {
+        try {
+          return await this.loadNoteChanges(userId, cursor);
+        } catch (error) {
+          if (!(error instanceof ApiError && error.status === API.STATUS_CODES.GONE)) throw error;
+          console.warn(`Sync cursor ${cursor} was rejected by the server, running a full resync`);
+          NotesStorage.clearSyncCursor(userId);
         }
       }
+
+      return await this.loadFullNotes(userId);
+    } catch (error) {
+      console.warn('Failed to load notes from API, using local storage:', error);
+      return NotesStorage.getAllNotes();
+    }
+  }
+
+  /**
+   * Full resync: download every note and merge it with the local notes, then
+   * start a sync cursor for delta loads
+   */
+  private static async loadFullNotes(userId?: number): Promise<Note[]> {
+    // User is authenticated and has logged in before - merge API + unsynced local notes
+    console.log('User is authenticated, loading and merging API notes with local unsynced notes');
+    
+    const apiResponse = await notesApi.getAllNotes();
+    const apiNotes = apiResponse.map(transformNoteResponseToNote);
+    const apiConnectors = (await notesApi.getAllConnectors()).map(transformConnectorResponseToConnector);
+    const apiFrames = (await notesApi.getAllFrames()).map(transformFrameResponseToFrame);
+    
+    // Get all local notes
+    const localNotes = await NotesStorage.getAllNotes();
+    
+    // Create a map for efficient lookup
+    const apiNotesMap = new Map(apiNotes.map(note => [note.uuid, note]));
+    
+    // Merge notes: unchanged local notes take the API version, notes changed on both sides
+    // are merged field by field against the last-synced base snapshot
+    const mergedNotes: Note[] = [];
+    const notesToSave: Note[] = [];
+    const processedUuids = new Set<string>();
+    
+    // First, process notes that exist in both local and API
+    for (const localNote of localNotes) {
+      const apiNote = apiNotesMap.get(localNote.uuid);
       
-      // Second, add API notes that don't exist locally
-      for (const apiNote of apiNotes) {
-        if (!processedUuids.has(apiNote.uuid)) {
-          mergedNotes.push(apiNote);
-          NotesStorage.saveNote(apiNote);
-          processedUuids.add(apiNote.uuid);
-          console.log(`Added API-only note ${apiNote.uuid} to local storage`);
-        }
+      if (apiNote) {
+        mergedNotes.push(await this.reconcileServerNote(localNote, apiNote, notesToSave));
+        processedUuids.add(localNote.uuid);
       }
-      
-      // Third, add local notes that don't exist in API (unsynced notes)
-      const unsyncedNotes = localNotes.filter(localNote => 
-        !processedUuids.has(localNote.uuid)
-      );
-      
-      // Add unsynced notes to the merged list
-      mergedNotes.push(...unsyncedNotes);
-      
-      // Add unsynced notes to queue if they're not already in the queue
-      unsyncedNotes.forEach(note => {
-        const isInQueue = QueueManager.getPrimaryQueue().some(queueItem => queueItem.noteUuid === note.uuid) ||
-                         QueueManager.getRetryQueue().some(queueItem => queueItem.noteUuid === note.uuid);
-        
-        if (!isInQueue) {
-          // Determine the appropriate action based on note properties
-          const action = note.id === 0 ? 'create' : 'update';
-          const added = QueueManager.addToQueue(note.uuid, action);
-          if (added) {
-            console.log(`Added unsynced note ${note.uuid} to sync queue with action: ${action}`);
-          }
+    }
+    
+    // Second, add API notes that don't exist locally
+    for (const apiNote of apiNotes) {
+      // Notes purged from the trash only wait for their server delete
+      if (!processedUuids.has(apiNote.uuid) && QueueManager.hasQueuedDelete(apiNote.uuid)) continue;
+
+      if (!processedUuids.has(apiNote.uuid)) {
+        mergedNotes.push(apiNote);
+        notesToSave.push(apiNote);
+        processedUuids.add(apiNote.uuid);
+        console.log(`Added API-only note ${apiNote.uuid} to local storage`);
+      }
+    }
+    
+    // Persist all API notes and their base snapshots in a single transaction
+    await NotesStorage.saveSyncedNotes(notesToSave);
+    
+    // Third, add local notes that don't exist in API (unsynced notes)
+    const unsyncedNotes = localNotes.filter(localNote => 
+      !processedUuids.has(localNote.uuid)
+    );
+    
+    // Add unsynced notes to the merged list
+    mergedNotes.push(...unsyncedNotes);
+    
+    // Add unsynced notes to queue if they're not already in the queue
+    for (const note of unsyncedNotes) {
+      await this.ensureQueued(note);
+    }
+
+    await ConnectorsSyncService.applyServerConnectors(apiConnectors);
+    await ConnectorsSyncService.ensureQueuedConnectors();
+    await FramesSyncService.applyServerFrames(apiFrames);
+    await FramesSyncService.ensureQueuedFrames();
+
+    // Later loads only ask for changes after the newest version seen
+    if (userId) {
+      const cursor = [...apiNotes, ...apiConnectors, ...apiFrames].reduce((highest, entity) => Math.max(highest, entity.syncVersion || 0), 0);
+      NotesStorage.saveSyncCursor(userId, cursor);
+    }
+    
+    console.log(`Loaded ${apiNotes.length} API notes and ${unsyncedNotes.length} unsynced local notes, merged total: ${mergedNotes.length}`);
+    return mergedNotes;
+  }
+
+  /**
+   * Delta sync: apply the notes changed and deleted on the server since the cursor,
+   * page by page. The cursor advances after each stored page, so an interrupted load
+   * continues where it stopped.
+   */
+  private static async loadNoteChanges(userId: number, cursor: number): Promise<Note[]> {
+    console.log(`Loading note changes since sync cursor ${cursor}`);
+
+    let since = cursor;
+    let hasMore = true;
+    let changedCount = 0;
+    let deletedCount = 0;
+
+    while (hasMore) {
+      const page = await notesApi.getNoteChanges({ since, limit: SYNC.DELTA_PAGE_SIZE });
+      const notesToSave: Note[] = [];
+
+      for (const apiNote of page.notes.map(transformNoteResponseToNote)) {
+        const localNote = await NotesStorage.getNote(apiNote.uuid);
+        if (localNote) {
+          await this.reconcileServerNote(localNote, apiNote, notesToSave);
+        } else if (!QueueManager.hasQueuedDelete(apiNote.uuid)) {
+          // Notes purged from the trash only wait for their server delete
+          notesToSave.push(apiNote);
         }
-      });
-      
-      console.log(`Loaded ${apiNotes.length} API notes and ${unsyncedNotes.length} unsynced local notes, merged total: ${mergedNotes.length}`);
-      return mergedNotes;
+      }
+      await NotesStorage.saveSyncedNotes(notesToSave);
+
+      for (const tombstone of page.tombstones) {
+        await this.applyTombstone(tombstone);
+      }
+
+      await ConnectorsSyncService.applyServerConnectors((page.connectors || []).map(transformConnectorResponseToConnector));
+      await ConnectorsSyncService.applyConnectorTombstones(page.connectorTombstones || []);
+      await FramesSyncService.applyServerFrames((page.frames || []).map(transformFrameResponseToFrame));
+      await FramesSyncService.applyFrameTombstones(page.frameTombstones || []);
+
+      NotesStorage.saveSyncCursor(userId, page.cursor);
+      changedCount += page.notes.length;
+      deletedCount += page.tombstones.length;
+      // A cursor that does not move would ask for the same page forever
+      hasMore = page.hasMore && page.cursor > since;
+      since = page.cursor;
+    }
+
+    // Notes changed on this device while signed out are not in the queue yet
+    const localNotes = await NotesStorage.getAllNotes();
+    for (const note of localNotes) {
+      const isUnsynced = note.id === API.DEFAULT_IDS.NEW_ENTITY || (note.localVersion || 1) > (note.syncVersion || 1);
+      if (isUnsynced) {
+        await this.ensureQueued(note);
+      }
+    }
+    await ConnectorsSyncService.ensureQueuedConnectors();
+    await FramesSyncService.ensureQueuedFrames();
+
+    console.log(`Applied ${changedCount} changed and ${deletedCount} deleted notes since cursor ${cursor}, now at ${since}`);
+    return localNotes;
+  }
+
+  /**
+   * Combine a local note with its server version: unchanged local notes take the server
+   * version (added to notesToSave), notes changed on both sides are merged field by field
+   * against the last-synced base snapshot
+   * @returns The note to show
+   */
+  private static async reconcileServerNote(localNote: Note, apiNote: Note, notesToSave: Note[]): Promise<Note> {
+    const localVersion = localNote.localVersion || 1;
+    const localSyncVersion = localNote.syncVersion || 1;
+    const apiSyncVersion = apiNote.syncVersion || 1;
+    const hasLocalChanges = localVersion > localSyncVersion;
+    
+    if (!hasLocalChanges) {
+      // No local edits since last sync - use API and save to local storage
+      notesToSave.push(apiNote);
+      console.log(`Using API version of note ${apiNote.uuid} (no local changes since v${localSyncVersion})`);
+      return apiNote;
+    }
+
+    if (apiSyncVersion <= localSyncVersion) {
+      // Server unchanged since last sync - use local and queue for sync
+      console.log(`Using local version of note ${localNote.uuid} (local v${localVersion}, API unchanged at v${apiSyncVersion})`);
+      await this.ensureQueued(localNote);
+      return localNote;
+    }
+
+    // Both sides changed - three-way merge
+    const result = await NoteMergeEngine.reconcileWithServer(localNote, apiNote);
+    console.log(`Merged note ${localNote.uuid} (local v${localVersion}, API v${apiSyncVersion}, ${result.conflicts.length} conflicts)`);
+    if (result.hasLocalChanges) {
+      await this.ensureQueued(result.merged);
+    }
+    return result.merged;
+  }
+
+  /**
+   * Apply a deletion made on the server. The note moves to the local trash, unless it
+   * has changes made here, which are kept by creating it again on the server.
+   */
+  private static async applyTombstone(tombstone: NoteTombstoneResponse): Promise<void> {
+    const localNote = await NotesStorage.getNote(tombstone.uuid);
+
+    // Already deleted or purged here: nothing is left to send for it
+    if (!localNote || localNote.isDeleted) {
+      QueueManager.removeFromPrimaryQueue(tombstone.uuid);
+      QueueManager.removeFromRetryQueue(tombstone.uuid);
+      if (localNote) {
+        await NotesStorage.markDeletionSynced(tombstone.uuid);
+      }
+      return;
+    }
+
+    const hasLocalChanges = (localNote.localVersion || 1) > (localNote.syncVersion || 1);
+    if (!hasLocalChanges) {
+      await NotesStorage.markDeletionSynced(tombstone.uuid);
+      console.log(`Note ${tombstone.uuid} was deleted on the server, moved to trash`);
+      return;
+    }
+
+    const recreated = { ...localNote, id: API.DEFAULT_IDS.NEW_ENTITY };
+    await NotesStorage.saveNote(recreated);
+    QueueManager.replacePendingAction(tombstone.uuid, 'update', 'create');
+    await this.ensureQueued(recreated);
+    console.log(`Note ${tombstone.uuid} was deleted on the server but changed here, creating it again`);
+  }
+
+  /**
+   * Add a note to the sync queue unless it is already queued or waiting for retry
+   */
+  private static async ensureQueued(note: Note): Promise<void> {
+    const isInQueue = QueueManager.getPrimaryQueue().some(queueItem => queueItem.noteUuid === note.uuid) ||
+                     QueueManager.getRetryQueue().some(queueItem => queueItem.noteUuid === note.uuid);
+    
+    if (!isInQueue) {
+      // Trashed notes only need a delete, and only while it has not reached the server
+      if (note.isDeleted) {
+        const hasPendingDeletion = note.id !== API.DEFAULT_IDS.NEW_ENTITY && (note.localVersion || 1) > (note.syncVersion || 1);
+        if (!hasPendingDeletion) return;
+      }
+
+      // Determine the appropriate action based on note properties
+      const action = note.isDeleted ? 'delete' : note.id === 0 ? 'create' : 'update';
+      const added = await QueueManager.addToQueue(note.uuid, action);
+      if (added) {
+        console.log(`Added note ${note.uuid} to sync queue with action: ${action}`);
+      }
+    }
+  }
+
+  /**
+   * Search notes on the server (only when online and authenticated)
+   * @param query - Free text to search for
+   * @returns Matching notes, or an empty list when the server cannot be reached
+   */
+  static async searchNotes(query: string): Promise<Note[]> {
+    if (!query.trim() || !this.isAuthenticated() || !navigator.onLine) {
+      return [];
+    }
+
+    try {
+      const response = await notesApi.searchNotes({ q: query });
+      return response.map(transformNoteResponseToNote);
     } catch (error) {
-      console.warn('Failed to load notes from API, using localStorage:', error);
-      return NotesStorage.getAllNotes();
+      console.warn('Server search failed:', error);
+      return [];
     }
   }
 
@@ -461,6 +994,8 @@ export class NotesSyncService {
     SignalRService.addEventListener('reconnected', (data: any) => {
       console.log('SignalR reconnected:', data.connectionId);
       this.notifyRealTimeEventHandlers('reconnected', data);
+      // A connection kept for a shared canvas leaves catching up to the leader tab
+      if (!this.isTabSyncInitialized || TabChannel.isLeader()) this.catchUpNoteChanges();
     });
 
     SignalRService.addEventListener('statusUpdated', (status: RealTimeSyncStatus) => {
@@ -474,6 +1009,38 @@ export class NotesSyncService {
     });
   }
 
+  /**
+   * Fetch the changes missed while SignalR was disconnected: those after the last
+   * event received, or a regular load when there is no position to start from
+   */
+  private static async catchUpNoteChanges(): Promise<void> {
+    const userId = SessionManager.getCurrentUser()?.id;
+    if (!userId || !this.isAuthenticated()) return;
+
+    const since = SignalRService.getLastEventSyncVersion();
+    try {
+      if (since === null) {
+        await this.loadAllNotes();
+      } else {
+        await this.loadNoteChanges(userId, since);
+      }
+    } catch (error) {
+      if (!(error instanceof ApiError && error.status === API.STATUS_CODES.GONE)) {
+        console.error('Failed to catch up on note changes after reconnecting:', error);
+        return;
+      }
+      console.warn(`Catch-up position ${since} was rejected by the server, running a full resync`);
+      NotesStorage.clearSyncCursor(userId);
+      await this.loadAllNotes();
+    }
+
+    const cursor = NotesStorage.getSyncCursor(userId);
+    if (cursor !== null) {
+      SignalRService.recordSyncVersion(cursor);
+    }
+    this.notifyRealTimeEventHandlers('forceReloadNotes', { reason: 'signalRCatchUp' });
+  }
+
   /**
    * Add event handler for real-time sync events
    */
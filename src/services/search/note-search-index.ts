@@ -0,0 +1,338 @@
+import { Note } from '@/domains/note';
+import { NoteSearchResult, ParsedSearchQuery, SearchSnippetPart } from '@/types/search.types';
+import { normalizeSearchText, normalizeWithSourceMap, tokenizeSearchText } from '@/helpers/search-text';
+import { getColorName } from '@/helpers/color-generator';
+import { SEARCH } from '@/constants/ui-constants';
+
+type SearchField = NoteSearchResult['field'];
+
+interface IndexedField {
+  field: SearchField;
+  text: string;
+  words: string[];
+}
+
+interface IndexedNote {
+  note: Note;
+  fields: IndexedField[];
+  /** Weighted occurrences of each word in the note */
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+interface MatchRange {
+  start: number;
+  end: number;
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: SEARCH.TITLE_WEIGHT,
+  tag: SEARCH.TAG_WEIGHT,
+  content: SEARCH.CONTENT_WEIGHT,
+  task: SEARCH.TASK_WEIGHT,
+};
+
+// Same word pattern as tokenizeSearchText, with positions for highlighting
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * In-memory inverted index over notes (title, content, tasks, tags).
+ * Kept up to date incrementally with sync(); ranks matches with BM25 and
+ * weights title and tag matches above content and task matches.
+ */
+export class NoteSearchIndex {
+  // BM25 tuning: term frequency saturation and document length normalization
+  private static readonly K1 = 1.2;
+  private static readonly B = 0.75;
+
+  private documents = new Map<string, IndexedNote>();
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  /**
+   * Bring the index up to date with the given notes. Notes are compared by
+   * reference, so only notes replaced since the last sync are re-indexed.
+   * Deleted notes are dropped from the index.
+   */
+  sync(notes: Note[]): void {
+    const activeNotes = notes.filter(note => !note.isDeleted);
+    const activeUuids = new Set(activeNotes.map(note => note.uuid));
+
+    for (const uuid of [...this.documents.keys()]) {
+      if (!activeUuids.has(uuid)) this.remove(uuid);
+    }
+
+    for (const note of activeNotes) {
+      if (this.documents.get(note.uuid)?.note !== note) this.upsert(note);
+    }
+  }
+
+  /**
+   * Add or re-index a single note
+   */
+  upsert(note: Note): void {
+    this.remove(note.uuid);
+
+    const fieldTexts: Array<Omit<IndexedField, 'words'>> = [
+      { field: 'title', text: note.title || '' },
+      { field: 'content', text: note.content || '' },
+      ...(note.noteTasks || []).map(task => ({ field: 'task' as const, text: task.text })),
+      ...(note.tags || []).map(tag => ({ field: 'tag' as const, text: tag.name })),
+    ];
+    const fields: IndexedField[] = fieldTexts.map(field => ({ ...field, words: tokenizeSearchText(field.text) }));
+
+    const termFrequencies = new Map<string, number>();
+    let length = 0;
+    for (const field of fields) {
+      for (const word of field.words) {
+        termFrequencies.set(word, (termFrequencies.get(word) || 0) + FIELD_WEIGHTS[field.field]);
+        length++;
+      }
+    }
+
+    for (const term of termFrequencies.keys()) {
+      if (!this.postings.has(term)) this.postings.set(term, new Set());
+      this.postings.get(term)!.add(note.uuid);
+    }
+
+    this.documents.set(note.uuid, { note, fields, termFrequencies, length });
+    this.totalLength += length;
+  }
+
+  /**
+   * Remove a note from the index
+   */
+  remove(uuid: string): void {
+    const document = this.documents.get(uuid);
+    if (!document) return;
+
+    for (const term of document.termFrequencies.keys()) {
+      const uuids = this.postings.get(term);
+      uuids?.delete(uuid);
+      if (uuids && uuids.size === 0) this.postings.delete(term);
+    }
+
+    this.documents.delete(uuid);
+    this.totalLength -= document.length;
+  }
+
+  /**
+   * Number of indexed notes
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Search the index. Every word must match (the last one may be partially typed),
+   * every phrase must appear and every filter must pass.
+   * Results are ranked by relevance, or by last update when only filters are used.
+   */
+  search(query: ParsedSearchQuery): NoteSearchResult[] {
+    let candidates = [...this.documents.keys()];
+    const scores = new Map<string, number>(candidates.map(uuid => [uuid, 0]));
+
+    for (const term of query.terms) {
+      const termScores = this.scoreTerm(term);
+      candidates = candidates.filter(uuid => termScores.has(uuid));
+      candidates.forEach(uuid => scores.set(uuid, scores.get(uuid)! + termScores.get(uuid)!));
+    }
+
+    const results: NoteSearchResult[] = [];
+    for (const uuid of candidates) {
+      const document = this.documents.get(uuid)!;
+      if (!NoteSearchIndex.matchesFilters(document.note, query)) continue;
+      if (!query.phrases.every(phrase => NoteSearchIndex.containsPhrase(document.fields, phrase))) continue;
+
+      const score = scores.get(uuid)! + query.phrases.length * SEARCH.PHRASE_BONUS;
+      results.push(NoteSearchIndex.buildResult(document.note, query, score));
+    }
+
+    return results.sort((a, b) =>
+      b.score - a.score || (b.note.updatedAt?.getTime() || 0) - (a.note.updatedAt?.getTime() || 0)
+    );
+  }
+
+  /**
+   * Check a note against the operators of a query (tag:, color:, date:, is:, has:)
+   */
+  static matchesFilters(note: Note, query: ParsedSearchQuery): boolean {
+    if (note.isDeleted) return false;
+    if (query.isPinned && !note.isPinned) return false;
+    if (query.isTask && !note.isTaskMode) return false;
+    if (query.hasIncomplete && !(note.noteTasks || []).some(task => !task.completed)) return false;
+
+    if (query.tags.length > 0) {
+      const noteTags = (note.tags || []).map(tag => normalizeSearchText(tag.name));
+      if (!query.tags.every(tag => noteTags.includes(tag))) return false;
+    }
+
+    if (query.colors.length > 0) {
+      const color = note.color.toLowerCase();
+      const colorName = getColorName(note.color);
+      if (!query.colors.some(queryColor => queryColor === color || queryColor === colorName)) return false;
+    }
+
+    if (query.dateRange) {
+      const time = new Date(note.date).getTime();
+      if (query.dateRange.from && time < query.dateRange.from.getTime()) return false;
+      if (query.dateRange.to && time > query.dateRange.to.getTime()) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Build a result with a highlighted snippet. Also used for notes returned by the server search.
+   */
+  static buildResult(note: Note, query: ParsedSearchQuery, score: number): NoteSearchResult {
+    const candidates: Array<{ field: SearchField; text: string }> = [
+      { field: 'content', text: note.content || '' },
+      ...(note.noteTasks || []).map(task => ({ field: 'task' as const, text: task.text })),
+      ...(note.tags || []).map(tag => ({ field: 'tag' as const, text: `#${tag.name}` })),
+      { field: 'title', text: note.title || '' },
+    ];
+
+    for (const candidate of candidates) {
+      const ranges = this.findMatchRanges(candidate.text, query);
+      if (ranges.length > 0) {
+        return { note, score, field: candidate.field, snippet: this.buildSnippet(candidate.text, ranges) };
+      }
+    }
+
+    // Filter-only queries (or server matches we cannot locate) show the start of the content
+    return { note, score, field: 'content', snippet: this.buildSnippet(note.content || '', []) };
+  }
+
+  /**
+   * Split text into plain and highlighted parts for every query word and phrase it contains
+   */
+  static highlightText(text: string, query: ParsedSearchQuery): SearchSnippetPart[] {
+    return this.toParts(text, this.findMatchRanges(text, query), 0, text.length);
+  }
+
+  /**
+   * Score every note containing the term, counting exact matches fully and
+   * prefix matches (search-as-you-type) at a reduced weight
+   */
+  private scoreTerm(term: string): Map<string, number> {
+    const termScores = new Map<string, number>();
+    const averageLength = this.documents.size > 0 ? this.totalLength / this.documents.size : 1;
+
+    for (const [indexedTerm, uuids] of this.postings) {
+      if (!indexedTerm.startsWith(term)) continue;
+
+      const factor = indexedTerm === term ? 1 : SEARCH.PREFIX_MATCH_FACTOR;
+      const idf = Math.log(1 + (this.documents.size - uuids.size + 0.5) / (uuids.size + 0.5));
+
+      for (const uuid of uuids) {
+        const document = this.documents.get(uuid)!;
+        const frequency = document.termFrequencies.get(indexedTerm)!;
+        const lengthNorm = 1 - NoteSearchIndex.B + NoteSearchIndex.B * (document.length / averageLength);
+        const score = factor * idf * (frequency * (NoteSearchIndex.K1 + 1)) / (frequency + NoteSearchIndex.K1 * lengthNorm);
+
+        // A note matching several expansions of the term keeps its best one
+        termScores.set(uuid, Math.max(termScores.get(uuid) || 0, score));
+      }
+    }
+
+    return termScores;
+  }
+
+  /**
+   * Check whether the phrase appears as consecutive words within one field
+   */
+  private static containsPhrase(fields: IndexedField[], phrase: string): boolean {
+    return fields.some(field => ` ${field.words.join(' ')} `.includes(` ${phrase} `));
+  }
+
+  /**
+   * Find the ranges of the original text matching query words (whole words
+   * starting with the term) and phrases (consecutive words)
+   */
+  private static findMatchRanges(text: string, query: ParsedSearchQuery): MatchRange[] {
+    if (!text || (query.terms.length === 0 && query.phrases.length === 0)) return [];
+
+    const { normalized, sourceIndex } = normalizeWithSourceMap(text);
+    const words = [...normalized.matchAll(WORD_PATTERN)].map(match => ({
+      word: match[0],
+      start: match.index!,
+      end: match.index! + match[0].length,
+    }));
+    const ranges: MatchRange[] = [];
+
+    for (const word of words) {
+      if (query.terms.some(term => word.word.startsWith(term))) {
+        ranges.push({ start: word.start, end: word.end });
+      }
+    }
+
+    for (const phrase of query.phrases) {
+      const phraseWords = phrase.split(' ');
+      for (let i = 0; i + phraseWords.length <= words.length; i++) {
+        if (phraseWords.every((phraseWord, offset) => words[i + offset].word === phraseWord)) {
+          ranges.push({ start: words[i].start, end: words[i + phraseWords.length - 1].end });
+        }
+      }
+    }
+
+    // Map back to the original text and merge overlapping ranges
+    const sorted = ranges
+      .map(range => ({ start: sourceIndex[range.start], end: sourceIndex[range.end] }))
+      .sort((a, b) => a.start - b.start);
+
+    const merged: MatchRange[] = [];
+    for (const range of sorted) {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Cut a window of text around the first match
+   */
+  private static buildSnippet(text: string, ranges: MatchRange[]): SearchSnippetPart[] {
+    // One-for-one replacement keeps match offsets valid
+    const source = text.replace(/\s/g, ' ');
+
+    let start = 0;
+    if (ranges.length > 0 && ranges[0].start > SEARCH.SNIPPET_CONTEXT) {
+      start = ranges[0].start - SEARCH.SNIPPET_CONTEXT;
+      // Start on a word boundary
+      const nextSpace = source.indexOf(' ', start);
+      if (nextSpace !== -1 && nextSpace < ranges[0].start) start = nextSpace + 1;
+    }
+    const end = Math.min(source.length, start + SEARCH.SNIPPET_LENGTH);
+
+    const parts = this.toParts(source, ranges, start, end);
+    if (start > 0) parts.unshift({ text: '…', highlight: false });
+    if (end < source.length) parts.push({ text: '…', highlight: false });
+    return parts;
+  }
+
+  /**
+   * Split text[start, end) into plain and highlighted parts
+   */
+  private static toParts(text: string, ranges: MatchRange[], start: number, end: number): SearchSnippetPart[] {
+    const parts: SearchSnippetPart[] = [];
+    let position = start;
+
+    for (const range of ranges) {
+      const rangeStart = Math.max(range.start, start);
+      const rangeEnd = Math.min(range.end, end);
+      if (rangeEnd <= rangeStart) continue;
+
+      if (rangeStart > position) parts.push({ text: text.slice(position, rangeStart), highlight: false });
+      parts.push({ text: text.slice(rangeStart, rangeEnd), highlight: true });
+      position = rangeEnd;
+    }
+
+    if (position < end) parts.push({ text: text.slice(position, end), highlight: false });
+    return parts;
+  }
+}
@@ -0,0 +1,189 @@
+import { ParsedSearchQuery, SearchDateRange } from '@/types/search.types';
+import { normalizeSearchText, tokenizeSearchText } from '@/helpers/search-text';
+
+// Operator with a quoted value, quoted phrase, or any other whitespace-separated token
+const QUERY_TOKEN_PATTERN = /([a-z]+):"([^"]*)"|"([^"]*)"|(\S+)/gi;
+// Year, year-month or year-month-day, e.g. 2026, 2026-10, 2026-10-05
+const DATE_PERIOD_PATTERN = /^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/;
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Parses the search box syntax into free text and structured filters.
+ * Supported operators: tag:, color:, date:, is:pinned, is:task, has:incomplete
+ * and "quoted phrases". Anything it does not recognize is searched as text.
+ */
+export class SearchQueryParser {
+  /**
+   * Parse a raw query string
+   * @param query - The query as typed by the user
+   */
+  static parse(query: string): ParsedSearchQuery {
+    const parsed: ParsedSearchQuery = {
+      terms: [],
+      phrases: [],
+      tags: [],
+      colors: [],
+      dateRange: null,
+      isPinned: false,
+      isTask: false,
+      hasIncomplete: false,
+      text: '',
+    };
+    const textParts: string[] = [];
+
+    for (const match of query.matchAll(QUERY_TOKEN_PATTERN)) {
+      const [, quotedKey, quotedValue, phrase, token] = match;
+
+      if (quotedKey !== undefined) {
+        if (!this.applyOperator(parsed, quotedKey.toLowerCase(), quotedValue)) {
+          this.addText(parsed, textParts, quotedValue, true);
+        }
+        continue;
+      }
+
+      if (phrase !== undefined) {
+        this.addText(parsed, textParts, phrase, true);
+        continue;
+      }
+
+      const separatorIndex = token.indexOf(':');
+      if (separatorIndex > 0) {
+        const key = token.slice(0, separatorIndex).toLowerCase();
+        if (this.applyOperator(parsed, key, token.slice(separatorIndex + 1))) continue;
+      }
+      this.addText(parsed, textParts, token, false);
+    }
+
+    parsed.text = textParts.join(' ');
+    return parsed;
+  }
+
+  /**
+   * Check whether a parsed query has anything to search for
+   */
+  static isEmpty(parsed: ParsedSearchQuery): boolean {
+    return parsed.terms.length === 0 &&
+      parsed.phrases.length === 0 &&
+      !this.hasFilters(parsed);
+  }
+
+  /**
+   * Check whether a parsed query uses any operator
+   */
+  static hasFilters(parsed: ParsedSearchQuery): boolean {
+    return parsed.tags.length > 0 ||
+      parsed.colors.length > 0 ||
+      parsed.dateRange !== null ||
+      parsed.isPinned ||
+      parsed.isTask ||
+      parsed.hasIncomplete;
+  }
+
+  /**
+   * Parse a date: value such as 2026-10-05, 2026-10, 2026, 2026-10..2026-11, ..2026-11 or 2026-10..
+   * Ranges include the whole end period (2026-10..2026-11 ends on November 30th).
+   * @returns The range, or null if the value is not a valid date
+   */
+  static parseDateRange(value: string): SearchDateRange | null {
+    const [startValue, endValue] = value.includes('..') ? value.split('..', 2) : [value, value];
+
+    const start = startValue ? this.parseDatePeriod(startValue) : null;
+    const end = endValue ? this.parseDatePeriod(endValue) : null;
+
+    // Reject invalid sides and an open range on both ends
+    if ((startValue && !start) || (endValue && !end) || (!start && !end)) return null;
+
+    return { from: start ? start.from : null, to: end ? end.to : null };
+  }
+
+  /**
+   * Apply an operator to the parsed query
+   * @returns False when the operator or its value is not recognized
+   */
+  private static applyOperator(parsed: ParsedSearchQuery, key: string, value: string): boolean {
+    const normalizedValue = normalizeSearchText(value.trim());
+    if (!normalizedValue) return false;
+
+    switch (key) {
+      case 'tag':
+        parsed.tags.push(normalizedValue.replace(/^#/, ''));
+        return true;
+
+      case 'color':
+        parsed.colors.push(HEX_COLOR_PATTERN.test(normalizedValue)
+          ? normalizedValue.replace(/^#?/, '#')
+          : normalizedValue);
+        return true;
+
+      case 'date': {
+        const range = this.parseDateRange(normalizedValue);
+        if (!range) return false;
+        parsed.dateRange = range;
+        return true;
+      }
+
+      case 'is':
+        if (normalizedValue === 'pinned') {
+          parsed.isPinned = true;
+          return true;
+        }
+        if (normalizedValue === 'task') {
+          parsed.isTask = true;
+          return true;
+        }
+        return false;
+
+      case 'has':
+        if (normalizedValue === 'incomplete') {
+          parsed.hasIncomplete = true;
+          return true;
+        }
+        return false;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Add free text as words or as one exact phrase
+   */
+  private static addText(parsed: ParsedSearchQuery, textParts: string[], text: string, isPhrase: boolean): void {
+    const words = tokenizeSearchText(text);
+    if (words.length === 0) return;
+
+    if (isPhrase && words.length > 1) {
+      parsed.phrases.push(words.join(' '));
+      textParts.push(`"${text}"`);
+    } else {
+      parsed.terms.push(...words);
+      textParts.push(text);
+    }
+  }
+
+  /**
+   * Parse one date period into its first and last moment
+   */
+  private static parseDatePeriod(value: string): { from: Date; to: Date } | null {
+    const match = DATE_PERIOD_PATTERN.exec(value);
+    if (!match) return null;
+
+    const year = Number(match[1]);
+    const month = match[2] ? Number(match[2]) - 1 : null;
+    const day = match[3] ? Number(match[3]) : null;
+
+    if (month !== null && (month < 0 || month > 11)) return null;
+
+    if (month === null) {
+      return { from: new Date(year, 0, 1), to: new Date(year, 11, 31, 23, 59, 59, 999) };
+    }
+    if (day === null) {
+      return { from: new Date(year, month, 1), to: new Date(year, month + 1, 0, 23, 59, 59, 999) };
+    }
+
+    const from = new Date(year, month, day);
+    // Reject overflowing days such as 2026-02-31
+    if (from.getMonth() !== month) return null;
+    return { from, to: new Date(year, month, day, 23, 59, 59, 999) };
+  }
+}
@@ -0,0 +1,246 @@
+import { SessionManager } from '@/helpers/session-manager';
+import { COLLABORATION } from '@/constants/ui-constants';
+import {
+  CanvasPresenceEvent,
+  CursorMovedEvent,
+  NoteDragPreviewEvent,
+  NoteLockChangedEvent,
+  SharedNotesChangedEvent
+} from '@/types/collaboration.types';
+import { SignalRService } from './signalr-service';
+
+type CanvasPoint = { x: number; y: number };
+type CollaborationEventHandler<T = unknown> = (data: T) => void;
+
+/**
+ * Live collaboration on a shared canvas over the notes hub: joining the canvas,
+ * presence, cursors, drag previews and edit locks. Only one canvas is open at a
+ * time; events of other canvases are dropped. Group membership belongs to the
+ * hub connection, so the open canvas is joined again after each (re)connect.
+ * Tabs other than the sync leader open the connection just for the canvas.
+ */
+export class CollaborationService {
+  private static isInitialized = false;
+  private static currentShareId: string | null = null;
+  private static isLive = false;
+  private static lockedNoteUuids: Set<string> = new Set();
+  private static eventHandlers: Map<string, CollaborationEventHandler[]> = new Map();
+  private static lastCursorSentAt = 0;
+  private static pendingCursor: CanvasPoint | null = null;
+  private static cursorTimer: ReturnType<typeof setTimeout> | null = null;
+  private static previewSentAt: Map<string, number> = new Map();
+
+  /**
+   * Open a shared canvas: join its hub group so presence, cursors and locks flow
+   */
+  static async joinCanvas(shareId: string): Promise<void> {
+    this.initialize();
+    if (this.currentShareId === shareId) return;
+
+    await this.leaveCurrentCanvas();
+    this.currentShareId = shareId;
+
+    // A new connection joins the open canvas once it connects
+    const wasConnected = SignalRService.isConnected();
+    const isConnected = await SignalRService.connectForCollaboration();
+    const joined = wasConnected ? await SignalRService.invoke('JoinCanvas', shareId) : isConnected;
+    this.setLive(joined);
+    console.log(joined ? `Joined shared canvas ${shareId}` : `Live collaboration on shared canvas ${shareId} is unavailable`);
+  }
+
+  /**
+   * Close the open shared canvas, releasing the locks this client holds
+   */
+  static async leaveCanvas(): Promise<void> {
+    await this.leaveCurrentCanvas();
+    SignalRService.releaseCollaboration();
+  }
+
+  /**
+   * Check whether the open canvas is joined, so presence, cursors, locks and
+   * teammates' changes arrive
+   */
+  static isLiveAvailable(): boolean {
+    return this.isLive;
+  }
+
+  /**
+   * Get the shared canvas that is open, if any
+   */
+  static getCurrentShareId(): string | null {
+    return this.currentShareId;
+  }
+
+  /**
+   * Send the local pointer position, at most every CURSOR_THROTTLE milliseconds.
+   * The last position of a burst is always sent.
+   * @param point - Canvas coordinates, or null when the pointer left the canvas
+   */
+  static sendCursor(point: CanvasPoint | null): void {
+    if (!this.currentShareId) return;
+
+    this.pendingCursor = point;
+    if (this.cursorTimer) return;
+
+    const wait = Math.max(0, this.lastCursorSentAt + COLLABORATION.CURSOR_THROTTLE - Date.now());
+    this.cursorTimer = setTimeout(() => {
+      this.cursorTimer = null;
+      this.lastCursorSentAt = Date.now();
+      const shareId = this.currentShareId;
+      if (!shareId) return;
+
+      const cursor = this.pendingCursor;
+      SignalRService.invoke('UpdateCursor', shareId, cursor?.x ?? null, cursor?.y ?? null);
+    }, wait);
+  }
+
+  /**
+   * Show teammates where a note is being dragged. Moves are throttled; the end
+   * of the drag (null position) is always sent.
+   */
+  static sendDragPreview(noteUuid: string, position: CanvasPoint | null): void {
+    if (!this.currentShareId) return;
+
+    // Throttled per note, so every note of a group drag is shown
+    const now = Date.now();
+    if (position && now - (this.previewSentAt.get(noteUuid) ?? 0) < COLLABORATION.DRAG_PREVIEW_THROTTLE) return;
+
+    if (position) {
+      this.previewSentAt.set(noteUuid, now);
+    } else {
+      this.previewSentAt.delete(noteUuid);
+    }
+    SignalRService.invoke('DragPreview', this.currentShareId, noteUuid, position);
+  }
+
+  /**
+   * Lock a note while it is edited here, so teammates do not edit it at the same time
+   */
+  static lockNote(noteUuid: string): void {
+    if (!this.currentShareId || this.lockedNoteUuids.has(noteUuid)) return;
+
+    this.lockedNoteUuids.add(noteUuid);
+    SignalRService.invoke('LockNote', this.currentShareId, noteUuid);
+  }
+
+  /**
+   * Release a note locked by this client
+   */
+  static unlockNote(noteUuid: string): void {
+    if (!this.currentShareId || !this.lockedNoteUuids.delete(noteUuid)) return;
+
+    SignalRService.invoke('UnlockNote', this.currentShareId, noteUuid);
+  }
+
+  /**
+   * Check whether an event comes from another client and is for the open canvas
+   */
+  static isRemoteEvent(event: { shareId: string; clientId?: string }): boolean {
+    return event.shareId === this.currentShareId && event.clientId !== SessionManager.getClientId();
+  }
+
+  /**
+   * Register event handler
+   */
+  static addEventListener<T>(event: string, handler: CollaborationEventHandler<T>): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)!.push(handler as CollaborationEventHandler);
+  }
+
+  /**
+   * Remove event handler
+   */
+  static removeEventListener<T>(event: string, handler: CollaborationEventHandler<T>): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      const index = handlers.indexOf(handler as CollaborationEventHandler);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  // Subscribe to the hub events once; listeners only get events of the open canvas
+  private static initialize(): void {
+    if (this.isInitialized) return;
+    this.isInitialized = true;
+
+    const rejoin = async () => {
+      const shareId = this.currentShareId;
+      if (!shareId) return;
+
+      // Locks were released with the old connection; the editors take them again
+      this.lockedNoteUuids.clear();
+      this.setLive(await SignalRService.invoke('JoinCanvas', shareId));
+      this.notifyEventHandlers('rejoined', { shareId });
+    };
+    SignalRService.addEventListener('connected', rejoin);
+    SignalRService.addEventListener('reconnected', rejoin);
+
+    const disconnected = () => {
+      if (this.currentShareId) this.setLive(false);
+    };
+    SignalRService.addEventListener('reconnecting', disconnected);
+    SignalRService.addEventListener('connectionClosed', disconnected);
+
+    SignalRService.addEventListener('canvasPresenceChanged', (event: CanvasPresenceEvent) => {
+      if (event.shareId === this.currentShareId) this.notifyEventHandlers('presenceChanged', event);
+    });
+
+    SignalRService.addEventListener('cursorMoved', (event: CursorMovedEvent) => {
+      if (this.isRemoteEvent(event)) this.notifyEventHandlers('cursorMoved', event);
+    });
+
+    SignalRService.addEventListener('noteDragPreview', (event: NoteDragPreviewEvent) => {
+      if (this.isRemoteEvent(event)) this.notifyEventHandlers('dragPreview', event);
+    });
+
+    SignalRService.addEventListener('noteLockChanged', (event: NoteLockChangedEvent) => {
+      if (event.shareId === this.currentShareId) this.notifyEventHandlers('lockChanged', event);
+    });
+
+    SignalRService.addEventListener('sharedNotesChanged', (event: SharedNotesChangedEvent) => {
+      if (this.isRemoteEvent(event)) this.notifyEventHandlers('sharedNotesChanged', event);
+    });
+  }
+
+  private static async leaveCurrentCanvas(): Promise<void> {
+    const shareId = this.currentShareId;
+    if (!shareId) return;
+
+    this.currentShareId = null;
+    this.isLive = false;
+    this.lockedNoteUuids.clear();
+    this.pendingCursor = null;
+    if (this.cursorTimer) {
+      clearTimeout(this.cursorTimer);
+      this.cursorTimer = null;
+    }
+
+    // The hub releases the locks of a client that leaves
+    await SignalRService.invoke('LeaveCanvas', shareId);
+    console.log(`Left shared canvas ${shareId}`);
+  }
+
+  // Tell listeners whether the open canvas gets live updates
+  private static setLive(isLive: boolean): void {
+    if (this.isLive === isLive) return;
+    this.isLive = isLive;
+    this.notifyEventHandlers('availabilityChanged', { isLive });
+  }
+
+  private static notifyEventHandlers(event: string, data: unknown): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      handlers.forEach(handler => {
+        try {
+          handler(data);
+        } catch (error) {
+          console.error(`Error in collaboration event handler for ${event}:`, error);
+        }
+      });
+    }
+  }
+}
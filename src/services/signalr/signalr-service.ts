@@ -1,8 +1,21 @@
 import { HubConnection, HubConnectionBuilder, HubConnectionState, LogLevel } from '@microsoft/signalr';
 import { SessionManager } from '@/helpers/session-manager';
 import { NoteSyncEvent, SignalRConnectionState, RealTimeSyncStatus } from '@/types/sync.types';
+import {
+  CanvasPresenceEvent,
+  CursorMovedEvent,
+  NoteDragPreviewEvent,
+  NoteLockChangedEvent,
+  SharedNotesChangedEvent
+} from '@/types/collaboration.types';
 import { Note } from '@/domains/note';
 import { NotesStorage } from '@/helpers/notes-storage';
+import { parseRecurrenceRule } from '@/helpers/recurrence-helper';
+import { sortTasks } from '@/helpers/task-manager';
+import { NoteMergeEngine } from '../sync/merge-engine';
+import { QueueManager } from '../sync/queue-manager';
+
+type SyncEventNote = NoteSyncEvent['notes'][number];
 
 /**
  * SignalR service for real-time note synchronization
@@ -23,6 +36,13 @@ export class SignalRService {
   private static eventHandlers: Map<string, Function[]> = new Map();
   private static maxReconnectAttempts = 5;
   private static reconnectDelay = 5000; // 5 seconds
+  // Highest syncVersion received or loaded; a reconnect catches up on changes after it
+  private static lastEventSyncVersion: number | null = null;
+  // Set while a shared canvas is open in this tab and needs the hub connection
+  private static isCollaborationNeeded = false;
+  // Set when only a shared canvas keeps the connection, in a tab that is not the sync
+  // leader; note events are then left to the leader tab
+  private static isCollaborationOnly = false;
 
   /**
    * Initialize SignalR connection
@@ -38,7 +58,13 @@ export class SignalRService {
       this.updateRealTimeStatus();
 
       const apiBaseUrl = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5231';
-      const hubUrl = `${apiBaseUrl}/api/hubs/notesync`;
+      const hubUrl = `${apiBaseUrl}/api/hubs/notesync?clientId=${encodeURIComponent(SessionManager.getClientId())}`;
+
+      // Events are only missed from here on
+      const currentUser = SessionManager.getCurrentUser();
+      if (currentUser && this.lastEventSyncVersion === null) {
+        this.lastEventSyncVersion = NotesStorage.getSyncCursor(currentUser.id);
+      }
 
       this.connection = new HubConnectionBuilder()
         .withUrl(hubUrl, {
@@ -80,6 +106,7 @@ export class SignalRService {
         connectionId: this.connection.connectionId,
         state: this.connection.state
       });
+      this.notifyEventHandlers('connected', { connectionId: this.connection.connectionId });
 
     } catch (error) {
       this.connectionState.isConnected = false;
@@ -157,6 +184,28 @@ export class SignalRService {
       console.log('Received NotesDeleted event:', syncEvent);
       this.handleNotesDeleted(syncEvent);
     });
+
+    // Shared canvas events go to the collaboration service, which knows the open canvas
+    this.connection.on('CanvasPresenceChanged', (event: CanvasPresenceEvent) => {
+      this.notifyEventHandlers('canvasPresenceChanged', event);
+    });
+
+    this.connection.on('CursorMoved', (event: CursorMovedEvent) => {
+      this.notifyEventHandlers('cursorMoved', event);
+    });
+
+    this.connection.on('NoteDragPreview', (event: NoteDragPreviewEvent) => {
+      this.notifyEventHandlers('noteDragPreview', event);
+    });
+
+    this.connection.on('NoteLockChanged', (event: NoteLockChangedEvent) => {
+      this.notifyEventHandlers('noteLockChanged', event);
+    });
+
+    this.connection.on('SharedNotesChanged', (event: SharedNotesChangedEvent) => {
+      console.log('Received SharedNotesChanged event:', event);
+      this.notifyEventHandlers('sharedNotesChanged', event);
+    });
   }
 
   /**
@@ -197,61 +246,33 @@ export class SignalRService {
       this.connectionState.lastError = undefined;
       this.realTimeStatus.isRealTimeEnabled = true;
       this.updateRealTimeStatus();
-      this.notifyEventHandlers('reconnected', { connectionId });
+      // Listeners fetch the changes made while disconnected, since lastEventSyncVersion
+      this.notifyEventHandlers('reconnected', { connectionId, lastEventSyncVersion: this.lastEventSyncVersion });
     });
   }
 
   /**
    * Handle NotesCreated event from server
    */
-  private static handleNotesCreated(syncEvent: NoteSyncEvent): void {
+  private static async handleNotesCreated(syncEvent: NoteSyncEvent): Promise<void> {
     try {
-      const currentUser = SessionManager.getCurrentUser();
-      if (!currentUser || currentUser.id != syncEvent.userId) {
-        console.log('Ignoring NotesCreated event for different user');
-        return;
-      }
-
-      // Skip if this event came from the current client
-      // if (syncEvent.clientId && this.isCurrentClient(syncEvent.clientId)) {
-      //   console.log('Ignoring NotesCreated event from current client');
-      //   return;
-      // }
+      if (!this.shouldProcessEvent('NotesCreated', syncEvent)) return;
 
       // Process each created note
-      syncEvent.notes.forEach(noteData => {
-        const existingNote = NotesStorage.getNote(noteData.uuid);
-        
-        if (!existingNote) {
-          // New note from another client - add to localStorage
-          const note = this.transformServerNoteToLocalNote(noteData);
-          NotesStorage.saveNote(note);
-          console.log(`Added new note from server: ${note.uuid}`);
-        } else {
-          // Note exists locally - check versions
-          const serverSyncVersion = noteData.syncVersion || 1;
-          const localSyncVersion = existingNote.syncVersion || 1;
-          
-          if (serverSyncVersion > localSyncVersion) {
-            // Server version is newer - update local note
-            const note = this.transformServerNoteToLocalNote(noteData);
-            NotesStorage.saveNote(note);
-            console.log(`Updated existing note from server: ${note.uuid} (server v${serverSyncVersion} > local v${localSyncVersion})`);
-          } else {
-            console.log(`Keeping local version of note: ${noteData.uuid} (local v${localSyncVersion} >= server v${serverSyncVersion})`);
-          }
-        }
-      });
+      let changed = 0;
+      for (const noteData of syncEvent.notes) {
+        if (await this.applyServerNote(noteData)) changed++;
+      }
 
-      this.realTimeStatus.eventsProcessed++;
-      this.realTimeStatus.lastEventReceived = new Date();
-      this.updateRealTimeStatus();
+      this.completeEvent(syncEvent);
       
       // Notify event handlers
       this.notifyEventHandlers('notesCreated', { syncEvent, notes: syncEvent.notes });
       
-      // Force reload all notes from localStorage after successful sync
-      this.notifyEventHandlers('forceReloadNotes', { reason: 'notesCreated', affectedNotes: syncEvent.notes.length });
+      // Force reload all notes from local storage after successful sync
+      if (changed > 0) {
+        this.notifyEventHandlers('forceReloadNotes', { reason: 'notesCreated', affectedNotes: changed });
+      }
 
     } catch (error) {
       console.error('Error handling NotesCreated event:', error);
@@ -261,106 +282,107 @@ export class SignalRService {
   /**
    * Handle NotesUpdated event from server
    */
-  private static handleNotesUpdated(syncEvent: NoteSyncEvent): void {
+  private static async handleNotesUpdated(syncEvent: NoteSyncEvent): Promise<void> {
     try {
-      const currentUser = SessionManager.getCurrentUser();
-      if (!currentUser || currentUser.id != syncEvent.userId) {
-        console.log('Ignoring NotesCreated event for different user');
-        return;
-      }
-
-      // Skip if this event came from the current client
-      // if (syncEvent.clientId && this.isCurrentClient(syncEvent.clientId)) {
-      //   console.log('Ignoring NotesCreated event from current client');
-      //   return;
-      // }
+      if (!this.shouldProcessEvent('NotesUpdated', syncEvent)) return;
 
       // Process each updated note
-      syncEvent.notes.forEach(noteData => {
-        const existingNote = NotesStorage.getNote(noteData.uuid);
-        
-        if (existingNote) {
-          // Check versions to determine if we should update
-          const serverSyncVersion = noteData.syncVersion || 1;
-          const localSyncVersion = existingNote.syncVersion || 1;
-          const localVersion = existingNote.localVersion || 1;
-          
-          // Only update if server version is newer and local hasn't been modified
-          if (serverSyncVersion > localSyncVersion && localVersion === localSyncVersion) {
-            const note = this.transformServerNoteToLocalNote(noteData);
-            NotesStorage.saveNote(note);
-            console.log(`Updated note from server: ${note.uuid} (server v${serverSyncVersion} > local v${localSyncVersion})`);
-          } else {
-            console.log(`Keeping local version of note: ${noteData.uuid} (local modifications detected or server version not newer)`);
-          }
-        } else {
-          // Note doesn't exist locally - treat as create
-          const note = this.transformServerNoteToLocalNote(noteData);
-          NotesStorage.saveNote(note);
-          console.log(`Added missing note from server update: ${note.uuid}`);
-        }
-      });
+      let changed = 0;
+      for (const noteData of syncEvent.notes) {
+        if (await this.applyServerNote(noteData)) changed++;
+      }
 
-      this.realTimeStatus.eventsProcessed++;
-      this.realTimeStatus.lastEventReceived = new Date();
-      this.updateRealTimeStatus();
+      this.completeEvent(syncEvent);
       
       // Notify event handlers
       this.notifyEventHandlers('notesUpdated', { syncEvent, notes: syncEvent.notes });
       
-      // Force reload all notes from localStorage after successful sync
-      this.notifyEventHandlers('forceReloadNotes', { reason: 'notesUpdated', affectedNotes: syncEvent.notes.length });
+      // Force reload all notes from local storage after successful sync
+      if (changed > 0) {
+        this.notifyEventHandlers('forceReloadNotes', { reason: 'notesUpdated', affectedNotes: changed });
+      }
 
     } catch (error) {
       console.error('Error handling NotesUpdated event:', error);
     }
   }
 
+  /**
+   * Save a note received in an event unless the local copy is as new. A local copy
+   * with unsynced edits is merged with it, so those edits are kept.
+   * @returns True if local storage changed
+   */
+  private static async applyServerNote(noteData: SyncEventNote): Promise<boolean> {
+    const existingNote = await NotesStorage.getNote(noteData.uuid);
+    const note = this.transformServerNoteToLocalNote(noteData);
+
+    if (!existingNote) {
+      // Notes purged from the trash only wait for their server delete
+      if (QueueManager.hasQueuedDelete(noteData.uuid)) return false;
+
+      await NotesStorage.saveSyncedNote(note);
+      console.log(`Added new note from server: ${note.uuid}`);
+      return true;
+    }
+
+    const serverSyncVersion = note.syncVersion;
+    const localSyncVersion = existingNote.syncVersion || 1;
+    if (serverSyncVersion <= localSyncVersion) {
+      console.log(`Ignoring stale event for note ${noteData.uuid} (server v${serverSyncVersion} <= local v${localSyncVersion})`);
+      return false;
+    }
+
+    const hasLocalChanges = (existingNote.localVersion || 1) > localSyncVersion;
+    if (hasLocalChanges) {
+      const result = await NoteMergeEngine.reconcileWithServer(existingNote, note);
+      console.log(`Merged note from server: ${note.uuid} (server v${serverSyncVersion}, ${result.conflicts.length} conflicts)`);
+      return true;
+    }
+
+    await NotesStorage.saveSyncedNote(note);
+    console.log(`Updated note from server: ${note.uuid} (server v${serverSyncVersion} > local v${localSyncVersion})`);
+    return true;
+  }
+
   /**
    * Handle NotesDeleted event from server
    */
-  private static handleNotesDeleted(syncEvent: NoteSyncEvent): void {
+  private static async handleNotesDeleted(syncEvent: NoteSyncEvent): Promise<void> {
     try {
-      const currentUser = SessionManager.getCurrentUser();
-      if (!currentUser || currentUser.id != syncEvent.userId) {
-        console.log('Ignoring NotesCreated event for different user');
-        return;
-      }
-
-      // Skip if this event came from the current client
-      // if (syncEvent.clientId && this.isCurrentClient(syncEvent.clientId)) {
-      //   console.log('Ignoring NotesCreated event from current client');
-      //   return;
-      // }
+      if (!this.shouldProcessEvent('NotesDeleted', syncEvent)) return;
 
       // Process each deleted note
-      syncEvent.notes.forEach(noteData => {
-        const existingNote = NotesStorage.getNote(noteData.uuid);
+      let changed = 0;
+      for (const noteData of syncEvent.notes) {
+        const existingNote = await NotesStorage.getNote(noteData.uuid);
         
-        if (existingNote) {
+        if (existingNote && !existingNote.isDeleted) {
           // Check if local note has unsaved changes
           const localVersion = existingNote.localVersion || 1;
           const syncVersion = existingNote.syncVersion || 1;
           
-          if (localVersion > syncVersion) {
+          if ((noteData.syncVersion || 1) <= syncVersion) {
+            console.log(`Ignoring stale delete of note ${noteData.uuid} (server v${noteData.syncVersion} <= local v${syncVersion})`);
+          } else if (localVersion > syncVersion) {
             console.log(`Not deleting note ${noteData.uuid}: has unsaved local changes`);
           } else {
-            // Safe to delete - no local changes
-            NotesStorage.deleteNote(noteData.uuid);
+            // Safe to delete - no local changes; the note moves to the local trash
+            await NotesStorage.markDeletionSynced(noteData.uuid);
+            changed++;
             console.log(`Deleted note from server: ${noteData.uuid}`);
           }
         }
-      });
+      }
 
-      this.realTimeStatus.eventsProcessed++;
-      this.realTimeStatus.lastEventReceived = new Date();
-      this.updateRealTimeStatus();
+      this.completeEvent(syncEvent);
       
       // Notify event handlers
       this.notifyEventHandlers('notesDeleted', { syncEvent, notes: syncEvent.notes });
       
-      // Force reload all notes from localStorage after successful sync
-      this.notifyEventHandlers('forceReloadNotes', { reason: 'notesDeleted', affectedNotes: syncEvent.notes.length });
+      // Force reload all notes from local storage after successful sync
+      if (changed > 0) {
+        this.notifyEventHandlers('forceReloadNotes', { reason: 'notesDeleted', affectedNotes: changed });
+      }
 
     } catch (error) {
       console.error('Error handling NotesDeleted event:', error);
@@ -370,7 +392,7 @@ export class SignalRService {
   /**
    * Transform server note data to local Note object
    */
-  private static transformServerNoteToLocalNote(serverNote: any): Note {
+  static transformServerNoteToLocalNote(serverNote: any): Note {
     return {
       id: serverNote.id,
       uuid: serverNote.uuid,
@@ -379,12 +401,26 @@ export class SignalRService {
       date: new Date(serverNote.date),
       color: serverNote.color,
       position: serverNote.position,
+      width: serverNote.width ?? null,
+      height: serverNote.height ?? null,
+      frameUuid: serverNote.frameUuid ?? null,
       isDisplayed: serverNote.isDisplayed,
       isPinned: serverNote.isPinned,
       isTaskMode: serverNote.isTaskMode,
       isDeleted: serverNote.isDeleted,
-      noteTasks: serverNote.tasks || [],
+      // Event tasks may use the server names (content, isCompleted); order sorts them
+      noteTasks: sortTasks((serverNote.tasks || []).map((task: NoteSyncEvent['notes'][number]['tasks'][number]) => ({
+        ...task,
+        text: task.text ?? task.content,
+        completed: task.completed ?? task.isCompleted,
+        dueDate: task.dueDate ? new Date(task.dueDate) : null,
+        parentUuid: task.parentUuid ?? null,
+      }))),
       tags: serverNote.tags || [],
+      recurrence: serverNote.recurrenceRule ? parseRecurrenceRule(serverNote.recurrenceRule) : null,
+      occurrenceCompletions: serverNote.occurrenceCompletions || null,
+      dueDate: serverNote.dueDate ? new Date(serverNote.dueDate) : null,
+      reminderMinutes: serverNote.reminderMinutes ?? null,
       createdAt: new Date(serverNote.createdAt),
       updatedAt: new Date(serverNote.updatedAt),
       userId: serverNote.userId || 0,
@@ -395,14 +431,78 @@ export class SignalRService {
     };
   }
 
+  /**
+   * Check whether an event should be applied: it must be for the signed-in user and
+   * not an echo of a change made by this client, which is already stored
+   */
+  private static shouldProcessEvent(eventName: string, syncEvent: NoteSyncEvent): boolean {
+    if (this.isCollaborationOnly) return false;
+
+    const currentUser = SessionManager.getCurrentUser();
+    if (!currentUser || currentUser.id != syncEvent.userId) {
+      console.log(`Ignoring ${eventName} event for different user`);
+      return false;
+    }
+
+    // Skip if this event came from the current client
+    if (syncEvent.clientId && this.isCurrentClient(syncEvent.clientId)) {
+      console.log(`Ignoring ${eventName} event from current client`);
+      this.recordSyncVersion(Math.max(...syncEvent.notes.map(note => note.syncVersion || 0)));
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Update the status and catch-up position after processing an event
+   */
+  private static completeEvent(syncEvent: NoteSyncEvent): void {
+    this.recordSyncVersion(Math.max(...syncEvent.notes.map(note => note.syncVersion || 0)));
+    this.realTimeStatus.eventsProcessed++;
+    this.realTimeStatus.lastEventReceived = new Date();
+    this.updateRealTimeStatus();
+  }
+
   /**
    * Check if the client ID matches the current client
    */
-  // private static isCurrentClient(clientId: string): boolean {
-  //   // For now, we'll use connection ID as client ID
-  //   // You might want to implement a more sophisticated client identification
-  //   return this.connectionState.connectionId === clientId;
-  // }
+  private static isCurrentClient(clientId: string): boolean {
+    return SessionManager.getClientId() === clientId;
+  }
+
+  /**
+   * Record that changes up to a syncVersion are stored locally, so the catch-up
+   * after a reconnect starts after it
+   */
+  static recordSyncVersion(syncVersion: number): void {
+    if (!Number.isFinite(syncVersion)) return;
+    this.lastEventSyncVersion = Math.max(this.lastEventSyncVersion ?? 0, syncVersion);
+  }
+
+  /**
+   * Get the syncVersion to catch up from after a reconnect
+   * @returns The version or null if no events or loads were recorded
+   */
+  static getLastEventSyncVersion(): number | null {
+    return this.lastEventSyncVersion;
+  }
+
+  /**
+   * Call a hub method; nothing is sent while disconnected
+   * @returns True if the hub accepted the call
+   */
+  static async invoke(methodName: string, ...args: unknown[]): Promise<boolean> {
+    if (!this.connection || !this.isConnected()) return false;
+
+    try {
+      await this.connection.invoke(methodName, ...args);
+      return true;
+    } catch (error) {
+      console.error(`Failed to invoke hub method ${methodName}:`, error);
+      return false;
+    }
+  }
 
   /**
    * Update real-time status and notify listeners
@@ -477,14 +577,55 @@ export class SignalRService {
    */
   static handleUserLogin(): void {
     console.log('User logged in - initializing SignalR connection');
+    // An open connection kept for a shared canvas now serves note sync too
+    this.isCollaborationOnly = false;
     this.initialize();
   }
 
+  /**
+   * Open the connection for live collaboration on a shared canvas. Tabs that are not
+   * the sync leader connect only for this.
+   * @returns True once connected
+   */
+  static async connectForCollaboration(): Promise<boolean> {
+    this.isCollaborationNeeded = true;
+    if (!this.connection) {
+      this.isCollaborationOnly = true;
+      await this.initialize();
+    }
+    return this.isConnected();
+  }
+
+  /**
+   * The shared canvas closed: a connection only open for it is closed too
+   */
+  static releaseCollaboration(): void {
+    this.isCollaborationNeeded = false;
+    if (this.isCollaborationOnly) {
+      this.isCollaborationOnly = false;
+      this.disconnect();
+    }
+  }
+
+  /**
+   * Another tab took over sync: keep the connection only while a shared canvas needs it
+   */
+  static handleLeadershipLost(): void {
+    if (this.isCollaborationNeeded && this.connection) {
+      console.log('Sync moved to another tab - keeping SignalR for the open shared canvas');
+      this.isCollaborationOnly = true;
+      return;
+    }
+    this.handleUserLogout();
+  }
+
   /**
    * Handle user logout - disconnect
    */
   static handleUserLogout(): void {
     console.log('User logged out - disconnecting SignalR');
+    this.lastEventSyncVersion = null;
+    this.isCollaborationOnly = false;
     this.disconnect();
   }
 
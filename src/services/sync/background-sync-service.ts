@@ -0,0 +1,187 @@
+import { BackgroundSyncRequest, ServiceWorkerMessage } from '@/types/sync.types';
+import { BACKGROUND_SYNC } from '@/constants/ui-constants';
+import { isProduction } from '@/config/api';
+import { SessionManager } from '@/helpers/session-manager';
+import { BackgroundSyncStorage } from '@/helpers/background-sync-storage';
+import { notesApi } from '../api/notes-api';
+import { QueueManager } from './queue-manager';
+import { BatchSyncHandler } from './batch-sync-handler';
+
+type ServiceWorkerMessageHandler = (message: ServiceWorkerMessage, reply: (message: ServiceWorkerMessage) => void) => void;
+
+// Background Sync is not in the DOM typings yet
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+/**
+ * Page side of the service worker (public/sw.js), which caches the app shell and
+ * flushes the sync queue through Background Sync when connectivity returns.
+ * While a page is open the worker asks its leader tab to sync; otherwise it sends
+ * the batch requests prepared here, and the page applies the responses later.
+ */
+export class BackgroundSyncService {
+  private static registration: SyncCapableRegistration | null = null;
+  private static messageHandlers: ServiceWorkerMessageHandler[] = [];
+
+  /**
+   * Register the service worker. Skipped in development, where it would serve stale modules.
+   */
+  static async register(): Promise<void> {
+    if (!isProduction || !('serviceWorker' in navigator) || this.registration) return;
+
+    navigator.serviceWorker.addEventListener('message', this.handleWorkerMessage);
+    try {
+      this.registration = await navigator.serviceWorker.register(BACKGROUND_SYNC.SERVICE_WORKER_URL);
+      console.log('Service worker registered');
+    } catch (error) {
+      console.error('Failed to register service worker:', error);
+    }
+  }
+
+  /**
+   * Refresh the outbox from the primary queue so the service worker sends what is
+   * queued now, and optionally ask the browser to run a background sync.
+   * @param requestSync - Register a sync, for when the page itself cannot reach the server
+   */
+  static async scheduleQueueFlush(requestSync: boolean = false): Promise<void> {
+    if (!this.registration) return;
+
+    const token = SessionManager.getToken();
+    const userId = SessionManager.getCurrentUser()?.id;
+    // Nothing to send with a token the server already refused
+    const requests = token && userId && !QueueManager.isPaused() ? await this.prepareRequests() : [];
+
+    if (requests.length === 0) {
+      await BackgroundSyncStorage.clearOutbox();
+      return;
+    }
+
+    await BackgroundSyncStorage.saveOutbox({
+      userId: userId!,
+      token: token!,
+      clientId: SessionManager.getClientId(),
+      requests,
+      createdAt: new Date().toISOString()
+    });
+
+    if (requestSync && this.registration.sync) {
+      try {
+        await this.registration.sync.register(BACKGROUND_SYNC.SYNC_TAG);
+        console.log(`Background sync requested for ${requests.length} batch requests`);
+      } catch (error) {
+        console.error('Failed to request background sync:', error);
+      }
+    }
+  }
+
+  /**
+   * Apply the responses the service worker received while no page was open:
+   * save the synced notes and remove them from the queue.
+   * @returns The number of notes whose sync state changed
+   */
+  static async applyResults(): Promise<number> {
+    const results = await BackgroundSyncStorage.getResults();
+    if (!results) return 0;
+
+    // Clear first so the same responses are never applied twice
+    await BackgroundSyncStorage.clearResults();
+
+    if (results.userId !== SessionManager.getCurrentUser()?.id) {
+      console.warn('Discarding background sync results of another user');
+      return 0;
+    }
+
+    const batchHandler = new BatchSyncHandler();
+    let changed = 0;
+
+    for (const response of results.responses) {
+      // An operation combined with a later change since has a new id, so it stays queued
+      const sent = response.noteUuids.map((noteUuid, index) => ({ noteUuid, operationId: response.operationIds[index] }));
+
+      if (!response.result) {
+        // Failed requests count like failed syncs from the page, so the status decides what happens next
+        console.warn(`Background ${response.action} request failed with status ${response.status}`);
+        QueueManager.handleBatchSyncResult(sent, [], response.noteUuids.map(noteUuid => ({
+          noteUuid,
+          error: `Background sync failed with status ${response.status}`,
+          status: response.status
+        })));
+        changed += response.noteUuids.length;
+        continue;
+      }
+
+      try {
+        const result = response.action === 'create'
+          ? await batchHandler.applyCreateResult(response.result, sent)
+          : response.action === 'update'
+            ? await batchHandler.applyUpdateResult(response.result, sent)
+            : await batchHandler.applyDeleteResult(response.result, sent);
+
+        QueueManager.handleBatchSyncResult(sent, result.successful, result.failed);
+        changed += result.successful.length + result.failed.length;
+      } catch (error) {
+        console.error(`Failed to apply background ${response.action} results:`, error);
+      }
+    }
+
+    console.log(`Applied background sync results for ${changed} notes`);
+    return changed;
+  }
+
+  /**
+   * Add handler for messages from the service worker
+   */
+  static addMessageHandler(handler: ServiceWorkerMessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  /**
+   * Remove handler for messages from the service worker
+   */
+  static removeMessageHandler(handler: ServiceWorkerMessageHandler): void {
+    this.messageHandlers = this.messageHandlers.filter(existing => existing !== handler);
+  }
+
+  // Builds one request per action, in the order the sync service sends them,
+  // from the first operation of each note
+  private static async prepareRequests(): Promise<BackgroundSyncRequest[]> {
+    const queueByAction = QueueManager.getPrimaryQueueByAction();
+    const batchHandler = new BatchSyncHandler();
+    const url = notesApi.getBatchUrl();
+    const requests: BackgroundSyncRequest[] = [];
+
+    const create = await batchHandler.prepareCreateBatch(queueByAction.create || []);
+    if (create.noteUuids.length > 0) {
+      requests.push({ action: 'create', method: 'POST', url, body: JSON.stringify(create.request), noteUuids: create.noteUuids, operationIds: create.operationIds });
+    }
+
+    const update = await batchHandler.prepareUpdateBatch(queueByAction.update || []);
+    if (update.noteUuids.length > 0) {
+      requests.push({ action: 'update', method: 'PUT', url, body: JSON.stringify(update.request), noteUuids: update.noteUuids, operationIds: update.operationIds });
+    }
+
+    const remove = await batchHandler.prepareDeleteBatch(queueByAction.delete || []);
+    if (remove.noteUuids.length > 0) {
+      requests.push({ action: 'delete', method: 'DELETE', url, body: JSON.stringify(remove.request), noteUuids: remove.noteUuids, operationIds: remove.operationIds });
+    }
+
+    return requests;
+  }
+
+  private static handleWorkerMessage = (event: MessageEvent<ServiceWorkerMessage>): void => {
+    if (!event.data?.type) return;
+
+    // The worker waits for an answer on the port it sent, if any
+    const port = event.ports[0];
+    const reply = (message: ServiceWorkerMessage) => port?.postMessage(message);
+
+    BackgroundSyncService.messageHandlers.forEach(handler => {
+      try {
+        handler(event.data, reply);
+      } catch (error) {
+        console.error(`Error in service worker message handler for ${event.data.type}:`, error);
+      }
+    });
+  };
+}
@@ -1,32 +1,133 @@
-import { QueueItem } from '@/types/sync.types';
+import { QueueItem, SyncFailure } from '@/types/sync.types';
+import { Note } from '@/domains/note';
+import { ApiError } from '../api/models/api.model';
 import { notesApi } from '../api/notes-api';
 import { NotesStorage } from '@/helpers/notes-storage';
+import { ConnectorStorage } from '@/helpers/connector-storage';
+import { FrameStorage } from '@/helpers/frame-storage';
 import { 
   transformNoteToCreateRequest, 
   transformNoteToUpdateRequest, 
+  transformNoteToPatchRequest,
   transformNoteResponseToNote 
 } from '../api/transformers/note-transformers';
+import {
+  transformConnectorResponseToConnector,
+  transformConnectorToCreateRequest,
+  transformConnectorToUpdateRequest
+} from '../api/transformers/connector-transformers';
+import {
+  transformFrameResponseToFrame,
+  transformFrameToCreateRequest,
+  transformFrameToUpdateRequest
+} from '../api/transformers/frame-transformers';
 import { API } from '@/constants/ui-constants';
-import { BatchCreateRequest, BatchUpdateRequest } from '../api/models/notes.model';
+import {
+  BatchCreateRequest,
+  BatchDeleteRequest,
+  BatchSyncResult,
+  BatchUpdateRequest,
+  DeleteNoteRequest,
+  SyncConflict
+} from '../api/models/notes.model';
+import {
+  ConnectorBatchResult,
+  CreateConnectorRequest,
+  DeleteConnectorRequest,
+  UpdateConnectorRequest
+} from '../api/models/connectors.model';
+import { CreateFrameRequest, DeleteFrameRequest, FrameBatchResult, UpdateFrameRequest } from '../api/models/frames.model';
+import { SyncConflictStorage } from '@/helpers/sync-conflict-storage';
+import { NoteMergeEngine } from './merge-engine';
+import { QueueManager } from './queue-manager';
 
+/**
+ * A batch request built from queue items, with the notes, connectors and frames it covers (and
+ * the operations sent for them, in the same order) and the items that could not be included
+ */
+export interface PreparedBatch<TRequest> {
+  request: TRequest;
+  noteUuids: string[];
+  operationIds: string[];
+  failed: SyncFailure[];
+}
+
+// The operation sent for each note of a batch
+type SentOperation = Pick<QueueItem, 'noteUuid' | 'operationId'>;
+
+/**
+ * Sends queued notes, and the connectors and frames queued with them, through the batch endpoints.
+ * Preparing a request and applying its response are separate steps so the service
+ * worker can send prepared requests while no page is open.
+ */
 export class BatchSyncHandler {
   /**
    * Batch sync create items
    */
-  async batchSyncCreateItems(items: QueueItem[]): Promise<{ successful: string[], failed: Array<{ noteUuid: string, error: string }> }> {
+  async batchSyncCreateItems(items: QueueItem[]): Promise<{ successful: string[], failed: SyncFailure[] }> {
     if (items.length === 0) return { successful: [], failed: [] };
 
+    const { request, noteUuids, failed } = await this.prepareCreateBatch(items);
+    if (noteUuids.length === 0) return { successful: [], failed };
+
+    try {
+      const batchResponse = await notesApi.batchCreateNotes(request);
+      return await this.applyCreateResult(batchResponse, items, failed);
+    } catch (error) {
+      // If batch operation fails entirely, mark all as failed
+      const allFailed = noteUuids.map(noteUuid => ({
+        noteUuid,
+        error: (error as Error).message,
+        status: error instanceof ApiError ? error.status : undefined
+      }));
+      return { successful: [], failed: allFailed };
+    }
+  }
+
+  /**
+   * Build the batch create request for queued items
+   */
+  async prepareCreateBatch(items: QueueItem[]): Promise<PreparedBatch<BatchCreateRequest>> {
     const notes = [];
-    const itemMap = new Map<number, string>(); // index -> noteUuid mapping
-    const failed: Array<{ noteUuid: string, error: string }> = [];
+    const connectors: CreateConnectorRequest[] = [];
+    const frames: CreateFrameRequest[] = [];
+    const noteUuids: string[] = [];
+    const operationIds: string[] = [];
+    const failed: SyncFailure[] = [];
 
     // Prepare notes for batch creation
     for (let i = 0; i < items.length; i++) {
       const item = items[i];
-      const note = NotesStorage.getNote(item.noteUuid);
+      if (item.entityType === 'connector') {
+        const connector = await ConnectorStorage.getConnector(item.noteUuid);
+        if (!connector) {
+          failed.push({ noteUuid: item.noteUuid, error: `Connector ${item.noteUuid} not found in local storage` });
+          continue;
+        }
+
+        connectors.push({ ...transformConnectorToCreateRequest(connector), operationId: item.operationId });
+        noteUuids.push(item.noteUuid);
+        operationIds.push(item.operationId);
+        continue;
+      }
+
+      if (item.entityType === 'frame') {
+        const frame = await FrameStorage.getFrame(item.noteUuid);
+        if (!frame) {
+          failed.push({ noteUuid: item.noteUuid, error: `Frame ${item.noteUuid} not found in local storage` });
+          continue;
+        }
+
+        frames.push({ ...transformFrameToCreateRequest(frame), operationId: item.operationId });
+        noteUuids.push(item.noteUuid);
+        operationIds.push(item.operationId);
+        continue;
+      }
+
+      const note = await NotesStorage.getNote(item.noteUuid);
       
       if (!note) {
-        failed.push({ noteUuid: item.noteUuid, error: `Note ${item.noteUuid} not found in localStorage` });
+        failed.push({ noteUuid: item.noteUuid, error: `Note ${item.noteUuid} not found in local storage` });
         continue;
       }
 
@@ -38,93 +139,163 @@ export class BatchSyncHandler {
         console.warn(`Note ${item.noteUuid} localVersion changed since queuing: ${item.localVersion} -> ${note.localVersion}`);
       }
 
-      notes.push(transformNoteToCreateRequest(note));
-      itemMap.set(notes.length - 1, item.noteUuid);
+      notes.push({ ...transformNoteToCreateRequest(note), operationId: item.operationId });
+      noteUuids.push(item.noteUuid);
+      operationIds.push(item.operationId);
     }
 
-    if (notes.length === 0) return { successful: [], failed };
+    return {
+      request: { notes, ...(connectors.length > 0 && { connectors }), ...(frames.length > 0 && { frames }) },
+      noteUuids,
+      operationIds,
+      failed
+    };
+  }
 
-    try {
-      const batchRequest: BatchCreateRequest = { notes };
-      const batchResponse = await notesApi.batchCreateNotes(batchRequest);
+  /**
+   * Save the notes created by a batch create response
+   * @param sent - The operations that were sent
+   * @param failed - Items already known to have failed, reported with the response's failures
+   */
+  async applyCreateResult(
+    batchResponse: BatchSyncResult,
+    sent: SentOperation[],
+    failed: SyncFailure[] = []
+  ): Promise<{ successful: string[], failed: SyncFailure[] }> {
+    const successful: string[] = [];
+    
+    // Process successful creations - save to local storage
+    for (const noteResponse of batchResponse.successful) {
+      const syncedNote = transformNoteResponseToNote(noteResponse);
+      successful.push(syncedNote.uuid);
+
+      // Changed or deleted since the create was sent: keep the local note, which now exists on the server
+      const localNote = await NotesStorage.getNote(syncedNote.uuid);
+      const hasNewerOperations = this.hasNewerOperations(syncedNote.uuid, sent);
+      if (localNote && (hasNewerOperations || localNote.isDeleted)) {
+        await this.adoptServerIdentity(localNote, syncedNote);
+        QueueManager.replacePendingAction(syncedNote.uuid, 'create', 'update');
+        if (!hasNewerOperations) {
+          await QueueManager.addToQueue(syncedNote.uuid, 'delete');
+        }
+        continue;
+      }
       
-      const successful: string[] = [];
+      // Update version fields after successful sync
+      const updatedNote = {
+        ...syncedNote,
+        // Sync localVersion with server's syncVersion after successful sync
+        localVersion: syncedNote.syncVersion,
+        lastSyncedAt: new Date() // Update sync timestamp
+      };
       
-      // Process successful creations - save to localStorage
-      batchResponse.successful.forEach((noteResponse) => {
-        const syncedNote = transformNoteResponseToNote(noteResponse);
-        successful.push(syncedNote.uuid);
-        
-        // Update version fields after successful sync
+      // Save successful note to local storage with updated versions and record it as the merge base
+      await NotesStorage.saveSyncedNote(updatedNote);
+      console.log(`Synced note ${syncedNote.uuid}: localVersion=${updatedNote.localVersion}, syncVersion=${syncedNote.syncVersion}`);
+    }
+
+    // Process failed creations - extract UUIDs from failed notes
+    for (const failedNoteResponse of batchResponse.failed) {
+      failed.push({ 
+        noteUuid: failedNoteResponse.uuid, 
+        error: 'Note creation failed on server' 
+      });
+      
+      // For failed sync, preserve local note and increment localVersion to ensure retry
+      const localNote = await NotesStorage.getNote(failedNoteResponse.uuid);
+      if (localNote) {
         const updatedNote = {
-          ...syncedNote,
-          // Sync localVersion with server's syncVersion after successful sync
-          localVersion: syncedNote.syncVersion,
-          lastSyncedAt: new Date() // Update sync timestamp
+          ...localNote,
+          localVersion: (localNote.localVersion || 1) + 1, // Increment to indicate sync failure
+          clientUpdatedAt: new Date() // Update client timestamp
         };
-        
-        // Save successful note to localStorage with updated versions
-        NotesStorage.saveNote(updatedNote);
-        console.log(`Synced note ${syncedNote.uuid}: localVersion=${updatedNote.localVersion}, syncVersion=${syncedNote.syncVersion}`);
-      });
+        await NotesStorage.saveNote(updatedNote);
+        console.log(`Failed sync for note ${failedNoteResponse.uuid}: incremented localVersion to ${updatedNote.localVersion}`);
+      }
+    }
 
-      // Process failed creations - extract UUIDs from failed notes
-      batchResponse.failed.forEach((failedNoteResponse) => {
-        failed.push({ 
-          noteUuid: failedNoteResponse.uuid, 
-          error: 'Note creation failed on server' 
-        });
-        
-        // For failed sync, preserve local note and increment localVersion to ensure retry
-        const localNote = NotesStorage.getNote(failedNoteResponse.uuid);
-        if (localNote) {
-          const updatedNote = {
-            ...localNote,
-            localVersion: (localNote.localVersion || 1) + 1, // Increment to indicate sync failure
-            clientUpdatedAt: new Date() // Update client timestamp
-          };
-          NotesStorage.saveNote(updatedNote);
-          console.log(`Failed sync for note ${failedNoteResponse.uuid}: incremented localVersion to ${updatedNote.localVersion}`);
-        }
-      });
+    await this.applyConnectorResult('create', batchResponse.connectors, sent, successful, failed);
+    await this.applyFrameResult('create', batchResponse.frames, sent, successful, failed);
 
-      // Process general errors
-      batchResponse.errors.forEach(error => {
-        // For general errors, we might not have specific note UUIDs
-        // These are typically validation or system errors
-        console.error('Batch create error:', error);
-      });
+    // Process general errors
+    batchResponse.errors.forEach(error => {
+      // For general errors, we might not have specific note UUIDs
+      // These are typically validation or system errors
+      console.error('Batch create error:', error);
+    });
 
-      console.log(`Batch create completed: ${successful.length} successful, ${failed.length} failed`);
-      return { successful, failed };
-      
+    console.log(`Batch create completed: ${successful.length} successful, ${failed.length} failed`);
+    return { successful, failed };
+  }
+
+  /**
+   * Batch sync update items
+   */
+  async batchSyncUpdateItems(items: QueueItem[]): Promise<{ successful: string[], failed: SyncFailure[] }> {
+    if (items.length === 0) return { successful: [], failed: [] };
+
+    const { request, noteUuids, failed } = await this.prepareUpdateBatch(items);
+    if (noteUuids.length === 0) return { successful: [], failed };
+
+    try {
+      const batchResponse = await notesApi.batchUpdateNotes(request);
+      return await this.applyUpdateResult(batchResponse, items, failed);
     } catch (error) {
       // If batch operation fails entirely, mark all as failed
-      const allFailed = Array.from(itemMap.values()).map(noteUuid => ({
+      const allFailed = noteUuids.map(noteUuid => ({
         noteUuid,
-        error: (error as Error).message
+        error: (error as Error).message,
+        status: error instanceof ApiError ? error.status : undefined
       }));
       return { successful: [], failed: allFailed };
     }
   }
 
   /**
-   * Batch sync update items
+   * Build the batch update request for queued items
    */
-  async batchSyncUpdateItems(items: QueueItem[]): Promise<{ successful: string[], failed: Array<{ noteUuid: string, error: string }> }> {
-    if (items.length === 0) return { successful: [], failed: [] };
-
+  async prepareUpdateBatch(items: QueueItem[]): Promise<PreparedBatch<BatchUpdateRequest>> {
     const notes = [];
-    const itemMap = new Map<number, string>(); // index -> noteUuid mapping
-    const failed: Array<{ noteUuid: string, error: string }> = [];
+    const connectors: UpdateConnectorRequest[] = [];
+    const frames: UpdateFrameRequest[] = [];
+    const noteUuids: string[] = [];
+    const operationIds: string[] = [];
+    const failed: SyncFailure[] = [];
 
     // Prepare notes for batch update
     for (let i = 0; i < items.length; i++) {
       const item = items[i];
-      const note = NotesStorage.getNote(item.noteUuid);
+      if (item.entityType === 'connector') {
+        const connector = await ConnectorStorage.getConnector(item.noteUuid);
+        if (!connector) {
+          failed.push({ noteUuid: item.noteUuid, error: `Connector ${item.noteUuid} not found in local storage` });
+          continue;
+        }
+
+        // Connectors are small, so updates always send the whole connector
+        connectors.push({ ...transformConnectorToUpdateRequest(connector), operationId: item.operationId });
+        noteUuids.push(item.noteUuid);
+        operationIds.push(item.operationId);
+        continue;
+      }
+
+      if (item.entityType === 'frame') {
+        const frame = await FrameStorage.getFrame(item.noteUuid);
+        if (!frame) {
+          failed.push({ noteUuid: item.noteUuid, error: `Frame ${item.noteUuid} not found in local storage` });
+          continue;
+        }
+
+        frames.push({ ...transformFrameToUpdateRequest(frame), operationId: item.operationId });
+        noteUuids.push(item.noteUuid);
+        operationIds.push(item.operationId);
+        continue;
+      }
+
+      const note = await NotesStorage.getNote(item.noteUuid);
       
       if (!note) {
-        failed.push({ noteUuid: item.noteUuid, error: `Note ${item.noteUuid} not found in localStorage` });
+        failed.push({ noteUuid: item.noteUuid, error: `Note ${item.noteUuid} not found in local storage` });
         continue;
       }
 
@@ -141,91 +312,200 @@ export class BatchSyncHandler {
         console.warn(`Note ${item.noteUuid} localVersion changed since queuing: ${item.localVersion} -> ${note.localVersion}`);
       }
 
-      notes.push(transformNoteToUpdateRequest(note));
-      itemMap.set(notes.length - 1, item.noteUuid);
+      // Send only the changed fields when they are known
+      const request = item.changedFields
+        ? transformNoteToPatchRequest(note, item.changedFields)
+        : transformNoteToUpdateRequest(note);
+      notes.push({ ...request, operationId: item.operationId });
+      noteUuids.push(item.noteUuid);
+      operationIds.push(item.operationId);
     }
 
-    if (notes.length === 0) return { successful: [], failed };
+    return {
+      request: { notes, ...(connectors.length > 0 && { connectors }), ...(frames.length > 0 && { frames }) },
+      noteUuids,
+      operationIds,
+      failed
+    };
+  }
 
-    try {
-      const batchRequest: BatchUpdateRequest = { notes };
-      const batchResponse = await notesApi.batchUpdateNotes(batchRequest);
+  /**
+   * Save the notes returned by a batch update response and resolve its conflicts
+   * @param sent - The operations that were sent
+   * @param failed - Items already known to have failed, reported with the response's failures
+   */
+  async applyUpdateResult(
+    batchResponse: BatchSyncResult,
+    sent: SentOperation[],
+    failed: SyncFailure[] = []
+  ): Promise<{ successful: string[], failed: SyncFailure[] }> {
+    const successful: string[] = [];
+    
+    // Process successful updates - save updated notes to local storage
+    for (const noteResponse of batchResponse.successful) {
+      const syncedNote = transformNoteResponseToNote(noteResponse);
+      successful.push(syncedNote.uuid);
+
+      // Changed again since the update was sent: the server copy must not overwrite those changes
+      const localNote = await NotesStorage.getNote(syncedNote.uuid);
+      if (localNote && this.hasNewerOperations(syncedNote.uuid, sent)) {
+        await this.adoptServerIdentity(localNote, syncedNote);
+        continue;
+      }
       
-      const successful: string[] = [];
+      // Update version fields after successful sync
+      const updatedNote = {
+        ...syncedNote,
+        lastSyncedAt: new Date() // Update sync timestamp
+      };
       
-      // Process successful updates - save updated notes to localStorage
-      batchResponse.successful.forEach((noteResponse) => {
-        const syncedNote = transformNoteResponseToNote(noteResponse);
-        successful.push(syncedNote.uuid);
-        
-        // Update version fields after successful sync
+      // Save successful note to local storage with updated versions and record it as the merge base
+      await NotesStorage.saveSyncedNote(updatedNote);
+      console.log(`Synced note ${syncedNote.uuid}: localVersion=${updatedNote.localVersion}, syncVersion=${syncedNote.syncVersion}`);
+    }
+
+    // Process failed updates - extract UUIDs from failed notes
+    for (const failedNoteResponse of batchResponse.failed) {
+      failed.push({ 
+        noteUuid: failedNoteResponse.uuid, 
+        error: 'Note update failed on server' 
+      });
+      
+      // For failed sync, preserve local note and increment localVersion to ensure retry
+      const localNote = await NotesStorage.getNote(failedNoteResponse.uuid);
+      if (localNote) {
         const updatedNote = {
-          ...syncedNote,
+          ...localNote,
           lastSyncedAt: new Date() // Update sync timestamp
         };
-        
-        // Save successful note to localStorage with updated versions
-        NotesStorage.saveNote(updatedNote);
-        console.log(`Synced note ${syncedNote.uuid}: localVersion=${updatedNote.localVersion}, syncVersion=${syncedNote.syncVersion}`);
-      });
+        await NotesStorage.saveNote(updatedNote);
+        console.log(`Failed sync for note ${failedNoteResponse.uuid}: incremented localVersion to ${updatedNote.localVersion}`);
+      }
+    }
 
-      // Process failed updates - extract UUIDs from failed notes
-      batchResponse.failed.forEach((failedNoteResponse) => {
-        failed.push({ 
-          noteUuid: failedNoteResponse.uuid, 
-          error: 'Note update failed on server' 
-        });
-        
-        // For failed sync, preserve local note and increment localVersion to ensure retry
-        const localNote = NotesStorage.getNote(failedNoteResponse.uuid);
-        if (localNote) {
-          const updatedNote = {
-            ...localNote,
-            lastSyncedAt: new Date() // Update sync timestamp
-          };
-          NotesStorage.saveNote(updatedNote);
-          console.log(`Failed sync for note ${failedNoteResponse.uuid}: incremented localVersion to ${updatedNote.localVersion}`);
-        }
-      });
+    await this.applyConnectorResult('update', batchResponse.connectors, sent, successful, failed);
+    await this.applyFrameResult('update', batchResponse.frames, sent, successful, failed);
 
-      batchResponse.errors.forEach(error => {
-        console.error('Batch update error:', error);
-      });
+    batchResponse.errors.forEach(error => {
+      console.error('Batch update error:', error);
+    });
 
-      // Handle conflicts if any
-      if (batchResponse.conflicts && batchResponse.conflicts.length > 0) {
-        console.warn(`Batch update has ${batchResponse.conflicts.length} conflicts that need resolution`);
-        batchResponse.conflicts.forEach(conflict => {
-          console.warn(`Conflict for note ${conflict.noteUuid}: ${conflict.conflictType}`);
-        });
+    // Handle conflicts if any
+    if (batchResponse.conflicts && batchResponse.conflicts.length > 0) {
+      console.warn(`Batch update has ${batchResponse.conflicts.length} conflicts that need resolution`);
+      for (const conflict of batchResponse.conflicts) {
+        console.warn(`Conflict for note ${conflict.noteUuid}: ${conflict.conflictType}`);
+        if (await this.resolveConflict(conflict)) {
+          successful.push(conflict.noteUuid);
+        }
       }
+    }
 
-      console.log(`Batch update completed: ${successful.length} successful, ${failed.length} failed`);
-      return { successful, failed };
-      
+    console.log(`Batch update completed: ${successful.length} successful, ${failed.length} failed`);
+    return { successful, failed };
+  }
+
+  /**
+   * Merge the server version of a conflicting note into local storage.
+   * Returns true when nothing is left to push; otherwise the note stays queued
+   * so the merged result is sent with the next sync.
+   */
+  private async resolveConflict(conflict: SyncConflict): Promise<boolean> {
+    const serverNote = transformNoteResponseToNote(conflict.serverVersion);
+
+    if (conflict.resolutionStrategy === 'server_wins') {
+      await NotesStorage.saveSyncedNote({ ...serverNote, localVersion: serverNote.syncVersion, lastSyncedAt: new Date() });
+      await SyncConflictStorage.deleteConflict(conflict.noteUuid);
+      return true;
+    }
+
+    const localNote = await NotesStorage.getNote(conflict.noteUuid);
+    if (!localNote) {
+      await NotesStorage.saveSyncedNote(serverNote);
+      return true;
+    }
+
+    const result = await NoteMergeEngine.reconcileWithServer(localNote, serverNote);
+    return !result.hasLocalChanges;
+  }
+
+  /**
+   * Batch sync delete items
+   */
+  async batchSyncDeleteItems(items: QueueItem[]): Promise<{ successful: string[], failed: SyncFailure[] }> {
+    if (items.length === 0) return { successful: [], failed: [] };
+
+    const { request, noteUuids, failed } = await this.prepareDeleteBatch(items);
+    if (noteUuids.length === 0) return { successful: [], failed };
+
+    try {
+      const batchResponse = await notesApi.batchDeleteNotes(request);
+      return await this.applyDeleteResult(batchResponse, items, failed);
     } catch (error) {
       // If batch operation fails entirely, mark all as failed
-      const allFailed = Array.from(itemMap.values()).map(noteUuid => ({
+      const allFailed = noteUuids.map(noteUuid => ({
         noteUuid,
-        error: (error as Error).message
+        error: (error as Error).message,
+        status: error instanceof ApiError ? error.status : undefined
       }));
       return { successful: [], failed: allFailed };
     }
   }
 
   /**
-   * Batch sync delete items
+   * Build the batch delete request for queued items
    */
-  async batchSyncDeleteItems(items: QueueItem[]): Promise<{ successful: string[], failed: Array<{ noteUuid: string, error: string }> }> {
-    if (items.length === 0) return { successful: [], failed: [] };
-
-    const deleteRequests = [];
-    const itemMap = new Map<number, string>(); // server ID -> noteUuid mapping
-    const failed: Array<{ noteUuid: string, error: string }> = [];
+  async prepareDeleteBatch(items: QueueItem[]): Promise<PreparedBatch<BatchDeleteRequest>> {
+    const deleteRequests: DeleteNoteRequest[] = [];
+    const connectors: DeleteConnectorRequest[] = [];
+    const frames: DeleteFrameRequest[] = [];
+    const noteUuids: string[] = [];
+    const operationIds: string[] = [];
+    const failed: SyncFailure[] = [];
 
     // Prepare delete requests for batch deletion
     for (const item of items) {
-      const note = NotesStorage.getNote(item.noteUuid);
+      if (item.entityType === 'connector') {
+        const connector = await ConnectorStorage.getConnector(item.noteUuid);
+        // A purged connector is no longer stored - use the queued server id
+        const id = connector?.id || item.serverId;
+        if (!id || id === API.DEFAULT_IDS.NEW_ENTITY) {
+          failed.push({ noteUuid: item.noteUuid, error: `Connector ${item.noteUuid} has no valid server ID for deletion` });
+          continue;
+        }
+
+        connectors.push({
+          id,
+          localVersion: connector?.localVersion || item.localVersion || 1,
+          clientUpdatedAt: connector?.clientUpdatedAt?.toISOString(),
+          operationId: item.operationId
+        });
+        noteUuids.push(item.noteUuid);
+        operationIds.push(item.operationId);
+        continue;
+      }
+
+      if (item.entityType === 'frame') {
+        const frame = await FrameStorage.getFrame(item.noteUuid);
+        // A removed frame is no longer stored - use the queued server id
+        const id = frame?.id || item.serverId;
+        if (!id || id === API.DEFAULT_IDS.NEW_ENTITY) {
+          failed.push({ noteUuid: item.noteUuid, error: `Frame ${item.noteUuid} has no valid server ID for deletion` });
+          continue;
+        }
+
+        frames.push({
+          id,
+          localVersion: frame?.localVersion || item.localVersion || 1,
+          clientUpdatedAt: frame?.clientUpdatedAt?.toISOString(),
+          operationId: item.operationId
+        });
+        noteUuids.push(item.noteUuid);
+        operationIds.push(item.operationId);
+        continue;
+      }
+
+      const note = await NotesStorage.getNote(item.noteUuid);
       
       if (note && note.id && note.id !== API.DEFAULT_IDS.NEW_ENTITY) {
         // Log version information for debugging
@@ -234,57 +514,228 @@ export class BatchSyncHandler {
         const deleteRequest = {
           id: note.id,
           localVersion: note.localVersion || 1,
-          clientUpdatedAt: note.clientUpdatedAt?.toISOString()
+          clientUpdatedAt: note.clientUpdatedAt?.toISOString(),
+          operationId: item.operationId
         };
         
         deleteRequests.push(deleteRequest);
-        itemMap.set(note.id, item.noteUuid);
+        noteUuids.push(item.noteUuid);
+        operationIds.push(item.operationId);
+      } else if (!note && item.serverId) {
+        // Note was purged from the trash before its deletion synced - use the queued server id
+        console.log(`Processing delete for purged note ${item.noteUuid} (server id ${item.serverId})`);
+
+        deleteRequests.push({
+          id: item.serverId,
+          localVersion: item.localVersion || 1,
+          operationId: item.operationId
+        });
+        noteUuids.push(item.noteUuid);
+        operationIds.push(item.operationId);
       } else {
         failed.push({ noteUuid: item.noteUuid, error: `Note ${item.noteUuid} has no valid server ID for deletion` });
       }
     }
 
-    if (deleteRequests.length === 0) return { successful: [], failed };
+    return {
+      request: { notes: deleteRequests, ...(connectors.length > 0 && { connectors }), ...(frames.length > 0 && { frames }) },
+      noteUuids,
+      operationIds,
+      failed
+    };
+  }
 
-    try {
-      const batchResponse = await notesApi.batchDeleteNotes({ notes: deleteRequests });
-      
-      const successful: string[] = [];
-      
-      // Process successful deletions
-      batchResponse.successful.forEach((noteResponse) => {
-        successful.push(noteResponse.uuid);
-        // Remove the successfully deleted note from localStorage
-        NotesStorage.deleteNote(noteResponse.uuid);
+  /**
+   * Mark the notes deleted by a batch delete response as synced
+   * @param sent - The operations that were sent
+   * @param failed - Items already known to have failed, reported with the response's failures
+   */
+  async applyDeleteResult(
+    batchResponse: BatchSyncResult,
+    sent: SentOperation[],
+    failed: SyncFailure[] = []
+  ): Promise<{ successful: string[], failed: SyncFailure[] }> {
+    const successful: string[] = [];
+    
+    // Process successful deletions
+    for (const noteResponse of batchResponse.successful) {
+      successful.push(noteResponse.uuid);
+
+      // Restored since the delete was sent: the server copy is gone, so the note is created again
+      const localNote = await NotesStorage.getNote(noteResponse.uuid);
+      if (localNote && this.hasNewerOperations(noteResponse.uuid, sent)) {
+        await NotesStorage.saveNote({ ...localNote, id: API.DEFAULT_IDS.NEW_ENTITY });
+        QueueManager.replacePendingAction(noteResponse.uuid, 'update', 'create');
+        continue;
+      }
+
+      // Keep the note in the local trash, now marked as synced
+      await NotesStorage.markDeletionSynced(noteResponse.uuid);
+    }
+
+    // Process failed deletions - extract UUIDs from failed notes
+    for (const failedNoteResponse of batchResponse.failed) {
+      failed.push({ 
+        noteUuid: failedNoteResponse.uuid, 
+        error: 'Note deletion failed on server' 
       });
+      
+      // For failed deletion, the note should remain in local storage
+      // We don't increment localVersion for deletions since the note is already marked as deleted
+      console.log(`Failed deletion for note ${failedNoteResponse.uuid}: note remains in local storage`);
+    }
 
-      // Process failed deletions - extract UUIDs from failed notes
-      batchResponse.failed.forEach((failedNoteResponse) => {
-        failed.push({ 
-          noteUuid: failedNoteResponse.uuid, 
-          error: 'Note deletion failed on server' 
+    await this.applyConnectorResult('delete', batchResponse.connectors, sent, successful, failed);
+    await this.applyFrameResult('delete', batchResponse.frames, sent, successful, failed);
+
+    // Process general errors
+    batchResponse.errors.forEach(error => {
+      console.error('Batch delete error:', error);
+    });
+
+    console.log(`Batch delete completed: ${successful.length} successful, ${failed.length} failed`);
+    return { successful, failed };
+  }
+
+  /**
+   * Save the connectors reported by a batch response, following the same rules as its notes:
+   * a connector changed again since its operation was sent keeps its local state
+   */
+  private async applyConnectorResult(
+    action: QueueItem['action'],
+    result: ConnectorBatchResult | undefined,
+    sent: SentOperation[],
+    successful: string[],
+    failed: SyncFailure[]
+  ): Promise<void> {
+    if (!result) return;
+
+    for (const response of result.successful) {
+      successful.push(response.uuid);
+      const localConnector = await ConnectorStorage.getConnector(response.uuid);
+      const hasNewerOperations = this.hasNewerOperations(response.uuid, sent);
+
+      if (action === 'delete') {
+        // Restored since the delete was sent: the server copy is gone, so the connector is created again
+        if (localConnector && hasNewerOperations) {
+          await ConnectorStorage.saveConnector({ ...localConnector, id: API.DEFAULT_IDS.NEW_ENTITY });
+          QueueManager.replacePendingAction(response.uuid, 'update', 'create');
+        } else {
+          await ConnectorStorage.markDeletionSynced(response.uuid);
+        }
+        continue;
+      }
+
+      const syncedConnector = transformConnectorResponseToConnector(response);
+      if (localConnector && (hasNewerOperations || (action === 'create' && localConnector.isDeleted))) {
+        await ConnectorStorage.saveConnector({
+          ...localConnector,
+          id: syncedConnector.id,
+          syncVersion: syncedConnector.syncVersion,
+          // Still ahead of the server until the queued changes are sent
+          localVersion: Math.max(localConnector.localVersion || 1, syncedConnector.syncVersion + 1),
+          lastSyncedAt: new Date()
         });
-        
-        // For failed deletion, the note should remain in localStorage
-        // We don't increment localVersion for deletions since the note is already marked as deleted
-        console.log(`Failed deletion for note ${failedNoteResponse.uuid}: note remains in localStorage`);
-      });
+        if (action === 'create') {
+          QueueManager.replacePendingAction(response.uuid, 'create', 'update');
+          if (!hasNewerOperations) {
+            await QueueManager.addToQueue(response.uuid, 'delete', undefined, 'connector');
+          }
+        }
+        continue;
+      }
 
-      // Process general errors
-      batchResponse.errors.forEach(error => {
-        console.error('Batch delete error:', error);
+      await ConnectorStorage.saveConnector({
+        ...syncedConnector,
+        localVersion: syncedConnector.syncVersion,
+        deletedWithNote: localConnector?.deletedWithNote,
+        lastSyncedAt: new Date()
       });
+    }
 
-      console.log(`Batch delete completed: ${successful.length} successful, ${failed.length} failed`);
-      return { successful, failed };
-      
-    } catch (error) {
-      // If batch operation fails entirely, mark all as failed
-      const allFailed = Array.from(itemMap.values()).map(noteUuid => ({
-        noteUuid,
-        error: (error as Error).message
-      }));
-      return { successful: [], failed: allFailed };
+    result.failed.forEach(response => {
+      failed.push({ noteUuid: response.uuid, error: `Connector ${action} failed on server` });
+    });
+  }
+
+  /**
+   * Save the frames reported by a batch response, following the same rules as its notes:
+   * a frame changed again since its operation was sent keeps its local state
+   */
+  private async applyFrameResult(
+    action: QueueItem['action'],
+    result: FrameBatchResult | undefined,
+    sent: SentOperation[],
+    successful: string[],
+    failed: SyncFailure[]
+  ): Promise<void> {
+    if (!result) return;
+
+    for (const response of result.successful) {
+      successful.push(response.uuid);
+      const localFrame = await FrameStorage.getFrame(response.uuid);
+      const hasNewerOperations = this.hasNewerOperations(response.uuid, sent);
+
+      if (action === 'delete') {
+        // Changed since the delete was sent: the server copy is gone, so the frame is created again
+        if (localFrame && hasNewerOperations) {
+          await FrameStorage.saveFrame({ ...localFrame, id: API.DEFAULT_IDS.NEW_ENTITY });
+          QueueManager.replacePendingAction(response.uuid, 'update', 'create');
+        } else {
+          await FrameStorage.markDeletionSynced(response.uuid);
+        }
+        continue;
+      }
+
+      const syncedFrame = transformFrameResponseToFrame(response);
+      if (localFrame && (hasNewerOperations || (action === 'create' && localFrame.isDeleted))) {
+        await FrameStorage.saveFrame({
+          ...localFrame,
+          id: syncedFrame.id,
+          syncVersion: syncedFrame.syncVersion,
+          // Still ahead of the server until the queued changes are sent
+          localVersion: Math.max(localFrame.localVersion || 1, syncedFrame.syncVersion + 1),
+          lastSyncedAt: new Date()
+        });
+        if (action === 'create') {
+          QueueManager.replacePendingAction(response.uuid, 'create', 'update');
+          if (!hasNewerOperations) {
+            await QueueManager.addToQueue(response.uuid, 'delete', undefined, 'frame');
+          }
+        }
+        continue;
+      }
+
+      await FrameStorage.saveFrame({ ...syncedFrame, localVersion: syncedFrame.syncVersion, lastSyncedAt: new Date() });
     }
+
+    result.failed.forEach(response => {
+      failed.push({ noteUuid: response.uuid, error: `Frame ${action} failed on server` });
+    });
+  }
+
+  /**
+   * Check whether the note was changed again after its operation was sent
+   */
+  private hasNewerOperations(noteUuid: string, sent: SentOperation[]): boolean {
+    const operation = sent.find(item => item.noteUuid === noteUuid);
+    return QueueManager.hasNewerOperations(noteUuid, operation?.operationId);
+  }
+
+  /**
+   * Take the server id and version into a note with local changes still queued,
+   * keeping its content; the server copy becomes the merge base
+   */
+  private async adoptServerIdentity(localNote: Note, serverNote: Note): Promise<void> {
+    await NotesStorage.saveNote({
+      ...localNote,
+      id: serverNote.id,
+      syncVersion: serverNote.syncVersion,
+      // Still ahead of the server until the queued changes are sent
+      localVersion: Math.max(localNote.localVersion || 1, serverNote.syncVersion + 1),
+      lastSyncedAt: new Date()
+    });
+    await NotesStorage.saveBaseSnapshot(serverNote);
+    console.log(`Note ${localNote.uuid} changed while syncing: took server id ${serverNote.id} and version ${serverNote.syncVersion}`);
   }
 }
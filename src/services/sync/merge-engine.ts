@@ -0,0 +1,340 @@
+import { Note } from '@/domains/note';
+import { NoteTask } from '@/domains/noteTask';
+import { Tag } from '@/domains/tag';
+import {
+  ConflictResolution,
+  MergeableNoteField,
+  NoteConflict,
+  NoteFieldConflict,
+  NoteMergeResult,
+  NoteSyncField,
+} from '@/types/sync.types';
+import { NotesStorage } from '@/helpers/notes-storage';
+import { SyncConflictStorage } from '@/helpers/sync-conflict-storage';
+import { sortTasks } from '@/helpers/task-manager';
+
+type ScalarMerge<T> = { value: T; conflict: boolean };
+type MergeableTaskField = 'text' | 'completed' | 'dueDate' | 'reminderMinutes' | 'order' | 'parentUuid' | 'priority' | 'assignee';
+
+/**
+ * Three-way merge of notes that changed both locally and on the server.
+ * Fields are merged independently against the last-synced base snapshot;
+ * a conflict is recorded only when the same field diverged on both sides.
+ */
+export class NoteMergeEngine {
+  private static readonly SCALAR_FIELDS: MergeableNoteField[] = [
+    'title',
+    'content',
+    'date',
+    'color',
+    'position',
+    'isPinned',
+    'isDisplayed',
+    'isTaskMode',
+    'isDeleted',
+    'recurrence',
+    'occurrenceCompletions',
+    'dueDate',
+    'reminderMinutes',
+    'width',
+    'height',
+    'frameUuid',
+  ];
+
+  // Per-task fields; `order` is merged but never reported as a conflict
+  private static readonly TASK_FIELDS: MergeableTaskField[] = [
+    'text',
+    'completed',
+    'dueDate',
+    'reminderMinutes',
+    'order',
+    'parentUuid',
+    'priority',
+    'assignee',
+  ];
+
+  /**
+   * Merge local and server versions of a note against their common base.
+   * Conflicting fields take the server value; the local value is kept in the conflict record.
+   * @param base - Last-synced snapshot, or null if the note was never synced on this device
+   * @param local - Local version of the note
+   * @param server - Server version of the note
+   */
+  static mergeNotes(base: Note | null, local: Note, server: Note): NoteMergeResult {
+    const conflicts: NoteFieldConflict[] = [];
+    const merged: Note = { ...server };
+    const mergedRecord = merged as unknown as Record<MergeableNoteField, unknown>;
+
+    this.SCALAR_FIELDS.forEach(field => {
+      const result = this.mergeValue(
+        base ? this.getField(base, field) : undefined,
+        this.getField(local, field),
+        this.getField(server, field),
+        base !== null
+      );
+      mergedRecord[field] = result.value;
+      if (result.conflict) {
+        conflicts.push({ field });
+      }
+    });
+
+    merged.tags = this.mergeTags(base?.tags || [], local.tags || [], server.tags || [], base !== null);
+
+    const taskMerge = this.mergeTasks(base?.noteTasks || [], local.noteTasks || [], server.noteTasks || [], base !== null);
+    merged.noteTasks = taskMerge.tasks;
+    conflicts.push(...taskMerge.conflicts);
+
+    const hasLocalChanges = !this.notesEqual(merged, server);
+
+    return {
+      merged: {
+        ...merged,
+        syncVersion: server.syncVersion,
+        // A merged note carrying local changes must be pushed again
+        localVersion: hasLocalChanges ? server.syncVersion + 1 : server.syncVersion,
+        lastSyncedAt: new Date(),
+        clientUpdatedAt: hasLocalChanges ? new Date() : server.clientUpdatedAt,
+      },
+      conflicts,
+      hasLocalChanges,
+    };
+  }
+
+  /**
+   * Merge a server version into local storage: reads the base snapshot, saves the merged
+   * note, advances the base to the server version and records or clears the conflict.
+   * @param local - Local version of the note
+   * @param server - Server version of the note
+   */
+  static async reconcileWithServer(local: Note, server: Note): Promise<NoteMergeResult> {
+    const base = await NotesStorage.getBaseSnapshot(local.uuid);
+    const result = this.mergeNotes(base, local, server);
+
+    await NotesStorage.saveNote(result.merged);
+    await NotesStorage.saveBaseSnapshot(server);
+
+    if (result.conflicts.length > 0) {
+      await SyncConflictStorage.saveConflict({
+        noteUuid: local.uuid,
+        base,
+        local,
+        server,
+        fields: result.conflicts,
+        detectedAt: new Date(),
+      });
+      console.warn(`Merge of note ${local.uuid} has ${result.conflicts.length} conflicting field(s)`);
+    } else {
+      await SyncConflictStorage.deleteConflict(local.uuid);
+    }
+
+    return result;
+  }
+
+  /**
+   * List the fields that differ between two versions of a note, for sending only those
+   * @param before - The note as last stored
+   * @param after - The note about to be stored
+   */
+  static getChangedFields(before: Note, after: Note): NoteSyncField[] {
+    const changed: NoteSyncField[] = this.SCALAR_FIELDS.filter(field =>
+      !this.valuesEqual(this.getField(before, field), this.getField(after, field))
+    );
+
+    if (!this.tagsEqual(before.tags || [], after.tags || [])) changed.push('tags');
+    if (!this.taskListsEqual(before.noteTasks || [], after.noteTasks || [])) changed.push('tasks');
+
+    return changed;
+  }
+
+  /**
+   * Key identifying a conflicting field in a ConflictResolution
+   */
+  static getConflictKey(conflict: NoteFieldConflict): string {
+    return conflict.field === 'task' ? `task:${conflict.taskUuid}` : conflict.field;
+  }
+
+  /**
+   * Apply chosen sides to the current note. Fields without a choice, or resolved
+   * to 'server', keep the current value (the merge already applied the server side).
+   * @param current - The note as currently stored
+   * @param conflict - The recorded conflict
+   * @param resolution - Chosen side per conflicting field
+   */
+  static applyResolution(current: Note, conflict: NoteConflict, resolution: ConflictResolution): Note {
+    const resolved: Note = { ...current, noteTasks: [...(current.noteTasks || [])] };
+    const resolvedRecord = resolved as unknown as Record<MergeableNoteField, unknown>;
+
+    conflict.fields.forEach(fieldConflict => {
+      if (resolution[this.getConflictKey(fieldConflict)] !== 'local') return;
+
+      if (fieldConflict.field !== 'task') {
+        resolvedRecord[fieldConflict.field] = this.getField(conflict.local, fieldConflict.field);
+        return;
+      }
+
+      const tasks = resolved.noteTasks || [];
+      const localTask = (conflict.local.noteTasks || []).find(task => task.uuid === fieldConflict.taskUuid);
+      const index = tasks.findIndex(task => task.uuid === fieldConflict.taskUuid);
+
+      if (!localTask) {
+        // Deleted locally
+        resolved.noteTasks = tasks.filter(task => task.uuid !== fieldConflict.taskUuid);
+      } else if (index >= 0) {
+        const updated = { ...tasks[index] };
+        this.TASK_FIELDS.forEach(field => {
+          (updated as unknown as Record<MergeableTaskField, unknown>)[field] = this.getTaskField(localTask, field);
+        });
+        tasks[index] = updated;
+      } else {
+        tasks.push(localTask);
+      }
+    });
+
+    resolved.noteTasks = sortTasks(resolved.noteTasks || []);
+    return resolved;
+  }
+
+  /**
+   * Three-way merge of a single value
+   * @param hasBase - Whether a base snapshot exists; without one any divergence is a conflict
+   */
+  private static mergeValue<T>(base: T, local: T, server: T, hasBase: boolean): ScalarMerge<T> {
+    if (this.valuesEqual(local, server)) return { value: server, conflict: false };
+    if (hasBase && this.valuesEqual(local, base)) return { value: server, conflict: false };
+    if (hasBase && this.valuesEqual(server, base)) return { value: local, conflict: false };
+    return { value: server, conflict: true };
+  }
+
+  /**
+   * Merge tags as sets of names: additions from either side are kept and
+   * a removal on either side wins, so tags never conflict
+   */
+  private static mergeTags(base: Tag[], local: Tag[], server: Tag[], hasBase: boolean): Tag[] {
+    const baseNames = new Set(base.map(tag => tag.name));
+    const localNames = new Set(local.map(tag => tag.name));
+    const serverNames = new Set(server.map(tag => tag.name));
+    const result: Tag[] = [];
+    const seen = new Set<string>();
+
+    // Prefer server tag objects since they carry server-assigned IDs
+    [...server, ...local].forEach(tag => {
+      if (seen.has(tag.name)) return;
+      seen.add(tag.name);
+
+      const inLocal = localNames.has(tag.name);
+      const inServer = serverNames.has(tag.name);
+      const keep = hasBase && baseNames.has(tag.name)
+        ? inLocal && inServer
+        : inLocal || inServer;
+
+      if (keep) result.push(tag);
+    });
+
+    return result;
+  }
+
+  /**
+   * Merge task lists by task UUID. Each task field is merged on its own;
+   * a task deleted on one side and edited on the other is a conflict.
+   */
+  private static mergeTasks(
+    base: NoteTask[],
+    local: NoteTask[],
+    server: NoteTask[],
+    hasBase: boolean
+  ): { tasks: NoteTask[]; conflicts: NoteFieldConflict[] } {
+    const baseMap = new Map(base.map(task => [task.uuid, task]));
+    const localMap = new Map(local.map(task => [task.uuid, task]));
+    const serverMap = new Map(server.map(task => [task.uuid, task]));
+    const tasks: NoteTask[] = [];
+    const conflicts: NoteFieldConflict[] = [];
+
+    // Keep local ordering, then append tasks that only exist on the server
+    const orderedUuids = [
+      ...local.map(task => task.uuid),
+      ...server.filter(task => !localMap.has(task.uuid)).map(task => task.uuid),
+    ];
+
+    orderedUuids.forEach(uuid => {
+      const baseTask = hasBase ? baseMap.get(uuid) : undefined;
+      const localTask = localMap.get(uuid);
+      const serverTask = serverMap.get(uuid);
+
+      if (localTask && serverTask) {
+        const reference = baseTask || serverTask;
+        const merged = { ...serverTask };
+        let hasConflict = false;
+        this.TASK_FIELDS.forEach(field => {
+          const result = this.mergeValue(
+            this.getTaskField(reference, field),
+            this.getTaskField(localTask, field),
+            this.getTaskField(serverTask, field),
+            baseTask !== undefined
+          );
+          (merged as unknown as Record<MergeableTaskField, unknown>)[field] = result.value;
+          if (result.conflict && field !== 'order') hasConflict = true;
+        });
+        tasks.push(merged);
+        if (hasConflict) {
+          conflicts.push({ field: 'task', taskUuid: uuid });
+        }
+        return;
+      }
+
+      const remaining = localTask || serverTask;
+      if (!remaining) return;
+
+      if (!baseTask) {
+        // Added on one side only
+        tasks.push(remaining);
+        return;
+      }
+
+      // Deleted on one side - drop it unless the other side edited it
+      if (!this.tasksEqual(remaining, baseTask)) {
+        conflicts.push({ field: 'task', taskUuid: uuid });
+        if (serverTask) tasks.push(serverTask);
+      }
+    });
+
+    // Merged order and parents may differ from either side's list order
+    return { tasks: sortTasks(tasks), conflicts };
+  }
+
+  private static getField(note: Note, field: MergeableNoteField): unknown {
+    // Optional fields may be missing locally and null from the server
+    return (note as unknown as Record<MergeableNoteField, unknown>)[field] ?? null;
+  }
+
+  private static getTaskField(task: NoteTask, field: MergeableTaskField): unknown {
+    return (task as unknown as Record<MergeableTaskField, unknown>)[field] ?? null;
+  }
+
+  private static tasksEqual(a: NoteTask, b: NoteTask): boolean {
+    return this.TASK_FIELDS.every(field => this.valuesEqual(this.getTaskField(a, field), this.getTaskField(b, field)));
+  }
+
+  private static tagsEqual(a: Tag[], b: Tag[]): boolean {
+    return this.valuesEqual(a.map(tag => tag.name).sort(), b.map(tag => tag.name).sort());
+  }
+
+  private static taskListsEqual(a: NoteTask[], b: NoteTask[]): boolean {
+    return a.length === b.length &&
+      a.every((task, index) => task.uuid === b[index].uuid && this.tasksEqual(task, b[index]));
+  }
+
+  private static notesEqual(a: Note, b: Note): boolean {
+    const fieldsEqual = this.SCALAR_FIELDS.every(field => this.valuesEqual(this.getField(a, field), this.getField(b, field)));
+    return fieldsEqual &&
+      this.tagsEqual(a.tags || [], b.tags || []) &&
+      this.taskListsEqual(a.noteTasks || [], b.noteTasks || []);
+  }
+
+  private static valuesEqual(a: unknown, b: unknown): boolean {
+    if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+    if (typeof a === 'object' && a !== null && typeof b === 'object' && b !== null) {
+      return JSON.stringify(a) === JSON.stringify(b);
+    }
+    return a === b;
+  }
+}
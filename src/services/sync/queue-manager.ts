@@ -1,45 +1,107 @@
-import { QueueItem, QueueStats } from '@/types/sync.types';
+import { DeadLetterItem, NoteSyncField, QueueItem, QueuePause, QueueStats, SyncEntityType, SyncErrorKind, SyncFailure } from '@/types/sync.types';
+import { Note } from '@/domains/note';
+import { Connector } from '@/domains/connector';
+import { Frame } from '@/domains/frame';
 import { NotesStorage } from '@/helpers/notes-storage';
+import { ConnectorStorage } from '@/helpers/connector-storage';
+import { FrameStorage } from '@/helpers/frame-storage';
+import { SessionManager } from '@/helpers/session-manager';
 import { API, SYNC } from '@/constants/ui-constants';
+import { v4 as uuidv4 } from 'uuid';
+
+type QueueAction = QueueItem['action'];
+
+// Server identity and versions of a queued record
+type SyncedRecord = Pick<Note, 'id' | 'uuid' | 'isDeleted' | 'localVersion' | 'syncVersion'>;
+
+// Helper function to identify a session token without storing it again
+const getTokenFingerprint = (token: string | null): string | null => token ? token.slice(-16) : null;
+
+// Helper function to count queue items per action
+const countByAction = (queue: QueueItem[]) => ({
+  total: queue.length,
+  create: queue.filter(item => item.action === 'create').length,
+  update: queue.filter(item => item.action === 'update').length,
+  delete: queue.filter(item => item.action === 'delete').length
+});
+
+// Helper function to combine the fields of two updates; undefined means the whole note
+const mergeChangedFields = (a?: NoteSyncField[], b?: NoteSyncField[]): NoteSyncField[] | undefined =>
+  a && b ? [...new Set([...a, ...b])] : undefined;
+
+// Helper function to keep the log in the order operations were made; the sort is stable
+const sortByTimestamp = (queue: QueueItem[]): QueueItem[] => [...queue].sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * Combine a pending operation with a later one for the same note, so the server
+ * gets one request carrying the result of both
+ * @returns The combined operation, or null when the two cancel out
+ */
+const coalesceOperations = (pending: QueueItem, incoming: QueueItem): QueueItem | null => {
+  // Keep the log position of the pending operation; the payload changes, so the id does too
+  const combined = (action: QueueAction, changedFields?: NoteSyncField[]): QueueItem => ({
+    ...incoming,
+    action,
+    changedFields,
+    timestamp: pending.timestamp
+  });
+
+  switch (pending.action) {
+    case 'create':
+      // The server never saw the note: a later update is part of the create, a delete cancels it
+      if (incoming.action === 'delete') return null;
+      return combined('create');
+
+    case 'update':
+      if (incoming.action === 'update') {
+        return combined('update', mergeChangedFields(pending.changedFields, incoming.changedFields));
+      }
+      return combined(incoming.action, incoming.changedFields);
+
+    case 'delete':
+      // A restore replaces the pending delete
+      return combined(incoming.action, incoming.changedFields);
+  }
+};
 
 export class QueueManager {
   private static readonly PRIMARY_QUEUE_KEY = 'draggy-notes-sync-queue';
   private static readonly RETRY_QUEUE_KEY = 'draggy-notes-retry-queue';
+  private static readonly DEAD_LETTER_QUEUE_KEY = 'draggy-notes-dead-letter-queue';
+  private static readonly PAUSE_KEY = 'draggy-notes-sync-paused';
   private static readonly MAX_RETRY_COUNT = SYNC.MAX_RETRY_COUNT;
   private static readonly RETRY_DELAY = SYNC.RETRY_DELAY;
 
   /**
-   * Add item to primary sync queue with precheck
+   * Add an operation to the primary sync queue with precheck. It is combined with
+   * the note's last pending operation unless that one has already been sent.
+   * @param changedFields - Fields an update changed; omit to send the whole note
+   * @param entityType - Kind of record the UUID belongs to
    */
-  static addToQueue(noteUuid: string, action: 'create' | 'update' | 'delete'): boolean {
+  static async addToQueue(
+    noteUuid: string,
+    action: QueueAction,
+    changedFields?: NoteSyncField[],
+    entityType: SyncEntityType = 'note'
+  ): Promise<boolean> {
     // Perform precheck before adding to queue
-    const precheckResult = this.precheckOperation(noteUuid, action);
+    const precheckResult = await this.precheckOperation(noteUuid, action, entityType);
     
     if (!precheckResult.shouldQueue) {
       console.log(`Precheck failed for note ${noteUuid} with action ${action}, skipping queue`);
       return false;
     }
 
-    const queue = this.getPrimaryQueue();
-    
-    // Remove existing item for same note (latest action wins)
-    const filteredQueue = queue.filter(item => item.noteUuid !== noteUuid);
-    
+    // A new change gives a parked note another chance
+    this.unparkOperations([noteUuid]);
+
     // Get note to extract version information
-    const note = NotesStorage.getNote(noteUuid);
-    
-    // Add new item with potentially converted action and version info
-    const newItem: QueueItem = {
-      noteUuid,
-      action: precheckResult.finalAction,
-      timestamp: Date.now(),
-      retryCount: SYNC.INITIAL_RETRY_COUNT,
-      localVersion: note?.localVersion,
-      syncVersion: note?.syncVersion
-    };
+    const note = await this.getRecord(noteUuid, entityType);
     
-    filteredQueue.push(newItem);
-    this.savePrimaryQueue(filteredQueue);
+    // Add new operation with potentially converted action and version info
+    const queue = this.getPrimaryQueue();
+    this.appendOperation(queue, this.createOperation(noteUuid, precheckResult.finalAction, note, changedFields, entityType));
+    this.savePrimaryQueue(queue);
     
     if (action !== precheckResult.finalAction) {
       console.log(`Added note ${noteUuid} to sync queue with converted action: ${action} -> ${precheckResult.finalAction}`);
@@ -50,17 +112,209 @@ export class QueueManager {
     return true;
   }
 
+  /**
+   * Add several notes to the primary sync queue in a single write, so a group
+   * operation lands in the queue together and is sent by one batch request
+   * @returns UUIDs of the notes that passed the precheck and were queued
+   */
+  static async addBatchToQueue(
+    noteUuids: string[],
+    action: QueueAction,
+    changedFields?: Record<string, NoteSyncField[]>,
+    entityType: SyncEntityType = 'note'
+  ): Promise<string[]> {
+    const newItems: QueueItem[] = [];
+
+    for (const noteUuid of noteUuids) {
+      const precheckResult = await this.precheckOperation(noteUuid, action, entityType);
+      if (!precheckResult.shouldQueue) {
+        console.log(`Precheck failed for ${entityType} ${noteUuid} with action ${action}, skipping queue`);
+        continue;
+      }
+
+      const note = await this.getRecord(noteUuid, entityType);
+      newItems.push(this.createOperation(noteUuid, precheckResult.finalAction, note, changedFields?.[noteUuid], entityType));
+    }
+
+    if (newItems.length === 0) return [];
+
+    const queuedUuids = newItems.map(item => item.noteUuid);
+    this.unparkOperations(queuedUuids);
+
+    const queue = this.getPrimaryQueue();
+    newItems.forEach(item => this.appendOperation(queue, item));
+    this.savePrimaryQueue(queue);
+
+    console.log(`Added ${newItems.length} ${entityType}s to sync queue as one batch with action: ${action}`);
+    return queuedUuids;
+  }
+
+  /**
+   * Build a new queue operation for a note, connector or frame
+   */
+  private static createOperation(
+    noteUuid: string,
+    action: QueueAction,
+    note: SyncedRecord | null,
+    changedFields?: NoteSyncField[],
+    entityType: SyncEntityType = 'note'
+  ): QueueItem {
+    return {
+      operationId: uuidv4(),
+      noteUuid,
+      entityType,
+      action,
+      timestamp: Date.now(),
+      retryCount: SYNC.INITIAL_RETRY_COUNT,
+      localVersion: note?.localVersion,
+      syncVersion: note?.syncVersion,
+      changedFields: action === 'update' ? changedFields : undefined
+    };
+  }
+
+  /**
+   * Append an operation to the log, combining it with the note's last operation
+   * when that one was never sent. A sent operation keeps its id, the idempotency
+   * key the server may already have seen, so later changes go after it.
+   */
+  private static appendOperation(queue: QueueItem[], item: QueueItem): void {
+    let lastIndex = -1;
+    queue.forEach((queued, index) => {
+      if (queued.noteUuid === item.noteUuid) lastIndex = index;
+    });
+
+    const last = lastIndex >= 0 ? queue[lastIndex] : null;
+    if (!last || last.sentAt || last.attemptedAt) {
+      queue.push(item);
+      return;
+    }
+
+    const combined = coalesceOperations(last, item);
+    if (combined) {
+      queue[lastIndex] = combined;
+      console.log(`Combined ${item.action} for note ${item.noteUuid} with pending ${last.action} into ${combined.action}`);
+    } else {
+      queue.splice(lastIndex, 1);
+      console.log(`Dropped pending ${last.action} for note ${item.noteUuid}: cancelled by ${item.action}`);
+    }
+  }
+
+  /**
+   * Move a note's operations parked in the retry or dead-letter queue back to the
+   * primary queue, in order, so a new operation is combined with them
+   */
+  private static unparkOperations(noteUuids: string[]): void {
+    const isParked = (item: QueueItem) => noteUuids.includes(item.noteUuid);
+    const retried = this.getRetryQueue().filter(isParked);
+    const rejected = this.getDeadLetterQueue().filter(isParked);
+    if (retried.length === 0 && rejected.length === 0) return;
+
+    this.saveRetryQueue(this.getRetryQueue().filter(item => !isParked(item)));
+    this.removeFromDeadLetterQueue(noteUuids);
+
+    const unparked = [...retried, ...rejected.map(({ failedAt: _failedAt, reason: _reason, ...item }) => item)]
+      .map(item => ({
+        ...item,
+        retryCount: SYNC.INITIAL_RETRY_COUNT,
+        lastRetryAt: undefined,
+        nextAttemptAt: undefined,
+        errorMessage: undefined,
+        errorStatus: undefined
+      }));
+    this.insertOperations(unparked);
+  }
+
+  /**
+   * Put operations back into the primary queue at their place in the log.
+   * Operations of the same note are combined as they would have been when queued.
+   */
+  private static insertOperations(items: QueueItem[]): void {
+    const queue: QueueItem[] = [];
+    sortByTimestamp([...this.getPrimaryQueue(), ...items]).forEach(item => this.appendOperation(queue, item));
+    this.savePrimaryQueue(queue);
+  }
+
+  /**
+   * Decide which action brings a restored note back to the server, based on its current local state:
+   * - never synced (id = 0): create
+   * - deletion already synced: create, the server copy is gone
+   * - deletion still pending (or note not deleted): update, the server copy still exists
+   */
+  static getRestoreAction(current: SyncedRecord): 'create' | 'update' {
+    if (!current.id || current.id === API.DEFAULT_IDS.NEW_ENTITY) {
+      return 'create';
+    }
+
+    const isDeletionSynced = current.isDeleted && (current.localVersion || 1) <= (current.syncVersion || 1);
+    return isDeletionSynced ? 'create' : 'update';
+  }
+
+  /**
+   * Queue the server side of permanently purging notes from the trash, in a single write.
+   * The local records are removed right after, so a pending delete carries the server id;
+   * notes the server never had, or whose deletion already synced, leave the queues entirely.
+   * @param connectors - Connectors purged with the notes
+   * @param frames - Frames removed for good
+   */
+  static queuePurge(notes: Note[], connectors: Connector[] = [], frames: Frame[] = []): void {
+    const records: Array<{ record: SyncedRecord; entityType: SyncEntityType }> = [
+      ...notes.map(note => ({ record: note, entityType: 'note' as const })),
+      ...connectors.map(connector => ({ record: connector, entityType: 'connector' as const })),
+      ...frames.map(frame => ({ record: frame, entityType: 'frame' as const }))
+    ];
+    const purgedUuids = new Set(records.map(({ record }) => record.uuid));
+    const newItems: QueueItem[] = records
+      .filter(({ record }) =>
+        record.id && record.id !== API.DEFAULT_IDS.NEW_ENTITY &&
+        ((record.localVersion || 1) > (record.syncVersion || 1) || !record.isDeleted)
+      )
+      .map(({ record: note, entityType }) => ({
+        operationId: uuidv4(),
+        noteUuid: note.uuid,
+        entityType,
+        action: 'delete',
+        timestamp: Date.now(),
+        retryCount: SYNC.INITIAL_RETRY_COUNT,
+        localVersion: note.localVersion,
+        syncVersion: note.syncVersion,
+        serverId: note.id
+      }));
+
+    const filteredQueue = this.getPrimaryQueue().filter(item => !purgedUuids.has(item.noteUuid));
+    this.savePrimaryQueue([...filteredQueue, ...newItems]);
+    this.saveRetryQueue(this.getRetryQueue().filter(item => !purgedUuids.has(item.noteUuid)));
+    this.removeFromDeadLetterQueue([...purgedUuids]);
+
+    console.log(`Purged ${records.length} notes, connectors and frames from queues, ${newItems.length} server deletes queued`);
+  }
+
+  /**
+   * Check whether a delete is waiting in the primary or retry queue for a note
+   */
+  static hasQueuedDelete(noteUuid: string): boolean {
+    return [...this.getPrimaryQueue(), ...this.getRetryQueue()]
+      .some(item => item.noteUuid === noteUuid && item.action === 'delete');
+  }
+
   /**
    * Precheck logic before adding to queue with action conversion
    * Returns the final action to be queued (may differ from input action)
    */
-  private static precheckOperation(noteUuid: string, action: 'create' | 'update' | 'delete'): { shouldQueue: boolean; finalAction: 'create' | 'update' | 'delete' } {
-    const note = NotesStorage.getNote(noteUuid);
+  private static async precheckOperation(
+    noteUuid: string,
+    action: QueueAction,
+    entityType: SyncEntityType = 'note'
+  ): Promise<{ shouldQueue: boolean; finalAction: QueueAction }> {
+    const note = await this.getRecord(noteUuid, entityType);
     
     switch (action) {
       case 'delete':
         // Case 1: Note never created on server (id = 0) and being deleted locally
-        // Don't add to queue as there's nothing to delete on server
+        // Don't add to queue as there's nothing to delete on server -
+        // unless its create is being sent right now, then the delete follows it
+        if (this.isInFlight(noteUuid)) {
+          return { shouldQueue: true, finalAction: action };
+        }
         if (!note || !note.id || note.id === API.DEFAULT_IDS.NEW_ENTITY) {
           console.log(`Note ${noteUuid} has id=0 or doesn't exist, skipping delete sync`);
           // Remove from queue if it exists there
@@ -95,13 +349,36 @@ export class QueueManager {
     }
   }
 
+  /**
+   * Get the stored note, connector or frame a queued operation refers to
+   */
+  private static async getRecord(uuid: string, entityType: SyncEntityType): Promise<SyncedRecord | null> {
+    switch (entityType) {
+      case 'connector':
+        return ConnectorStorage.getConnector(uuid);
+      case 'frame':
+        return FrameStorage.getFrame(uuid);
+      default:
+        return NotesStorage.getNote(uuid);
+    }
+  }
+
   /**
    * Get primary sync queue
    */
   static getPrimaryQueue(): QueueItem[] {
     try {
       const queueData = localStorage.getItem(this.PRIMARY_QUEUE_KEY);
-      return queueData ? JSON.parse(queueData) : [];
+      const queue: QueueItem[] = queueData ? JSON.parse(queueData) : [];
+
+      // Items queued before operation ids existed get one now, once
+      if (queue.some(item => !item.operationId)) {
+        queue.forEach(item => {
+          item.operationId = item.operationId || uuidv4();
+        });
+        this.savePrimaryQueue(queue);
+      }
+      return queue;
     } catch (error) {
       console.error('Failed to load primary sync queue:', error);
       return [];
@@ -143,6 +420,30 @@ export class QueueManager {
     }
   }
 
+  /**
+   * Get the items the server rejected
+   */
+  static getDeadLetterQueue(): DeadLetterItem[] {
+    try {
+      const queueData = localStorage.getItem(this.DEAD_LETTER_QUEUE_KEY);
+      return queueData ? JSON.parse(queueData) : [];
+    } catch (error) {
+      console.error('Failed to load dead-letter queue:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save dead-letter queue
+   */
+  static saveDeadLetterQueue(queue: DeadLetterItem[]): void {
+    try {
+      localStorage.setItem(this.DEAD_LETTER_QUEUE_KEY, JSON.stringify(queue));
+    } catch (error) {
+      console.error('Failed to save dead-letter queue:', error);
+    }
+  }
+
   /**
    * Remove item from primary queue
    */
@@ -162,48 +463,89 @@ export class QueueManager {
   }
 
   /**
-   * Move item from primary queue to retry queue when max retries exceeded
+   * Remove operations from the primary queue by id
+   */
+  static removeOperations(operationIds: string[]): void {
+    const queue = this.getPrimaryQueue();
+    const filteredQueue = queue.filter(item => !operationIds.includes(item.operationId));
+    if (filteredQueue.length !== queue.length) {
+      this.savePrimaryQueue(filteredQueue);
+    }
+  }
+
+  /**
+   * Remove notes from the dead-letter queue
+   */
+  static removeFromDeadLetterQueue(noteUuids: string[]): void {
+    const queue = this.getDeadLetterQueue();
+    const filteredQueue = queue.filter(item => !noteUuids.includes(item.noteUuid));
+    if (filteredQueue.length !== queue.length) {
+      this.saveDeadLetterQueue(filteredQueue);
+    }
+  }
+
+  /**
+   * Move an operation from the primary queue to the retry queue when max retries are
+   * exceeded. The note's later operations go with it, so they are still sent in order.
    */
   static moveToRetryQueue(item: QueueItem, errorMessage?: string): void {
-    // Remove from primary queue
-    this.removeFromPrimaryQueue(item.noteUuid);
+    const queue = this.getPrimaryQueue();
+    const moved = queue.filter(queued => queued.noteUuid === item.noteUuid && queued.operationId !== item.operationId);
+    this.savePrimaryQueue(queue.filter(queued => queued.noteUuid !== item.noteUuid));
     
     // Add to retry queue with error info
-    const retryQueue = this.getRetryQueue();
+    const now = Date.now();
     const retryItem: QueueItem = {
       ...item,
-      lastRetryAt: Date.now(),
+      sentAt: undefined,
+      lastRetryAt: now,
+      nextAttemptAt: now + this.RETRY_DELAY,
       errorMessage: errorMessage || 'Max retries exceeded'
     };
     
-    // Remove existing item in retry queue for same note
-    const filteredRetryQueue = retryQueue.filter(retryItem => retryItem.noteUuid !== item.noteUuid);
-    filteredRetryQueue.push(retryItem);
-    
-    this.saveRetryQueue(filteredRetryQueue);
+    this.saveRetryQueue([
+      ...this.getRetryQueue(),
+      retryItem,
+      ...moved.map(queued => ({ ...queued, lastRetryAt: now, nextAttemptAt: retryItem.nextAttemptAt }))
+    ]);
     
     console.log(`Moved note ${item.noteUuid} to retry queue after max retries`);
   }
 
+  /**
+   * Move a rejected note out of the dead-letter queue so it is sent again
+   */
+  static retryDeadLetterItem(noteUuid: string): void {
+    if (!this.getDeadLetterQueue().some(deadItem => deadItem.noteUuid === noteUuid)) return;
+
+    this.unparkOperations([noteUuid]);
+    console.log(`Moved note ${noteUuid} from dead-letter queue back to primary queue`);
+  }
+
   /**
    * Move eligible items from retry queue back to primary queue
+   * @param force - Move all items, e.g. when the user asks to retry now
    */
-  static processRetryQueue(): void {
+  static processRetryQueue(force: boolean = false): void {
     const retryQueue = this.getRetryQueue();
     const now = Date.now();
     const eligibleItems: QueueItem[] = [];
     const remainingItems: QueueItem[] = [];
 
     retryQueue.forEach(item => {
-      const timeSinceLastRetry = now - (item.lastRetryAt || SYNC.QUEUE_PROCESSING.MIN_RETRY_ELIGIBILITY);
+      // Items parked before nextAttemptAt existed wait RETRY_DELAY after their last retry
+      const nextAttemptAt = item.nextAttemptAt ??
+        (item.lastRetryAt || SYNC.QUEUE_PROCESSING.MIN_RETRY_ELIGIBILITY) + this.RETRY_DELAY;
       
-      if (timeSinceLastRetry >= this.RETRY_DELAY) {
+      if (force || nextAttemptAt <= now) {
         // Reset retry count and move back to primary queue
         eligibleItems.push({
           ...item,
           retryCount: SYNC.INITIAL_RETRY_COUNT,
           lastRetryAt: undefined,
-          errorMessage: undefined
+          nextAttemptAt: undefined,
+          errorMessage: undefined,
+          errorStatus: undefined
         });
       } else {
         remainingItems.push(item);
@@ -211,10 +553,8 @@ export class QueueManager {
     });
 
     if (eligibleItems.length > 0) {
-      // Add eligible items back to primary queue
-      const primaryQueue = this.getPrimaryQueue();
-      const updatedPrimaryQueue = [...primaryQueue, ...eligibleItems];
-      this.savePrimaryQueue(updatedPrimaryQueue);
+      // Add eligible items back to primary queue, at their place in the log
+      this.insertOperations(eligibleItems);
       
       // Update retry queue with remaining items
       this.saveRetryQueue(remainingItems);
@@ -224,34 +564,168 @@ export class QueueManager {
   }
 
   /**
-   * Handle failed sync - increment retry count or move to retry queue
+   * Classify a failed request by its HTTP status. No status means the server
+   * could not be reached, which is transient like server errors and rate limits.
+   */
+  static classifyError(status?: number): SyncErrorKind {
+    if (status === API.STATUS_CODES.UNAUTHORIZED) return 'auth';
+    if (
+      status !== undefined &&
+      status >= API.STATUS_CODES.BAD_REQUEST &&
+      status < API.STATUS_CODES.INTERNAL_SERVER_ERROR &&
+      !(SYNC.TRANSIENT_STATUS_CODES as readonly number[]).includes(status)
+    ) {
+      return 'permanent';
+    }
+    return 'transient';
+  }
+
+  /**
+   * Get the delay before the next attempt after a number of transient failures:
+   * doubling from BASE_DELAY up to MAX_DELAY, partly randomized
+   */
+  static getBackoffDelay(retryCount: number): number {
+    const delay = Math.min(SYNC.BACKOFF.MAX_DELAY, SYNC.BACKOFF.BASE_DELAY * 2 ** Math.max(0, retryCount - 1));
+    return Math.round(delay * (1 - SYNC.BACKOFF.JITTER * Math.random()));
+  }
+
+  /**
+   * Handle failed sync according to the kind of error:
+   * - transient: retry after a backoff delay, moving to the retry queue after MAX_RETRY_COUNT failures
+   * - permanent: move to the dead-letter queue
+   * - auth: keep the item and pause the queue until the user signs in again
+   * @param operationId - The operation that was sent
+   * @returns True if the item stays in the primary queue
    */
-  static handleFailedSync(noteUuid: string, errorMessage?: string): boolean {
+  static handleFailedSync(operationId: string, errorMessage?: string, status?: number): boolean {
     const queue = this.getPrimaryQueue();
-    const item = queue.find(item => item.noteUuid === noteUuid);
-    
-    if (item) {
-      item.retryCount += 1;
-      
-      if (item.retryCount >= this.MAX_RETRY_COUNT) {
-        // Move to retry queue instead of removing
-        this.moveToRetryQueue(item, errorMessage);
+    const item = queue.find(item => item.operationId === operationId);
+    if (!item) return false;
+
+    // No longer in a request; attemptedAt stays, since the server may have applied it
+    item.sentAt = undefined;
+
+    switch (this.classifyError(status)) {
+      case 'auth':
+        this.savePrimaryQueue(queue);
+        this.pauseQueue();
+        return true;
+
+      case 'permanent':
+        this.moveToDeadLetterQueue(item, errorMessage || `Rejected by server (${status})`, status);
         return false;
-      }
-      
-      this.savePrimaryQueue(queue);
-      console.log(`Incremented retry count for note ${noteUuid} to ${item.retryCount}`);
-      return true;
+
+      case 'transient':
+        item.retryCount += 1;
+        item.errorMessage = errorMessage;
+        item.errorStatus = status;
+
+        if (item.retryCount >= this.MAX_RETRY_COUNT) {
+          // Move to retry queue instead of removing
+          this.moveToRetryQueue(item, errorMessage);
+          return false;
+        }
+
+        item.nextAttemptAt = Date.now() + this.getBackoffDelay(item.retryCount);
+        this.savePrimaryQueue(queue);
+        console.log(`Retry ${item.retryCount} for note ${item.noteUuid} at ${new Date(item.nextAttemptAt).toLocaleTimeString()}`);
+        return true;
     }
-    
-    return false;
   }
 
   /**
-   * Get queue items grouped by action
+   * Move item from primary queue to the dead-letter queue, where it waits for the user
    */
-  static getPrimaryQueueByAction(): Record<string, QueueItem[]> {
-    const queue = this.getPrimaryQueue();
+  static moveToDeadLetterQueue(item: QueueItem, reason: string, status?: number): void {
+    this.removeOperations([item.operationId]);
+
+    // One entry per note: a note rejected again keeps the changes of both operations
+    const deadLetterQueue = this.getDeadLetterQueue();
+    const existing = deadLetterQueue.find(deadItem => deadItem.noteUuid === item.noteUuid);
+    const combined = existing ? coalesceOperations(existing, item) : item;
+    const remaining = deadLetterQueue.filter(deadItem => deadItem.noteUuid !== item.noteUuid);
+
+    if (!combined) {
+      this.saveDeadLetterQueue(remaining);
+      console.warn(`Dropped rejected operations of note ${item.noteUuid}: they cancel out`);
+      return;
+    }
+
+    const deadItem: DeadLetterItem = {
+      ...combined,
+      sentAt: undefined,
+      attemptedAt: undefined, // The server rejected it, so it can be combined again
+      nextAttemptAt: undefined,
+      errorMessage: reason,
+      errorStatus: status,
+      failedAt: Date.now(),
+      reason
+    };
+    this.saveDeadLetterQueue([...remaining, deadItem]);
+
+    console.warn(`Moved note ${item.noteUuid} to dead-letter queue: ${reason}`);
+  }
+
+  /**
+   * Pause the queue after an authentication failure. It resumes once the session
+   * token changes, i.e. after the user signs in again.
+   */
+  static pauseQueue(): void {
+    if (this.isPaused()) return;
+
+    const pause: QueuePause = {
+      reason: 'auth',
+      pausedAt: Date.now(),
+      tokenFingerprint: getTokenFingerprint(SessionManager.getToken())
+    };
+    localStorage.setItem(this.PAUSE_KEY, JSON.stringify(pause));
+    console.warn('Sync queue paused until the user signs in again');
+  }
+
+  /**
+   * Check whether the queue is paused for the current session
+   */
+  static isPaused(): boolean {
+    try {
+      const pauseData = localStorage.getItem(this.PAUSE_KEY);
+      if (!pauseData) return false;
+
+      const pause: QueuePause = JSON.parse(pauseData);
+      if (pause.tokenFingerprint === getTokenFingerprint(SessionManager.getToken())) return true;
+
+      // Signed in again since the pause
+      this.resumeQueue();
+      return false;
+    } catch (error) {
+      console.error('Failed to read sync queue pause:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Resume a paused queue
+   */
+  static resumeQueue(): void {
+    if (localStorage.getItem(this.PAUSE_KEY) === null) return;
+    localStorage.removeItem(this.PAUSE_KEY);
+    console.log('Sync queue resumed');
+  }
+
+  /**
+   * Get the operations to send next, grouped by action: the first operation of each
+   * note, since a note's operations are sent one at a time
+   * @param onlyDue - Leave out items still waiting for their backoff delay
+   */
+  static getPrimaryQueueByAction(onlyDue: boolean = false): Record<string, QueueItem[]> {
+    const now = Date.now();
+    const seen = new Set<string>();
+    const queue = this.getPrimaryQueue()
+      .filter(item => {
+        if (seen.has(item.noteUuid)) return false;
+        seen.add(item.noteUuid);
+        return true;
+      })
+      .filter(item => !onlyDue || !item.nextAttemptAt || item.nextAttemptAt <= now);
     return {
       create: queue.filter(item => item.action === 'create'),
       update: queue.filter(item => item.action === 'update'),
@@ -263,62 +737,122 @@ export class QueueManager {
    * Get combined queue statistics
    */
   static getQueueStats(): QueueStats {
-    const primaryQueue = this.getPrimaryQueue();
-    const retryQueue = this.getRetryQueue();
-    
     return {
-      primary: {
-        total: primaryQueue.length,
-        create: primaryQueue.filter(item => item.action === 'create').length,
-        update: primaryQueue.filter(item => item.action === 'update').length,
-        delete: primaryQueue.filter(item => item.action === 'delete').length
-      },
-      retry: {
-        total: retryQueue.length,
-        create: retryQueue.filter(item => item.action === 'create').length,
-        update: retryQueue.filter(item => item.action === 'update').length,
-        delete: retryQueue.filter(item => item.action === 'delete').length
-      }
+      primary: countByAction(this.getPrimaryQueue()),
+      retry: countByAction(this.getRetryQueue()),
+      deadLetter: countByAction(this.getDeadLetterQueue())
     };
   }
 
   /**
-   * Remove multiple items from primary queue (for successful batch operations)
+   * Mark operations as being sent, so later changes are queued after them instead of combined
    */
-  static removeMultipleFromPrimaryQueue(noteUuids: string[]): void {
+  static markInFlight(operationIds: string[]): void {
+    const now = Date.now();
     const queue = this.getPrimaryQueue();
-    const filteredQueue = queue.filter(item => !noteUuids.includes(item.noteUuid));
-    this.savePrimaryQueue(filteredQueue);
-    console.log(`Removed ${noteUuids.length} successful items from primary queue`);
+    queue.forEach(item => {
+      if (!operationIds.includes(item.operationId)) return;
+      item.sentAt = now;
+      item.attemptedAt = item.attemptedAt ?? now;
+    });
+    this.savePrimaryQueue(queue);
+  }
+
+  /**
+   * Clear in-flight marks left by a sync that never finished, e.g. a closed tab
+   */
+  static clearInFlight(): void {
+    const queue = this.getPrimaryQueue();
+    if (!queue.some(item => item.sentAt)) return;
+
+    this.savePrimaryQueue(queue.map(item => ({ ...item, sentAt: undefined })));
+  }
+
+  /**
+   * Check whether an operation of the note is being sent
+   */
+  static isInFlight(noteUuid: string): boolean {
+    return this.getPrimaryQueue().some(item => item.noteUuid === noteUuid && item.sentAt);
+  }
+
+  /**
+   * Check whether a note has queued operations other than the given one,
+   * i.e. changes made after the operation was sent
+   */
+  static hasNewerOperations(noteUuid: string, operationId?: string): boolean {
+    return [...this.getPrimaryQueue(), ...this.getRetryQueue()]
+      .some(item => item.noteUuid === noteUuid && item.operationId !== operationId);
+  }
+
+  /**
+   * Change the action of a note's pending operations, once the server state they were
+   * queued against has changed (a create already applied, a note deleted before its restore).
+   * They are sent as the whole note.
+   */
+  static replacePendingAction(noteUuid: string, from: QueueAction, to: QueueAction): void {
+    const replace = (queue: QueueItem[]) => {
+      let replaced = false;
+      queue.forEach(item => {
+        if (item.noteUuid === noteUuid && item.action === from && !item.sentAt) {
+          item.action = to;
+          item.changedFields = undefined;
+          item.operationId = uuidv4();
+          replaced = true;
+        }
+      });
+      return replaced;
+    };
+
+    const primaryQueue = this.getPrimaryQueue();
+    if (replace(primaryQueue)) this.savePrimaryQueue(primaryQueue);
+
+    const retryQueue = this.getRetryQueue();
+    if (replace(retryQueue)) this.saveRetryQueue(retryQueue);
   }
 
   /**
    * Handle batch sync results - remove successful, handle failed
+   * @param sent - The operations that were sent, to match results by note
    */
   static handleBatchSyncResult(
+    sent: Pick<QueueItem, 'noteUuid' | 'operationId'>[],
     successful: string[], 
-    failed: Array<{ noteUuid: string, error: string }>
+    failed: SyncFailure[]
   ): void {
-    // Remove successful items from primary queue
+    const operationIds = new Map(sent.map(item => [item.noteUuid, item.operationId]));
+
+    // Remove successful operations from primary queue
     if (successful.length > 0) {
-      this.removeMultipleFromPrimaryQueue(successful);
+      this.removeOperations(successful.map(noteUuid => operationIds.get(noteUuid)).filter((id): id is string => !!id));
+      console.log(`Removed ${successful.length} successful items from primary queue`);
     }
 
     // Handle failed items - increment retry count or move to retry queue
-    failed.forEach(({ noteUuid, error }) => {
-      const canRetry = this.handleFailedSync(noteUuid, error);
+    failed.forEach(({ noteUuid, error, status }) => {
+      const operationId = operationIds.get(noteUuid);
+      const canRetry = operationId ? this.handleFailedSync(operationId, error, status) : false;
       if (!canRetry) {
-        console.warn(`Note ${noteUuid} moved to retry queue after max retries`);
+        console.warn(`Note ${noteUuid} left the primary queue: ${error}`);
       }
     });
   }
 
+  /**
+   * Check whether a localStorage key holds a sync queue (or its pause), for `storage` events from other tabs.
+   * A null key means another tab cleared localStorage.
+   */
+  static isQueueStorageKey(key: string | null): boolean {
+    return key === null || [this.PRIMARY_QUEUE_KEY, this.RETRY_QUEUE_KEY, this.DEAD_LETTER_QUEUE_KEY, this.PAUSE_KEY].includes(key);
+  }
+
   /**
    * Clear all queues
    */
   static clearAllQueues(): void {
     localStorage.removeItem(this.PRIMARY_QUEUE_KEY);
     localStorage.removeItem(this.RETRY_QUEUE_KEY);
+    localStorage.removeItem(this.DEAD_LETTER_QUEUE_KEY);
+    localStorage.removeItem(this.PAUSE_KEY);
     console.log('Cleared all sync queues');
   }
 }
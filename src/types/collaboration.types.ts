@@ -0,0 +1,88 @@
+import { NoteSyncEvent } from './sync.types';
+
+// Viewers can follow a shared canvas live; editors can also move and edit its notes
+export type CanvasRole = 'viewer' | 'editor';
+
+// What a share covers: the owner's canvas of one date, or every note with a tag
+export type CanvasScope =
+  | { type: 'date'; date: string } // yyyy-MM-dd, as formatDateKey
+  | { type: 'tag'; tagUuid: string; tagName: string };
+
+export interface CanvasMember {
+  userId: number;
+  email: string;
+  displayName?: string;
+  photoUrl?: string;
+  role: CanvasRole;
+}
+
+export interface CanvasShare {
+  id: string;
+  ownerId: number;
+  ownerName: string;
+  scope: CanvasScope;
+  members: CanvasMember[];
+  createdAt: string;
+}
+
+// A user with a shared canvas open, as announced by the hub
+export interface CanvasViewer {
+  userId: number;
+  clientId: string; // One user can have the canvas open in several tabs
+  displayName: string;
+  photoUrl?: string;
+  role: CanvasRole | 'owner';
+}
+
+export interface RemoteCursor {
+  clientId: string;
+  x: number; // Canvas coordinates
+  y: number;
+  receivedAt: number;
+}
+
+// Where a teammate is dragging a note, before the drop is saved
+export interface RemoteDragPreview {
+  clientId: string;
+  noteUuid: string;
+  position: { x: number; y: number };
+}
+
+// A note being edited; other clients show it locked until it is released
+export interface NoteLock {
+  noteUuid: string;
+  clientId: string;
+  lockedAt: string;
+}
+
+// Hub events, scoped to one shared canvas
+export interface CanvasPresenceEvent {
+  shareId: string;
+  viewers: CanvasViewer[];
+  locks: NoteLock[];
+}
+
+export interface CursorMovedEvent {
+  shareId: string;
+  clientId: string;
+  x: number | null; // Null when the pointer left the canvas
+  y: number | null;
+}
+
+export interface NoteDragPreviewEvent {
+  shareId: string;
+  clientId: string;
+  noteUuid: string;
+  position: { x: number; y: number } | null; // Null when the drag ended
+}
+
+export interface NoteLockChangedEvent {
+  shareId: string;
+  lock: NoteLock | null; // Null when the note was released
+  noteUuid: string;
+}
+
+// A change to a note of a shared canvas, sent to the members viewing it
+export interface SharedNotesChangedEvent extends NoteSyncEvent {
+  shareId: string;
+}
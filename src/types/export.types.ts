@@ -0,0 +1,70 @@
+import { Note } from '@/domains/note';
+import { TaskPriority } from '@/domains/noteTask';
+
+export type ExportFormat = 'json' | 'markdown' | 'csv';
+
+/**
+ * Which notes to export. Ranges are inclusive; recurring notes are included
+ * when any of their occurrences falls inside the scope.
+ */
+export type ExportScope =
+  | { type: 'date'; date: Date }
+  | { type: 'range'; from: Date; to: Date }
+  | { type: 'all' };
+
+export interface ArchivedTask {
+  uuid: string;
+  text: string;
+  completed: boolean;
+  dueDate: string | null; // ISO date string format
+  reminderMinutes: number | null;
+  parentUuid?: string | null; // Tasks are listed parents first, in order
+  priority?: TaskPriority | null;
+  assignee?: string | null;
+}
+
+/**
+ * A note as written to a JSON archive. Dates are ISO strings and tags are stored by name,
+ * since tag IDs belong to the exporting account.
+ */
+export interface ArchivedNote {
+  uuid: string;
+  title: string;
+  content: string;
+  date: string; // ISO date string format
+  color: string;
+  position: { x: number; y: number };
+  width?: number | null; // Card size, null = default size
+  height?: number | null;
+  isPinned: boolean;
+  isDisplayed: boolean;
+  isTaskMode: boolean;
+  tasks: ArchivedTask[];
+  tags: string[];
+  recurrenceRule: string | null; // Same format as the API, see CreateNoteRequest
+  occurrenceCompletions: Record<string, string[]> | null;
+  dueDate: string | null; // ISO date string format
+  reminderMinutes: number | null;
+  createdAt: string; // ISO date string format
+  updatedAt: string; // ISO date string format
+}
+
+export interface NotesArchive {
+  app: 'draggy-notes';
+  version: number;
+  exportedAt: string; // ISO date string format
+  notes: ArchivedNote[];
+}
+
+export interface ExportFile {
+  filename: string;
+  blob: Blob;
+  noteCount: number;
+}
+
+export interface ImportResult {
+  /** Created notes, with new UUIDs */
+  notes: Note[];
+  /** Tag names that did not exist yet and were created */
+  createdTags: string[];
+}
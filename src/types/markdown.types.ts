@@ -0,0 +1,39 @@
+/**
+ * Inline Markdown: plain text, `code`, **strong**, *em*, ~~strike~~, [links](https://...) and line breaks
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'strike'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export interface MarkdownListItem {
+  /** Null for plain items, true/false for `- [x]` and `- [ ]` checkboxes */
+  checked: boolean | null;
+  /** Source line of the item (0-based), used to toggle its checkbox */
+  line: number;
+  children: MarkdownInline[];
+  /** Indented content under the item, such as a nested list */
+  blocks: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language: string; code: string }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'blockquote'; blocks: MarkdownBlock[] }
+  | { type: 'rule' };
+
+export type CodeTokenType = 'plain' | 'keyword' | 'literal' | 'string' | 'number' | 'comment' | 'function';
+
+/**
+ * Highlighted piece of a fenced code block
+ */
+export interface CodeToken {
+  text: string;
+  type: CodeTokenType;
+}
@@ -0,0 +1,19 @@
+/**
+ * A note or a single task that has a due date, flattened for reminders and the upcoming list
+ */
+export interface DueItem {
+  /** Stable key of the item: `<noteUuid>:note` or `<noteUuid>:<taskUuid>` */
+  key: string;
+  noteUuid: string;
+  /** Set when the item is a task of the note */
+  taskUuid: string | null;
+  /** Note title, or the task text for tasks */
+  title: string;
+  /** Title of the note the item belongs to */
+  noteTitle: string;
+  /** Canvas date of the note, used to jump to it */
+  noteDate: Date;
+  dueDate: Date;
+  reminderMinutes: number | null;
+  completed: boolean;
+}
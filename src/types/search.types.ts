@@ -0,0 +1,48 @@
+import { Note } from '@/domains/note';
+
+/**
+ * Inclusive date range from a date: operator; a missing side is open-ended
+ */
+export interface SearchDateRange {
+  from: Date | null;
+  to: Date | null;
+}
+
+/**
+ * A search box query split into free text and structured filters.
+ * Example: `"weekly sync" budget tag:work color:blue date:2026-10..2026-11 is:pinned has:incomplete`
+ */
+export interface ParsedSearchQuery {
+  /** Normalized single words, matched by prefix */
+  terms: string[];
+  /** Normalized quoted phrases, matched exactly */
+  phrases: string[];
+  /** Normalized tag names from tag: */
+  tags: string[];
+  /** Color names or hex values from color: */
+  colors: string[];
+  dateRange: SearchDateRange | null;
+  isPinned: boolean;
+  isTask: boolean;
+  hasIncomplete: boolean;
+  /** Free text (terms and phrases) as typed, sent to the server search */
+  text: string;
+}
+
+/**
+ * Part of a snippet; highlighted parts are the matched words
+ */
+export interface SearchSnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface NoteSearchResult {
+  note: Note;
+  score: number;
+  /** Where the best snippet came from */
+  field: 'title' | 'content' | 'task' | 'tag';
+  snippet: SearchSnippetPart[];
+  /** True when the note came from the server search instead of the local index */
+  fromServer?: boolean;
+}
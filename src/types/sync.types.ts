@@ -1,5 +1,13 @@
+import { Note } from '@/domains/note';
+import { TaskPriority } from '@/domains/noteTask';
+import { BatchSyncResult } from '@/services/api/models/notes.model';
+
+// One queued operation. The queue is an ordered log: a note's operations are sent
+// one at a time, and a pending operation absorbs later ones for the same note.
 export interface QueueItem {
-  noteUuid: string;
+  operationId: string; // Sent with the request so a retried operation is applied once
+  noteUuid: string; // UUID of the note, or of the connector or frame for their operations
+  entityType?: SyncEntityType; // Missing means a note
   action: 'create' | 'update' | 'delete';
   timestamp: number;
   retryCount: number;
@@ -7,6 +15,40 @@ export interface QueueItem {
   errorMessage?: string;
   localVersion?: number;
   syncVersion?: number;
+  serverId?: number; // Set for deletes of notes already purged locally
+  nextAttemptAt?: number; // Earliest time of the next attempt, after a failure
+  errorStatus?: number; // HTTP status of the last failure, if any
+  changedFields?: NoteSyncField[]; // Fields an update sends; missing means the whole note
+  sentAt?: number; // Set while the operation is in a request; such operations are not coalesced
+  attemptedAt?: number; // Set when first sent and kept after failures: the server may have applied it, so it is never coalesced
+}
+
+// Records synced through the queue; connectors and frames are sent in the same batch requests as notes
+export type SyncEntityType = 'note' | 'connector' | 'frame';
+
+// Note fields that can be sent on their own in an update
+export type NoteSyncField = MergeableNoteField | 'tasks';
+
+// How a failed sync attempt is handled: transient errors are retried with backoff,
+// permanent ones move to the dead-letter list, auth failures pause the queue
+export type SyncErrorKind = 'transient' | 'permanent' | 'auth';
+
+export interface SyncFailure {
+  noteUuid: string;
+  error: string;
+  status?: number; // HTTP status, when the server answered
+}
+
+// A queue item the server rejected; it is not sent again until the user retries it
+export interface DeadLetterItem extends QueueItem {
+  failedAt: number;
+  reason: string;
+}
+
+export interface QueuePause {
+  reason: 'auth';
+  pausedAt: number;
+  tokenFingerprint: string | null; // The queue resumes once the session token changes
 }
 
 export interface QueueStats {
@@ -22,6 +64,12 @@ export interface QueueStats {
     update: number;
     delete: number;
   };
+  deadLetter: {
+    total: number;
+    create: number;
+    update: number;
+    delete: number;
+  };
 }
 
 // SignalR Real-time Sync Types
@@ -36,14 +84,25 @@ export interface NoteSyncEvent {
     date: string;
     color: string;
     position: { x: number; y: number };
+    width?: number | null;
+    height?: number | null;
+    frameUuid?: string | null;
     isDisplayed: boolean;
     isPinned: boolean;
     isTaskMode: boolean;
     tasks: Array<{
       id: number;
-      content: string;
-      isCompleted: boolean;
+      uuid?: string;
+      content?: string;
+      text?: string;
+      isCompleted?: boolean;
+      completed?: boolean;
       order: number;
+      parentUuid?: string | null;
+      priority?: TaskPriority | null;
+      assignee?: string | null;
+      dueDate?: string | null;
+      reminderMinutes?: number | null;
     }>;
     tags: Array<{
       id: number;
@@ -57,6 +116,53 @@ export interface NoteSyncEvent {
   clientId?: string;
 }
 
+// Cross-tab messages
+export type TabMessage =
+  | { type: 'notesChanged'; noteUuids: string[] }
+  | { type: 'syncRequested' };
+
+export interface TabEnvelope {
+  tabId: string;
+  message: TabMessage;
+}
+
+// Background sync through the service worker
+export interface BackgroundSyncRequest {
+  action: QueueItem['action'];
+  method: 'POST' | 'PUT' | 'DELETE';
+  url: string;
+  body: string;
+  noteUuids: string[];
+  operationIds: string[];
+}
+
+export interface BackgroundSyncOutbox {
+  userId: number;
+  token: string;
+  clientId: string;
+  requests: BackgroundSyncRequest[];
+  createdAt: string;
+}
+
+export interface BackgroundSyncResponse {
+  action: QueueItem['action'];
+  noteUuids: string[];
+  operationIds: string[];
+  status: number;
+  result: BatchSyncResult | null;
+}
+
+export interface BackgroundSyncResults {
+  userId: number;
+  responses: BackgroundSyncResponse[];
+}
+
+// Messages between the service worker and open pages
+export type ServiceWorkerMessage =
+  | { type: 'flushQueue' }
+  | { type: 'queueFlushed'; remaining: number }
+  | { type: 'backgroundSyncCompleted' };
+
 export interface SignalRConnectionState {
   isConnected: boolean;
   isConnecting: boolean;
@@ -70,4 +176,52 @@ export interface RealTimeSyncStatus {
   connectionState: SignalRConnectionState;
   lastEventReceived?: Date;
   eventsProcessed: number;
-}
\ No newline at end of file
+}
+
+// Three-way merge types
+export type MergeableNoteField =
+  | 'title'
+  | 'content'
+  | 'date'
+  | 'color'
+  | 'position'
+  | 'isPinned'
+  | 'isDisplayed'
+  | 'isTaskMode'
+  | 'isDeleted'
+  | 'recurrence'
+  | 'occurrenceCompletions'
+  | 'dueDate'
+  | 'reminderMinutes'
+  | 'width'
+  | 'height'
+  | 'frameUuid'
+  | 'tags';
+
+export interface NoteFieldConflict {
+  field: MergeableNoteField | 'task';
+  taskUuid?: string; // Set when field is 'task'
+}
+
+export interface NoteMergeResult {
+  merged: Note;
+  conflicts: NoteFieldConflict[];
+  hasLocalChanges: boolean; // Merged note differs from the server version and must be pushed
+}
+
+export interface NoteConflict {
+  noteUuid: string;
+  base: Note | null;
+  local: Note;
+  server: Note;
+  fields: NoteFieldConflict[];
+  detectedAt: Date;
+}
+
+// Conflict resolution types
+export type ConflictResolutionChoice = 'local' | 'server';
+
+/**
+ * Chosen side per conflicting field, keyed by field name or `task:<uuid>` for tasks
+ */
+export type ConflictResolution = Record<string, ConflictResolutionChoice>;